@@ -10,6 +10,14 @@ import Landing from "./pages/Landing";
 import Dashboard from "./pages/Dashboard";
 import Tasks from "./pages/Tasks";
 import Profile from "./pages/Profile";
+import Leaderboard from "./pages/Leaderboard";
+import Squads from "./pages/Squads";
+import JoinSquad from "./pages/JoinSquad";
+import Chat from "./pages/Chat";
+import Review from "./pages/Review";
+import Challenges from "./pages/Challenges";
+import PublicProfile from "./pages/PublicProfile";
+import Stats from "./pages/Stats";
 
 function AppInner() {
   const [session, setSession] = useState<Session | null | undefined>(undefined);
@@ -35,7 +43,16 @@ function AppInner() {
       >
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/tasks" element={<Tasks />} />
+        <Route path="/leaderboard" element={<Leaderboard />} />
+        <Route path="/squads" element={<Squads />} />
+        <Route path="/join/:code" element={<JoinSquad />} />
+        <Route path="/chat" element={<Chat />} />
+        <Route path="/chat/:roomId" element={<Chat />} />
+        <Route path="/review" element={<Review />} />
+        <Route path="/challenges" element={<Challenges />} />
+        <Route path="/stats" element={<Stats />} />
         <Route path="/profile" element={<Profile />} />
+        <Route path="/u/:userId" element={<PublicProfile />} />
       </Route>
 
       {/* 404 */}
@@ -0,0 +1,57 @@
+// src/api/achievements.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type AchievementMetric = "completions" | "streak" | "weekly_top" | "upvotes_received";
+
+/** A rule from the achievements table; new badges are rows, not client code. */
+export type Achievement = {
+  key: string;
+  name: string;
+  description: string;
+  icon: string; // emoji
+  metric: AchievementMetric;
+  threshold: number;
+  position: number;
+};
+
+export type EarnedAchievement = {
+  user_id: string;
+  achievement_key: string;
+  ledger_id: string | null; // feed post; null if awarded quietly
+  earned_at: string;
+};
+
+/** Active rules, in shelf order. */
+export async function fetchAchievements() {
+  const { data, error } = await supabase
+    .from("achievements")
+    .select("key,name,description,icon,metric,threshold,position")
+    .eq("active", true)
+    .order("position")
+    .order("key");
+  if (error) throw error;
+  return (data ?? []) as Achievement[];
+}
+
+/** What a player has earned, keyed by achievement key. */
+export async function fetchEarnedAchievements(userId: string) {
+  const { data, error } = await supabase
+    .from("user_achievements")
+    .select("*")
+    .eq("user_id", userId);
+  if (error) throw error;
+  const map: Record<string, EarnedAchievement> = {};
+  for (const e of (data ?? []) as EarnedAchievement[]) map[e.achievement_key] = e;
+  return map;
+}
+
+/** The caller's count on each rule's metric, keyed by achievement key. */
+export async function fetchMyAchievementProgress() {
+  const { data, error } = await supabase.rpc("my_achievement_progress");
+  if (error) throw error;
+  const map: Record<string, number> = {};
+  for (const p of (data ?? []) as { achievement_key: string; progress: number }[]) {
+    map[p.achievement_key] = p.progress;
+  }
+  return map;
+}
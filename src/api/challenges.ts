@@ -0,0 +1,118 @@
+// src/api/challenges.ts
+import { supabase } from "../lib/supabaseClient";
+
+// most_xp = most XP between joining and the deadline; task_race = get the same task approved in time
+export type ChallengeKind = "most_xp" | "task_race";
+
+export type ChallengeStatus = "pending" | "active" | "resolved" | "cancelled" | "declined" | "expired";
+
+export type ChallengeResult = "won" | "lost" | "draw";
+
+export type ChallengeParticipant = {
+  user_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  status: "invited" | "accepted" | "declined";
+  result: ChallengeResult | null;
+  task_title: string | null; // task_race entry (the race task)
+  score: number | null;      // live until resolved, for entrants only; null unless accepted
+};
+
+/** A row of my_challenges: a challenge the caller created or was invited to. */
+export type Challenge = {
+  id: string;
+  creator_id: string;
+  kind: ChallengeKind;
+  title: string;
+  squad_id: string | null;
+  squad_name: string | null;
+  stake: number; // XP each entrant puts in
+  starts_at: string;
+  ends_at: string;
+  status: ChallengeStatus;
+  resolved_at: string | null;
+  created_at: string;
+  my_status: ChallengeParticipant["status"];
+  my_result: ChallengeResult | null;
+  participants: ChallengeParticipant[];
+  task_title: string | null;       // task_race: the task every entrant completes
+  task_description: string | null;
+};
+
+/** Mirrors challenge_max_stake() / challenge_max_length(). */
+export const MAX_CHALLENGE_STAKE = 100;
+export const MAX_CHALLENGE_DAYS = 31;
+
+export const CHALLENGE_KIND_LABELS: Record<ChallengeKind, string> = {
+  most_xp: "Most XP",
+  task_race: "Task race",
+};
+
+/** Open challenges first, then newest. */
+export async function fetchMyChallenges() {
+  const { data, error } = await supabase
+    .from("my_challenges")
+    .select("*")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  const open = (c: Challenge) => (c.status === "pending" || c.status === "active" ? 0 : 1);
+  return ((data ?? []) as Challenge[]).sort((a, b) => open(a) - open(b));
+}
+
+export async function createChallenge(input: {
+  kind: ChallengeKind;
+  title: string;
+  endsAt: string; // ISO
+  stake: number;
+  opponentId?: string | null;
+  squadId?: string | null;
+  taskId?: string | null; // task_race: the creator's open task everyone races on
+}) {
+  const { data, error } = await supabase
+    .rpc("create_challenge", {
+      p_kind: input.kind,
+      p_title: input.title.trim(),
+      p_ends_at: input.endsAt,
+      p_stake: input.stake,
+      p_opponent_id: input.opponentId ?? null,
+      p_squad_id: input.squadId ?? null,
+      p_task_id: input.taskId ?? null,
+    })
+    .single();
+  if (error) throw error;
+  return data as { id: string };
+}
+
+/** Accepting pays the stake; a task race also adds the race task to your list, due at the deadline. */
+export async function respondToChallenge(challengeId: string, accept: boolean) {
+  const { error } = await supabase.rpc("respond_to_challenge", {
+    p_challenge_id: challengeId,
+    p_accept: accept,
+  });
+  if (error) throw error;
+}
+
+/** Creator only, until someone accepts; the stake comes back. */
+export async function cancelChallenge(challengeId: string) {
+  const { error } = await supabase.rpc("cancel_challenge", { p_challenge_id: challengeId });
+  if (error) throw error;
+}
+
+/** Pay out challenges past their deadline (the scheduled job does this too). */
+export async function resolveDueChallenges() {
+  const { data, error } = await supabase.rpc("resolve_due_challenges");
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
+
+/** The caller's open one-off tasks, soonest first: what a task race can be about. */
+export async function fetchMyOpenTasks() {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("id,title,due_at")
+    .eq("status", "open")
+    .is("series_id", null)
+    .order("due_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as { id: string; title: string; due_at: string }[];
+}
@@ -0,0 +1,148 @@
+// src/api/chat.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type ChatRoomKind = "global" | "squad" | "dm" | "post";
+
+/** A row of the my_chat_rooms view (only rooms the caller can read). */
+export type ChatRoom = {
+  id: string;
+  kind: ChatRoomKind;
+  squad_id: string | null;
+  ledger_id: string | null;
+  other_user_id: string | null; // DMs: the other player
+  title: string;
+  other_avatar_url: string | null;
+  last_message_at: string | null;
+  unread: number;
+};
+
+export type PlayerHit = { id: string; display_name: string | null; avatar_url: string | null };
+
+const KIND_ORDER: Record<ChatRoomKind, number> = { global: 0, squad: 1, dm: 2, post: 3 };
+
+/** Global first, then squads, then by latest message. */
+export async function fetchMyRooms() {
+  const { data, error } = await supabase.from("my_chat_rooms").select("*");
+  if (error) throw error;
+  return ((data ?? []) as ChatRoom[]).sort(
+    (a, b) =>
+      Math.min(KIND_ORDER[a.kind], 2) - Math.min(KIND_ORDER[b.kind], 2) ||
+      (b.last_message_at ?? "").localeCompare(a.last_message_at ?? "")
+  );
+}
+
+/** The global room, or a squad's room. */
+export async function fetchScopeRoom(squadId: string | null) {
+  const base = supabase.from("chat_rooms").select("id");
+  const { data, error } = await (squadId
+    ? base.eq("kind", "squad").eq("squad_id", squadId)
+    : base.eq("kind", "global")
+  ).maybeSingle();
+  if (error) throw error;
+  return (data?.id as string | undefined) ?? null;
+}
+
+/** Get-or-create the DM room with another player; returns its id. */
+export async function openDm(userId: string) {
+  const { data, error } = await supabase.rpc("open_dm", { p_user_id: userId }).single();
+  if (error) throw error;
+  return (data as { id: string }).id;
+}
+
+/** Get-or-create the discussion room under an activity post; returns its id. */
+export async function openPostRoom(ledgerId: string) {
+  const { data, error } = await supabase.rpc("open_post_room", { p_ledger_id: ledgerId }).single();
+  if (error) throw error;
+  return (data as { id: string }).id;
+}
+
+export async function markRoomRead(roomId: string) {
+  const { error } = await supabase.rpc("mark_room_read", { p_room_id: roomId });
+  if (error) throw error;
+}
+
+/** Name search for starting a DM. */
+export async function findPlayers(query: string, excludeId?: string | null) {
+  const q = query.trim().replace(/[%_,()]/g, "");
+  if (!q) return [];
+  let req = supabase
+    .from("profiles")
+    .select("id,display_name,avatar_url")
+    .ilike("display_name", `%${q}%`)
+    .limit(6);
+  if (excludeId) req = req.neq("id", excludeId);
+  const { data, error } = await req;
+  if (error) throw error;
+  return (data ?? []) as PlayerHit[];
+}
+
+/* ---------- messages ---------- */
+/** A row of chat_messages_view; content is null once deleted. */
+export type ChatMessage = {
+  id: string;
+  room_id: string;
+  user_id: string;
+  content: string | null;
+  created_at: string;
+  display_name: string | null;
+  user_avatar_url: string | null;
+  reply_to_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_content: string | null;      // quoted parent (null if deleted)
+  reply_display_name: string | null;
+  kind: "message" | "achievement"; // achievement: server announcement in the player's name
+};
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * One page, newest first; pass the oldest loaded message to scroll back. The
+ * cursor is (created_at, id) so messages sharing a timestamp aren't skipped.
+ */
+export async function fetchMessages(roomId: string, before?: Pick<ChatMessage, "created_at" | "id">) {
+  let req = supabase
+    .from("chat_messages_view")
+    .select("*")
+    .eq("room_id", roomId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE);
+  if (before) {
+    const at = `"${before.created_at}"`;
+    req = req.or(`created_at.lt.${at},and(created_at.eq.${at},id.lt.${before.id})`);
+  }
+  const { data, error } = await req;
+  if (error) throw error;
+  return (data ?? []) as ChatMessage[];
+}
+
+export async function fetchMessage(id: string) {
+  const { data, error } = await supabase
+    .from("chat_messages_view")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ChatMessage | null) ?? null;
+}
+
+/** user_id defaults to auth.uid(); replies must quote a message in the same room. */
+export async function sendMessage(roomId: string, content: string, replyToId?: string | null) {
+  const { error } = await supabase
+    .from("chat_messages")
+    .insert({ room_id: roomId, content, reply_to_id: replyToId ?? null });
+  if (error) throw error;
+}
+
+/** Authors only (edit_chat_message checks). */
+export async function editMessage(id: string, content: string) {
+  const { error } = await supabase.rpc("edit_chat_message", { p_message_id: id, p_content: content });
+  if (error) throw error;
+}
+
+/** Soft delete: the row stays so replies keep their place. */
+export async function deleteMessage(id: string) {
+  const { error } = await supabase.rpc("delete_chat_message", { p_message_id: id });
+  if (error) throw error;
+}
@@ -0,0 +1,61 @@
+// src/api/leaderboard.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type LeaderboardWindow = "day" | "week" | "month" | "season" | "all";
+
+export type LeaderboardRow = {
+  user_id: string;
+  xp: number;
+  vote_xp: number; // part of xp that came from votes on their posts
+  rank: number;
+  prev_rank: number | null; // rank in the previous window; null = no XP there
+  total: number;
+};
+
+export type Season = { id: string; name: string; starts_at: string; ends_at: string };
+
+export const WINDOW_LABELS: Record<LeaderboardWindow, string> = {
+  day: "Today",
+  week: "This week",
+  month: "This month",
+  season: "Season",
+  all: "All-time",
+};
+
+/**
+ * Aggregated server-side by the leaderboard RPC (weeks start Monday).
+ * With a squadId only its members rank, on XP earned since they joined.
+ */
+export async function fetchLeaderboard({
+  window, seasonId, squadId, limit, offset,
+}: {
+  window: LeaderboardWindow;
+  seasonId?: string | null;
+  squadId?: string | null;
+  limit: number;
+  offset: number;
+}) {
+  const { data, error } = await supabase.rpc("leaderboard", {
+    p_window: window,
+    p_season_id: seasonId ?? null,
+    p_limit: limit,
+    p_offset: offset,
+    p_squad_id: squadId ?? null,
+  });
+  if (error) throw error;
+  const rows = (data ?? []) as LeaderboardRow[];
+  return { rows, total: rows[0]?.total ?? 0 };
+}
+
+/** The running season, else the most recent one that has started. */
+export async function fetchCurrentSeason() {
+  const { data, error } = await supabase
+    .from("seasons")
+    .select("id,name,starts_at,ends_at")
+    .lte("starts_at", new Date().toISOString())
+    .order("starts_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as Season | null) ?? null;
+}
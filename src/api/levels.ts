@@ -0,0 +1,47 @@
+// src/api/levels.ts
+import { supabase } from "../lib/supabaseClient";
+
+/** Rank tiers from level_tier(); "red" is a negative XP total (level 0). */
+export type Tier = "red" | "bronze" | "silver" | "gold" | "platinum" | "diamond";
+
+/**
+ * A row of users_xp: total XP and the level it puts the player at. The XP
+ * fields are null when the player's profile is hidden from the caller.
+ */
+export type UserLevel = {
+  user_id: string;
+  xp: number | null;
+  level: number;
+  tier: Tier;
+  level_xp: number | null;      // XP where the current level starts; null in the red
+  next_level_xp: number | null; // XP where the next level starts (0 = out of the red)
+};
+
+export const TIERS: Record<Tier, { name: string; badge: string; bar: string }> = {
+  red: { name: "In the red", badge: "border-rose-400/40 bg-rose-500/15 text-rose-200", bar: "bg-rose-400" },
+  bronze: { name: "Bronze", badge: "border-amber-700/50 bg-amber-800/25 text-amber-300", bar: "bg-amber-600" },
+  silver: { name: "Silver", badge: "border-slate-300/40 bg-slate-300/15 text-slate-100", bar: "bg-slate-300" },
+  gold: { name: "Gold", badge: "border-yellow-300/40 bg-yellow-400/15 text-yellow-200", bar: "bg-yellow-400" },
+  platinum: { name: "Platinum", badge: "border-cyan-200/40 bg-cyan-300/15 text-cyan-100", bar: "bg-cyan-300" },
+  diamond: { name: "Diamond", badge: "border-violet-300/40 bg-violet-400/15 text-violet-100", bar: "bg-violet-400" },
+};
+
+/** Levels for a page of users, keyed by user id. */
+export async function fetchLevels(userIds: string[]) {
+  const map: Record<string, UserLevel> = {};
+  if (!userIds.length) return map;
+  const { data, error } = await supabase
+    .from("users_xp")
+    .select("*")
+    .in("user_id", userIds);
+  if (error) throw error;
+  for (const l of (data ?? []) as UserLevel[]) map[l.user_id] = l;
+  return map;
+}
+
+/** 0..1 through the current level; always 0 in the red, which has no floor to measure from, or when hidden. */
+export function levelProgress({ xp, level_xp, next_level_xp }: UserLevel) {
+  if (xp == null || level_xp == null || next_level_xp == null) return 0;
+  const span = next_level_xp - level_xp;
+  return span > 0 ? Math.min(1, Math.max(0, (xp - level_xp) / span)) : 1;
+}
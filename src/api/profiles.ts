@@ -0,0 +1,74 @@
+// src/api/profiles.ts
+import { supabase } from "../lib/supabaseClient";
+import type { Tier } from "./levels";
+import type { ProofAttachment } from "./proofs";
+
+// who sees your XP, streak, feed posts and leaderboard spot, and the stats on /u/:id
+export type ProfileVisibility = "everyone" | "squads" | "private";
+
+export const VISIBILITY_LABELS: Record<ProfileVisibility, string> = {
+  everyone: "Everyone",
+  squads: "Squadmates",
+  private: "Only me",
+};
+
+/** A row of public_profiles; the stats are null unless visible. */
+export type PublicProfile = {
+  id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  created_at: string;
+  profile_visibility: ProfileVisibility;
+  level: number;
+  tier: Tier;
+  visible: boolean;
+  total_xp: number | null;
+  weekly_xp: number | null;
+  current_streak: number | null;
+  longest_streak: number | null;
+  completed_count: number | null;
+  missed_count: number | null;
+  top_categories: { category: string; count: number }[] | null;
+};
+
+/** A completion post from profile_completions (an xp_ledger_view row). */
+export type ProfileCompletion = {
+  id: string;
+  created_at: string;
+  delta: number;
+  task_title: string | null;
+  step_title: string | null;
+  proof_note: string | null;
+  attachments: ProofAttachment[];
+  vote_xp: number;
+};
+
+/** Route of a player's public profile. */
+export function profilePath(userId: string) {
+  return `/u/${encodeURIComponent(userId)}`;
+}
+
+export async function fetchPublicProfile(userId: string) {
+  const { data, error } = await supabase
+    .from("public_profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as PublicProfile | null) ?? null;
+}
+
+/** Latest completions with proofs; empty when the profile is hidden from the caller. */
+export async function fetchProfileCompletions(userId: string, limit = 12) {
+  const { data, error } = await supabase.rpc("profile_completions", { p_user_id: userId, p_limit: limit });
+  if (error) throw error;
+  return (data ?? []) as ProfileCompletion[];
+}
+
+export async function setProfileVisibility(userId: string, visibility: ProfileVisibility) {
+  const { error } = await supabase
+    .from("profiles")
+    .update({ profile_visibility: visibility })
+    .eq("id", userId);
+  if (error) throw error;
+}
@@ -0,0 +1,99 @@
+// src/api/proofs.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type ProofStatus = "pending" | "approved" | "rejected";
+export type ProofVerdict = "approve" | "reject";
+export type ProofFlag = "duplicate" | "capture_time" | "no_hash" | "no_capture_time";
+
+export const PROOF_FLAG_LABELS: Record<ProofFlag, string> = {
+  duplicate: "Looks like an earlier proof",
+  capture_time: "Photo taken outside the task window",
+  no_hash: "Photo couldn't be fingerprinted",
+  no_capture_time: "Photo has no capture time",
+};
+
+/** One photo or video clip of a proof, in display order. */
+export type ProofAttachment = {
+  id: string;
+  kind: "photo" | "video";
+  url: string;
+  thumb_url: string | null; // photo thumbnail, or a video's poster frame
+  duration_ms: number | null; // videos
+  captured_at?: string | null; // photos with EXIF (proof_queue only)
+};
+
+/** A row of the proof_queue view: the caller's own proofs plus their squadmates'. */
+export type QueuedProof = {
+  id: string;
+  task_id: string;
+  task_title: string;
+  xp_assigned: number;
+  user_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  attachments: ProofAttachment[];
+  note: string | null;
+  status: ProofStatus;
+  submitted_at: string;
+  review_ends_at: string;
+  decided_at: string | null;
+  decision_reason: string | null;
+  approvals: number;
+  rejections: number;
+  quorum: number; // approvals (or rejections) that decide early; 0 = no reviewers
+  my_verdict: ProofVerdict | null;
+  my_reason: string | null;
+  can_review: boolean;
+  flags: ProofFlag[]; // uncleared authenticity flags
+  duplicate_thumb_url: string | null; // the earlier proof it resembles
+  step_id: string | null; // set when the proof checks off one checklist step
+  step_title: string | null;
+  step_xp: number | null; // that step's share of xp_assigned
+};
+
+export async function fetchProofQueue({
+  userId,
+  status,
+  limit = 50,
+}: {
+  userId?: string;
+  status?: ProofStatus[];
+  limit?: number;
+} = {}) {
+  let query = supabase
+    .from("proof_queue")
+    .select("*")
+    .order("submitted_at", { ascending: false })
+    .limit(limit);
+  if (userId) query = query.eq("user_id", userId);
+  if (status?.length) query = query.in("status", status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as QueuedProof[];
+}
+
+/** Squadmates only; a rejection needs a reason. Returns the proof's new status. */
+export async function reviewProof(proofId: string, verdict: ProofVerdict, reason?: string) {
+  const { data, error } = await supabase
+    .rpc("review_proof", {
+      p_proof_id: proofId,
+      p_verdict: verdict,
+      p_reason: reason ?? null,
+    })
+    .single();
+  if (error) throw error;
+  return (data as { status: ProofStatus }).status;
+}
+
+/** Decide every proof whose review window has closed; returns how many. */
+export async function settleDueProofs() {
+  const { data, error } = await supabase.rpc("settle_due_proofs");
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
+
+/** A squadmate vouches for a flagged proof; the "suspicious" badge goes away. */
+export async function clearProofFlags(proofId: string) {
+  const { error } = await supabase.rpc("clear_proof_flags", { p_proof_id: proofId });
+  if (error) throw error;
+}
@@ -0,0 +1,97 @@
+// src/api/series.ts
+import { supabase } from "../lib/supabaseClient";
+import { invokeFunction } from "../lib/edgeFunctions";
+import type { Recurrence, SeriesRule } from "../lib/recurrence";
+import type { TaskRow } from "./tasks";
+
+export type TaskSeries = SeriesRule & {
+  id: string;
+  owner_id: string;
+  title: string;
+  description: string | null;
+  est_minutes: number | null;
+  difficulty: number | null;
+  xp_assigned: number; // cached: occurrences aren't re-scored
+  appeal_count: number; // changed scores from title/description edits, capped like a task's appeals
+  xp_rationale: string | null;
+  xp_scorer: string | null;
+  category: string | null;
+  due_time: string; // HH:MM:SS in `timezone`
+  timezone: string;
+  created_at: string;
+};
+
+type SeriesResponse = { series: TaskSeries; tasks: TaskRow[] };
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** Scored once by create-task; the first occurrence is due at `dueAtISO`. */
+export async function createSeries({
+  title, description, dueAtISO, minutes, difficulty, recurrence,
+}: {
+  title: string;
+  description?: string;
+  dueAtISO: string;
+  minutes?: number;
+  difficulty?: number;
+  recurrence: Recurrence;
+}) {
+  return invokeFunction<SeriesResponse>("create-task", {
+    title,
+    description,
+    due_at: dueAtISO,
+    minutes,
+    difficulty,
+    recurrence,
+    timezone: browserTimezone(),
+  });
+}
+
+/**
+ * Whole-series edit; a title/description change re-scores the series (a changed
+ * score uses an appeal). Occurrences edited or moved on their own keep those changes.
+ */
+export async function updateSeries(
+  seriesId: string,
+  patch: { title?: string; description?: string; recurrence?: Recurrence; dueTime?: string }
+) {
+  return invokeFunction<SeriesResponse>("update-series", {
+    series_id: seriesId,
+    title: patch.title,
+    description: patch.description,
+    recurrence: patch.recurrence,
+    due_time: patch.dueTime,
+    timezone: patch.dueTime ? browserTimezone() : undefined,
+  });
+}
+
+export async function fetchMySeries(userId: string) {
+  const { data, error } = await supabase
+    .from("task_series")
+    .select("*")
+    .eq("owner_id", userId)
+    .eq("active", true);
+  if (error) throw error;
+  return (data ?? []) as TaskSeries[];
+}
+
+/** Skip one upcoming occurrence (generated or not); it won't be generated again. Not once it's due. */
+export async function skipOccurrence(seriesId: string, occurrenceDate: string) {
+  const { error } = await supabase.rpc("skip_occurrence", {
+    p_series_id: seriesId,
+    p_date: occurrenceDate,
+  });
+  if (error) throw error;
+}
+
+/** End the series today; future open occurrences are removed. */
+export async function endSeries(seriesId: string) {
+  const { error } = await supabase.rpc("end_series", { p_series_id: seriesId });
+  if (error) throw error;
+}
+
+/** Materialize upcoming occurrences for the signed-in user. */
+export async function generateMyOccurrences() {
+  const { error } = await supabase.rpc("generate_my_occurrences");
+  if (error) throw error;
+}
@@ -0,0 +1,82 @@
+// src/api/squads.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type SquadRole = "owner" | "member";
+
+export type Squad = {
+  id: string;
+  name: string;
+  owner_id: string;
+  invite_code: string;
+  created_at: string;
+};
+
+export type SquadMember = {
+  squad_id: string;
+  user_id: string;
+  role: SquadRole;
+  joined_at: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  last_seen_at: string | null;
+};
+
+/** Link that lands on /join/:code (JoinSquad page). */
+export function inviteLink(code: string) {
+  return `${window.location.origin}/join/${encodeURIComponent(code)}`;
+}
+
+/** Squads the caller belongs to (RLS hides the rest). */
+export async function fetchMySquads() {
+  const { data, error } = await supabase
+    .from("squads")
+    .select("id,name,owner_id,invite_code,created_at")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as Squad[];
+}
+
+export async function fetchSquadMembers(squadId: string) {
+  const { data, error } = await supabase
+    .from("squad_members_view")
+    .select("*")
+    .eq("squad_id", squadId)
+    .order("joined_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as SquadMember[];
+}
+
+export async function createSquad(name: string) {
+  const { data, error } = await supabase.rpc("create_squad", { p_name: name }).single();
+  if (error) throw error;
+  return data as Squad;
+}
+
+export async function joinSquad(inviteCode: string) {
+  const { data, error } = await supabase.rpc("join_squad", { p_invite_code: inviteCode }).single();
+  if (error) throw error;
+  return data as Squad;
+}
+
+/** Owners hand the squad to the longest-standing member; last one out deletes it. */
+export async function leaveSquad(squadId: string) {
+  const { error } = await supabase.rpc("leave_squad", { p_squad_id: squadId });
+  if (error) throw error;
+}
+
+export async function removeSquadMember(squadId: string, userId: string) {
+  const { error } = await supabase.rpc("remove_squad_member", {
+    p_squad_id: squadId,
+    p_user_id: userId,
+  });
+  if (error) throw error;
+}
+
+/** Owner only; the old code and link stop working. */
+export async function regenerateInviteCode(squadId: string) {
+  const { data, error } = await supabase
+    .rpc("regenerate_squad_invite", { p_squad_id: squadId })
+    .single();
+  if (error) throw error;
+  return data as Squad;
+}
@@ -0,0 +1,46 @@
+// src/api/stats.ts
+import { supabase } from "../lib/supabaseClient";
+
+/** Inclusive days (YYYY-MM-DD) in the player's timezone; null = since joining / today. */
+export type StatsRange = { from: string | null; to: string | null };
+
+export type DailyXp = { day: string; xp: number; cumulative: number };
+
+/** weekday is ISO: 1 = Monday … 7 = Sunday. Only cells with XP come back. */
+export type HeatmapCell = { weekday: number; hour: number; xp: number; entries: number };
+
+/** finished is false for the week in progress. */
+export type WeekXp = { week_start: string; xp: number; finished: boolean };
+
+/** category null = all graded tasks in the range. */
+export type TaskScores = { category: string | null; completed: number; missed: number; avg_score: number | null };
+
+/** Mirrors stats_max_days(). */
+export const MAX_STATS_DAYS = 1096;
+
+const params = (r: StatsRange) => ({ p_from: r.from, p_to: r.to });
+
+export async function fetchDailyXp(range: StatsRange) {
+  const { data, error } = await supabase.rpc("my_xp_daily", params(range));
+  if (error) throw error;
+  return (data ?? []) as DailyXp[];
+}
+
+export async function fetchXpHeatmap(range: StatsRange) {
+  const { data, error } = await supabase.rpc("my_xp_heatmap", params(range));
+  if (error) throw error;
+  return (data ?? []) as HeatmapCell[];
+}
+
+export async function fetchWeeklyXp(range: StatsRange) {
+  const { data, error } = await supabase.rpc("my_xp_weeks", params(range));
+  if (error) throw error;
+  return (data ?? []) as WeekXp[];
+}
+
+/** The total row first, then categories by task count. */
+export async function fetchTaskScores(range: StatsRange) {
+  const { data, error } = await supabase.rpc("my_task_scores", params(range));
+  if (error) throw error;
+  return (data ?? []) as TaskScores[];
+}
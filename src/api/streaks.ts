@@ -0,0 +1,58 @@
+// src/api/streaks.ts
+import { supabase } from "../lib/supabaseClient";
+
+export type UserStreak = {
+  user_id: string;
+  current_streak: number;
+  longest_streak: number;
+  last_active_day: string | null; // yyyy-mm-dd, user's timezone
+  done_today: boolean;
+  at_risk: boolean;               // alive through yesterday, nothing done today
+  streak_freezes: number;
+};
+
+export type StreakEvent = {
+  id: string;
+  user_id: string;
+  kind: "break" | "freeze_used" | "freeze_earned";
+  day: string;
+  streak_length: number;
+  created_at: string;
+};
+
+/** Streaks for a page of users, keyed by user id. */
+export async function fetchStreaks(userIds: string[]) {
+  const map: Record<string, UserStreak> = {};
+  if (!userIds.length) return map;
+  const { data, error } = await supabase
+    .from("user_streaks")
+    .select("*")
+    .in("user_id", userIds);
+  if (error) throw error;
+  for (const s of (data ?? []) as UserStreak[]) map[s.user_id] = s;
+  return map;
+}
+
+export async function fetchStreakEvents(userId: string, limit = 5) {
+  const { data, error } = await supabase
+    .from("streak_events")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as StreakEvent[];
+}
+
+/** Streak days are counted in the user's timezone; keep it in sync with the browser. */
+export async function syncMyTimezone(userId: string) {
+  const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!tz) return;
+  const { error } = await supabase
+    .from("profiles")
+    .update({ timezone: tz })
+    .eq("id", userId)
+    .neq("timezone", tz);
+  // a zone Postgres doesn't know (check_timezone) keeps the one already stored
+  if (error && error.code !== "22023") throw error;
+}
@@ -1,36 +1,302 @@
 // src/api/tasks.ts
 import { supabase } from "../lib/supabaseClient";
+import { invokeFunction } from "../lib/edgeFunctions";
+import { PROOF_IMAGE, PROOF_THUMB, processImageVariants } from "../lib/images";
+import { probeVideo } from "../lib/video";
 
+// pending = proof submitted, waiting on squad review; rejected = proof turned down
+export type TaskStatus = "open" | "pending" | "completed" | "rejected" | "missed" | "skipped";
+
+export type TaskRow = {
+  id: string;
+  owner_id: string;
+  title: string;
+  description: string | null;
+  due_at: string; // ISO
+  xp_assigned: number;
+  xp_rationale: string | null;
+  xp_scorer: string | null;
+  category: string | null; // keyword category, set when scored
+  est_minutes: number | null;
+  difficulty: number | null;
+  appeal_count: number;
+  series_id: string | null;
+  occurrence_date: string | null; // yyyy-mm-dd
+  status: TaskStatus;
+  completed_at: string | null;
+  created_at: string;
+  postpone_count: number;
+  penalty_xp: number | null; // set when graded missed; 0 = no penalty
+};
+
+const PROOF_BUCKET = "task-proofs";
+const VIDEO_BUCKET = "proof-videos";
+const ORIGINALS_BUCKET = "proof-originals"; // private; submit-proof reads EXIF there, then deletes
+
+/** Times a task's due date can be pushed later (enforced by reschedule_task). */
+export const MAX_POSTPONES = 2;
+
+/** Open tasks become missed this long after their due time (missed_task_grace). */
+export const MISSED_GRACE_MINUTES = 60;
+
+/** XP lost for missing a task; mirrors missed_task_penalty. Negative-XP tasks cost nothing. */
+export function missedPenalty(xp: number) {
+  return xp > 0 ? -Math.ceil(xp / 2) : 0;
+}
+
+/** Checklist length (enforced by set_task_steps). */
+export const MAX_TASK_STEPS = 10;
+
+/**
+ * XP a checklist step earns; mirrors task_step_xp. The shares add up to the
+ * task's XP, earlier steps carrying the remainder.
+ */
+export function stepXp(xp: number, steps: number, position: number) {
+  const whole = Math.abs(xp);
+  return Math.sign(xp) * (Math.floor(whole / steps) + (position < whole % steps ? 1 : 0));
+}
+
+/**
+ * XP still at stake on a task, what missing it is charged on; mirrors
+ * task_unproven_xp. With a checklist, only the steps without live proof count.
+ */
+export function unprovenXp(xp: number, steps: Pick<TaskStep, "xp" | "proof_status">[]) {
+  if (!steps.length) return xp;
+  return steps.filter((s) => !s.proof_status || s.proof_status === "rejected").reduce((n, s) => n + s.xp, 0);
+}
+
+/** Proof limits (enforced by apply_task_proof and the proof-videos bucket). */
+export const MAX_PROOF_PHOTOS = 4;
+export const MAX_PROOF_VIDEO_MB = 25;
+export const MAX_PROOF_VIDEO_SECONDS = 30;
+export const MAX_PROOF_NOTE = 500;
+
+/** Scored + inserted server-side by the create-task edge function. */
 export async function createTask({
-  userId, title, description, dueAtISO, minutes = 10, difficulty = 3,
+  title, description, dueAtISO, minutes, difficulty,
 }: {
-  userId: string;
   title: string;
   description?: string;
   dueAtISO: string;
   minutes?: number;     // optional sliders
   difficulty?: number;  // 1..5
 }) {
-  // 1) get XP from edge function (GPT-powered)
-  const { data: xpResp, error: fnErr } = await supabase.functions.invoke("xp-assign", {
-    body: { title, description, minutes, difficulty },
+  const { task } = await invokeFunction<{ task: TaskRow }>("create-task", {
+    title,
+    description,
+    due_at: dueAtISO,
+    minutes,
+    difficulty,
   });
-  if (fnErr) throw fnErr;
-  const xp = xpResp?.xp ?? 10;
+  return task; // includes xp_assigned so you can show “Worth X XP”
+}
+
+/** Re-scores allowed per task: task_max_appeals(), enforced by apply_task_rescore. */
+export async function fetchMaxAppeals() {
+  const { data, error } = await supabase.rpc("task_max_appeals");
+  if (error) throw error;
+  return data as number;
+}
+
+/** Owner adds context and asks for a re-score; returns the updated task. */
+export async function appealTaskScore(taskId: string, context: string) {
+  const { task } = await invokeFunction<{ task: TaskRow }>("appeal-task", {
+    task_id: taskId,
+    context,
+  });
+  return task;
+}
 
-  // 2) insert the task
+/** Fix an open task's wording; xp-assign re-scores it. Returns the updated task. */
+export async function editTask(taskId: string, { title, description }: { title: string; description?: string }) {
+  const { task } = await invokeFunction<{ task: TaskRow }>("xp-assign", {
+    task_id: taskId,
+    title,
+    description,
+  });
+  return task;
+}
+
+/**
+ * Move an open task (e.g. one occurrence of a series) to a new due time in the
+ * future. Moving it later uses up one of its MAX_POSTPONES.
+ */
+export async function rescheduleTask(taskId: string, dueAtISO: string) {
   const { data, error } = await supabase
-    .from("tasks")
-    .insert({
-      owner_id: userId,
-      title,
-      description,
-      due_at: dueAtISO,
-      xp_assigned: xp,
-    })
-    .select()
+    .rpc("reschedule_task", { p_task_id: taskId, p_due_at: dueAtISO })
     .single();
+  if (error) throw error;
+  return data as TaskRow;
+}
+
+/** Open, one-off tasks with no XP history only; recurring ones are skipped instead. */
+export async function deleteTask(taskId: string) {
+  const { error } = await supabase.rpc("delete_task", { p_task_id: taskId });
+  if (error) throw error;
+}
+
+/**
+ * Back to open: an approved completion has its XP reversed, and the proof is
+ * deleted along with its uploads.
+ */
+export async function uncompleteTask(taskId: string) {
+  const { data, error } = await supabase.rpc("uncomplete_task", { p_task_id: taskId });
+  if (error) throw error;
+
+  // best effort: the proof row is already gone
+  const media = (data ?? []) as { url: string; thumb_url: string | null }[];
+  const paths = (bucket: string) =>
+    media
+      .flatMap((m) => [m.url, m.thumb_url])
+      .map((u) => u?.split(`/object/public/${bucket}/`)[1])
+      .filter((p): p is string => !!p);
+  await Promise.all(
+    [PROOF_BUCKET, VIDEO_BUCKET].map(async (bucket) => {
+      const files = paths(bucket);
+      if (files.length) await supabase.storage.from(bucket).remove(files);
+    })
+  ).catch((e) => console.error("Failed to remove proof uploads:", e));
+}
+
+export type TaskChange = {
+  id: string;
+  task_id: string;
+  action: "edit" | "reschedule" | "delete" | "uncomplete" | "steps";
+  before: Record<string, unknown>;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+/** Audit trail of one task's edits, reschedules and undos, newest first. */
+export async function fetchTaskChanges(taskId: string) {
+  const { data, error } = await supabase
+    .from("task_changes")
+    .select("id, task_id, action, before, after, created_at")
+    .eq("task_id", taskId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as TaskChange[];
+}
+
+/** A row of task_steps_view: one checklist item and where its proof stands. */
+export type TaskStep = {
+  id: string;
+  task_id: string;
+  position: number;
+  title: string;
+  xp: number; // this step's share of the task's XP
+  proof_id: string | null;
+  proof_status: "pending" | "approved" | "rejected" | null;
+};
 
+/** All of the caller's checklist steps, in order. */
+export async function fetchMyTaskSteps() {
+  const { data, error } = await supabase
+    .from("task_steps_view")
+    .select("*")
+    .order("position", { ascending: true });
   if (error) throw error;
-  return data; // includes xp_assigned so you can show “Worth X XP”
+  return (data ?? []) as TaskStep[];
+}
+
+/** Replace an open task's checklist; [] removes it. Locked once a step has proof. */
+export async function setTaskSteps(taskId: string, titles: string[]) {
+  const { error } = await supabase.rpc("set_task_steps", {
+    p_task_id: taskId,
+    p_titles: titles.map((t) => t.trim()).filter(Boolean),
+  });
+  if (error) throw error;
+}
+
+/** What a player attaches when completing a task. */
+export type ProofSubmission = {
+  photos: File[];
+  video?: File | null;
+  note?: string;
+};
+
+/**
+ * Process each photo (HEIC → JPEG, downscale, strip EXIF), upload it with a
+ * square thumbnail, upload the clip with a poster frame, and submit it all for
+ * review. The task goes to "pending"; XP is credited once the proof is approved
+ * (see api/proofs). Returns the proof id.
+ * The untouched originals go to a private bucket so the submit-proof edge
+ * function can read capture times and fingerprint the photos for the duplicate
+ * / timing checks; an exact re-use of an earlier proof photo is refused. They
+ * carry the full EXIF (GPS included), so they go up last, right before
+ * submit-proof, and are removed again if anything fails; a scheduled sweep
+ * catches whatever is left behind.
+ * Tasks with a checklist are completed one `step` at a time instead; the task
+ * only goes to "pending" once every step has proof.
+ */
+export async function completeTaskWithProof(
+  task: TaskRow,
+  { photos, video, note }: ProofSubmission,
+  step?: TaskStep
+) {
+  if (!photos.length && !video) throw new Error("Add a photo or a video");
+  if (photos.length > MAX_PROOF_PHOTOS) throw new Error(`Up to ${MAX_PROOF_PHOTOS} photos per proof`);
+  if (video && video.size > MAX_PROOF_VIDEO_MB * 1024 * 1024) {
+    throw new Error(`Videos can be at most ${MAX_PROOF_VIDEO_MB} MB`);
+  }
+  const clip = video ? await probeVideo(video) : null;
+  if (clip && clip.durationMs > MAX_PROOF_VIDEO_SECONDS * 1000) {
+    throw new Error(`Videos can be at most ${MAX_PROOF_VIDEO_SECONDS} seconds`);
+  }
+
+  const base = `${task.owner_id}/${task.id}/${step ? `${step.position}_` : ""}${Date.now()}`;
+  const upload = async (bucket: string, path: string, blob: Blob, contentType: string) => {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, blob, { cacheControl: "3600", contentType, upsert: false });
+    if (error) throw error;
+    return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  };
+
+  const attachments: Record<string, unknown>[] = [];
+
+  for (let i = 0; i < photos.length; i++) {
+    const { full, thumb } = await processImageVariants(photos[i], { full: PROOF_IMAGE, thumb: PROOF_THUMB });
+    attachments.push({
+      kind: "photo",
+      url: await upload(PROOF_BUCKET, `${base}_${i}.jpg`, full, "image/jpeg"),
+      thumb_url: await upload(PROOF_BUCKET, `${base}_${i}_thumb.jpg`, thumb, "image/jpeg"),
+    });
+  }
+
+  if (video && clip) {
+    const ext = video.name.split(".").pop()?.toLowerCase() || "mp4";
+    attachments.push({
+      kind: "video",
+      duration_ms: clip.durationMs,
+      url: await upload(VIDEO_BUCKET, `${base}.${ext}`, video, video.type || "video/mp4"),
+      thumb_url: await upload(PROOF_BUCKET, `${base}_poster.jpg`, clip.poster, "image/jpeg"),
+    });
+  }
+
+  // the untouched files, EXIF and all; processing stripped it from the others
+  const originals: string[] = [];
+  try {
+    for (let i = 0; i < photos.length; i++) {
+      const file = photos[i];
+      const originalPath = `${base}_${i}_original.${file.name.split(".").pop()?.toLowerCase() || "jpg"}`;
+      originals.push(originalPath);
+      await upload(ORIGINALS_BUCKET, originalPath, file, file.type || "application/octet-stream");
+      attachments[i].original_path = originalPath;
+    }
+
+    // fingerprints + capture times are read server-side, then the task is marked
+    // pending and the proof queued in one transaction
+    const { proof_id } = await invokeFunction<{ proof_id: string }>("submit-proof", {
+      task_id: task.id,
+      attachments,
+      note: note?.trim() || null,
+      step_id: step?.id ?? null,
+    });
+    return proof_id;
+  } catch (err) {
+    // submit-proof removes them itself once it got this far; this covers the rest
+    await supabase.storage.from(ORIGINALS_BUCKET).remove(originals);
+    throw err;
+  }
 }
@@ -0,0 +1,91 @@
+// src/components/AchievementShelf.tsx
+import React, { useEffect, useState } from "react";
+import {
+  fetchAchievements,
+  fetchEarnedAchievements,
+  fetchMyAchievementProgress,
+} from "../api/achievements";
+import type { Achievement, EarnedAchievement } from "../api/achievements";
+
+/** Every active badge: earned ones lit with the date, the rest dimmed (with progress on your own shelf). */
+export default function AchievementShelf({
+  userId,
+  showProgress = false,
+  className = "",
+}: {
+  userId: string;
+  showProgress?: boolean; // only for the signed-in player's own shelf
+  className?: string;
+}) {
+  const [rules, setRules] = useState<Achievement[]>([]);
+  const [earned, setEarned] = useState<Record<string, EarnedAchievement>>({});
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      const [r, e, p] = await Promise.all([
+        fetchAchievements().catch(() => [] as Achievement[]),
+        fetchEarnedAchievements(userId).catch(() => ({} as Record<string, EarnedAchievement>)),
+        showProgress ? fetchMyAchievementProgress().catch(() => ({})) : Promise.resolve({}),
+      ]);
+      if (!alive) return;
+      setRules(r);
+      setEarned(e);
+      setProgress(p);
+      setLoading(false);
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [userId, showProgress]);
+
+  if (!loading && !rules.length) return null;
+  const count = rules.filter((a) => earned[a.key]).length;
+
+  return (
+    <div className={className}>
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-semibold">Badges</h3>
+        {!loading && (
+          <span className="text-[11px] text-white/60">
+            {count} / {rules.length}
+          </span>
+        )}
+      </div>
+
+      <ul className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {loading
+          ? [0, 1, 2].map((i) => <li key={i} className="h-[72px] rounded-2xl bg-white/10 animate-pulse" />)
+          : rules.map((a) => {
+              const got = earned[a.key];
+              const have = progress[a.key];
+              return (
+                <li
+                  key={a.key}
+                  title={a.description}
+                  className={[
+                    "rounded-2xl border p-3",
+                    got ? "border-amber-300/30 bg-amber-300/10" : "border-white/10 bg-white/[0.03]",
+                  ].join(" ")}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className={`text-xl leading-none ${got ? "" : "grayscale opacity-40"}`}>{a.icon}</span>
+                    <span className={`text-sm font-semibold truncate ${got ? "" : "text-white/60"}`}>{a.name}</span>
+                  </div>
+                  <div className="mt-1 text-[11px] text-white/50">
+                    {got
+                      ? `Earned ${new Date(got.earned_at).toLocaleDateString()}`
+                      : have != null
+                      ? `${Math.min(have, a.threshold)} / ${a.threshold}`
+                      : a.description}
+                  </div>
+                </li>
+              );
+            })}
+      </ul>
+    </div>
+  );
+}
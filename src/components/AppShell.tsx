@@ -1,19 +1,152 @@
 // src/components/AppShell.tsx
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { NavLink, Outlet } from "react-router-dom";
 import { supabase } from "../lib/supabaseClient";
+import { syncMyTimezone } from "../api/streaks";
+import { fetchMySquads } from "../api/squads";
+import type { Squad } from "../api/squads";
+import { SQUAD_STORAGE_KEY } from "../lib/squadContext";
+import type { SquadContext } from "../lib/squadContext";
+import SquadSwitcher from "./SquadSwitcher";
+import OnlineStrip from "./OnlineStrip";
+import LevelProgress from "./LevelProgress";
+import { fetchLevels } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+import { touchLastSeen, trackPresence, useOnlineUsers } from "../lib/presence";
 
 type Item = { to: string; label: string; icon: string };
 
 const items: Item[] = [
   { to: "/dashboard", label: "Dashboard", icon: "🏠" },
   { to: "/tasks", label: "Tasks", icon: "📝" },
+  { to: "/review", label: "Review", icon: "✅" },
+  { to: "/leaderboard", label: "Leaderboard", icon: "🏆" },
+  { to: "/challenges", label: "Challenges", icon: "⚔️" },
+  { to: "/stats", label: "Stats", icon: "📈" },
+  { to: "/squads", label: "Squads", icon: "👥" },
+  { to: "/chat", label: "Chat", icon: "💬" },
   { to: "/profile", label: "Profile", icon: "👤" },
 ];
 
 export default function AppShell() {
   const [menuOpen, setMenuOpen] = useState(false);
 
+  // selected squad scopes the leaderboard, feed, chat and reactions
+  const [squads, setSquads] = useState<Squad[]>([]);
+  const [squadId, setSquadIdState] = useState<string | null>(
+    () => localStorage.getItem(SQUAD_STORAGE_KEY) || null
+  );
+
+  const setSquadId = useCallback((id: string | null) => {
+    setSquadIdState(id);
+    if (id) localStorage.setItem(SQUAD_STORAGE_KEY, id);
+    else localStorage.removeItem(SQUAD_STORAGE_KEY);
+  }, []);
+
+  const reloadSquads = useCallback(async () => {
+    const list = await fetchMySquads();
+    setSquads(list);
+    // drop a remembered squad we're no longer in
+    setSquadIdState((cur) => (cur && !list.some((s) => s.id === cur) ? null : cur));
+    return list;
+  }, []);
+
+  useEffect(() => {
+    reloadSquads().catch((e) => console.error(e));
+  }, [reloadSquads]);
+
+  const squad = squads.find((s) => s.id === squadId) ?? null;
+  const squadContext: SquadContext = { squads, squadId, squad, setSquadId, reloadSquads };
+
+  // streak days are counted in the user's timezone
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => {
+      if (data.user) syncMyTimezone(data.user.id).catch((e) => console.error(e));
+    });
+  }, []);
+
+  // realtime presence: joined once for the whole app, kept across tab switches
+  const presence = useRef<ReturnType<typeof trackPresence> | null>(null);
+  const squadIds = squads.map((s) => s.id).join(",");
+  const latestSquadIds = useRef(squadIds);
+  latestSquadIds.current = squadIds;
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (!data.user || !alive) return;
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("display_name, avatar_url")
+        .eq("id", data.user.id)
+        .maybeSingle();
+      if (!alive) return;
+      presence.current = trackPresence(
+        {
+          user_id: data.user.id,
+          display_name: prof?.display_name ?? null,
+          avatar_url: prof?.avatar_url ?? null,
+        },
+        latestSquadIds.current ? latestSquadIds.current.split(",") : []
+      );
+    })();
+    return () => {
+      alive = false;
+      presence.current?.stop();
+      presence.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    presence.current?.setSquads(squadIds ? squadIds.split(",") : []);
+  }, [squadIds]);
+
+  // last seen: on load, every few minutes while visible, and when hidden
+  useEffect(() => {
+    const touch = () => touchLastSeen().catch((e) => console.error(e));
+    touch();
+    const timer = setInterval(() => !document.hidden && touch(), 5 * 60_000);
+    const onVisibility = () => document.hidden && touch();
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, []);
+
+  // level bar: refreshed whenever the caller's ledger moves
+  const [myLevel, setMyLevel] = useState<UserLevel | null>(null);
+  useEffect(() => {
+    let alive = true;
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      const uid = data.user?.id;
+      if (!uid || !alive) return;
+      const load = () =>
+        fetchLevels([uid])
+          .then((map) => alive && setMyLevel(map[uid] ?? null))
+          .catch((e) => console.error(e));
+      await load();
+      if (!alive) return;
+      channel = supabase
+        .channel(`my_level_${uid}`)
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "xp_ledger", filter: `user_id=eq.${uid}` },
+          () => void load()
+        )
+        .subscribe();
+    })();
+    return () => {
+      alive = false;
+      if (channel) void supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const onlineHere = useOnlineUsers(squadId);
+
   const handleSignOut = async () => {
     try {
       const { error } = await supabase.auth.signOut();
@@ -44,10 +177,18 @@ export default function AppShell() {
       <aside className="hidden md:flex md:flex-col md:w-64 md:fixed md:inset-y-0 md:left-0 border-r border-white/5 bg-white/5 backdrop-blur">
         <div className="p-4">
           <div className="text-lg font-semibold tracking-tight">Jock Squad XP Farm</div>
+          <LevelProgress level={myLevel} compact className="mt-3" />
         </div>
+        <SquadSwitcher
+          squads={squads}
+          value={squadId}
+          onChange={setSquadId}
+          className="px-3 pb-3"
+        />
+        <OnlineStrip users={onlineHere} className="px-4 pb-3" />
         <nav className="flex-1 px-3 space-y-1">
           {items.map((it) => (
-            <NavLink key={it.to} to={it.to} className={linkClasses} end>
+            <NavLink key={it.to} to={it.to} className={linkClasses}>
               <span className="text-lg">{it.icon}</span>
               <span className="truncate">{it.label}</span>
             </NavLink>
@@ -87,12 +228,22 @@ export default function AppShell() {
         {/* Mobile dropdown menu */}
         {menuOpen && (
           <nav className="px-3 pb-3 grid gap-1">
+            <SquadSwitcher
+              squads={squads}
+              value={squadId}
+              onChange={(id) => {
+                setSquadId(id);
+                setMenuOpen(false);
+              }}
+              className="mb-2"
+            />
+            <LevelProgress level={myLevel} compact className="px-1 pb-2" />
+            <OnlineStrip users={onlineHere} className="px-1 pb-2" />
             {items.map((it) => (
               <NavLink
                 key={it.to}
                 to={it.to}
                 className={linkClasses}
-                end
                 onClick={() => setMenuOpen(false)}
               >
                 <span className="text-lg">{it.icon}</span>
@@ -113,19 +264,18 @@ export default function AppShell() {
       <div className="md:pl-64">
         <main className="px-4 sm:px-6 lg:px-8 py-6 md:py-8 pb-24 md:pb-10">
           <div className="mx-auto max-w-6xl">
-            <Outlet />
+            <Outlet context={squadContext} />
           </div>
         </main>
       </div>
 
       {/* Mobile bottom tab bar */}
       <nav className="md:hidden fixed bottom-0 inset-x-0 z-40 border-t border-white/10 bg-slate-950/80 backdrop-blur">
-        <ul className="grid grid-cols-3">
+        <ul className="grid" style={{ gridTemplateColumns: `repeat(${items.length}, minmax(0, 1fr))` }}>
           {items.map((it) => (
             <li key={it.to}>
               <NavLink
                 to={it.to}
-                end
                 className={({ isActive }) =>
                   [
                     "flex flex-col items-center justify-center py-2 text-xs",
@@ -0,0 +1,159 @@
+// src/components/AvatarCropper.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { AVATAR_IMAGE, decodableBlob, processImage } from "../lib/images";
+
+type Props = {
+  file: File;
+  onCancel: () => void;
+  onConfirm: (jpeg: Blob) => Promise<void>;
+};
+
+const VIEW = 240; // px, square viewport
+const MAX_ZOOM = 3;
+
+/** Drag to position, slide to zoom; the square in the viewport becomes the avatar. */
+export default function AvatarCropper({ file, onCancel, onConfirm }: Props) {
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [dims, setDims] = useState<{ w: number; h: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // HEIC needs converting before the browser can show it
+  useEffect(() => {
+    let alive = true;
+    let url: string | null = null;
+    decodableBlob(file)
+      .then((b) => {
+        if (!alive) return;
+        url = URL.createObjectURL(b);
+        setBlob(b);
+        setSrc(url);
+      })
+      .catch(() => alive && setErr("Couldn't read that photo"));
+    return () => {
+      alive = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  const size = dims ? Math.min(dims.w, dims.h) / zoom : 0; // crop side in source px
+  const scale = size ? VIEW / size : 1;
+
+  const clampCenter = (c: { x: number; y: number }, side = size) =>
+    dims
+      ? {
+          x: Math.min(dims.w - side / 2, Math.max(side / 2, c.x)),
+          y: Math.min(dims.h - side / 2, Math.max(side / 2, c.y)),
+        }
+      : c;
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const dx = (e.clientX - drag.current.x) / scale;
+    const dy = (e.clientY - drag.current.y) / scale;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setCenter((c) => clampCenter({ x: c.x - dx, y: c.y - dy }));
+  };
+  const onPointerUp = () => (drag.current = null);
+
+  const changeZoom = (z: number) => {
+    setZoom(z);
+    if (dims) setCenter((c) => clampCenter(c, Math.min(dims.w, dims.h) / z));
+  };
+
+  const save = async () => {
+    if (!blob || !dims) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      const jpeg = await processImage(blob, {
+        ...AVATAR_IMAGE,
+        crop: { x: center.x - size / 2, y: center.y - size / 2, size },
+      });
+      await onConfirm(jpeg);
+    } catch (e: any) {
+      setErr(e.message ?? "Upload failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-3 justify-items-start">
+      <div
+        className="relative overflow-hidden rounded-full ring-2 ring-white/20 bg-slate-900 touch-none cursor-grab active:cursor-grabbing select-none"
+        style={{ width: VIEW, height: VIEW }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        {src ? (
+          <img
+            src={src}
+            alt="Avatar preview"
+            draggable={false}
+            onLoad={(e) => {
+              const img = e.currentTarget;
+              setDims({ w: img.naturalWidth, h: img.naturalHeight });
+              setCenter({ x: img.naturalWidth / 2, y: img.naturalHeight / 2 });
+            }}
+            className="absolute max-w-none pointer-events-none"
+            style={
+              dims
+                ? {
+                    width: dims.w * scale,
+                    height: dims.h * scale,
+                    left: -(center.x - size / 2) * scale,
+                    top: -(center.y - size / 2) * scale,
+                  }
+                : { opacity: 0 }
+            }
+          />
+        ) : (
+          <div className="absolute inset-0 grid place-items-center text-sm text-white/60">Loading…</div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-white/60">
+        Zoom
+        <input
+          type="range"
+          min={1}
+          max={MAX_ZOOM}
+          step={0.01}
+          value={zoom}
+          onChange={(e) => changeZoom(Number(e.target.value))}
+          className="w-40"
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={save}
+          disabled={busy || !dims}
+          className="rounded-xl bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-4 py-2 disabled:opacity-60"
+        >
+          {busy ? "Uploading…" : "Save photo"}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={busy}
+          className="rounded-xl border border-white/15 bg-white/[0.06] hover:bg-white/[0.1] px-4 py-2 text-white disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {err && <span className="text-rose-400 text-sm">{err}</span>}
+    </div>
+  );
+}
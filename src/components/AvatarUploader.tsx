@@ -1,11 +1,12 @@
 import React, { useRef, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
+import AvatarCropper from "./AvatarCropper";
 
 type Props = {
   userId: string;
   currentPath?: string | null;
   onUpdated: (newPath: string) => void;
-  maxSizeMB?: number;
+  maxSizeMB?: number; // of the picked original; what's uploaded is a 512px JPEG
 };
 
 const AVATAR_BUCKET = "avatars";
@@ -14,52 +15,49 @@ export default function AvatarUploader({
   userId,
   currentPath,
   onUpdated,
-  maxSizeMB = 5,
+  maxSizeMB = 20,
 }: Props) {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const [picked, setPicked] = useState<File | null>(null); // waiting in the cropper
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
 
   const openPicker = () => inputRef.current?.click();
 
-  const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     e.target.value = "";
 
-    if (file.size > (maxSizeMB ?? 5) * 1024 * 1024) {
+    if (file.size > (maxSizeMB ?? 20) * 1024 * 1024) {
       setErr(`File must be ≤ ${maxSizeMB}MB`);
       return;
     }
-
-    setLoading(true);
     setErr(null);
-    try {
-      const ext = (file.name.split(".").pop() || "jpg").toLowerCase();
-      const filename = `${crypto.randomUUID()}.${ext}`;
-      const path = `${userId}/${filename}`;
-
-      const { error: upErr } = await supabase.storage
-        .from(AVATAR_BUCKET)
-        .upload(path, file, {
-          upsert: true,
-          contentType: file.type,
-          cacheControl: "3600",
-        });
-      if (upErr) throw upErr;
-
-      const { error: updErr } = await supabase
-        .from("profiles")
-        .update({ avatar_url: path })
-        .eq("id", userId);
-      if (updErr) throw updErr;
-
-      onUpdated(path);
-    } catch (e: any) {
-      setErr(e.message ?? "Upload failed");
-    } finally {
-      setLoading(false);
-    }
+    setPicked(file);
+  };
+
+  // cropped, resized and EXIF-free (see AvatarCropper / lib/images); errors show in the cropper
+  const upload = async (jpeg: Blob) => {
+    const path = `${userId}/${crypto.randomUUID()}.jpg`;
+
+    const { error: upErr } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(path, jpeg, {
+        upsert: true,
+        contentType: "image/jpeg",
+        cacheControl: "3600",
+      });
+    if (upErr) throw upErr;
+
+    const { error: updErr } = await supabase
+      .from("profiles")
+      .update({ avatar_url: path })
+      .eq("id", userId);
+    if (updErr) throw updErr;
+
+    setPicked(null);
+    onUpdated(path);
   };
 
   const clearAvatar = async () => {
@@ -75,12 +73,16 @@ export default function AvatarUploader({
     }
   };
 
+  if (picked) {
+    return <AvatarCropper file={picked} onCancel={() => setPicked(null)} onConfirm={upload} />;
+  }
+
   return (
     <div className="flex flex-wrap items-center gap-3">
       <input
         ref={inputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,.heic,.heif"
         className="hidden"
         onChange={onFileChange}
       />
@@ -6,6 +6,7 @@ type Task = {
   due_at: string;            // ISO datetime
   status?: string | null;    // "completed" | "open" | null
   completed_at?: string | null;
+  recurring?: boolean;       // occurrence of a repeating task
 };
 
 export type CalendarProps = {
@@ -201,7 +202,10 @@ export default function Calendar({
                   key={t.id}
                   className="flex items-center justify-between rounded-xl border border-white/10 bg-white/[0.05] px-3 py-2"
                 >
-                  <span className="truncate pr-3">{t.title}</span>
+                  <span className="truncate pr-3">
+                    {t.recurring && <span className="mr-1.5 text-sky-300/80" title="Repeats">↻</span>}
+                    {t.title}
+                  </span>
                   <span className="text-white/70 text-sm">{time}</span>
                 </li>
               );
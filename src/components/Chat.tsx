@@ -0,0 +1,503 @@
+// src/components/Chat.tsx
+import React from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { Link } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Avatar from "./Avatar"; // you already have this
+import OnlineStrip from "./OnlineStrip";
+import TierBadge from "./TierBadge";
+import { useOnlineUsers } from "../lib/presence";
+import {
+  deleteMessage,
+  editMessage,
+  fetchMessage,
+  fetchMessages,
+  markRoomRead,
+  MESSAGE_PAGE_SIZE,
+  sendMessage,
+} from "../api/chat";
+import type { ChatMessage } from "../api/chat";
+import { fetchLevels } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+import { profilePath } from "../api/profiles";
+
+function timeAgo(iso: string) {
+  const d = new Date(iso);
+  const now = new Date();
+  const sec = Math.max(0, Math.floor((+now - +d) / 1000));
+  if (sec < 60) return `${sec}s`;
+  const min = Math.floor(sec / 60);
+  if (min < 60) return `${min}m`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return `${hr}h`;
+  const day = Math.floor(hr / 24);
+  if (day < 7) return `${day}d`;
+  const wk = Math.floor(day / 7);
+  if (wk < 5) return `${wk}w`;
+  const mo = Math.floor(day / 30);
+  if (mo < 12) return `${mo}mo`;
+  const yr = Math.floor(day / 365);
+  return `${yr}y`;
+}
+
+const displayName = (m: { user_id: string; display_name: string | null }) =>
+  m.display_name?.trim() || `Player ${m.user_id.slice(0, 4)}…${m.user_id.slice(-4)}`;
+
+type Draft = { mode: "reply" | "edit"; message: ChatMessage } | null;
+
+// typing pings go out at most this often; an indicator lasts a bit longer
+const TYPING_THROTTLE_MS = 2500;
+const TYPING_TTL_MS = 4000;
+
+function describeTyping(names: string[]) {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return "Several people are typing…";
+}
+
+/**
+ * One chat room (global, squad, DM or post). Access is enforced by RLS, so a
+ * room the caller can't read simply comes back empty. Reading a room marks
+ * it read; onRead lets a room list refresh its unread counters.
+ */
+export default function Chat({
+  roomId,
+  title = "Chat",
+  onRead,
+  headerRight,
+  onlineScope,
+}: {
+  roomId: string | null; // null while the caller is still resolving it
+  title?: string;
+  onRead?: () => void;
+  headerRight?: React.ReactNode;
+  // who counts for the online strip: a squad, specific users, or everyone
+  onlineScope?: { squadId?: string | null; userIds?: string[] };
+}) {
+  const [me, setMe] = React.useState<string | null>(null);
+  const [msgs, setMsgs] = React.useState<ChatMessage[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [loadingOlder, setLoadingOlder] = React.useState(false);
+  const [hasMore, setHasMore] = React.useState(false);
+  const [input, setInput] = React.useState("");
+  const [draft, setDraft] = React.useState<Draft>(null);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [typing, setTyping] = React.useState<Record<string, number>>({}); // user_id -> expires at
+  const [levels, setLevels] = React.useState<Record<string, UserLevel>>({});
+
+  const channelRef = React.useRef<RealtimeChannel | null>(null);
+  const lastTypingSent = React.useRef(0);
+
+  const onlineUsers = useOnlineUsers(onlineScope?.userIds ? null : onlineScope?.squadId);
+  const onlineHere = onlineScope?.userIds
+    ? onlineUsers.filter((u) => onlineScope.userIds!.includes(u.user_id))
+    : onlineUsers;
+
+  const listRef = React.useRef<HTMLDivElement | null>(null);
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+  // scroll height before prepending an older page, to keep the view still
+  const prependFrom = React.useRef<number | null>(null);
+
+  // load current user id
+  React.useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => {
+      setMe(data.user?.id ?? null);
+    });
+  }, []);
+
+  // kept in a ref so an inline onRead doesn't refetch the room every render
+  const onReadRef = React.useRef(onRead);
+  onReadRef.current = onRead;
+
+  const markRead = React.useCallback(() => {
+    if (!roomId) return;
+    markRoomRead(roomId)
+      .then(() => onReadRef.current?.())
+      .catch((e) => console.error(e));
+  }, [roomId]);
+
+  // initial fetch: newest page, oldest -> newest
+  const fetchInitial = React.useCallback(async () => {
+    setMsgs([]);
+    setDraft(null);
+    setHasMore(false);
+    setTyping({});
+    if (!roomId) return;
+    setLoading(true);
+    try {
+      const page = await fetchMessages(roomId);
+      setMsgs([...page].reverse());
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+    } catch (e: any) {
+      setErr(e.message ?? "Failed to load messages");
+    }
+    setLoading(false);
+    scrollToBottom();
+    markRead();
+  }, [roomId, markRead]);
+
+  React.useEffect(() => {
+    fetchInitial();
+  }, [fetchInitial]);
+
+  // scroll-back: cursor is the oldest loaded message
+  const loadOlder = React.useCallback(async () => {
+    if (!roomId || loadingOlder || !hasMore || !msgs.length) return;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessages(roomId, msgs[0]);
+      prependFrom.current = listRef.current?.scrollHeight ?? null;
+      setMsgs((prev) => {
+        const known = new Set(prev.map((m) => m.id));
+        return [...page.filter((m) => !known.has(m.id)).reverse(), ...prev];
+      });
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+    } catch (e: any) {
+      setErr(e.message ?? "Failed to load older messages");
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [roomId, loadingOlder, hasMore, msgs]);
+
+  React.useLayoutEffect(() => {
+    const el = listRef.current;
+    if (el && prependFrom.current != null) {
+      el.scrollTop += el.scrollHeight - prependFrom.current;
+      prependFrom.current = null;
+    }
+  }, [msgs]);
+
+  const onScroll = () => {
+    const el = listRef.current;
+    if (el && el.scrollTop < 80) void loadOlder();
+  };
+
+  // realtime: inserts append, edits/soft deletes replace, hard deletes drop
+  React.useEffect(() => {
+    if (!roomId) return;
+
+    const upsertRow = (row: ChatMessage) =>
+      setMsgs((prev) => {
+        const next = prev.some((m) => m.id === row.id)
+          ? prev.map((m) => (m.id === row.id ? row : m))
+          : [...prev, row];
+        // keep quotes of this message in sync
+        return next.map((m) =>
+          m.reply_to_id === row.id ? { ...m, reply_content: row.content } : m
+        );
+      });
+
+    const ch = supabase
+      .channel(`chat_room_${roomId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "chat_messages", filter: `room_id=eq.${roomId}` },
+        async (payload: any) => {
+          const id = payload.new?.id as string | undefined;
+          if (!id) return;
+          const author = payload.new?.user_id as string | undefined;
+          if (author) setTyping(({ [author]: _sent, ...rest }) => rest);
+          // fetch the view row (to include display_name, avatar & the quoted parent)
+          const row = await fetchMessage(id).catch(() => null);
+          if (row) {
+            upsertRow(row);
+            scrollToBottom();
+            markRead();
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "chat_messages", filter: `room_id=eq.${roomId}` },
+        async (payload: any) => {
+          const id = payload.new?.id as string | undefined;
+          if (!id) return;
+          const row = await fetchMessage(id).catch(() => null);
+          if (row) upsertRow(row);
+        }
+      )
+      .on(
+        // DELETE events can't be filtered; only the primary key comes through
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "chat_messages" },
+        (payload: any) => {
+          const id = payload.old?.id as string | undefined;
+          if (id) setMsgs((prev) => prev.filter((m) => m.id !== id));
+        }
+      )
+      .on("broadcast", { event: "typing" }, ({ payload }: { payload: { user_id?: string } }) => {
+        const uid = payload?.user_id;
+        if (uid) setTyping((prev) => ({ ...prev, [uid]: Date.now() + TYPING_TTL_MS }));
+      })
+      .subscribe();
+    channelRef.current = ch;
+
+    return () => {
+      channelRef.current = null;
+      void supabase.removeChannel(ch);
+    };
+  }, [roomId, markRead]);
+
+  // levels of everyone in the loaded messages (best effort)
+  const senderKey = Array.from(new Set(msgs.map((m) => m.user_id))).sort().join(",");
+  React.useEffect(() => {
+    let alive = true;
+    fetchLevels(senderKey ? senderKey.split(",") : [])
+      .then((map) => alive && setLevels(map))
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [senderKey]);
+
+  // expire typing indicators
+  const typingCount = Object.keys(typing).length;
+  React.useEffect(() => {
+    if (!typingCount) return;
+    const t = setInterval(() => {
+      const now = Date.now();
+      setTyping((prev) => {
+        const live = Object.entries(prev).filter(([, exp]) => exp > now);
+        return live.length === Object.keys(prev).length ? prev : Object.fromEntries(live);
+      });
+    }, 1000);
+    return () => clearInterval(t);
+  }, [typingCount]);
+
+  const pingTyping = () => {
+    const now = Date.now();
+    if (!me || draft?.mode === "edit" || now - lastTypingSent.current < TYPING_THROTTLE_MS) return;
+    lastTypingSent.current = now;
+    void channelRef.current?.send({ type: "broadcast", event: "typing", payload: { user_id: me } });
+  };
+
+  const nameOf = (uid: string) => {
+    const u = onlineUsers.find((o) => o.user_id === uid) ?? msgs.find((m) => m.user_id === uid);
+    return u?.display_name?.trim() || "Someone";
+  };
+  const typingNames = Object.keys(typing).filter((uid) => uid !== me).map(nameOf);
+
+  const scrollToBottom = () => {
+    requestAnimationFrame(() => {
+      const el = listRef.current;
+      if (el) el.scrollTop = el.scrollHeight;
+    });
+  };
+
+  const startDraft = (mode: "reply" | "edit", message: ChatMessage) => {
+    setDraft({ mode, message });
+    setInput(mode === "edit" ? message.content ?? "" : "");
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const cancelDraft = () => {
+    if (draft?.mode === "edit") setInput("");
+    setDraft(null);
+  };
+
+  const send = async () => {
+    const text = input.trim();
+    if (!text || !roomId) return;
+    setErr(null);
+    try {
+      if (draft?.mode === "edit") {
+        await editMessage(draft.message.id, text);
+      } else {
+        await sendMessage(roomId, text, draft?.mode === "reply" ? draft.message.id : null);
+        // optimistic scroll; realtime will add the row
+        scrollToBottom();
+      }
+      setInput("");
+      setDraft(null);
+    } catch (e: any) {
+      setErr(e.message ?? "Couldn't send");
+    }
+  };
+
+  const remove = async (m: ChatMessage) => {
+    if (!window.confirm("Delete this message?")) return;
+    try {
+      await deleteMessage(m.id);
+      if (draft?.message.id === m.id) cancelDraft();
+    } catch (e: any) {
+      setErr(e.message ?? "Couldn't delete");
+    }
+  };
+
+  const onKeyDown: React.KeyboardEventHandler<HTMLInputElement> = (e) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      void send();
+    } else if (e.key === "Escape" && draft) {
+      cancelDraft();
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="text-lg md:text-xl font-semibold truncate">{title}</h2>
+          <OnlineStrip users={onlineHere} size={22} max={5} className="mt-1" />
+        </div>
+        {headerRight}
+      </div>
+
+      <div
+        ref={listRef}
+        onScroll={onScroll}
+        className="h-[46vh] sm:h-[50vh] overflow-y-auto pr-1 space-y-3"
+      >
+        {loading && <div className="text-white/70">Loading…</div>}
+        {!loading && msgs.length === 0 && (
+          <div className="text-white/60">Say hi 👋</div>
+        )}
+        {!loading && loadingOlder && (
+          <div className="text-center text-xs text-white/50">Loading older messages…</div>
+        )}
+        {!loading && !hasMore && msgs.length > 0 && (
+          <div className="text-center text-xs text-white/40">Beginning of the conversation</div>
+        )}
+
+        {!loading &&
+          msgs.map((m) => {
+            const mine = m.user_id === me;
+            const deleted = !!m.deleted_at;
+            const name = displayName(m) + (mine ? " (you)" : "");
+            if (m.kind === "achievement") {
+              if (deleted) return null;
+              return (
+                <div key={m.id} className="flex justify-center">
+                  <div className="max-w-[90%] rounded-full border border-amber-300/30 bg-amber-300/10 px-3.5 py-1.5 text-[13px] text-amber-100">
+                    <Link to={profilePath(m.user_id)} className="font-semibold hover:underline">
+                      {name}
+                    </Link>{" "}
+                    {m.content}
+                    <span className="ml-2 text-[11px] text-white/50" title={new Date(m.created_at).toLocaleString()}>
+                      {timeAgo(m.created_at)}
+                    </span>
+                  </div>
+                </div>
+              );
+            }
+            return (
+              <div
+                key={m.id}
+                className={`group flex items-start gap-3 ${mine ? "flex-row-reverse" : ""}`}
+              >
+                {/* Avatar */}
+                <Link to={profilePath(m.user_id)} className="shrink-0">
+                  <Avatar path={m.user_avatar_url ?? undefined} size={36} fallback={name} />
+                </Link>
+
+                {/* Bubble */}
+                <div className={`max-w-[78%] sm:max-w-[70%]`}>
+                  <div
+                    className={`rounded-2xl px-3.5 py-2 text-[15px] leading-snug border ${
+                      mine
+                        ? "bg-sky-500/15 border-sky-300/20"
+                        : "bg-white/[0.06] border-white/10"
+                    }`}
+                  >
+                    <div className="flex items-center gap-1.5 text-[13px] text-white/60 mb-1">
+                      <Link to={profilePath(m.user_id)} className="truncate hover:underline">
+                        {name}
+                      </Link>
+                      <TierBadge level={levels[m.user_id]} className="shrink-0" />
+                    </div>
+                    {m.reply_to_id && (
+                      <div className="mb-1.5 border-l-2 border-white/20 pl-2 text-[13px] text-white/60">
+                        <span className="font-medium">{m.reply_display_name ?? "Player"}</span>
+                        <div className="truncate">
+                          {m.reply_content ?? <em>Message deleted</em>}
+                        </div>
+                      </div>
+                    )}
+                    {deleted ? (
+                      <div className="italic text-white/50">Message deleted</div>
+                    ) : (
+                      <div className="whitespace-pre-wrap break-words">{m.content}</div>
+                    )}
+                  </div>
+                  <div
+                    className={`mt-1 flex items-center gap-2 text-[11px] text-white/50 ${
+                      mine ? "justify-end" : ""
+                    }`}
+                  >
+                    <span title={new Date(m.created_at).toLocaleString()}>{timeAgo(m.created_at)}</span>
+                    {m.edited_at && !deleted && (
+                      <span title={`Edited ${new Date(m.edited_at).toLocaleString()}`}>· edited</span>
+                    )}
+                    {!deleted && (
+                      <span className="flex gap-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition">
+                        <button onClick={() => startDraft("reply", m)} className="hover:text-white">
+                          Reply
+                        </button>
+                        {mine && (
+                          <>
+                            <button onClick={() => startDraft("edit", m)} className="hover:text-white">
+                              Edit
+                            </button>
+                            <button onClick={() => remove(m)} className="hover:text-rose-300">
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+      </div>
+
+      <div className="mt-2 h-4 text-xs text-white/60" aria-live="polite">
+        {typingNames.length > 0 && describeTyping(typingNames)}
+      </div>
+
+      {err && <div className="mt-2 text-sm text-rose-400">{err}</div>}
+
+      {/* Reply / edit banner */}
+      {draft && (
+        <div className="mt-3 flex items-center gap-2 rounded-xl border border-white/10 bg-white/[0.04] px-3 py-2 text-[13px]">
+          <div className="min-w-0 flex-1 truncate text-white/70">
+            {draft.mode === "edit" ? (
+              "Editing message"
+            ) : (
+              <>
+                Replying to <span className="font-medium">{displayName(draft.message)}</span>:{" "}
+                {draft.message.content}
+              </>
+            )}
+          </div>
+          <button onClick={cancelDraft} aria-label="Cancel" className="text-white/60 hover:text-white">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Input */}
+      <div className="mt-3 flex items-center gap-2">
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            if (e.target.value.trim()) pingTyping();
+          }}
+          onKeyDown={onKeyDown}
+          placeholder={draft?.mode === "reply" ? "Write a reply…" : "Type a message…"}
+          className="flex-1 rounded-xl bg-white/[0.06] border border-white/10 px-3.5 py-2 text-[15px] focus:outline-none focus:border-white/20"
+          maxLength={1000}
+        />
+        <button
+          onClick={send}
+          className="rounded-xl bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold text-sm px-3.5 py-2"
+        >
+          {draft?.mode === "edit" ? "Save" : "Send"}
+        </button>
+      </div>
+    </section>
+  );
+}
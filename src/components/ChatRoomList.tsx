@@ -0,0 +1,108 @@
+// src/components/ChatRoomList.tsx
+import React, { useEffect, useState } from "react";
+import Avatar from "./Avatar";
+import { findPlayers } from "../api/chat";
+import type { ChatRoom, ChatRoomKind, PlayerHit } from "../api/chat";
+import { useOnlineUsers } from "../lib/presence";
+
+type Props = {
+  rooms: ChatRoom[];
+  activeId: string | null;
+  me: string | null;
+  onSelect: (roomId: string) => void;
+  onStartDm: (userId: string) => void;
+};
+
+const KIND_ICON: Record<ChatRoomKind, string> = { global: "🌍", squad: "👥", dm: "✉️", post: "📸" };
+
+export default function ChatRoomList({ rooms, activeId, me, onSelect, onStartDm }: Props) {
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<PlayerHit[]>([]);
+  const online = useOnlineUsers();
+
+  // debounced player search for new DMs
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+    let alive = true;
+    const t = setTimeout(() => {
+      findPlayers(query, me)
+        .then((h) => alive && setHits(h))
+        .catch(() => alive && setHits([]));
+    }, 250);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [query, me]);
+
+  return (
+    <div className="grid gap-3">
+      <div className="relative">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Message a player…"
+          className="w-full rounded-xl bg-white/[0.06] border border-white/10 px-3.5 py-2 text-[15px] outline-none focus:border-white/20"
+        />
+        {hits.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full rounded-xl border border-white/10 bg-slate-900 p-1 shadow-xl">
+            {hits.map((p) => {
+              const name = p.display_name || `Player ${p.id.slice(0, 4)}`;
+              return (
+                <li key={p.id}>
+                  <button
+                    onClick={() => {
+                      setQuery("");
+                      onStartDm(p.id);
+                    }}
+                    className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left hover:bg-white/[0.08]"
+                  >
+                    <Avatar path={p.avatar_url ?? undefined} size={28} fallback={name.charAt(0)} />
+                    <span className="truncate text-sm">{name}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <ul className="grid gap-1">
+        {rooms.map((r) => {
+          const active = r.id === activeId;
+          return (
+            <li key={r.id}>
+              <button
+                onClick={() => onSelect(r.id)}
+                className={[
+                  "flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left transition",
+                  active ? "bg-white/10 text-white" : "text-white/80 hover:bg-white/5 hover:text-white",
+                ].join(" ")}
+              >
+                {r.kind === "dm" ? (
+                  <span className="relative">
+                    <Avatar path={r.other_avatar_url ?? undefined} size={28} fallback={r.title.charAt(0)} />
+                    {online.some((u) => u.user_id === r.other_user_id) && (
+                      <span className="absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full bg-emerald-400 ring-2 ring-slate-950" />
+                    )}
+                  </span>
+                ) : (
+                  <span className="w-7 text-center text-lg">{KIND_ICON[r.kind]}</span>
+                )}
+                <span className="min-w-0 flex-1 truncate text-sm">{r.title}</span>
+                {r.unread > 0 && !active && (
+                  <span className="rounded-full bg-sky-500/90 px-2 py-0.5 text-[11px] font-semibold text-slate-950">
+                    {r.unread > 99 ? "99+" : r.unread}
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,24 +1,47 @@
 // src/components/LeaderboardCard.tsx
 import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "../lib/supabaseClient";
 import Avatar from "./Avatar";
+import StreakBadge from "./StreakBadge";
+import TierBadge from "./TierBadge";
+import { fetchStreaks } from "../api/streaks";
+import type { UserStreak } from "../api/streaks";
+import { fetchLevels } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+import { fetchCurrentSeason, fetchLeaderboard, WINDOW_LABELS } from "../api/leaderboard";
+import type { LeaderboardRow, LeaderboardWindow, Season } from "../api/leaderboard";
+import { profilePath } from "../api/profiles";
 
-type UsersXp = { user_id: string; xp: number };
 type Profile = { id: string; display_name: string | null; avatar_url: string | null };
 
 interface LeaderboardCardProps {
   title?: string;
   limit?: number;      // page size
-  onSeeAll?: () => void; // still supported, but pager is built in
+  window?: LeaderboardWindow; // initial window; tabs switch it
+  seasonId?: string | null;   // for window="season"; defaults to the current season
+  showTabs?: boolean;
+  squadId?: string | null;    // scope to a squad's members; null = everyone
+  onSeeAll?: () => void; // e.g. navigate to the full /leaderboard page
 }
 
+const WINDOWS: LeaderboardWindow[] = ["day", "week", "month", "season", "all"];
+
 export default function LeaderboardCard({
   title = "Leaderboard",
   limit = 5,
+  window: initialWindow = "week",
+  seasonId,
+  showTabs = true,
+  squadId = null,
   onSeeAll,
 }: LeaderboardCardProps) {
-  const [rows, setRows] = useState<UsersXp[]>([]);
+  const [win, setWin] = useState<LeaderboardWindow>(initialWindow);
+  const [season, setSeason] = useState<Season | null>(null);
+  const [rows, setRows] = useState<LeaderboardRow[]>([]);
   const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [streaks, setStreaks] = useState<Record<string, UserStreak>>({});
+  const [levels, setLevels] = useState<Record<string, UserLevel>>({});
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
@@ -27,6 +50,25 @@ export default function LeaderboardCard({
   const [total, setTotal] = useState(0);
   const totalPages = Math.max(1, Math.ceil(total / Math.max(1, limit)));
 
+  useEffect(() => setWin(initialWindow), [initialWindow]);
+  useEffect(() => setPage(1), [squadId]);
+
+  // season tab is only offered once a season exists
+  useEffect(() => {
+    let alive = true;
+    fetchCurrentSeason()
+      .then((s) => alive && setSeason(s))
+      .catch(() => alive && setSeason(null));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  const changeWindow = (w: LeaderboardWindow) => {
+    setWin(w);
+    setPage(1);
+  };
+
   // fetch a page from Supabase
   useEffect(() => {
     let alive = true;
@@ -36,22 +78,18 @@ export default function LeaderboardCard({
         setLoading(true);
         setErr(null);
 
-        const from = (page - 1) * limit;
-        const to = from + limit - 1;
-
-        // 1) users_xp high → low with total count
-        const { data: balances, error: e1, count } = await supabase
-          .from("users_xp")
-          .select("user_id,xp", { count: "exact" })
-          .order("xp", { ascending: false })
-          .range(from, to);
-
-        if (e1) throw e1;
+        // 1) XP in the window, high → low, with rank movement + total count
+        const { rows: pageRows, total: count } = await fetchLeaderboard({
+          window: win,
+          seasonId,
+          squadId,
+          limit,
+          offset: (page - 1) * limit,
+        });
         if (!alive) return;
 
-        const pageRows = (balances ?? []) as UsersXp[];
         setRows(pageRows);
-        setTotal(count ?? pageRows.length);
+        setTotal(count);
 
         // 2) fetch profiles for this page
         const ids = pageRows.map((b) => b.user_id);
@@ -71,6 +109,15 @@ export default function LeaderboardCard({
         } else {
           setProfiles({});
         }
+
+        // 3) streaks + levels (best effort)
+        const [streakMap, levelMap] = await Promise.all([
+          fetchStreaks(ids).catch(() => ({})),
+          fetchLevels(ids).catch(() => ({})),
+        ]);
+        if (!alive) return;
+        setStreaks(streakMap);
+        setLevels(levelMap);
       } catch (e: any) {
         setErr(e.message ?? "Failed to load leaderboard");
         setRows([]);
@@ -83,7 +130,7 @@ export default function LeaderboardCard({
     return () => {
       alive = false;
     };
-  }, [page, limit]);
+  }, [page, limit, win, seasonId, squadId]);
 
   // if total shrinks, keep page in range
   useEffect(() => {
@@ -91,11 +138,6 @@ export default function LeaderboardCard({
     if (page > tp) setPage(tp);
   }, [total, limit, page]);
 
-  const ranked = useMemo(
-    () => rows.map((r, i) => ({ rank: (page - 1) * limit + i + 1, ...r })),
-    [rows, page, limit]
-  );
-
   const maxXPOnPage = useMemo(() => Math.max(1, ...rows.map((r) => r.xp)), [rows]);
 
   const medal = (rank: number) => {
@@ -118,6 +160,14 @@ export default function LeaderboardCard({
 
         <div className="flex items-center gap-2">
           {/* optional external "See all" action (e.g., navigate) */}
+          {onSeeAll && (
+            <button
+              onClick={onSeeAll}
+              className="hidden sm:inline-flex rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+            >
+              See all
+            </button>
+          )}
 
           {/* pager */}
           <div className="inline-flex items-center gap-2">
@@ -142,12 +192,40 @@ export default function LeaderboardCard({
         </div>
       </div>
 
+      {/* Window tabs */}
+      {showTabs && (
+        <div className="mb-3 flex items-center gap-2 overflow-x-auto no-scrollbar">
+          {WINDOWS.filter((w) => w !== "season" || season || seasonId).map((w) => (
+            <button
+              key={w}
+              onClick={() => changeWindow(w)}
+              className={[
+                "whitespace-nowrap rounded-full px-3 py-1.5 text-sm border transition",
+                win === w
+                  ? "bg-white text-slate-900 border-white"
+                  : "bg-white/[0.06] text-white border-white/10 hover:bg-white/[0.1]",
+              ].join(" ")}
+            >
+              {w === "season" && season && !seasonId ? season.name : WINDOW_LABELS[w]}
+            </button>
+          ))}
+          {onSeeAll && (
+            <button
+              onClick={onSeeAll}
+              className="sm:hidden whitespace-nowrap rounded-full px-3 py-1.5 text-sm border bg-white/[0.06] border-white/10"
+            >
+              See all →
+            </button>
+          )}
+        </div>
+      )}
+
       {loading && <div className="text-white/70">Loading…</div>}
       {err && <div className="text-rose-400">{err}</div>}
 
       {!loading && !err && (
         <div className="grid gap-2">
-          {ranked.map(({ rank, user_id, xp }) => {
+          {rows.map(({ rank, prev_rank, user_id, xp, vote_xp }) => {
             const p = profiles[user_id];
             const name =
               p?.display_name?.trim() ||
@@ -185,23 +263,40 @@ export default function LeaderboardCard({
 
                   {/* Avatar + name */}
                   <div className="flex items-center gap-3 min-w-0 flex-1">
-                    <Avatar
-                      path={p?.avatar_url ?? undefined}
-                      size={36}
-                      fallback={name}
-                    />
+                    <Link to={profilePath(user_id)} className="shrink-0">
+                      <Avatar
+                        path={p?.avatar_url ?? undefined}
+                        size={36}
+                        fallback={name}
+                      />
+                    </Link>
                     <div className="min-w-0">
-                      <div className="font-semibold truncate">{name}</div>
-                      <div className="text-xs text-white/60">Rank #{rank}</div>
+                      <div className="flex items-center gap-1.5 min-w-0">
+                        <Link to={profilePath(user_id)} className="font-semibold truncate hover:underline">
+                          {name}
+                        </Link>
+                        <TierBadge level={levels[user_id]} className="shrink-0" />
+                        <StreakBadge streak={streaks[user_id]} className="shrink-0" />
+                      </div>
+                      <div className="flex items-center gap-1.5 text-xs text-white/60">
+                        Rank #{rank}
+                        <RankMovement rank={rank} prevRank={prev_rank} />
+                      </div>
                     </div>
                   </div>
 
                   {/* XP badge */}
-                  <div className="shrink-0">
+                  <div className="shrink-0 grid justify-items-end gap-0.5">
                     <span className="inline-flex items-center gap-2 rounded-xl border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm font-bold">
                       {xp}
                       <span className="text-white/60 font-medium">XP</span>
                     </span>
+                    {vote_xp !== 0 && (
+                      <span className="text-[11px] text-white/50" title="XP from votes on their posts">
+                        {vote_xp > 0 ? "+" : "−"}
+                        {Math.abs(vote_xp)} from votes
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -212,3 +307,17 @@ export default function LeaderboardCard({
     </section>
   );
 }
+
+/* ---------- ▲/▼ vs. the previous window ---------- */
+function RankMovement({ rank, prevRank }: { rank: number; prevRank: number | null }) {
+  if (prevRank == null) {
+    return <span className="text-sky-300/80" title="No XP in the previous period">new</span>;
+  }
+  const diff = prevRank - rank;
+  if (diff === 0) return <span className="text-white/40" title="No change">–</span>;
+  return diff > 0 ? (
+    <span className="text-emerald-300" title={`Up ${diff} from #${prevRank}`}>▲{diff}</span>
+  ) : (
+    <span className="text-rose-300" title={`Down ${-diff} from #${prevRank}`}>▼{-diff}</span>
+  );
+}
@@ -0,0 +1,43 @@
+// src/components/LevelProgress.tsx
+import React from "react";
+import { levelProgress, TIERS } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+
+/** Level, tier and a bar towards the next level (or out of the red). */
+export default function LevelProgress({
+  level,
+  compact = false,
+  className = "",
+}: {
+  level?: UserLevel | null;
+  compact?: boolean; // sidebar: one line of text over the bar
+  className?: string;
+}) {
+  if (!level || level.xp == null || level.next_level_xp == null) return null; // hidden profile
+  const tier = TIERS[level.tier];
+  const inRed = level.tier === "red";
+  const toGo = level.next_level_xp - level.xp;
+
+  return (
+    <div className={className}>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className={compact ? "text-xs font-semibold" : "text-sm font-semibold"}>
+          {inRed ? tier.name : `Level ${level.level}`}
+          {!inRed && <span className="ml-1.5 font-medium text-white/60">{tier.name}</span>}
+        </span>
+        <span className="text-[11px] text-white/60">{level.xp} XP</span>
+      </div>
+      <div className={`mt-1 overflow-hidden rounded-full bg-white/10 ${compact ? "h-1.5" : "h-2"}`}>
+        <div
+          className={`h-full rounded-full transition-all ${tier.bar}`}
+          style={{ width: `${Math.round(levelProgress(level) * 100)}%` }}
+        />
+      </div>
+      {!compact && (
+        <div className="mt-1 text-[11px] text-white/50">
+          {inRed ? `${toGo} XP to get back to level 1` : `${toGo} XP to level ${level.level + 1}`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+// src/components/OnlineStrip.tsx
+import React from "react";
+import { Link } from "react-router-dom";
+import Avatar from "./Avatar";
+import type { OnlineUser } from "../lib/presence";
+import { profilePath } from "../api/profiles";
+
+type Props = {
+  users: OnlineUser[];
+  max?: number;
+  size?: number;
+  label?: boolean; // "3 online" next to the avatars
+  className?: string;
+};
+
+/** Overlapping avatars of who's online; away users are dimmed. */
+export default function OnlineStrip({ users, max = 6, size = 28, label = true, className = "" }: Props) {
+  if (!users.length) return null;
+  const shown = users.slice(0, max);
+  const extra = users.length - shown.length;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <div className="flex -space-x-2">
+        {shown.map((u) => {
+          const name = u.display_name || `Player ${u.user_id.slice(0, 4)}`;
+          return (
+            <Link
+              key={u.user_id}
+              to={profilePath(u.user_id)}
+              title={`${name} · ${u.status === "away" ? "away" : "online"}`}
+              className={`relative rounded-full ring-2 ring-slate-950 ${u.status === "away" ? "opacity-60" : ""}`}
+            >
+              <Avatar path={u.avatar_url ?? undefined} size={size} fallback={name.charAt(0)} />
+              <span
+                className={`absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full ring-2 ring-slate-950 ${
+                  u.status === "away" ? "bg-amber-400" : "bg-emerald-400"
+                }`}
+              />
+            </Link>
+          );
+        })}
+        {extra > 0 && (
+          <div
+            className="grid place-items-center rounded-full bg-white/10 text-[11px] ring-2 ring-slate-950"
+            style={{ width: size, height: size }}
+          >
+            +{extra}
+          </div>
+        )}
+      </div>
+      {label && <span className="text-xs text-white/60">{users.length} online</span>}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// src/components/ProofLightbox.tsx
+import React, { useEffect, useState } from "react";
+import type { ProofAttachment } from "../api/proofs";
+
+type Props = {
+  attachments: ProofAttachment[];
+  start?: number;
+  title?: string;
+  note?: string | null;
+  onClose: () => void;
+};
+
+/** Non-blocking centered popup with a carousel over a proof's photos and clip. */
+export default function ProofLightbox({ attachments, start = 0, title, note, onClose }: Props) {
+  const [index, setIndex] = useState(start);
+  const [loaded, setLoaded] = useState(false);
+  const count = attachments.length;
+  const current = attachments[index];
+
+  const go = (step: number) => setIndex((i) => (i + step + count) % count);
+
+  // ESC closes, arrows page through
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowLeft" && count > 1) setIndex((i) => (i - 1 + count) % count);
+      else if (e.key === "ArrowRight" && count > 1) setIndex((i) => (i + 1) % count);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [count, onClose]);
+
+  // Preload image for smoother display (page remains scrollable)
+  useEffect(() => {
+    setLoaded(false);
+    if (!current || current.kind !== "photo") return;
+    const img = new Image();
+    img.src = current.url;
+    img.onload = () => setLoaded(true);
+  }, [current]);
+
+  if (!current) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[1000] pointer-events-none"
+      style={{
+        // Safe areas for iPhone notch/home indicator
+        paddingTop: "env(safe-area-inset-top)",
+        paddingBottom: "env(safe-area-inset-bottom)",
+        paddingLeft: "env(safe-area-inset-left)",
+        paddingRight: "env(safe-area-inset-right)",
+      }}
+    >
+      {/* visual backdrop only; scrolling passes through */}
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm pointer-events-none" />
+
+      <div className="absolute inset-0 grid place-items-center p-3 sm:p-6">
+        <div
+          role="dialog"
+          aria-modal="true"
+          className="pointer-events-auto relative w-[min(94vw,680px)] max-h-[80svh] rounded-2xl bg-slate-950 p-4 shadow-2xl ring-1 ring-white/10 flex flex-col items-center"
+        >
+          {/* Close: large tap target */}
+          <button
+            aria-label="Close"
+            onClick={onClose}
+            className="absolute right-3 top-3 z-10 h-11 min-w-11 px-4 rounded-full border border-white/20 bg-black/60 text-sm text-white hover:bg-black/80 active:scale-[.98]"
+          >
+            Close
+          </button>
+
+          {/* Media area */}
+          <div className="relative flex w-full items-center justify-center">
+            {current.kind === "video" ? (
+              <video
+                key={current.id}
+                src={current.url}
+                poster={current.thumb_url ?? undefined}
+                controls
+                playsInline
+                className="max-w-[90vw] max-h-[60svh] rounded-lg"
+              />
+            ) : (
+              <>
+                {!loaded && <div className="text-white/70 text-sm py-10">Loading photo…</div>}
+                <img
+                  key={current.id}
+                  src={current.url}
+                  alt={title || "Proof"}
+                  className={`max-w-[90vw] max-h-[60svh] object-contain ${
+                    loaded ? "opacity-100" : "opacity-0 absolute"
+                  } transition-opacity`}
+                  onLoad={() => setLoaded(true)}
+                />
+              </>
+            )}
+
+            {count > 1 && (
+              <>
+                <button
+                  aria-label="Previous"
+                  onClick={() => go(-1)}
+                  className="absolute left-0 top-1/2 -translate-y-1/2 h-11 w-11 rounded-full border border-white/20 bg-black/60 text-white hover:bg-black/80 active:scale-[.98]"
+                >
+                  ‹
+                </button>
+                <button
+                  aria-label="Next"
+                  onClick={() => go(1)}
+                  className="absolute right-0 top-1/2 -translate-y-1/2 h-11 w-11 rounded-full border border-white/20 bg-black/60 text-white hover:bg-black/80 active:scale-[.98]"
+                >
+                  ›
+                </button>
+              </>
+            )}
+          </div>
+
+          {count > 1 && (
+            <div className="mt-2 flex items-center gap-1.5">
+              {attachments.map((a, i) => (
+                <button
+                  key={a.id}
+                  aria-label={`Show ${a.kind} ${i + 1} of ${count}`}
+                  onClick={() => setIndex(i)}
+                  className={`h-2 w-2 rounded-full ${i === index ? "bg-white" : "bg-white/30 hover:bg-white/50"}`}
+                />
+              ))}
+            </div>
+          )}
+
+          {title && (
+            <div className="mt-2 text-white/90 text-sm font-medium text-center px-2">
+              {title}
+            </div>
+          )}
+          {note && <p className="mt-1 text-white/70 text-xs text-center px-2 whitespace-pre-line">{note}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,26 +4,32 @@ import { supabase } from "../lib/supabaseClient";
 
 type Props = {
   ledgerId: string;                 // xp_ledger.id for the task
+  ownerId?: string;                 // post author; can't vote on their own post
   className?: string;
   size?: "sm" | "md";
   showPpv?: boolean;                // show "±N XP/vote" (uses RPC points_per_vote)
+  squadId?: string | null;          // count only this squad's votes
 };
 
 type Summary = { upvotes: number; downvotes: number; net: number };
 
 export default function Reactions({
   ledgerId,
+  ownerId,
   className = "",
   size = "sm",
   showPpv = false,
+  squadId = null,
 }: Props) {
   const [userId, setUserId] = React.useState<string | null>(null);
   const [myVote, setMyVote] = React.useState<1 | -1 | 0>(0);
   const [sum, setSum] = React.useState<Summary>({ upvotes: 0, downvotes: 0, net: 0 });
   const [busy, setBusy] = React.useState(false);
   const [ppv, setPpv] = React.useState<number | null>(null); // points per vote
+  const [note, setNote] = React.useState<string | null>(null); // e.g. the server's 429 message
 
   // ---- tiny client rate limit: max 2 changes / 2s per post ----
+  // (the real limit is the server's "vote" bucket; this just absorbs double taps)
   const changesRef = React.useRef<number[]>([]);
   const withinClientRate = () => {
     const now = Date.now();
@@ -39,11 +45,10 @@ export default function Reactions({
   }, []);
 
   const fetchSummary = React.useCallback(async () => {
-    const { data, error } = await supabase
-      .from("xp_reaction_summary")
-      .select("upvotes,downvotes,net")
-      .eq("ledger_id", ledgerId)
-      .maybeSingle();
+    const base = squadId
+      ? supabase.from("squad_reaction_summary").select("upvotes,downvotes,net").eq("squad_id", squadId)
+      : supabase.from("xp_reaction_summary").select("upvotes,downvotes,net");
+    const { data, error } = await base.eq("ledger_id", ledgerId).maybeSingle();
 
     if (!error) {
       setSum({
@@ -52,7 +57,7 @@ export default function Reactions({
         net: data?.net ?? 0,
       });
     }
-  }, [ledgerId]);
+  }, [ledgerId, squadId]);
 
   const fetchMyVote = React.useCallback(async () => {
     if (!userId) return;
@@ -132,23 +137,25 @@ export default function Reactions({
       markChange();
       applyOptimistic(next, prev);
 
-      if (next === 0) {
-        await supabase
-          .from("xp_reactions")
-          .delete()
-          .eq("ledger_id", ledgerId)
-          .eq("voter_id", userId);
-      } else {
-        await supabase
-          .from("xp_reactions")
-          .upsert(
-            { ledger_id: ledgerId, voter_id: userId, value: next },
-            { onConflict: "ledger_id,voter_id" }
-          );
-      }
-    } catch (e) {
+      // votes move XP server-side (weighted, capped per post)
+      const { error } =
+        next === 0
+          ? await supabase
+              .from("xp_reactions")
+              .delete()
+              .eq("ledger_id", ledgerId)
+              .eq("voter_id", userId)
+          : await supabase
+              .from("xp_reactions")
+              .upsert(
+                { ledger_id: ledgerId, voter_id: userId, value: next },
+                { onConflict: "ledger_id,voter_id" }
+              );
+      if (error) throw error;
+    } catch (e: any) {
       await Promise.all([fetchSummary(), fetchMyVote()]);
-      console.error(e);
+      setNote(e.message ?? "Vote failed");
+      setTimeout(() => setNote(null), 4000);
     } finally {
       setBusy(false);
     }
@@ -157,19 +164,20 @@ export default function Reactions({
   const btnBase =
     "inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 active:scale-[.98] transition";
   const sz = size === "md" ? "text-sm" : "text-xs";
+  const isOwn = !!userId && userId === ownerId;
 
   return (
     <div className={`flex items-center gap-2 ${className}`}>
       <button
         onClick={() => setVote(1)}
         aria-pressed={myVote === 1}
-        disabled={busy}
+        disabled={busy || isOwn}
         className={`${btnBase} ${sz} ${
           myVote === 1
             ? "border-sky-300/50 bg-sky-400/20"
             : "border-white/10 bg-white/[0.06] hover:bg-white/[0.1]"
         }`}
-        title="Like"
+        title={isOwn ? "You can't vote on your own post" : "Like"}
       >
         👍 <span>{sum.upvotes}</span>
       </button>
@@ -177,13 +185,13 @@ export default function Reactions({
       <button
         onClick={() => setVote(-1)}
         aria-pressed={myVote === -1}
-        disabled={busy}
+        disabled={busy || isOwn}
         className={`${btnBase} ${sz} ${
           myVote === -1
             ? "border-rose-300/50 bg-rose-400/20"
             : "border-white/10 bg-white/[0.06] hover:bg-white/[0.1]"
         }`}
-        title="Dislike"
+        title={isOwn ? "You can't vote on your own post" : "Dislike"}
       >
         👎 <span>{sum.downvotes}</span>
       </button>
@@ -191,6 +199,8 @@ export default function Reactions({
       {showPpv && (
         <span className="ml-1 text-[11px] text-white/60">±{ppv ?? "?"} XP/vote</span>
       )}
+
+      {note && <span className="ml-1 text-[11px] text-rose-300">{note}</span>}
     </div>
   );
 }
@@ -1,16 +1,48 @@
 // src/components/RecentActivity.tsx
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "../lib/supabaseClient";
 import Reactions from "./Reactions";
+import StreakBadge from "./StreakBadge";
+import TierBadge from "./TierBadge";
+import SuspiciousBadge from "./SuspiciousBadge";
+import ProofLightbox from "./ProofLightbox";
+import { fetchStreaks } from "../api/streaks";
+import type { UserStreak } from "../api/streaks";
+import { fetchLevels, TIERS } from "../api/levels";
+import type { Tier, UserLevel } from "../api/levels";
+import { openPostRoom } from "../api/chat";
+import { profilePath } from "../api/profiles";
+import type { ProofAttachment, ProofFlag } from "../api/proofs";
 
 type FeedItem = {
   id: string;
+  user_id: string;
   created_at: string;
-  proof_url: string | null;
-  proof_thumb_url: string | null;
+  reason: string;
+  attachments: ProofAttachment[]; // photos and clip, in order
+  proof_note: string | null;
   task_title: string | null;
+  step_title: string | null; // checklist step this post completed
   user_name: string | null;
   user_avatar_url: string | null;
+  vote_xp: number; // net XP this post has gained/lost from votes
+  proof_id: string | null;
+  proof_flags: ProofFlag[]; // uncleared authenticity flags
+  undone: boolean; // the owner took this completion back
+  level: number | null; // 'level up' posts: the level reached
+  tier: Tier | null;
+  achievement_name: string | null; // 'achievement' posts: the badge earned
+  achievement_icon: string | null;
+  achievement_description: string | null;
+  challenge_title: string | null; // 'challenge won/lost/draw' posts
+  delta: number;
+};
+
+const CHALLENGE_OUTCOME: Record<string, string> = {
+  "challenge won": "🏆 Won",
+  "challenge lost": "⚔️ Lost",
+  "challenge draw": "🤝 Drew",
 };
 
 const AVATAR_BUCKET = "avatars";
@@ -44,13 +76,18 @@ function timeAgo(iso: string) {
   return `${yr}y ago`;
 }
 
-export default function RecentActivity() {
+/** squadId scopes the feed to a squad's members (since they joined); null = everyone. */
+export default function RecentActivity({ squadId = null }: { squadId?: string | null }) {
+  const nav = useNavigate();
   const [items, setItems] = useState<FeedItem[]>([]);
+  const [streaks, setStreaks] = useState<Record<string, UserStreak>>({});
+  const [levels, setLevels] = useState<Record<string, UserLevel>>({});
+  const [me, setMe] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const [lightbox, setLightbox] = useState<{ src: string; title?: string } | null>(null);
-  const [imgLoaded, setImgLoaded] = useState(false);
+  const [lightbox, setLightbox] = useState<FeedItem | null>(null);
+  const closeLightbox = useCallback(() => setLightbox(null), []);
 
   // pagination
   const [page, setPage] = useState(1);
@@ -64,9 +101,13 @@ export default function RecentActivity() {
     const from = (p - 1) * PAGE_SIZE;
     const to = from + PAGE_SIZE - 1; // ✅ fixed
 
-    const { data, error, count } = await supabase
-      .from("xp_ledger_view")
-      .select("*", { count: "exact" })
+    const query = squadId
+      ? supabase.from("squad_xp_ledger_view").select("*", { count: "exact" }).eq("squad_id", squadId)
+      : supabase.from("xp_ledger_view").select("*", { count: "exact" });
+    // vote adjustments show up as vote_xp on the post they belong to, and an
+    // undone completion as a tag on the post; challenge escrow isn't news
+    const { data, error, count } = await query
+      .not("reason", "in", '("vote adjustment","completion undone","challenge stake","challenge refund")')
       .order("created_at", { ascending: false })
       .range(from, to);
 
@@ -80,33 +121,74 @@ export default function RecentActivity() {
 
     const mapped: FeedItem[] = (data || []).map((r: any) => ({
       id: r.id,
+      user_id: r.user_id,
       created_at: r.created_at,
-      proof_url: r.proof_url,
-      proof_thumb_url: r.proof_thumb_url,
+      reason: r.reason,
+      attachments: r.attachments ?? [],
+      proof_note: r.proof_note ?? null,
       task_title: r.task_title,
+      step_title: r.step_title ?? null,
       user_name: r.user_name,
       user_avatar_url: toPublicAvatar(r.user_avatar_url),
+      vote_xp: r.vote_xp ?? 0,
+      proof_id: r.proof_id ?? null,
+      proof_flags: r.proof_flags ?? [],
+      undone: !!r.undone,
+      level: r.level ?? null,
+      tier: r.tier ?? null,
+      achievement_name: r.achievement_name ?? null,
+      achievement_icon: r.achievement_icon ?? null,
+      achievement_description: r.achievement_description ?? null,
+      challenge_title: r.challenge_title ?? null,
+      delta: r.delta ?? 0,
     }));
 
     setItems(mapped);
     setTotal(count ?? mapped.length);
     setLoading(false);
+
+    const ids = Array.from(new Set(mapped.map((m) => m.user_id)));
+    const [streakMap, levelMap] = await Promise.all([
+      fetchStreaks(ids).catch(() => ({})),
+      fetchLevels(ids).catch(() => ({})),
+    ]);
+    setStreaks(streakMap);
+    setLevels(levelMap);
   };
 
-  // initial + when page changes
+  useEffect(() => {
+    let alive = true;
+    supabase.auth.getUser().then(({ data }) => alive && setMe(data.user?.id ?? null));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // back to the first page when the squad changes
+  useEffect(() => setPage(1), [squadId]);
+
+  // initial + when page or squad changes
   useEffect(() => {
     fetchPage(page);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page]);
+  }, [page, squadId]);
 
-  // live updates: on new ledger row, jump to first page and refresh it
+  const pageRef = useRef(page);
+  pageRef.current = page;
+
+  // live updates: on new ledger row, jump to first page and refresh it;
+  // a vote adjustment or an undo only refreshes the page we're on
   useEffect(() => {
     const channel = supabase
       .channel("xp_ledger_feed_paginated")
       .on(
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "xp_ledger" },
-        () => {
+        (payload: any) => {
+          if (payload.new?.source_ledger_id) {
+            fetchPage(pageRef.current);
+            return;
+          }
           setPage(1);
           fetchPage(1);
         }
@@ -115,14 +197,8 @@ export default function RecentActivity() {
     return () => {
       void supabase.removeChannel(channel);
     };
-  }, []);
-
-  // ESC to close lightbox
-  useEffect(() => {
-    const onEsc = (e: KeyboardEvent) => e.key === "Escape" && setLightbox(null);
-    window.addEventListener("keydown", onEsc);
-    return () => window.removeEventListener("keydown", onEsc);
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [squadId]);
 
   // Keep page in range if total shrinks
   useEffect(() => {
@@ -130,16 +206,6 @@ export default function RecentActivity() {
     if (page > tp) setPage(tp);
   }, [total, page]);
 
-  // Preload image for smoother display (page remains scrollable)
-  useEffect(() => {
-    if (lightbox) {
-      setImgLoaded(false);
-      const img = new Image();
-      img.src = lightbox.src;
-      img.onload = () => setImgLoaded(true);
-    }
-  }, [lightbox]);
-
   return (
     <>
       {/* Header row with pager */}
@@ -162,10 +228,20 @@ export default function RecentActivity() {
       {!loading && !error && items.length > 0 && (
         <div className="grid gap-3 sm:gap-4">
           {items.map((it) => {
-            const thumb = it.proof_thumb_url || it.proof_url || "";
+            const cover = it.attachments[0];
+            const thumb = cover ? cover.thumb_url || (cover.kind === "photo" ? cover.url : "") : "";
             const avatar = it.user_avatar_url;
             const name = it.user_name || "(unknown)";
-            const title = it.task_title || "(untitled)";
+            const levelUp = it.reason === "level up" && it.level != null && it.tier != null;
+            const badge = it.reason === "achievement" && it.achievement_name != null;
+            const challenge = it.reason.startsWith("challenge ") && it.challenge_title != null;
+            const title = levelUp
+              ? `⬆️ Reached level ${it.level} · ${TIERS[it.tier!].name}`
+              : badge
+              ? `${it.achievement_icon} Unlocked ${it.achievement_name}`
+              : challenge
+              ? `${CHALLENGE_OUTCOME[it.reason] ?? "⚔️"} “${it.challenge_title}”`
+              : it.task_title || "(untitled)";
 
             return (
               <article
@@ -174,8 +250,8 @@ export default function RecentActivity() {
               >
                 {/* Small thumbnail (slightly taller on mobile for nicer aspect) */}
                 <button
-                  onClick={() => thumb && setLightbox({ src: it.proof_url || thumb, title })}
-                  title="View photo"
+                  onClick={() => cover && setLightbox(it)}
+                  title="View proof"
                   className="relative block overflow-hidden rounded-xl ring-1 ring-white/10 hover:ring-white/20 focus:outline-none active:scale-[.98] transition"
                 >
                   {thumb ? (
@@ -185,36 +261,74 @@ export default function RecentActivity() {
                       className="h-28 sm:h-32 w-full object-cover"
                       loading="lazy"
                     />
+                  ) : levelUp ? (
+                    <div
+                      className={`h-28 sm:h-32 w-full grid place-items-center border text-2xl font-extrabold ${
+                        TIERS[it.tier!].badge
+                      }`}
+                    >
+                      Lv {it.level}
+                    </div>
+                  ) : challenge ? (
+                    <div className="h-28 sm:h-32 w-full grid place-items-center border border-sky-300/20 bg-sky-500/10 text-4xl">
+                      ⚔️
+                    </div>
+                  ) : badge ? (
+                    <div className="h-28 sm:h-32 w-full grid place-items-center border border-amber-300/30 bg-amber-300/10 text-4xl">
+                      {it.achievement_icon}
+                    </div>
                   ) : (
                     <div className="h-28 sm:h-32 w-full bg-slate-800" />
                   )}
                   <span className="absolute inset-0 opacity-0 group-hover:opacity-100 transition bg-black/20" />
+                  {cover?.kind === "video" && (
+                    <span className="absolute inset-0 grid place-items-center text-2xl text-white/90 drop-shadow">▶</span>
+                  )}
+                  {it.attachments.length > 1 && (
+                    <span className="absolute bottom-1.5 right-1.5 rounded-full bg-black/70 px-1.5 py-0.5 text-[11px] text-white">
+                      1/{it.attachments.length}
+                    </span>
+                  )}
                 </button>
 
                 {/* Text block */}
                 <div className="min-w-0 flex flex-col gap-2">
                   <div className="flex items-center gap-3 min-w-0">
                     {/* Avatar */}
-                    {avatar ? (
-                      <img
-                        src={avatar}
-                        alt={name}
-                        className="h-9 w-9 rounded-full object-cover ring-2 ring-white/15"
-                      />
-                    ) : (
-                      <div className="h-9 w-9 rounded-full bg-white/10 grid place-items-center text-sm font-semibold">
-                        {name.slice(0, 1).toUpperCase()}
-                      </div>
-                    )}
+                    <Link to={profilePath(it.user_id)} className="shrink-0">
+                      {avatar ? (
+                        <img
+                          src={avatar}
+                          alt={name}
+                          className="h-9 w-9 rounded-full object-cover ring-2 ring-white/15"
+                        />
+                      ) : (
+                        <div className="h-9 w-9 rounded-full bg-white/10 grid place-items-center text-sm font-semibold">
+                          {name.slice(0, 1).toUpperCase()}
+                        </div>
+                      )}
+                    </Link>
 
                     {/* Name + time (compact) */}
                     <div className="flex items-baseline gap-2 min-w-0">
-                      <div
+                      <Link
+                        to={profilePath(it.user_id)}
                         title={name}
-                        className="font-semibold truncate max-w-[11rem] sm:max-w-[16rem] text-[15px]"
+                        className="font-semibold truncate max-w-[11rem] sm:max-w-[16rem] text-[15px] hover:underline"
                       >
                         {name}
-                      </div>
+                      </Link>
+                      <TierBadge level={levels[it.user_id]} className="shrink-0 self-center" />
+                      <StreakBadge streak={streaks[it.user_id]} className="shrink-0 self-center" />
+                      {it.proof_id && (
+                        <SuspiciousBadge
+                          proofId={it.proof_id}
+                          flags={it.proof_flags}
+                          canClear={!!squadId && it.user_id !== me}
+                          onCleared={() => fetchPage(page)}
+                          className="shrink-0 self-center"
+                        />
+                      )}
                       <time
                         className="text-[12px] text-white/60"
                         title={new Date(it.created_at).toLocaleString()}
@@ -227,18 +341,66 @@ export default function RecentActivity() {
                   {/* Task title */}
                   <div title={title} className="text-white/90 text-[15px] truncate">
                     {title}
+                    {it.step_title && <span className="text-white/50"> · {it.step_title}</span>}
                   </div>
+                  {challenge && it.delta > 0 && (
+                    <p className="text-emerald-300 text-xs font-semibold">+{it.delta} XP from the pot</p>
+                  )}
+                  {badge && it.achievement_description && (
+                    <p className="text-white/60 text-xs line-clamp-2">{it.achievement_description}</p>
+                  )}
+                  {it.proof_note && (
+                    <p title={it.proof_note} className="text-white/60 text-xs line-clamp-2">
+                      {it.proof_note}
+                    </p>
+                  )}
 
                   {/* Actions: View + Reactions */}
                   <div className="flex items-center gap-3">
+                    {!levelUp && !badge && !challenge && (
+                      <button
+                        onClick={() => cover && setLightbox(it)}
+                        disabled={!cover}
+                        className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-white/[0.06] px-3.5 py-2 text-sm text-white/90 hover:bg-white/[0.1] hover:border-white/20 focus:outline-none active:scale-[.98] disabled:opacity-50"
+                      >
+                        {it.attachments.length > 1 ? `View ${it.attachments.length}` : cover?.kind === "video" ? "Play video" : "View photo"}
+                      </button>
+                    )}
+
+                    {it.undone && (
+                      <span
+                        title="The owner undid this completion"
+                        className="rounded-full border border-white/15 bg-white/[0.06] px-2 py-0.5 text-[11px] text-white/60"
+                      >
+                        ↩ Undone
+                      </span>
+                    )}
+
+                    {it.reason === "task completed" && !it.undone && (
+                      <Reactions ledgerId={it.id} ownerId={it.user_id} squadId={squadId} /* size="md" showPpv */ />
+                    )}
+
+                    {it.vote_xp !== 0 && (
+                      <span
+                        title="XP from votes"
+                        className={`text-xs font-semibold ${it.vote_xp > 0 ? "text-emerald-300" : "text-rose-300"}`}
+                      >
+                        {it.vote_xp > 0 ? "+" : "−"}
+                        {Math.abs(it.vote_xp)} XP
+                      </span>
+                    )}
+
                     <button
-                      onClick={() => thumb && setLightbox({ src: it.proof_url || thumb, title })}
-                      className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-white/[0.06] px-3.5 py-2 text-sm text-white/90 hover:bg-white/[0.1] hover:border-white/20 focus:outline-none active:scale-[.98]"
+                      onClick={() =>
+                        openPostRoom(it.id)
+                          .then((roomId) => nav(`/chat/${roomId}`))
+                          .catch((e) => setError(e.message))
+                      }
+                      title="Discuss this post"
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/[0.06] px-2.5 py-1.5 text-xs hover:bg-white/[0.1] active:scale-[.98]"
                     >
-                      View photo
+                      💬
                     </button>
-
-                    <Reactions ledgerId={it.id} /* size="md" showPpv */ />
                   </div>
                 </div>
               </article>
@@ -259,57 +421,13 @@ export default function RecentActivity() {
         </div>
       )}
 
-      {/* Non-blocking centered popup with iPhone-safe padding */}
       {lightbox && (
-        <div
-          className="fixed inset-0 z-[1000] pointer-events-none"
-          style={{
-            // Safe areas for iPhone notch/home indicator
-            paddingTop: "env(safe-area-inset-top)",
-            paddingBottom: "env(safe-area-inset-bottom)",
-            paddingLeft: "env(safe-area-inset-left)",
-            paddingRight: "env(safe-area-inset-right)",
-          }}
-        >
-          {/* visual backdrop only; scrolling passes through */}
-          <div className="absolute inset-0 bg-black/70 backdrop-blur-sm pointer-events-none" />
-
-          <div className="absolute inset-0 grid place-items-center p-3 sm:p-6">
-            <div
-              role="dialog"
-              aria-modal="true"
-              className="pointer-events-auto relative w-[min(94vw,680px)] max-h-[75svh] rounded-2xl bg-slate-950 p-4 shadow-2xl ring-1 ring-white/10 flex flex-col items-center"
-            >
-              {/* Close: large tap target */}
-              <button
-                aria-label="Close"
-                onClick={() => setLightbox(null)}
-                className="absolute right-3 top-3 h-11 min-w-11 px-4 rounded-full border border-white/20 bg-black/60 text-sm text-white hover:bg-black/80 active:scale-[.98]"
-              >
-                Close
-              </button>
-
-              {/* Image area */}
-              <div className="flex items-center justify-center">
-                {!imgLoaded && <div className="text-white/70 text-sm py-10">Loading photo…</div>}
-                <img
-                  src={lightbox.src}
-                  alt={lightbox.title || "Proof"}
-                  className={`max-w-[90vw] max-h-[60svh] object-contain ${
-                    imgLoaded ? "opacity-100" : "opacity-0"
-                  } transition-opacity`}
-                  onLoad={() => setImgLoaded(true)}
-                />
-              </div>
-
-              {lightbox.title && (
-                <div className="mt-2 text-white/90 text-sm font-medium text-center px-2">
-                  {lightbox.title}
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
+        <ProofLightbox
+          attachments={lightbox.attachments}
+          title={lightbox.task_title || "(untitled)"}
+          note={lightbox.proof_note}
+          onClose={closeLightbox}
+        />
       )}
     </>
   );
@@ -0,0 +1,117 @@
+// src/components/RecurrencePicker.tsx
+import React from "react";
+import type { Freq, Recurrence } from "../lib/recurrence";
+import { WEEKDAY_LABELS } from "../lib/recurrence";
+
+type Props = {
+  value: Recurrence | null; // null = does not repeat
+  onChange: (next: Recurrence | null) => void;
+  allowNever?: boolean;
+};
+
+const OPTIONS: { value: Freq | "never"; label: string }[] = [
+  { value: "never", label: "Does not repeat" },
+  { value: "daily", label: "Daily" },
+  { value: "weekdays", label: "Weekdays (Mon–Fri)" },
+  { value: "interval", label: "Every N days" },
+  { value: "weekly", label: "Weekly on…" },
+];
+
+const field =
+  "rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20";
+
+export default function RecurrencePicker({ value, onChange, allowNever = true }: Props) {
+  const freq = value?.freq ?? "never";
+
+  const setFreq = (f: Freq | "never") => {
+    if (f === "never") return onChange(null);
+    onChange({
+      freq: f,
+      interval_days: f === "interval" ? value?.interval_days ?? 2 : null,
+      by_weekday: f === "weekly" ? (value?.by_weekday?.length ? value.by_weekday : [isoToday()]) : null,
+      until: value?.until ?? null,
+    });
+  };
+
+  const toggleDay = (d: number) => {
+    if (!value) return;
+    const days = value.by_weekday ?? [];
+    const next = days.includes(d) ? days.filter((x) => x !== d) : [...days, d].sort();
+    if (next.length) onChange({ ...value, by_weekday: next });
+  };
+
+  return (
+    <div className="grid gap-2">
+      <label className="grid gap-1">
+        <span className="text-xs text-white/60">Repeat</span>
+        <select
+          className={`${field} text-[15px]`}
+          value={freq}
+          onChange={(e) => setFreq(e.target.value as Freq | "never")}
+        >
+          {OPTIONS.filter((o) => allowNever || o.value !== "never").map((o) => (
+            <option key={o.value} value={o.value} className="bg-slate-900">
+              {o.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {value?.freq === "interval" && (
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          Every
+          <input
+            className={`${field} w-20`}
+            type="number"
+            min={1}
+            max={365}
+            value={value.interval_days ?? 2}
+            onChange={(e) =>
+              onChange({ ...value, interval_days: Math.max(1, Math.min(365, Number(e.target.value) || 1)) })
+            }
+          />
+          days
+        </label>
+      )}
+
+      {value?.freq === "weekly" && (
+        <div className="flex flex-wrap gap-1.5">
+          {WEEKDAY_LABELS.map((label, i) => {
+            const d = i + 1;
+            const on = value.by_weekday?.includes(d);
+            return (
+              <button
+                type="button"
+                key={label}
+                onClick={() => toggleDay(d)}
+                aria-pressed={on}
+                className={[
+                  "rounded-full px-2.5 py-1 text-xs border transition",
+                  on ? "bg-white text-slate-900 border-white" : "bg-white/[0.06] border-white/10 hover:bg-white/[0.1]",
+                ].join(" ")}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && (
+        <label className="grid gap-1">
+          <span className="text-xs text-white/60">Until (optional)</span>
+          <input
+            className={field}
+            type="date"
+            value={value.until ?? ""}
+            onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+function isoToday() {
+  return ((new Date().getDay() + 6) % 7) + 1;
+}
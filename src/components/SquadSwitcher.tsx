@@ -0,0 +1,32 @@
+// src/components/SquadSwitcher.tsx
+import React from "react";
+import type { Squad } from "../api/squads";
+
+type Props = {
+  squads: Squad[];
+  value: string | null; // null = everyone
+  onChange: (id: string | null) => void;
+  className?: string;
+};
+
+export default function SquadSwitcher({ squads, value, onChange, className = "" }: Props) {
+  return (
+    <label className={`grid gap-1 ${className}`}>
+      <span className="sr-only">Squad</span>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/20"
+      >
+        <option value="" className="bg-slate-900">
+          🌍 Everyone
+        </option>
+        {squads.map((s) => (
+          <option key={s.id} value={s.id} className="bg-slate-900">
+            👥 {s.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,32 @@
+// src/components/StreakBadge.tsx
+import React from "react";
+import type { UserStreak } from "../api/streaks";
+
+/** 🔥N chip; amber while the streak is at risk today. Renders nothing at 0. */
+export default function StreakBadge({
+  streak,
+  className = "",
+}: {
+  streak?: UserStreak | null;
+  className?: string;
+}) {
+  if (!streak || streak.current_streak <= 0) return null;
+  const title = streak.at_risk
+    ? `${streak.current_streak}-day streak — complete something today to keep it`
+    : `${streak.current_streak}-day streak`;
+
+  return (
+    <span
+      title={title}
+      className={[
+        "inline-flex items-center gap-0.5 rounded-full border px-1.5 py-0.5 text-[11px] font-semibold leading-none",
+        streak.at_risk
+          ? "border-amber-300/30 bg-amber-300/10 text-amber-200"
+          : "border-orange-300/30 bg-orange-400/15 text-orange-200",
+        className,
+      ].join(" ")}
+    >
+      🔥{streak.current_streak}
+    </span>
+  );
+}
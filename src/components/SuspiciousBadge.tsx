@@ -0,0 +1,56 @@
+// src/components/SuspiciousBadge.tsx
+import React, { useState } from "react";
+import { clearProofFlags, PROOF_FLAG_LABELS } from "../api/proofs";
+import type { ProofFlag } from "../api/proofs";
+
+type Props = {
+  proofId: string;
+  flags: ProofFlag[];
+  canClear?: boolean; // squadmates of the poster
+  onCleared?: () => void;
+  className?: string;
+};
+
+/** "⚠️ Suspicious" chip for a flagged proof; squadmates can clear it. */
+export default function SuspiciousBadge({ proofId, flags, canClear = false, onCleared, className = "" }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  if (!flags.length) return null;
+
+  const reasons = flags.map((f) => PROOF_FLAG_LABELS[f] ?? f).join(" · ");
+
+  const clear = async () => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await clearProofFlags(proofId);
+      onCleared?.();
+    } catch (e: any) {
+      setErr(e.message ?? "Couldn't clear");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className={`inline-flex items-center gap-1.5 ${className}`}>
+      <span
+        title={reasons}
+        className="rounded-full border border-amber-300/30 bg-amber-300/10 px-2 py-0.5 text-[11px] text-amber-200"
+      >
+        ⚠️ Suspicious
+      </span>
+      {canClear && (
+        <button
+          onClick={clear}
+          disabled={busy}
+          title={`Looks fine to me (${reasons})`}
+          className="text-[11px] text-white/60 hover:text-white underline-offset-2 hover:underline disabled:opacity-50"
+        >
+          Clear
+        </button>
+      )}
+      {err && <span className="text-[11px] text-rose-300">{err}</span>}
+    </span>
+  );
+}
@@ -1,20 +1,62 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../lib/supabaseClient";
 import type { Session } from "@supabase/supabase-js";
+import {
+  appealTaskScore,
+  completeTaskWithProof,
+  createTask,
+  deleteTask,
+  editTask,
+  fetchMaxAppeals,
+  fetchMyTaskSteps,
+  fetchTaskChanges,
+  MAX_POSTPONES,
+  MISSED_GRACE_MINUTES,
+  missedPenalty,
+  MAX_PROOF_NOTE,
+  MAX_PROOF_PHOTOS,
+  MAX_PROOF_VIDEO_MB,
+  MAX_TASK_STEPS,
+  rescheduleTask,
+  setTaskSteps,
+  stepXp,
+  unprovenXp,
+  uncompleteTask,
+} from "../api/tasks";
+import type { ProofSubmission, TaskChange, TaskRow, TaskStep } from "../api/tasks";
+import {
+  createSeries,
+  endSeries,
+  fetchMySeries,
+  generateMyOccurrences,
+  skipOccurrence,
+  updateSeries,
+} from "../api/series";
+import type { TaskSeries } from "../api/series";
+import { fetchProofQueue, settleDueProofs } from "../api/proofs";
+import type { QueuedProof } from "../api/proofs";
+import { describeRecurrence } from "../lib/recurrence";
+import type { Recurrence } from "../lib/recurrence";
+import RecurrencePicker from "./RecurrencePicker";
+import { isHeic } from "../lib/images";
 
-type TaskRow = {
-  id: string;
-  owner_id: string;
+type TabKey = "open" | "pending" | "completed" | "missed";
+
+type HabitTemplate = {
+  label: string;
   title: string;
-  description: string | null;
-  due_at: string; // ISO
-  xp_assigned: number;
-  status: "open" | "completed" | "missed";
-  completed_at: string | null;
-  created_at: string;
+  minutes: number;
+  difficulty: number;
+  recurrence: Recurrence;
 };
 
-type TabKey = "open" | "completed" | "missed";
+// One-tap prefills for the things the squad logs all the time
+const HABIT_TEMPLATES: HabitTemplate[] = [
+  { label: "🏋️ Gym", title: "Gym session", minutes: 60, difficulty: 3, recurrence: { freq: "weekdays" } },
+  { label: "📚 Study 3h", title: "Study 3h", minutes: 180, difficulty: 4, recurrence: { freq: "daily" } },
+  { label: "🏃 Run 5k", title: "5km run", minutes: 30, difficulty: 3, recurrence: { freq: "weekly", by_weekday: [2, 4, 6] } },
+  { label: "📖 Read", title: "Read 30 pages", minutes: 30, difficulty: 2, recurrence: { freq: "daily" } },
+];
 
 export default function TaskManager() {
   const [session, setSession] = useState<Session | null>(null);
@@ -23,16 +65,24 @@ export default function TaskManager() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [dueAt, setDueAt] = useState<string>(() => defaultDueLocal());
+  const [minutes, setMinutes] = useState(30);
+  const [difficulty, setDifficulty] = useState(3);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
   const [formOpen, setFormOpen] = useState(true);
 
   // ui
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastXP, setLastXP] = useState<number | null>(null);
+  const [lastScore, setLastScore] = useState<{ xp: number; rationale: string | null } | null>(null);
 
   // data
   const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [series, setSeries] = useState<Record<string, TaskSeries>>({});
+  const [proofs, setProofs] = useState<Record<string, QueuedProof>>({}); // whole-task proofs by task_id
+  const [steps, setSteps] = useState<Record<string, TaskStep[]>>({}); // checklists by task_id
+  const [maxAppeals, setMaxAppeals] = useState(0); // until loaded, no appeal button
   const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // tabs
   const [tab, setTab] = useState<TabKey>("open");
@@ -49,38 +99,93 @@ export default function TaskManager() {
       setLoading(true);
       setError(null);
 
+      // a scheduled job grades everyone every few minutes; grading here too
+      // means the lists are current the moment the page opens
+      const { error: gradeErr } = await supabase.rpc("penalize_my_overdue");
+      if (gradeErr) console.error("Failed to grade overdue tasks:", gradeErr);
+
+      // decide proofs whose review window has closed
       try {
-        // grade overdue (no-op if you don't have this RPC)
-        await supabase.rpc("penalize_my_overdue");
-      } catch {}
+        await settleDueProofs();
+      } catch (err) {
+        console.error("Failed to settle proofs:", err);
+      }
 
-      const { data, error } = await supabase
-        .from("tasks")
-        .select("*")
-        .eq("owner_id", session.user.id)
-        .order("due_at", { ascending: true });
+      // materialize upcoming occurrences of recurring tasks
+      try {
+        await generateMyOccurrences();
+      } catch (err) {
+        console.error("Failed to generate occurrences:", err);
+      }
+
+      const [{ data, error }, mySeries, myProofs, mySteps] = await Promise.all([
+        supabase
+          .from("tasks")
+          .select("*")
+          .eq("owner_id", session.user.id)
+          .order("due_at", { ascending: true }),
+        fetchMySeries(session.user.id).catch(() => [] as TaskSeries[]),
+        fetchProofQueue({ userId: session.user.id, status: ["pending", "rejected"] }).catch(
+          () => [] as QueuedProof[]
+        ),
+        fetchMyTaskSteps().catch(() => [] as TaskStep[]),
+      ]);
 
       if (!alive) return;
       if (error) setError(error.message);
       setTasks((data as TaskRow[]) || []);
+      setSeries(Object.fromEntries(mySeries.map((s) => [s.id, s])));
+      setProofs(Object.fromEntries(myProofs.filter((p) => !p.step_id).map((p) => [p.task_id, p])));
+      setSteps(
+        mySteps.reduce<Record<string, TaskStep[]>>((acc, step) => {
+          (acc[step.task_id] ||= []).push(step);
+          return acc;
+        }, {})
+      );
       setLoading(false);
     })();
 
     return () => {
       alive = false;
     };
+  }, [session?.user.id, reloadKey]);
+
+  useEffect(() => {
+    fetchMaxAppeals()
+      .then(setMaxAppeals)
+      .catch((err) => console.error("Failed to load the appeal limit:", err));
+  }, []);
+
+  // squadmates deciding on a proof moves the task between tabs
+  useEffect(() => {
+    if (!session?.user.id) return;
+    const ch = supabase
+      .channel(`my_proofs_${session.user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "task_proofs", filter: `user_id=eq.${session.user.id}` },
+        () => setReloadKey((k) => k + 1)
+      )
+      .subscribe();
+    return () => {
+      void supabase.removeChannel(ch);
+    };
   }, [session?.user.id]);
 
   const openTasks = useMemo(
     () => tasks.filter((t) => t.status === "open"),
     [tasks]
   );
+  const pendingTasks = useMemo(
+    () => tasks.filter((t) => t.status === "pending"),
+    [tasks]
+  );
   const completedTasks = useMemo(
     () => tasks.filter((t) => t.status === "completed"),
     [tasks]
   );
   const missedTasks = useMemo(
-    () => tasks.filter((t) => t.status === "missed"),
+    () => tasks.filter((t) => t.status === "missed" || t.status === "rejected"),
     [tasks]
   );
 
@@ -91,38 +196,40 @@ export default function TaskManager() {
 
     setCreating(true);
     setError(null);
-    setLastXP(null);
+    setLastScore(null);
 
     try {
-      // Ask your edge fn for XP
-      const { data: xpResp, error: fnErr } = await supabase.functions.invoke(
-        "xp-assign",
-        {
-          body: { title, description, due_at: localToISO(dueAt) },
-        }
-      );
-      if (fnErr) throw fnErr;
-      const xp = (xpResp as any)?.xp ?? 10;
-      setLastXP(xp);
-
-      const { data, error: insErr } = await supabase
-        .from("tasks")
-        .insert({
-          owner_id: session.user.id,
+      // scored + inserted server-side
+      if (recurrence) {
+        const res = await createSeries({
           title,
           description,
-          due_at: localToISO(dueAt),
-          xp_assigned: xp,
-        })
-        .select()
-        .single();
-
-      if (insErr) throw insErr;
-      setTasks((prev) => [data as TaskRow, ...prev]);
+          dueAtISO: localToISO(dueAt),
+          minutes,
+          difficulty,
+          recurrence,
+        });
+        setLastScore({ xp: res.series.xp_assigned, rationale: res.series.xp_rationale });
+        setSeries((prev) => ({ ...prev, [res.series.id]: res.series }));
+        setTasks((prev) => [...res.tasks, ...prev]);
+      } else {
+        const task = await createTask({
+          title,
+          description,
+          dueAtISO: localToISO(dueAt),
+          minutes,
+          difficulty,
+        });
+        setLastScore({ xp: task.xp_assigned, rationale: task.xp_rationale });
+        setTasks((prev) => [task, ...prev]);
+      }
 
       setTitle("");
       setDescription("");
       setDueAt(defaultDueLocal());
+      setMinutes(30);
+      setDifficulty(3);
+      setRecurrence(null);
       setFormOpen(false);
     } catch (err: any) {
       setError(err.message ?? "Failed to create task");
@@ -131,70 +238,122 @@ export default function TaskManager() {
     }
   };
 
-  /** Complete with photo */
-  const onCompleteWithPhoto = async (task: TaskRow, file: File) => {
+  /** Complete with photos / video / note */
+  const onCompleteWithProof = async (task: TaskRow, submission: ProofSubmission) => {
     if (!session?.user.id) return;
     try {
-      const ext = (file.name.split(".").pop() || "jpg").toLowerCase();
-      const path = `${session.user.id}/${task.id}/${Date.now()}.${ext}`;
-
-      const { error: upErr } = await supabase.storage
-        .from("task-proofs")
-        .upload(path, file, { cacheControl: "3600", upsert: false });
-      if (upErr) throw upErr;
-
-      const { data: pub } = supabase.storage.from("task-proofs").getPublicUrl(path);
-      const proof_url = pub.publicUrl;
-      const proof_thumb_url = `${proof_url}?width=512&height=512&resize=cover&quality=70`;
-
       // optimistic
       setTasks((prev) =>
         prev.map((t) =>
           t.id === task.id
-            ? { ...t, status: "completed", completed_at: new Date().toISOString() }
+            ? { ...t, status: "pending", completed_at: new Date().toISOString() }
             : t
         )
       );
 
-      // try RPC that updates task + ledger
-      const tryRpc = await supabase.rpc("complete_task_with_proof", {
-        p_task_id: task.id,
-        p_proof_url: proof_url,
-        p_proof_thumb_url: proof_thumb_url,
-      });
-
-      if (tryRpc.error) {
-        // fallback path
-        const { error: upErr2 } = await supabase
-          .from("tasks")
-          .update({ status: "completed", completed_at: new Date().toISOString() })
-          .eq("id", task.id);
-        if (upErr2) throw upErr2;
-
-        const { error: xpErr } = await supabase.from("xp_ledger").insert({
-          user_id: session.user.id,
-          task_id: task.id,
-          delta: task.xp_assigned,
-          reason: "task completed",
-          proof_url,
-          proof_thumb_url,
-        });
-        if (xpErr) throw xpErr;
-      }
+      await completeTaskWithProof(task, submission);
+      setReloadKey((k) => k + 1); // pick up the queued proof
     } catch (err: any) {
       // revert
       setTasks((prev) => prev.map((t) => (t.id === task.id ? task : t)));
-      setError(err.message ?? "Failed to complete task with photo");
+      setError(err.message ?? "Failed to submit proof");
     }
   };
 
+  /** Check off (or retry a rejected) checklist step; the task stays open until every step has proof */
+  const onCompleteStep = async (task: TaskRow, step: TaskStep, submission: ProofSubmission) => {
+    const markStep = (status: TaskStep["proof_status"]) =>
+      setSteps((prev) => ({
+        ...prev,
+        [task.id]: (prev[task.id] ?? []).map((s) => (s.id === step.id ? { ...s, proof_status: status } : s)),
+      }));
+    try {
+      markStep("pending"); // optimistic
+      await completeTaskWithProof(task, submission, step);
+      setReloadKey((k) => k + 1); // the last step moves the task to review
+    } catch (err: any) {
+      markStep(step.proof_status);
+      setError(err.message ?? "Failed to submit proof");
+    }
+  };
+
+  /** Replace a task's checklist (throws so the card can show it) */
+  const onSetSteps = async (task: TaskRow, titles: string[]) => {
+    await setTaskSteps(task.id, titles);
+    setReloadKey((k) => k + 1);
+  };
+
+  /** Appeal: re-score with extra context (throws so the card can show it) */
+  const onAppeal = async (task: TaskRow, context: string) => {
+    const updated = await appealTaskScore(task.id, context);
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? updated : t)));
+  };
+
+  /** Fix a mistake (each throws so the card can show it) */
+  const onEdit = async (task: TaskRow, patch: { title: string; description: string }) => {
+    const updated = await editTask(task.id, patch);
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? updated : t)));
+  };
+
+  const onDelete = async (task: TaskRow) => {
+    await deleteTask(task.id);
+    setTasks((prev) => prev.filter((t) => t.id !== task.id));
+  };
+
+  const onUncomplete = async (task: TaskRow) => {
+    await uncompleteTask(task.id);
+    setReloadKey((k) => k + 1); // the proof is gone and the task is open again
+  };
+
+  /** Series: skip / move one occurrence, or edit / end the whole series */
+  const onSkip = async (task: TaskRow) => {
+    if (!task.series_id || !task.occurrence_date) return;
+    await skipOccurrence(task.series_id, task.occurrence_date);
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, status: "skipped" } : t)));
+  };
+
+  // one-off tasks and single occurrences alike
+  const onReschedule = async (task: TaskRow, dueAtISO: string) => {
+    const updated = await rescheduleTask(task.id, dueAtISO);
+    setTasks((prev) => prev.map((t) => (t.id === task.id ? updated : t)));
+  };
+
+  const onEditSeries = async (
+    seriesId: string,
+    patch: Parameters<typeof updateSeries>[1]
+  ) => {
+    const res = await updateSeries(seriesId, patch);
+    setSeries((prev) => ({ ...prev, [seriesId]: res.series }));
+    setTasks((prev) => [...prev.filter((t) => t.series_id !== seriesId), ...res.tasks]);
+  };
+
+  const onEndSeries = async (seriesId: string) => {
+    await endSeries(seriesId);
+    setReloadKey((k) => k + 1);
+  };
+
+  const applyTemplate = (tpl: HabitTemplate) => {
+    setTitle(tpl.title);
+    setMinutes(tpl.minutes);
+    setDifficulty(tpl.difficulty);
+    setRecurrence({ interval_days: null, by_weekday: null, until: null, ...tpl.recurrence });
+  };
+
   const counts = {
     open: openTasks.length,
+    pending: pendingTasks.length,
     completed: completedTasks.length,
     missed: missedTasks.length,
   };
 
-  const listForTab = tab === "open" ? openTasks : tab === "completed" ? completedTasks : missedTasks;
+  const listForTab =
+    tab === "open"
+      ? openTasks
+      : tab === "pending"
+      ? pendingTasks
+      : tab === "completed"
+      ? completedTasks
+      : missedTasks;
 
   return (
     <section className="rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]">
@@ -212,6 +371,20 @@ export default function TaskManager() {
       {/* Form card */}
       {formOpen && (
         <form onSubmit={onCreate} className="mb-5 grid gap-3">
+          {/* Habit templates */}
+          <div className="flex items-center gap-2 overflow-x-auto no-scrollbar">
+            {HABIT_TEMPLATES.map((tpl) => (
+              <button
+                type="button"
+                key={tpl.label}
+                onClick={() => applyTemplate(tpl)}
+                className="whitespace-nowrap rounded-full px-3 py-1.5 text-sm border bg-white/[0.06] border-white/10 hover:bg-white/[0.1]"
+              >
+                {tpl.label}
+              </button>
+            ))}
+          </div>
+
           <div className="grid gap-2">
             <input
               className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 text-[15px]"
@@ -227,7 +400,9 @@ export default function TaskManager() {
               onChange={(e) => setDescription(e.target.value)}
             />
             <label className="grid gap-1">
-              <span className="text-xs text-white/60">Due date & time</span>
+              <span className="text-xs text-white/60">
+                {recurrence ? "First occurrence" : "Due date & time"}
+              </span>
               <input
                 className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20"
                 type="datetime-local"
@@ -236,6 +411,31 @@ export default function TaskManager() {
                 required
               />
             </label>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="grid gap-1">
+                <span className="text-xs text-white/60">Minutes</span>
+                <input
+                  className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20"
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={minutes}
+                  onChange={(e) => setMinutes(Number(e.target.value) || 1)}
+                />
+              </label>
+              <label className="grid gap-1">
+                <span className="text-xs text-white/60">Difficulty · {difficulty}/5</span>
+                <input
+                  className="mt-2 accent-sky-400"
+                  type="range"
+                  min={1}
+                  max={5}
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(Number(e.target.value))}
+                />
+              </label>
+            </div>
+            <RecurrencePicker value={recurrence} onChange={setRecurrence} />
           </div>
 
           <div className="flex items-center gap-3">
@@ -244,12 +444,15 @@ export default function TaskManager() {
               type="submit"
               disabled={creating}
             >
-              {creating ? "Creating…" : "+ Create Task"}
+              {creating ? "Creating…" : recurrence ? "+ Create Habit" : "+ Create Task"}
             </button>
           </div>
 
-          {lastXP !== null && (
-            <div className="text-sm text-white/80">Assigned XP: <strong>{lastXP}</strong></div>
+          {lastScore !== null && (
+            <div className="text-sm text-white/80">
+              Assigned XP: <strong>{lastScore.xp}</strong>
+              {lastScore.rationale && <span className="text-white/60"> · {lastScore.rationale}</span>}
+            </div>
           )}
           {error && <div className="text-rose-400">{error}</div>}
         </form>
@@ -258,6 +461,7 @@ export default function TaskManager() {
       {/* Summary chips */}
       <div className="mb-3 flex items-center gap-2 overflow-x-auto no-scrollbar">
         <TabChip label={`Open (${counts.open})`} active={tab === "open"} onClick={() => setTab("open")} />
+        <TabChip label={`In review (${counts.pending})`} active={tab === "pending"} onClick={() => setTab("pending")} />
         <TabChip label={`Completed (${counts.completed})`} active={tab === "completed"} onClick={() => setTab("completed")} />
         <TabChip label={`Missed (${counts.missed})`} active={tab === "missed"} onClick={() => setTab("missed")} />
       </div>
@@ -271,13 +475,33 @@ export default function TaskManager() {
             <TaskRowCard
               key={t.id}
               t={t}
-              onPickFile={(file) => onCompleteWithPhoto(t, file)}
+              onSubmitProof={(submission) => onCompleteWithProof(t, submission)}
+              steps={steps[t.id] ?? []}
+              onSubmitStepProof={(step, submission) => onCompleteStep(t, step, submission)}
+              onSetSteps={(titles) => onSetSteps(t, titles)}
+              onAppeal={(context) => onAppeal(t, context)}
+              maxAppeals={maxAppeals}
+              series={t.series_id ? series[t.series_id] : undefined}
+              proof={proofs[t.id]}
+              onSkip={() => onSkip(t)}
+              onReschedule={(iso) => onReschedule(t, iso)}
+              onEdit={(patch) => onEdit(t, patch)}
+              onDelete={() => onDelete(t)}
+              onUncomplete={() => onUncomplete(t)}
+              onEditSeries={onEditSeries}
+              onEndSeries={onEndSeries}
               tab={tab}
             />
           ))
         ) : (
           <div className="text-white/60 text-sm py-3 text-center">
-            {tab === "open" ? "No open tasks." : tab === "completed" ? "Nothing completed yet." : "No missed tasks. Nice!"}
+            {tab === "open"
+              ? "No open tasks."
+              : tab === "pending"
+              ? "Nothing waiting on review."
+              : tab === "completed"
+              ? "Nothing completed yet."
+              : "No missed tasks. Nice!"}
           </div>
         )}
       </div>
@@ -303,23 +527,100 @@ function TabChip({ label, active, onClick }: { label: string; active: boolean; o
 
 function TaskRowCard({
   t,
-  onPickFile,
+  onSubmitProof,
+  steps,
+  onSubmitStepProof,
+  onSetSteps,
+  onAppeal,
+  maxAppeals,
+  series,
+  proof,
+  onSkip,
+  onReschedule,
+  onEdit,
+  onDelete,
+  onUncomplete,
+  onEditSeries,
+  onEndSeries,
   tab,
 }: {
   t: TaskRow;
-  onPickFile: (file: File) => void;
+  onSubmitProof: (submission: ProofSubmission) => Promise<void>;
+  steps: TaskStep[];
+  onSubmitStepProof: (step: TaskStep, submission: ProofSubmission) => Promise<void>;
+  onSetSteps: (titles: string[]) => Promise<void>;
+  onAppeal: (context: string) => Promise<void>;
+  maxAppeals: number;
+  series?: TaskSeries;
+  proof?: QueuedProof; // pending/rejected tasks only
+  onSkip: () => Promise<void>;
+  onReschedule: (dueAtISO: string) => Promise<void>;
+  onEdit: (patch: { title: string; description: string }) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onUncomplete: () => Promise<void>;
+  onEditSeries: (seriesId: string, patch: Parameters<typeof updateSeries>[1]) => Promise<void>;
+  onEndSeries: (seriesId: string) => Promise<void>;
   tab: TabKey;
 }) {
-  const inputRef = useRef<HTMLInputElement>(null);
+  // "task", or the id of the checklist step being proven
+  const [proofFor, setProofFor] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
+  const toggleProof = (target: string) => setProofFor((p) => (p === target ? null : target));
+  const provingStep = steps.find((s) => s.id === proofFor);
+  const stepsLocked = steps.some((s) => s.proof_status);
+  // what missing it would cost now: only the steps without live proof count
+  const missPenalty = missedPenalty(unprovenXp(t.xp_assigned, steps));
 
-  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    e.target.value = "";
+  // appeal
+  const [appealOpen, setAppealOpen] = useState(false);
+  const [appealText, setAppealText] = useState("");
+  const [appealing, setAppealing] = useState(false);
+  const [appealErr, setAppealErr] = useState<string | null>(null);
+  const appealsLeft = Math.max(0, maxAppeals - (t.appeal_count ?? 0));
+
+  // which inline panel is open
+  const [panel, setPanel] = useState<"edit" | "steps" | "move" | "series" | "history" | null>(null);
+  const togglePanel = (next: NonNullable<typeof panel>) => setPanel((p) => (p === next ? null : next));
+  const [moveTo, setMoveTo] = useState(() => toLocalInputValue(new Date(t.due_at)));
+  const postponesLeft = Math.max(0, MAX_POSTPONES - (t.postpone_count ?? 0));
+  const [actionBusy, setActionBusy] = useState(false);
+  const [actionErr, setActionErr] = useState<string | null>(null);
+
+  const runAction = async (fn: () => Promise<void>) => {
+    setActionBusy(true);
+    setActionErr(null);
+    try {
+      await fn();
+      setPanel(null);
+    } catch (err: any) {
+      setActionErr(err.message ?? "Something went wrong");
+    } finally {
+      setActionBusy(false);
+    }
+  };
+
+  const submitAppeal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const context = appealText.trim();
+    if (!context) return;
+    setAppealing(true);
+    setAppealErr(null);
+    try {
+      await onAppeal(context);
+      setAppealText("");
+      setAppealOpen(false);
+    } catch (err: any) {
+      setAppealErr(err.message ?? "Appeal failed");
+    } finally {
+      setAppealing(false);
+    }
+  };
+
+  const submitProof = async (submission: ProofSubmission) => {
     setBusy(true);
     try {
-      await onPickFile(file);
+      await (provingStep ? onSubmitStepProof(provingStep, submission) : onSubmitProof(submission));
+      setProofFor(null);
     } finally {
       setBusy(false);
     }
@@ -340,6 +641,8 @@ function TaskRowCard({
               "shrink-0 rounded-full px-2 py-0.5 text-xs border",
               tab === "open"
                 ? "border-amber-300/30 bg-amber-300/10 text-amber-200"
+                : tab === "pending"
+                ? "border-sky-300/30 bg-sky-300/10 text-sky-200"
                 : tab === "completed"
                 ? "border-emerald-300/30 bg-emerald-300/10 text-emerald-200"
                 : "border-rose-300/30 bg-rose-300/10 text-rose-200",
@@ -349,43 +652,763 @@ function TaskRowCard({
           </span>
         </div>
 
+        {series && (
+          <div className="mt-1 text-[11px] text-sky-200/80">↻ {describeRecurrence(series)}</div>
+        )}
+
         <div className="mt-1 text-xs text-white/70">
           {tab === "completed"
             ? `Completed ${formatDate(t.completed_at || t.due_at)}`
+            : tab === "pending"
+            ? `Awaiting verification${
+                proof ? ` · ✓ ${proof.approvals} · ✗ ${proof.rejections} · decided by ${formatDate(proof.review_ends_at)}` : ""
+              }`
+            : t.status === "rejected"
+            ? `Proof rejected ${formatDate(proof?.decided_at || t.completed_at || t.due_at)}`
             : tab === "missed"
-            ? `Due ${formatDate(t.due_at)} · Penalty −${Math.ceil(t.xp_assigned / 2)} XP`
-            : `Due ${formatDate(t.due_at)}`}
+            ? `Due ${formatDate(t.due_at)} · ${describePenalty(t.penalty_xp ?? 0)}`
+            : new Date(t.due_at) < new Date()
+            ? `Overdue · missed after ${formatDate(graceEnds(t.due_at))} · ${describePenalty(missPenalty)}`
+            : `Due ${formatDate(t.due_at)} · ${describePenalty(missPenalty)}`}
         </div>
 
+        {t.status === "rejected" && proof?.decision_reason && (
+          <p className="mt-1 text-xs italic text-rose-200/80">“{proof.decision_reason}”</p>
+        )}
+
         {t.description && (
           <p className="mt-2 text-sm text-white/80 line-clamp-3">{t.description}</p>
         )}
-      </div>
 
-      {/* Complete with photo (only for open) */}
-      {tab === "open" && (
-        <>
-          <input
-            ref={inputRef}
-            type="file"
-            accept="image/*"
-            capture="environment"
-            className="hidden"
-            onChange={handleChange}
+        {steps.length > 0 && (
+          <StepChecklist
+            steps={steps}
+            xp={t.xp_assigned}
+            canProve={tab === "open"}
+            busy={busy}
+            proofFor={proofFor}
+            onProve={(step) => toggleProof(step.id)}
           />
+        )}
+
+        {t.xp_rationale && (
+          <p className="mt-2 text-xs italic text-white/60" title={t.xp_scorer ? `Scored by ${t.xp_scorer}` : undefined}>
+            “{t.xp_rationale}”
+          </p>
+        )}
+
+        {/* Appeal (only for open, while appeals remain) */}
+        {tab === "open" && appealsLeft > 0 && !appealOpen && (
           <button
-            onClick={() => inputRef.current?.click()}
-            disabled={busy}
-            className="shrink-0 rounded-xl border border-white/10 bg-white/[0.06] px-3 py-2 text-sm hover:bg-white/[0.1] disabled:opacity-60"
+            onClick={() => setAppealOpen(true)}
+            className="mt-2 text-xs text-sky-300 hover:text-sky-200 underline-offset-2 hover:underline"
           >
-            {busy ? "Uploading…" : "Proof"}
+            Appeal score ({appealsLeft} left)
           </button>
-        </>
+        )}
+        {tab === "open" && appealOpen && (
+          <form onSubmit={submitAppeal} className="mt-2 grid gap-2">
+            <textarea
+              className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 min-h-[70px] text-sm"
+              placeholder="What did the referee miss?"
+              value={appealText}
+              onChange={(e) => setAppealText(e.target.value)}
+              maxLength={1000}
+              required
+            />
+            <div className="flex items-center gap-2">
+              <button
+                type="submit"
+                disabled={appealing}
+                className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+              >
+                {appealing ? "Re-scoring…" : "Request re-score"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setAppealOpen(false);
+                  setAppealErr(null);
+                }}
+                className="rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+              >
+                Cancel
+              </button>
+            </div>
+            {appealErr && <div className="text-rose-400 text-sm">{appealErr}</div>}
+          </form>
+        )}
+
+        {/* Recurring: this occurrence vs. whole series */}
+        {tab === "open" && series && (
+          <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+            {/* once due, only proof or the missed penalty settles it */}
+            {new Date(t.due_at).getTime() > Date.now() && (
+              <button
+                disabled={actionBusy}
+                onClick={() => runAction(onSkip)}
+                className="text-white/70 hover:text-white disabled:opacity-60"
+              >
+                Skip this one
+              </button>
+            )}
+            <button
+              disabled={actionBusy}
+              onClick={() => togglePanel("move")}
+              className="text-white/70 hover:text-white disabled:opacity-60"
+            >
+              Move this one
+            </button>
+            <button
+              disabled={actionBusy}
+              onClick={() => togglePanel("series")}
+              className="text-white/70 hover:text-white disabled:opacity-60"
+            >
+              Edit series
+            </button>
+            <button
+              disabled={actionBusy}
+              onClick={() => {
+                if (window.confirm(`Stop repeating “${series.title}”?`)) {
+                  void runAction(() => onEndSeries(series.id));
+                }
+              }}
+              className="text-rose-300/80 hover:text-rose-200 disabled:opacity-60"
+            >
+              End series
+            </button>
+          </div>
+        )}
+        {/* Fix a mistake: edit / reschedule / delete while open, undo once submitted */}
+        <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          {tab === "open" && (
+            <button
+              disabled={actionBusy}
+              onClick={() => togglePanel("edit")}
+              className="text-white/70 hover:text-white disabled:opacity-60"
+            >
+              Edit
+            </button>
+          )}
+          {tab === "open" && !stepsLocked && (
+            <button
+              disabled={actionBusy}
+              onClick={() => togglePanel("steps")}
+              className="text-white/70 hover:text-white disabled:opacity-60"
+            >
+              {steps.length ? "Edit steps" : "Add steps"}
+            </button>
+          )}
+          {tab === "open" && !series && (
+            <button
+              disabled={actionBusy}
+              onClick={() => togglePanel("move")}
+              className="text-white/70 hover:text-white disabled:opacity-60"
+            >
+              Reschedule
+            </button>
+          )}
+          {tab === "open" && !series && (
+            <button
+              disabled={actionBusy}
+              onClick={() => {
+                if (window.confirm(`Delete “${t.title}”?`)) void runAction(onDelete);
+              }}
+              className="text-rose-300/80 hover:text-rose-200 disabled:opacity-60"
+            >
+              Delete
+            </button>
+          )}
+          {(t.status === "pending" || t.status === "completed") && (
+            <button
+              disabled={actionBusy}
+              onClick={() => {
+                const msg =
+                  t.status === "completed"
+                    ? `Undo “${t.title}”? The ${t.xp_assigned} XP is taken back and the proof is deleted.`
+                    : `Undo “${t.title}”? The proof is deleted.`;
+                if (window.confirm(msg)) void runAction(onUncomplete);
+              }}
+              className="text-rose-300/80 hover:text-rose-200 disabled:opacity-60"
+            >
+              Undo completion
+            </button>
+          )}
+          <button
+            disabled={actionBusy}
+            onClick={() => togglePanel("history")}
+            className="text-white/50 hover:text-white disabled:opacity-60"
+          >
+            History
+          </button>
+        </div>
+
+        {tab === "open" && panel === "edit" && (
+          <TaskEditor
+            task={t}
+            appealsLeft={appealsLeft}
+            busy={actionBusy}
+            onCancel={() => setPanel(null)}
+            onSave={(patch) => runAction(() => onEdit(patch))}
+          />
+        )}
+        {tab === "open" && panel === "steps" && (
+          <StepsEditor
+            task={t}
+            steps={steps}
+            busy={actionBusy}
+            onCancel={() => setPanel(null)}
+            onSave={(titles) => runAction(() => onSetSteps(titles))}
+          />
+        )}
+        {tab === "open" && panel === "move" && (
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <input
+              className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-1.5 outline-none focus:border-white/20 text-sm"
+              type="datetime-local"
+              value={moveTo}
+              onChange={(e) => setMoveTo(e.target.value)}
+            />
+            <button
+              disabled={actionBusy}
+              onClick={() => runAction(() => onReschedule(localToISO(moveTo)))}
+              className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+            >
+              Move
+            </button>
+            <span className="text-[11px] text-white/50">
+              {postponesLeft > 0
+                ? `${postponesLeft} postponement${postponesLeft === 1 ? "" : "s"} left`
+                : "Can only be moved earlier"}
+            </span>
+          </div>
+        )}
+        {tab === "open" && series && panel === "series" && (
+          <SeriesEditor
+            series={series}
+            appealsLeft={Math.max(0, maxAppeals - series.appeal_count)}
+            busy={actionBusy}
+            onCancel={() => setPanel(null)}
+            onSave={(patch) => runAction(() => onEditSeries(series.id, patch))}
+          />
+        )}
+        {panel === "history" && <TaskHistory taskId={t.id} />}
+        {actionErr && <div className="mt-1 text-rose-400 text-sm">{actionErr}</div>}
+        {tab === "open" && proofFor && (
+          <ProofComposer
+            key={proofFor}
+            title={provingStep ? `Step: ${provingStep.title}` : undefined}
+            busy={busy}
+            onCancel={() => setProofFor(null)}
+            onSubmit={submitProof}
+          />
+        )}
+      </div>
+
+      {/* Complete with proof (only for open; checklists are proven step by step) */}
+      {tab === "open" && !steps.length && (
+        <button
+          onClick={() => toggleProof("task")}
+          disabled={busy}
+          className="shrink-0 rounded-xl border border-white/10 bg-white/[0.06] px-3 py-2 text-sm hover:bg-white/[0.1] disabled:opacity-60"
+        >
+          {busy ? "Uploading…" : "Proof"}
+        </button>
       )}
     </div>
   );
 }
 
+/** Title/description fix for an open task; saving re-scores it. */
+function TaskEditor({
+  task,
+  appealsLeft,
+  busy,
+  onCancel,
+  onSave,
+}: {
+  task: TaskRow;
+  appealsLeft: number;
+  busy: boolean;
+  onCancel: () => void;
+  onSave: (patch: { title: string; description: string }) => void;
+}) {
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description ?? "");
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ title: title.trim(), description: description.trim() });
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-2 grid gap-2 rounded-xl border border-white/10 bg-white/[0.03] p-3">
+      <input
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 text-sm"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={200}
+        required
+      />
+      <textarea
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 min-h-[60px] text-sm"
+        placeholder="Description (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={2000}
+      />
+      <p className="text-[11px] text-white/50">
+        {appealsLeft > 0
+          ? `Saving re-scores the task. A new score uses one of its appeals (${appealsLeft} left).`
+          : "No appeals left, so the edit only saves if the re-score keeps the same XP."}
+      </p>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy || !title.trim()}
+          className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+        >
+          {busy ? "Re-scoring…" : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={busy}
+          className="rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+const STEP_ICON: Record<NonNullable<TaskStep["proof_status"]> | "todo", string> = {
+  todo: "○",
+  pending: "⏳",
+  approved: "✓",
+  rejected: "✗",
+};
+
+/** Progress bar over the task's XP plus the steps themselves, each proven on its own. */
+function StepChecklist({
+  steps,
+  xp,
+  canProve,
+  busy,
+  proofFor,
+  onProve,
+}: {
+  steps: TaskStep[];
+  xp: number;
+  canProve: boolean;
+  busy: boolean;
+  proofFor: string | null;
+  onProve: (step: TaskStep) => void;
+}) {
+  const sum = (status: TaskStep["proof_status"]) =>
+    steps.filter((s) => s.proof_status === status).reduce((n, s) => n + s.xp, 0);
+  const earned = sum("approved");
+  const waiting = sum("pending");
+  const done = steps.filter((s) => s.proof_status === "approved").length;
+  const pct = (n: number) => `${xp > 0 ? Math.min(100, (n / xp) * 100) : 0}%`;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-[11px] text-white/60">
+        <span>
+          {done}/{steps.length} steps
+        </span>
+        <span>
+          {earned}/{xp} XP{waiting > 0 && ` · ${waiting} in review`}
+        </span>
+      </div>
+      <div className="mt-1 flex h-1.5 overflow-hidden rounded-full bg-white/10">
+        <div className="bg-emerald-400 transition-all" style={{ width: pct(earned) }} />
+        <div className="bg-sky-400/60 transition-all" style={{ width: pct(waiting) }} />
+      </div>
+      <ul className="mt-2 grid gap-1 text-sm">
+        {steps.map((s) => (
+          <li key={s.id} className="flex items-center gap-2">
+            <span
+              className={[
+                "w-4 shrink-0 text-center",
+                s.proof_status === "approved"
+                  ? "text-emerald-300"
+                  : s.proof_status === "rejected"
+                  ? "text-rose-300"
+                  : "text-white/50",
+              ].join(" ")}
+            >
+              {STEP_ICON[s.proof_status ?? "todo"]}
+            </span>
+            <span className={`min-w-0 flex-1 truncate ${s.proof_status === "approved" ? "text-white/60 line-through" : ""}`}>
+              {s.title}
+            </span>
+            <span className="shrink-0 text-[11px] text-white/50">{s.xp} XP</span>
+            {canProve && (!s.proof_status || s.proof_status === "rejected") && (
+              <button
+                onClick={() => onProve(s)}
+                disabled={busy}
+                className={[
+                  "shrink-0 rounded-lg border px-2 py-0.5 text-xs disabled:opacity-60",
+                  proofFor === s.id
+                    ? "border-white bg-white text-slate-900"
+                    : "border-white/10 bg-white/[0.06] hover:bg-white/[0.1]",
+                ].join(" ")}
+              >
+                {s.proof_status === "rejected" ? "Retry" : "Proof"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** One step per line; the task's XP is split evenly between them. */
+function StepsEditor({
+  task,
+  steps,
+  busy,
+  onCancel,
+  onSave,
+}: {
+  task: TaskRow;
+  steps: TaskStep[];
+  busy: boolean;
+  onCancel: () => void;
+  onSave: (titles: string[]) => void;
+}) {
+  const [text, setText] = useState(() => steps.map((s) => s.title).join("\n"));
+  const titles = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const tooMany = titles.length > MAX_TASK_STEPS;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tooMany) onSave(titles);
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-2 grid gap-2 rounded-xl border border-white/10 bg-white/[0.03] p-3">
+      <textarea
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 min-h-[90px] text-sm"
+        placeholder={"Chapter 1\nChapter 2\nPractice exam"}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <p className={`text-[11px] ${tooMany ? "text-rose-300" : "text-white/50"}`}>
+        {tooMany
+          ? `Up to ${MAX_TASK_STEPS} steps`
+          : titles.length
+          ? `${titles.length} step${titles.length === 1 ? "" : "s"} · ${titles
+              .map((_, i) => stepXp(task.xp_assigned, titles.length, i))
+              .join(" / ")} XP · each step is proven on its own, and missing the task only costs the unproven ones`
+          : "One step per line. Leave empty for no checklist."}
+      </p>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy || tooMany}
+          className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+        >
+          {busy ? "Saving…" : "Save steps"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={busy}
+          className="rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** The task's audit trail: edits, reschedules and undone completions. */
+function TaskHistory({ taskId }: { taskId: string }) {
+  const [changes, setChanges] = useState<TaskChange[] | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetchTaskChanges(taskId)
+      .then((rows) => alive && setChanges(rows))
+      .catch((e) => alive && setErr(e.message ?? "Failed to load history"));
+    return () => {
+      alive = false;
+    };
+  }, [taskId]);
+
+  if (err) return <div className="mt-2 text-rose-400 text-xs">{err}</div>;
+  if (!changes) return <div className="mt-2 text-white/50 text-xs">Loading…</div>;
+  if (!changes.length) return <div className="mt-2 text-white/50 text-xs">No changes yet.</div>;
+
+  return (
+    <ul className="mt-2 grid gap-1 text-xs text-white/70">
+      {changes.map((c) => (
+        <li key={c.id} className="flex gap-2">
+          <span className="shrink-0 text-white/40">{formatDate(c.created_at)}</span>
+          <span className="min-w-0">{describeChange(c)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function describeChange({ action, before, after }: TaskChange) {
+  const b = before as Record<string, any>;
+  const a = (after ?? {}) as Record<string, any>;
+  switch (action) {
+    case "edit": {
+      const parts: string[] = [];
+      if (b.title !== a.title) parts.push(`“${b.title}” → “${a.title}”`);
+      if ((b.description ?? "") !== (a.description ?? "")) parts.push("description");
+      if (b.xp_assigned !== a.xp_assigned) parts.push(`${b.xp_assigned} → ${a.xp_assigned} XP`);
+      return `Edited${parts.length ? `: ${parts.join(" · ")}` : ""}`;
+    }
+    case "reschedule":
+      return `Rescheduled ${formatDate(b.due_at)} → ${formatDate(a.due_at)}`;
+    case "uncomplete":
+      return b.xp ? `Completion undone (−${b.xp} XP)` : "Submission withdrawn";
+    case "steps": {
+      const count = (a.steps ?? []).length;
+      if (!count) return "Checklist removed";
+      return `${b.steps?.length ? "Checklist changed" : "Checklist added"}: ${count} step${count === 1 ? "" : "s"}`;
+    }
+    case "delete":
+      return "Deleted";
+  }
+}
+
+/** Photos (camera first), an optional short clip and a note for one completion. */
+function ProofComposer({
+  title,
+  busy,
+  onCancel,
+  onSubmit,
+}: {
+  title?: string;
+  busy: boolean;
+  onCancel: () => void;
+  onSubmit: (submission: ProofSubmission) => void;
+}) {
+  const photoRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLInputElement>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [video, setVideo] = useState<File | null>(null);
+  const [note, setNote] = useState("");
+  const [err, setErr] = useState<string | null>(null);
+
+  // HEIC won't preview in most browsers; those show as a file chip instead
+  const previews = useMemo(() => photos.map((f) => (isHeic(f) ? null : URL.createObjectURL(f))), [photos]);
+  useEffect(() => () => previews.forEach((u) => u && URL.revokeObjectURL(u)), [previews]);
+
+  const addPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    setErr(null);
+    setPhotos((prev) => {
+      const next = [...prev, ...picked];
+      if (next.length > MAX_PROOF_PHOTOS) setErr(`Up to ${MAX_PROOF_PHOTOS} photos per proof`);
+      return next.slice(0, MAX_PROOF_PHOTOS);
+    });
+  };
+
+  const pickVideo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_PROOF_VIDEO_MB * 1024 * 1024) {
+      setErr(`Videos can be at most ${MAX_PROOF_VIDEO_MB} MB`);
+      return;
+    }
+    setErr(null);
+    setVideo(file);
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!photos.length && !video) return;
+    onSubmit({ photos, video, note });
+  };
+
+  const ghost =
+    "rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-60";
+
+  return (
+    <form onSubmit={submit} className="mt-2 grid gap-2 rounded-xl border border-white/10 bg-white/[0.03] p-3">
+      {title && <div className="text-xs font-medium text-white/80">{title}</div>}
+      <input
+        ref={photoRef}
+        type="file"
+        accept="image/*,.heic,.heif"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={addPhotos}
+      />
+      <input ref={videoRef} type="file" accept="video/*" capture="environment" className="hidden" onChange={pickVideo} />
+
+      {(photos.length > 0 || video) && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((f, i) => (
+            <div key={`${f.name}-${i}`} className="relative h-16 w-16 overflow-hidden rounded-lg ring-1 ring-white/10 bg-slate-800">
+              {previews[i] ? (
+                <img src={previews[i]!} alt={f.name} className="h-full w-full object-cover" />
+              ) : (
+                <span className="grid h-full place-items-center px-1 text-[10px] text-white/60 break-all">{f.name}</span>
+              )}
+              <button
+                type="button"
+                aria-label="Remove photo"
+                onClick={() => setPhotos((prev) => prev.filter((_, j) => j !== i))}
+                className="absolute right-0.5 top-0.5 h-5 w-5 rounded-full bg-black/70 text-[11px] leading-none"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {video && (
+            <div className="relative grid h-16 min-w-16 place-items-center rounded-lg ring-1 ring-white/10 bg-slate-800 px-2 text-[11px] text-white/70">
+              ▶ {(video.size / (1024 * 1024)).toFixed(1)} MB
+              <button
+                type="button"
+                aria-label="Remove video"
+                onClick={() => setVideo(null)}
+                className="absolute right-0.5 top-0.5 h-5 w-5 rounded-full bg-black/70 text-[11px] leading-none"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => photoRef.current?.click()}
+          disabled={busy || photos.length >= MAX_PROOF_PHOTOS}
+          className={ghost}
+        >
+          📷 Photo {photos.length > 0 && `(${photos.length}/${MAX_PROOF_PHOTOS})`}
+        </button>
+        <button type="button" onClick={() => videoRef.current?.click()} disabled={busy || !!video} className={ghost}>
+          🎬 Video
+        </button>
+      </div>
+
+      <textarea
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 min-h-[60px] text-sm"
+        placeholder="Add a note (optional)"
+        maxLength={MAX_PROOF_NOTE}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+      />
+
+      {err && <div className="text-rose-400 text-xs">{err}</div>}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy || (!photos.length && !video)}
+          className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+        >
+          {busy ? "Uploading…" : "Submit proof"}
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy} className={ghost}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function SeriesEditor({
+  series,
+  appealsLeft,
+  busy,
+  onCancel,
+  onSave,
+}: {
+  series: TaskSeries;
+  appealsLeft: number;
+  busy: boolean;
+  onCancel: () => void;
+  onSave: (patch: Parameters<typeof updateSeries>[1]) => void;
+}) {
+  const [title, setTitle] = useState(series.title);
+  const [description, setDescription] = useState(series.description ?? "");
+  const [dueTime, setDueTime] = useState(series.due_time.slice(0, 5));
+  const [rule, setRule] = useState<Recurrence | null>({
+    freq: series.freq,
+    interval_days: series.interval_days,
+    by_weekday: series.by_weekday,
+    until: series.until,
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ title, description, dueTime, recurrence: rule ?? undefined });
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-2 grid gap-2 rounded-xl border border-white/10 bg-white/[0.03] p-3">
+      <input
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 text-sm"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        required
+      />
+      <textarea
+        className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 min-h-[60px] text-sm"
+        placeholder="Description (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      <label className="grid gap-1">
+        <span className="text-xs text-white/60">Due time</span>
+        <input
+          className="rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 outline-none focus:border-white/20 text-sm"
+          type="time"
+          value={dueTime}
+          onChange={(e) => setDueTime(e.target.value)}
+          required
+        />
+      </label>
+      <RecurrencePicker value={rule} onChange={setRule} allowNever={false} />
+      <div className="text-[11px] text-white/50">
+        {appealsLeft > 0
+          ? `Changing the title or description re-scores every upcoming occurrence. A new score uses one of the series' appeals (${appealsLeft} left).`
+          : "No appeals left, so a title or description change only saves if the re-score keeps the same XP."}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="submit"
+          disabled={busy}
+          className="rounded-lg bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-60"
+        >
+          {busy ? "Saving…" : "Save series"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
 function SkeletonList() {
   return (
     <div className="grid gap-2">
@@ -425,6 +1448,14 @@ function localToISO(local: string) {
   return isNaN(d.getTime()) ? new Date().toISOString() : d.toISOString();
 }
 
+function describePenalty(delta: number) {
+  return delta < 0 ? `Penalty −${-delta} XP` : "No penalty";
+}
+
+function graceEnds(dueISO: string) {
+  return new Date(new Date(dueISO).getTime() + MISSED_GRACE_MINUTES * 60_000).toISOString();
+}
+
 function formatDate(iso?: string | null) {
   if (!iso) return "—";
   try {
@@ -0,0 +1,29 @@
+// src/components/TierBadge.tsx
+import React from "react";
+import { TIERS } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+
+/** "Lv N" chip in the player's tier colors. Renders nothing until the level is known. */
+export default function TierBadge({
+  level,
+  className = "",
+}: {
+  level?: UserLevel | null;
+  className?: string;
+}) {
+  if (!level) return null;
+  const tier = TIERS[level.tier];
+
+  return (
+    <span
+      title={`${tier.name} · level ${level.level}`}
+      className={[
+        "inline-flex items-center rounded-full border px-1.5 py-0.5 text-[11px] font-semibold leading-none",
+        tier.badge,
+        className,
+      ].join(" ")}
+    >
+      {level.tier === "red" ? "−" : `Lv ${level.level}`}
+    </span>
+  );
+}
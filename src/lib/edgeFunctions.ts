@@ -0,0 +1,16 @@
+// src/lib/edgeFunctions.ts
+import { supabase } from "./supabaseClient";
+
+/** Invoke an edge function, surfacing its `{ error }` body on non-2xx. */
+export async function invokeFunction<T>(name: string, body: Record<string, any>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    let message = error.message;
+    try {
+      const js = await (error as any).context?.json();
+      if (js?.error) message = js.error;
+    } catch {}
+    throw new Error(message);
+  }
+  return data as T;
+}
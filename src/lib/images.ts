@@ -0,0 +1,126 @@
+// src/lib/images.ts
+// Client-side photo pipeline for proofs and avatars: HEIC → JPEG, downscale,
+// optional square crop, re-encode as JPEG. Drawing through a canvas drops all
+// metadata, so EXIF (GPS, device, timestamps) never reaches a public bucket;
+// orientation is applied while decoding so nothing ends up sideways.
+
+export type ImageOptions = {
+  maxDim: number;   // longest side in px after scaling
+  quality?: number; // JPEG quality 0..1
+  square?: boolean; // center-crop to 1:1 before scaling
+  crop?: SquareCrop; // explicit square crop (overrides the center crop)
+};
+
+/** Square region of the upright source image, in source pixels. */
+export type SquareCrop = { x: number; y: number; size: number };
+
+export const PROOF_IMAGE: ImageOptions = { maxDim: 1600, quality: 0.82 };
+export const PROOF_THUMB: ImageOptions = { maxDim: 512, quality: 0.7, square: true };
+export const AVATAR_IMAGE: ImageOptions = { maxDim: 512, quality: 0.85, square: true };
+export const VIDEO_POSTER: ImageOptions = { maxDim: 960, quality: 0.75 };
+
+const HEIC_TYPES = ["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"];
+
+export function isHeic(file: Blob & { name?: string }) {
+  if (HEIC_TYPES.includes(file.type.toLowerCase())) return true;
+  return /\.(heic|heif)$/i.test(file.name ?? "");
+}
+
+/** HEIC/HEIF → JPEG blob; anything else is returned as-is. heic2any is loaded on demand. */
+export async function decodableBlob(file: Blob & { name?: string }): Promise<Blob> {
+  if (!isHeic(file)) return file;
+  const { default: heic2any } = await import("heic2any");
+  const out = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.92 });
+  return Array.isArray(out) ? out[0] : out;
+}
+
+type Decoded = { source: CanvasImageSource; width: number; height: number; close: () => void };
+
+async function decode(blob: Blob): Promise<Decoded> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      // "from-image" is newer than TS's DOM typings ("none" | "flipY")
+      const bmp = await createImageBitmap(blob, { imageOrientation: "from-image" as string as ImageOrientation });
+      return { source: bmp, width: bmp.width, height: bmp.height, close: () => bmp.close() };
+    } catch {
+      // fall through to <img> (older Safari rejects the options bag)
+    }
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    img.decoding = "async";
+    img.src = url;
+    await img.decode();
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => {} };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function encode(decoded: Decoded, { maxDim, quality = 0.82, square = false, crop }: ImageOptions): Promise<Blob> {
+  let sx = 0;
+  let sy = 0;
+  let sw = decoded.width;
+  let sh = decoded.height;
+  if (crop) {
+    sw = sh = Math.min(crop.size, decoded.width, decoded.height);
+    sx = Math.min(Math.max(0, Math.round(crop.x)), decoded.width - sw);
+    sy = Math.min(Math.max(0, Math.round(crop.y)), decoded.height - sh);
+  } else if (square) {
+    const side = Math.min(sw, sh);
+    sx = Math.floor((sw - side) / 2);
+    sy = Math.floor((sh - side) / 2);
+    sw = sh = side;
+  }
+
+  const scale = Math.min(1, maxDim / Math.max(sw, sh));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Couldn't process the photo on this device");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(decoded.source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error("Couldn't encode the photo"))),
+      "image/jpeg",
+      quality
+    )
+  );
+}
+
+/** One processed JPEG from a picked file (or an already converted blob). */
+export async function processImage(file: Blob & { name?: string }, options: ImageOptions): Promise<Blob> {
+  const decoded = await decode(await decodableBlob(file));
+  try {
+    return await encode(decoded, options);
+  } finally {
+    decoded.close();
+  }
+}
+
+/** Several renditions (e.g. full + thumbnail) from a single decode. */
+export async function processImageVariants<K extends string>(
+  file: File,
+  variants: Record<K, ImageOptions>
+): Promise<Record<K, Blob>> {
+  const decoded = await decode(await decodableBlob(file));
+  try {
+    const out = {} as Record<K, Blob>;
+    for (const key of Object.keys(variants) as K[]) {
+      out[key] = await encode(decoded, variants[key]);
+    }
+    return out;
+  } finally {
+    decoded.close();
+  }
+}
+
+/** JPEG from something already on screen, e.g. a video frame for a poster. */
+export function encodeFrame(source: CanvasImageSource, width: number, height: number, options: ImageOptions) {
+  return encode({ source, width, height, close: () => {} }, options);
+}
@@ -0,0 +1,180 @@
+// src/lib/presence.ts
+import { useSyncExternalStore } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "./supabaseClient";
+
+export type PresenceStatus = "active" | "away";
+
+/**
+ * What each signed-in tab tracks: on the shared "online" channel, and on a
+ * private "squad-online:<id>" channel per squad (only members can join those).
+ */
+export type OnlineUser = {
+  user_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  status: PresenceStatus;
+  online_at: string;
+};
+
+type Me = Omit<OnlineUser, "status" | "online_at">;
+
+/* ---------- tiny store: everyone, plus each of my squads ---------- */
+const NOBODY: OnlineUser[] = [];
+let online: OnlineUser[] = NOBODY;
+let bySquad: Record<string, OnlineUser[]> = {};
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((l) => l());
+
+const subscribe = (l: () => void) => {
+  listeners.add(l);
+  return () => {
+    listeners.delete(l);
+  };
+};
+
+/**
+ * Everyone online right now, one entry per user (most active tab wins); with
+ * a squad id, only that squad's members.
+ */
+export function useOnlineUsers(squadId?: string | null) {
+  return useSyncExternalStore(subscribe, () => (squadId ? bySquad[squadId] ?? NOBODY : online));
+}
+
+export const squadPresenceTopic = (squadId: string) => `squad-online:${squadId}`;
+
+// How long a hidden tab waits before reporting "away". Quick tab switches
+// never reach the channels, and nothing is untracked until the app unmounts.
+const AWAY_AFTER_MS = 60_000;
+
+// Joins one presence channel; onSync gets its users whenever it changes.
+function joinPresence(
+  topic: string,
+  key: string,
+  isPrivate: boolean,
+  payload: () => OnlineUser,
+  onSync: (users: OnlineUser[]) => void
+) {
+  let joined = false;
+  const channel: RealtimeChannel = supabase.channel(topic, {
+    config: { private: isPrivate, presence: { key } },
+  });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<OnlineUser>();
+      onSync(
+        Object.values(state).map(
+          (metas) => metas.find((m) => m.status === "active") ?? metas[0]
+        )
+      );
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        joined = true;
+        void channel.track(payload());
+      }
+    });
+
+  return {
+    retrack: () => {
+      if (joined) void channel.track(payload());
+    },
+    leave: () => {
+      void channel.untrack();
+      void supabase.removeChannel(channel);
+    },
+  };
+}
+
+/**
+ * Joins presence as `me` (keyed by user id, so several tabs collapse into
+ * one entry) globally and in each of `squadIds`. Returns update() for later
+ * payload changes, setSquads() when memberships change, and stop().
+ */
+export function trackPresence(me: Me, squadIds: string[] = []) {
+  let payload: OnlineUser = {
+    ...me,
+    status: document.hidden ? "away" : "active",
+    online_at: new Date().toISOString(),
+  };
+  let awayTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const everyone = joinPresence("online", me.user_id, false, () => payload, (users) => {
+    online = users;
+    emit();
+  });
+
+  const squads = new Map<string, ReturnType<typeof joinPresence>>();
+  const setSquads = (ids: string[]) => {
+    squads.forEach((channel, id) => {
+      if (ids.includes(id)) return;
+      channel.leave();
+      squads.delete(id);
+      bySquad = { ...bySquad };
+      delete bySquad[id];
+      emit();
+    });
+    ids.forEach((id) => {
+      if (squads.has(id)) return;
+      squads.set(
+        id,
+        joinPresence(squadPresenceTopic(id), me.user_id, true, () => payload, (users) => {
+          bySquad = { ...bySquad, [id]: users };
+          emit();
+        })
+      );
+    });
+  };
+  setSquads(squadIds);
+
+  // only re-track when something visible to others actually changed
+  const update = (patch: Partial<Omit<OnlineUser, "user_id" | "online_at">>) => {
+    const next = { ...payload, ...patch };
+    if (JSON.stringify(next) === JSON.stringify(payload)) return;
+    payload = next;
+    everyone.retrack();
+    squads.forEach((channel) => channel.retrack());
+  };
+
+  const onVisibility = () => {
+    clearTimeout(awayTimer);
+    if (document.hidden) awayTimer = setTimeout(() => update({ status: "away" }), AWAY_AFTER_MS);
+    else update({ status: "active" });
+  };
+  document.addEventListener("visibilitychange", onVisibility);
+
+  return {
+    update,
+    setSquads,
+    stop: () => {
+      clearTimeout(awayTimer);
+      document.removeEventListener("visibilitychange", onVisibility);
+      everyone.leave();
+      squads.forEach((channel) => channel.leave());
+      squads.clear();
+      online = NOBODY;
+      bySquad = {};
+      emit();
+    },
+  };
+}
+
+/** profiles.last_seen_at; the server writes at most once a minute. */
+export async function touchLastSeen() {
+  const { error } = await supabase.rpc("touch_last_seen");
+  if (error) throw error;
+}
+
+/** "online", "seen 5m ago", … for a last_seen_at timestamp. */
+export function describeLastSeen(iso: string | null, isOnline = false) {
+  if (isOnline) return "online";
+  if (!iso) return "not seen yet";
+  const min = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (min < 2) return "seen just now";
+  if (min < 60) return `seen ${min}m ago`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return `seen ${hr}h ago`;
+  return `seen ${Math.floor(hr / 24)}d ago`;
+}
@@ -0,0 +1,71 @@
+// src/lib/recurrence.test.ts
+import { describeRecurrence, expandOccurrences, occursOn, zonedTime } from "./recurrence";
+import type { SeriesRule } from "./recurrence";
+
+// 2026-10-19 is a Monday
+const rule = (r: Partial<SeriesRule>): SeriesRule => ({
+  freq: "daily",
+  starts_on: "2026-10-19",
+  active: true,
+  ...r,
+});
+
+describe("occursOn", () => {
+  it("is bounded by starts_on and until", () => {
+    const s = rule({ until: "2026-10-21" });
+    expect(occursOn(s, "2026-10-18")).toBe(false);
+    expect(occursOn(s, "2026-10-19")).toBe(true);
+    expect(occursOn(s, "2026-10-21")).toBe(true);
+    expect(occursOn(s, "2026-10-22")).toBe(false);
+  });
+
+  it("skips weekends for weekdays", () => {
+    const s = rule({ freq: "weekdays" });
+    expect(occursOn(s, "2026-10-23")).toBe(true); // Fri
+    expect(occursOn(s, "2026-10-24")).toBe(false); // Sat
+    expect(occursOn(s, "2026-10-25")).toBe(false); // Sun
+    expect(occursOn(s, "2026-10-26")).toBe(true); // Mon
+  });
+
+  it("counts intervals from starts_on, across DST changes", () => {
+    const s = rule({ freq: "interval", interval_days: 3 });
+    expect(occursOn(s, "2026-10-22")).toBe(true);
+    expect(occursOn(s, "2026-10-23")).toBe(false);
+    expect(occursOn(s, "2026-11-03")).toBe(true); // 15 days, past the late-October switch
+  });
+
+  it("matches ISO weekdays for weekly", () => {
+    const s = rule({ freq: "weekly", by_weekday: [1, 7] });
+    expect(occursOn(s, "2026-10-19")).toBe(true); // Mon
+    expect(occursOn(s, "2026-10-20")).toBe(false);
+    expect(occursOn(s, "2026-10-25")).toBe(true); // Sun
+  });
+});
+
+describe("expandOccurrences", () => {
+  it("lists the dates in the inclusive range", () => {
+    const s = rule({ freq: "weekly", by_weekday: [3] });
+    expect(expandOccurrences(s, "2026-10-19", "2026-11-04")).toEqual(["2026-10-21", "2026-10-28", "2026-11-04"]);
+  });
+
+  it("is empty for a paused series", () => {
+    expect(expandOccurrences(rule({ active: false }), "2026-10-19", "2026-10-25")).toEqual([]);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("names the rule", () => {
+    expect(describeRecurrence({ freq: "interval", interval_days: 1 })).toBe("Daily");
+    expect(describeRecurrence({ freq: "interval", interval_days: 4 })).toBe("Every 4 days");
+    expect(describeRecurrence({ freq: "weekly", by_weekday: [2, 4] })).toBe("Weekly · Tue, Thu");
+  });
+});
+
+describe("zonedTime", () => {
+  it("reads the time in the series' timezone, not the browser's", () => {
+    expect(zonedTime("2026-10-19", "07:30:00", "America/New_York").toISOString()).toBe("2026-10-19T11:30:00.000Z");
+    expect(zonedTime("2026-12-01", "07:30:00", "America/New_York").toISOString()).toBe("2026-12-01T12:30:00.000Z");
+    expect(zonedTime("2026-10-19", "23:00", "Asia/Tokyo").toISOString()).toBe("2026-10-19T14:00:00.000Z");
+    expect(zonedTime("2026-10-19", "07:30:00", "UTC").toISOString()).toBe("2026-10-19T07:30:00.000Z");
+  });
+});
@@ -0,0 +1,104 @@
+// src/lib/recurrence.ts
+// Client mirror of series_occurs_on (supabase/migrations/*_task_series.sql),
+// used to draw future occurrences that haven't been generated yet.
+
+export type Freq = "daily" | "weekdays" | "interval" | "weekly";
+
+export type Recurrence = {
+  freq: Freq;
+  interval_days?: number | null;
+  by_weekday?: number[] | null; // ISO 1 = Mon .. 7 = Sun
+  until?: string | null;        // yyyy-mm-dd
+};
+
+export type SeriesRule = Recurrence & {
+  starts_on: string; // yyyy-mm-dd
+  active: boolean;
+};
+
+export const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// yyyy-mm-dd ↔ UTC midnight, so DST never shifts a day
+const toUTC = (ymd: string) => Date.UTC(+ymd.slice(0, 4), +ymd.slice(5, 7) - 1, +ymd.slice(8, 10));
+const fromUTC = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+const isoDow = (ms: number) => ((new Date(ms).getUTCDay() + 6) % 7) + 1;
+
+export function occursOn(s: SeriesRule, ymd: string) {
+  if (ymd < s.starts_on) return false;
+  if (s.until && ymd > s.until) return false;
+  const ms = toUTC(ymd);
+  switch (s.freq) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return isoDow(ms) <= 5;
+    case "interval": {
+      const n = s.interval_days ?? 1;
+      return Math.round((ms - toUTC(s.starts_on)) / DAY_MS) % n === 0;
+    }
+    case "weekly":
+      return (s.by_weekday ?? []).includes(isoDow(ms));
+    default:
+      return false;
+  }
+}
+
+/**
+ * A wall-clock date and time in an IANA timezone as an instant, like
+ * `(date + time) at time zone tz` in SQL. Used for occurrences that aren't
+ * generated yet, which are due at the series' due_time in its timezone.
+ */
+export function zonedTime(ymd: string, time: string, timeZone: string) {
+  const [h, mi, s = 0] = time.split(":").map(Number);
+  const wall = Date.UTC(+ymd.slice(0, 4), +ymd.slice(5, 7) - 1, +ymd.slice(8, 10), h, mi, s);
+  // guess with the offset at the wall time read as UTC, then once more in case
+  // a DST change lies in between
+  let ms = wall - zoneOffset(wall, timeZone);
+  ms = wall - zoneOffset(ms, timeZone);
+  return new Date(ms);
+}
+
+// ms to add to UTC to get local time in `timeZone` at instant `ms`
+function zoneOffset(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ms));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return local - Math.floor(ms / 1000) * 1000; // the parts have no milliseconds
+}
+
+/** Occurrence dates in [from, to] (inclusive, yyyy-mm-dd). */
+export function expandOccurrences(s: SeriesRule, from: string, to: string) {
+  const out: string[] = [];
+  if (!s.active) return out;
+  for (let ms = toUTC(from); ms <= toUTC(to); ms += DAY_MS) {
+    const ymd = fromUTC(ms);
+    if (occursOn(s, ymd)) out.push(ymd);
+  }
+  return out;
+}
+
+export function describeRecurrence(r: Recurrence) {
+  switch (r.freq) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Weekdays";
+    case "interval":
+      return r.interval_days === 1 ? "Daily" : `Every ${r.interval_days} days`;
+    case "weekly":
+      return `Weekly · ${(r.by_weekday ?? []).map((d) => WEEKDAY_LABELS[d - 1]).join(", ")}`;
+    default:
+      return "Repeats";
+  }
+}
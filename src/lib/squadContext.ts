@@ -0,0 +1,18 @@
+// src/lib/squadContext.ts
+import { useOutletContext } from "react-router-dom";
+import type { Squad } from "../api/squads";
+
+/** Provided by AppShell to every page through <Outlet context>. */
+export type SquadContext = {
+  squads: Squad[];
+  squadId: string | null; // null = everyone (global)
+  squad: Squad | null;
+  setSquadId: (id: string | null) => void;
+  reloadSquads: () => Promise<Squad[]>;
+};
+
+export const SQUAD_STORAGE_KEY = "jock.squadId";
+
+export function useSquad() {
+  return useOutletContext<SquadContext>();
+}
@@ -0,0 +1,41 @@
+// src/lib/video.ts
+// Proof clips are uploaded as picked; all we need from the browser is how long
+// the clip runs and a poster frame to show before it plays.
+import { encodeFrame, VIDEO_POSTER } from "./images";
+
+export type ProbedVideo = { durationMs: number; poster: Blob };
+
+const POSTER_AT = 0.5; // seconds in; the very first frame is often black
+
+/** Duration and a JPEG poster frame of a picked video file. */
+export async function probeVideo(file: Blob): Promise<ProbedVideo> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  const once = (event: string) =>
+    new Promise<void>((resolve, reject) => {
+      video.addEventListener(event, () => resolve(), { once: true });
+      video.addEventListener("error", () => reject(new Error("Couldn't read that video")), { once: true });
+    });
+
+  try {
+    const loaded = once("loadeddata");
+    video.src = url;
+    await loaded;
+
+    const durationMs = Math.round((Number.isFinite(video.duration) ? video.duration : 0) * 1000);
+    const seeked = once("seeked");
+    video.currentTime = Math.min(POSTER_AT, video.duration / 2 || 0);
+    await seeked;
+
+    const poster = await encodeFrame(video, video.videoWidth, video.videoHeight, VIDEO_POSTER);
+    return { durationMs, poster };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
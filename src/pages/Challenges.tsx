@@ -0,0 +1,499 @@
+// src/pages/Challenges.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Avatar from "../components/Avatar";
+import { useSquad } from "../lib/squadContext";
+import {
+  cancelChallenge,
+  CHALLENGE_KIND_LABELS,
+  createChallenge,
+  fetchMyChallenges,
+  fetchMyOpenTasks,
+  MAX_CHALLENGE_DAYS,
+  MAX_CHALLENGE_STAKE,
+  resolveDueChallenges,
+  respondToChallenge,
+} from "../api/challenges";
+import type { Challenge, ChallengeKind, ChallengeParticipant, ChallengeResult } from "../api/challenges";
+import { findPlayers } from "../api/chat";
+import type { PlayerHit } from "../api/chat";
+import { profilePath } from "../api/profiles";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+const field =
+  "w-full rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/20";
+const primaryBtn =
+  "rounded-xl bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold text-sm px-3.5 py-2 disabled:opacity-50";
+const ghostBtn =
+  "rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-50";
+
+type TabKey = "open" | "done";
+type OpenTask = { id: string; title: string; due_at: string };
+
+const isOpen = (c: Challenge) => c.status === "pending" || c.status === "active";
+
+/** Sunday 23:59 local, as a datetime-local value */
+function endOfWeekInput() {
+  const d = new Date();
+  d.setDate(d.getDate() + ((7 - d.getDay()) % 7));
+  d.setHours(23, 59, 0, 0);
+  return toInputValue(d);
+}
+
+function toInputValue(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** "2d 4h left" until the deadline */
+function timeLeft(iso: string) {
+  if (+new Date(iso) <= Date.now()) return "wrapping up";
+  const min = Math.max(0, Math.floor((+new Date(iso) - Date.now()) / 60_000));
+  if (min < 60) return `${min}m left`;
+  const hr = Math.floor(min / 60);
+  if (hr < 24) return `${hr}h left`;
+  return `${Math.floor(hr / 24)}d ${hr % 24}h left`;
+}
+
+/** /challenges — head-to-head and squad challenges, with optional XP stakes. */
+export default function ChallengesPage() {
+  const [me, setMe] = useState<string | null>(null);
+  const [tab, setTab] = useState<TabKey>("open");
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [openTasks, setOpenTasks] = useState<OpenTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [composing, setComposing] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setMe(data.user?.id ?? null));
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const [list, tasks] = await Promise.all([fetchMyChallenges(), fetchMyOpenTasks()]);
+      setChallenges(list);
+      setOpenTasks(tasks);
+      setErr(null);
+    } catch (e: any) {
+      setErr(e.message ?? "Failed to load challenges");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // pay out anything past its deadline first so results are current
+    resolveDueChallenges()
+      .catch((e) => console.error("Failed to resolve challenges:", e))
+      .finally(load);
+  }, [load]);
+
+  const open = challenges.filter(isOpen);
+  const done = challenges.filter((c) => !isOpen(c));
+  const invites = open.filter((c) => c.my_status === "invited").length;
+  const list = tab === "open" ? open : done;
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <section className={card}>
+        <div className="mb-1 flex items-center justify-between gap-3">
+          <h2 className="text-xl md:text-2xl font-semibold">Challenges</h2>
+          <button onClick={() => setComposing((v) => !v)} className={primaryBtn}>
+            {composing ? "Close" : "⚔️ New challenge"}
+          </button>
+        </div>
+        <p className="mb-4 text-sm text-white/60">
+          Take on a friend or your whole squad. Stakes are held from everyone who joins and go to the winner when
+          the deadline hits; a draw hands them back.
+        </p>
+
+        {composing && (
+          <NewChallenge
+            me={me}
+            openTasks={openTasks}
+            onCreated={async () => {
+              setComposing(false);
+              setTab("open");
+              await load();
+            }}
+          />
+        )}
+
+        <div className="mb-3 flex items-center gap-2 overflow-x-auto no-scrollbar">
+          <TabChip
+            label={invites ? `Open (${open.length}) · ${invites} new` : `Open (${open.length})`}
+            active={tab === "open"}
+            onClick={() => setTab("open")}
+          />
+          <TabChip label={`Finished (${done.length})`} active={tab === "done"} onClick={() => setTab("done")} />
+        </div>
+
+        {err && <div className="mb-3 text-rose-400 text-sm">{err}</div>}
+
+        <div className="grid gap-2">
+          {loading ? (
+            <div className="text-white/60 text-sm py-3 text-center">Loading…</div>
+          ) : list.length ? (
+            list.map((c) => <ChallengeCard key={c.id} c={c} me={me} onChanged={load} />)
+          ) : (
+            <div className="text-white/60 text-sm py-3 text-center">
+              {tab === "open" ? "No open challenges. Start one!" : "No finished challenges yet."}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+/* ---------- UI bits ---------- */
+
+function TabChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={[
+        "whitespace-nowrap rounded-full px-3 py-1.5 text-sm border transition",
+        active ? "bg-white text-slate-900 border-white" : "bg-white/[0.06] text-white border-white/10 hover:bg-white/[0.1]",
+      ].join(" ")}
+    >
+      {label}
+    </button>
+  );
+}
+
+function NewChallenge({
+  me,
+  openTasks,
+  onCreated,
+}: {
+  me: string | null;
+  openTasks: OpenTask[];
+  onCreated: () => Promise<void>;
+}) {
+  const { squads, squadId } = useSquad();
+  const [kind, setKind] = useState<ChallengeKind>("most_xp");
+  const [target, setTarget] = useState<"player" | "squad">("player");
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<PlayerHit[]>([]);
+  const [opponent, setOpponent] = useState<PlayerHit | null>(null);
+  const [squad, setSquad] = useState<string>(squadId ?? squads[0]?.id ?? "");
+  const [taskId, setTaskId] = useState("");
+  const [title, setTitle] = useState("");
+  const [endsAt, setEndsAt] = useState(endOfWeekInput);
+  const [stake, setStake] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // debounced player search
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+    let alive = true;
+    const t = setTimeout(() => {
+      findPlayers(query, me)
+        .then((h) => alive && setHits(h))
+        .catch(() => alive && setHits([]));
+    }, 250);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [query, me]);
+
+  const entry = openTasks.find((t) => t.id === taskId);
+  const placeholder = kind === "most_xp" ? "Most XP this week" : entry ? `Finish: ${entry.title}` : "Finish the task first";
+  const ready =
+    (target === "player" ? !!opponent : !!squad) && (kind === "most_xp" || !!entry) && !!endsAt && !busy;
+
+  const submit = async () => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await createChallenge({
+        kind,
+        title: title.trim() || placeholder,
+        endsAt: new Date(endsAt).toISOString(),
+        stake,
+        opponentId: target === "player" ? opponent?.id : null,
+        squadId: target === "squad" ? squad : null,
+        taskId: kind === "task_race" ? taskId : null,
+      });
+      await onCreated();
+    } catch (e: any) {
+      setErr(e.message ?? "Couldn't create the challenge");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const max = new Date();
+  max.setDate(max.getDate() + MAX_CHALLENGE_DAYS);
+
+  return (
+    <div className="mb-4 grid gap-3 rounded-2xl border border-white/10 bg-white/[0.03] p-3 sm:p-4">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(CHALLENGE_KIND_LABELS) as ChallengeKind[]).map((k) => (
+          <TabChip key={k} label={CHALLENGE_KIND_LABELS[k]} active={kind === k} onClick={() => setKind(k)} />
+        ))}
+        <span className="mx-1 w-px bg-white/10" />
+        <TabChip label="A player" active={target === "player"} onClick={() => setTarget("player")} />
+        <TabChip
+          label="My squad"
+          active={target === "squad"}
+          onClick={() => squads.length && setTarget("squad")}
+        />
+      </div>
+
+      {target === "player" ? (
+        opponent ? (
+          <div className="flex items-center gap-2 text-sm">
+            <Avatar path={opponent.avatar_url} size={28} fallback={opponent.display_name ?? "?"} />
+            <span className="font-medium">{opponent.display_name || `Player ${opponent.id.slice(0, 4)}`}</span>
+            <button onClick={() => setOpponent(null)} className="text-white/60 hover:text-white" aria-label="Change">
+              ✕
+            </button>
+          </div>
+        ) : (
+          <div className="relative">
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Challenge a player…"
+              className={field}
+            />
+            {hits.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full rounded-xl border border-white/10 bg-slate-900 p-1 shadow-xl">
+                {hits.map((p) => (
+                  <li key={p.id}>
+                    <button
+                      onClick={() => {
+                        setOpponent(p);
+                        setQuery("");
+                      }}
+                      className="flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left hover:bg-white/[0.08]"
+                    >
+                      <Avatar path={p.avatar_url} size={24} fallback={p.display_name ?? "?"} />
+                      <span className="truncate text-sm">{p.display_name || `Player ${p.id.slice(0, 4)}`}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      ) : (
+        <select value={squad} onChange={(e) => setSquad(e.target.value)} className={field}>
+          {squads.map((s) => (
+            <option key={s.id} value={s.id}>
+              👥 {s.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {kind === "task_race" && (
+        <select value={taskId} onChange={(e) => setTaskId(e.target.value)} className={field}>
+          <option value="">The race: pick one of your open tasks, everyone gets the same…</option>
+          {openTasks.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.title}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={80}
+        placeholder={placeholder}
+        className={field}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="grid gap-1 text-[11px] text-white/60">
+          Deadline
+          <input
+            type="datetime-local"
+            value={endsAt}
+            min={toInputValue(new Date())}
+            max={toInputValue(max)}
+            onChange={(e) => setEndsAt(e.target.value)}
+            className={field}
+          />
+        </label>
+        <label className="grid gap-1 text-[11px] text-white/60">
+          Stake (XP each, 0–{MAX_CHALLENGE_STAKE})
+          <input
+            type="number"
+            min={0}
+            max={MAX_CHALLENGE_STAKE}
+            value={stake}
+            onChange={(e) => setStake(Math.max(0, Math.min(MAX_CHALLENGE_STAKE, Math.floor(+e.target.value || 0))))}
+            className={field}
+          />
+        </label>
+      </div>
+
+      {err && <div className="text-rose-400 text-sm">{err}</div>}
+      <div className="flex justify-end">
+        <button onClick={submit} disabled={!ready} className={primaryBtn}>
+          {busy ? "Sending…" : stake ? `Challenge · stake ${stake} XP` : "Challenge"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const STATUS_LABEL: Record<Challenge["status"], string> = {
+  pending: "Waiting",
+  active: "On",
+  resolved: "Finished",
+  cancelled: "Cancelled",
+  declined: "Declined",
+  expired: "Nobody joined",
+};
+
+const RESULT_BADGE: Record<ChallengeResult, { label: string; cls: string }> = {
+  won: { label: "🏆 Won", cls: "border-emerald-300/30 bg-emerald-300/10 text-emerald-200" },
+  lost: { label: "Lost", cls: "border-rose-300/30 bg-rose-300/10 text-rose-200" },
+  draw: { label: "Draw", cls: "border-white/15 bg-white/[0.06] text-white/70" },
+};
+
+function describeScore(c: Challenge, p: ChallengeParticipant) {
+  if (p.status === "invited") return "invited";
+  if (p.status === "declined") return "declined";
+  if (p.score == null) return "join to see";
+  if (c.kind === "most_xp") return `${p.score ?? 0} XP`;
+  return p.score ? "✅ done" : "⏳ not yet";
+}
+
+function ChallengeCard({
+  c,
+  me,
+  onChanged,
+}: {
+  c: Challenge;
+  me: string | null;
+  onChanged: () => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const invited = isOpen(c) && c.my_status === "invited";
+  const canCancel = c.status === "pending" && c.creator_id === me;
+  const against = c.squad_name
+    ? `👥 ${c.squad_name}`
+    : c.participants
+        .filter((p) => p.user_id !== me)
+        .map((p) => p.display_name || "Player")
+        .join(", ");
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await fn();
+      await onChanged();
+    } catch (e: any) {
+      setErr(e.message ?? "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-3 sm:p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-semibold truncate" title={c.title}>
+            ⚔️ {c.title}
+          </div>
+          <div className="text-xs text-white/60">
+            {CHALLENGE_KIND_LABELS[c.kind]} · vs {against}
+            {c.stake > 0 && ` · ${c.stake} XP stake`}
+          </div>
+          {c.kind === "task_race" && c.task_title && (
+            <div className="text-xs text-white/50 truncate" title={c.task_description ?? c.task_title}>
+              🏁 {c.task_title}
+            </div>
+          )}
+        </div>
+        <div className="shrink-0 text-right">
+          {c.my_result ? (
+            <span className={`rounded-full border px-2 py-0.5 text-[11px] ${RESULT_BADGE[c.my_result].cls}`}>
+              {RESULT_BADGE[c.my_result].label}
+            </span>
+          ) : (
+            <span className="rounded-full border border-white/15 bg-white/[0.06] px-2 py-0.5 text-[11px] text-white/70">
+              {STATUS_LABEL[c.status]}
+            </span>
+          )}
+          <div
+            className="mt-1 text-[11px] text-white/50"
+            title={new Date(c.ends_at).toLocaleString()}
+          >
+            {isOpen(c) ? timeLeft(c.ends_at) : new Date(c.resolved_at ?? c.ends_at).toLocaleDateString()}
+          </div>
+        </div>
+      </div>
+
+      <ul className="mt-3 grid gap-1.5">
+        {c.participants.map((p) => {
+          const name = (p.display_name || `Player ${p.user_id.slice(0, 4)}`) + (p.user_id === me ? " (you)" : "");
+          return (
+            <li key={p.user_id} className="flex items-center gap-2 text-sm">
+              <Link to={profilePath(p.user_id)} className="shrink-0">
+                <Avatar path={p.avatar_url} size={24} fallback={name} />
+              </Link>
+              <Link
+                to={profilePath(p.user_id)}
+                className={`truncate hover:underline ${p.status === "accepted" ? "" : "text-white/50"}`}
+              >
+                {name}
+              </Link>
+              <span className="ml-auto shrink-0 text-xs text-white/70">
+                {p.result ? RESULT_BADGE[p.result].label + " · " : ""}
+                {describeScore(c, p)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {(invited || canCancel) && (
+        <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+          {invited && (
+            <>
+              <button
+                onClick={() => run(() => respondToChallenge(c.id, false))}
+                disabled={busy}
+                className={ghostBtn}
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => run(() => respondToChallenge(c.id, true))}
+                disabled={busy}
+                className={primaryBtn}
+              >
+                {c.stake > 0 ? `Accept · stake ${c.stake} XP` : "Accept"}
+              </button>
+            </>
+          )}
+          {canCancel && (
+            <button onClick={() => run(() => cancelChallenge(c.id))} disabled={busy} className={ghostBtn}>
+              Cancel challenge
+            </button>
+          )}
+        </div>
+      )}
+      {err && <div className="mt-2 text-rose-400 text-sm">{err}</div>}
+    </div>
+  );
+}
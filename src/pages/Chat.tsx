@@ -0,0 +1,101 @@
+// src/pages/Chat.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Chat from "../components/Chat";
+import ChatRoomList from "../components/ChatRoomList";
+import { fetchMyRooms, openDm } from "../api/chat";
+import type { ChatRoom } from "../api/chat";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+
+/** /chat and /chat/:roomId — room list next to the open room (stacked on mobile). */
+export default function ChatPage() {
+  const { roomId } = useParams();
+  const nav = useNavigate();
+  const [me, setMe] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<ChatRoom[]>([]);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setMe(data.user?.id ?? null));
+  }, []);
+
+  const loadRooms = useCallback(async () => {
+    try {
+      setRooms(await fetchMyRooms());
+    } catch (e: any) {
+      setErr(e.message ?? "Failed to load rooms");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRooms();
+  }, [loadRooms]);
+
+  // any new message in a room we can read bumps the unread counters
+  useEffect(() => {
+    const ch = supabase
+      .channel("chat_rooms_unread")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "chat_messages" }, () => {
+        loadRooms();
+      })
+      .subscribe();
+    return () => {
+      void supabase.removeChannel(ch);
+    };
+  }, [loadRooms]);
+
+  const activeId = roomId ?? rooms.find((r) => r.kind === "global")?.id ?? null;
+  const active = rooms.find((r) => r.id === activeId);
+
+  const startDm = async (userId: string) => {
+    try {
+      const id = await openDm(userId);
+      await loadRooms();
+      nav(`/chat/${id}`);
+    } catch (e: any) {
+      setErr(e.message ?? "Couldn't open the conversation");
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-6xl grid gap-4 md:gap-6 md:grid-cols-[280px,1fr]">
+      <section className={`${card} ${roomId ? "hidden md:block" : ""}`}>
+        <h2 className="text-xl md:text-2xl font-semibold mb-4">Chat</h2>
+        {err && <div className="mb-3 text-rose-400 text-sm">{err}</div>}
+        <ChatRoomList
+          rooms={rooms}
+          activeId={activeId}
+          me={me}
+          onSelect={(id) => nav(`/chat/${id}`)}
+          onStartDm={startDm}
+        />
+      </section>
+
+      <div className={roomId ? "" : "hidden md:block"}>
+        <Chat
+          roomId={activeId}
+          title={active?.title ?? "Chat"}
+          onRead={loadRooms}
+          onlineScope={
+            active?.kind === "dm" && active.other_user_id
+              ? { userIds: [active.other_user_id] }
+              : active?.kind === "squad"
+              ? { squadId: active.squad_id }
+              : undefined
+          }
+          headerRight={
+            <button
+              onClick={() => nav("/chat")}
+              className="md:hidden rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+            >
+              ← Rooms
+            </button>
+          }
+        />
+      </div>
+    </div>
+  );
+}
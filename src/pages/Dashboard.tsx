@@ -2,17 +2,24 @@ import React, { useCallback, useEffect, useState } from "react";
 import LeaderboardCard from "../components/LeaderboardCard";
 import RecentActivity from "../components/RecentActivity";
 import Calendar from "../components/Calendar";
-import ChatGlobal from "../components/ChatGlobal"; // ⬅️ NEW
+import Chat from "../components/Chat";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "../lib/supabaseClient";
 import type { Session } from "@supabase/supabase-js";
+import { fetchMySeries } from "../api/series";
+import { expandOccurrences, zonedTime } from "../lib/recurrence";
+import { useSquad } from "../lib/squadContext";
+import { fetchScopeRoom } from "../api/chat";
 
 type TaskRow = {
   id: string;
   title: string;
   due_at: string;
-  status: string | null;        // "completed" | "open" | null
+  status: string | null;        // TaskStatus from api/tasks
   completed_at: string | null;
+  series_id?: string | null;
+  occurrence_date?: string | null;
+  recurring?: boolean;
 };
 
 function pad2(n: number) {
@@ -24,6 +31,20 @@ function keyFromDate(d: Date) {
 
 export default function Dashboard() {
   const nav = useNavigate();
+  const { squadId, squad } = useSquad();
+
+  // chat room for the current scope (global or the selected squad)
+  const [roomId, setRoomId] = useState<string | null>(null);
+  useEffect(() => {
+    let alive = true;
+    setRoomId(null);
+    fetchScopeRoom(squadId)
+      .then((id) => alive && setRoomId(id))
+      .catch((e) => console.error(e));
+    return () => {
+      alive = false;
+    };
+  }, [squadId]);
 
   // user session
   const [session, setSession] = useState<Session | null>(null);
@@ -48,7 +69,8 @@ export default function Dashboard() {
     setYm(prev => (prev.y === year && prev.m === month ? prev : { y: year, m: month }));
   }, []);
 
-  // Load tasks for the visible month (only this user + NOT completed)
+  // Load tasks for the visible month (only this user + NOT completed/skipped),
+  // plus future occurrences of recurring tasks that aren't generated yet
   const loadTasks = useCallback(
     async (y: number, m: number) => {
       if (!session?.user?.id) return;
@@ -56,14 +78,16 @@ export default function Dashboard() {
       const start = new Date(y, m, 1);
       const end = new Date(y, m + 1, 1);
 
-      const { data, error } = await supabase
-        .from("tasks")
-        .select("id,title,due_at,status,completed_at")
-        .eq("owner_id", session.user.id)                 // ✅ only current user
-        .or("status.is.null,status.neq.completed")       // hide completed
-        .gte("due_at", start.toISOString())
-        .lt("due_at", end.toISOString())
-        .order("due_at", { ascending: true });
+      const [{ data, error }, series] = await Promise.all([
+        supabase
+          .from("tasks")
+          .select("id,title,due_at,status,completed_at,series_id,occurrence_date")
+          .eq("owner_id", session.user.id)               // ✅ only current user
+          .gte("due_at", start.toISOString())
+          .lt("due_at", end.toISOString())
+          .order("due_at", { ascending: true }),
+        fetchMySeries(session.user.id).catch(() => []),
+      ]);
 
       if (error) {
         console.error("Failed to load tasks:", error);
@@ -71,12 +95,39 @@ export default function Dashboard() {
         return;
       }
 
+      const rows = (data ?? []) as TaskRow[];
       const map: Record<string, TaskRow[]> = {};
-      (data ?? []).forEach((row: TaskRow) => {
-        const d = new Date(row.due_at);
-        const k = keyFromDate(d);
-        (map[k] ||= []).push(row);
-      });
+      const push = (row: TaskRow) => (map[keyFromDate(new Date(row.due_at))] ||= []).push(row);
+
+      // generated occurrences (any status) block their virtual twin
+      const materialized = new Set(
+        rows.filter((r) => r.series_id).map((r) => `${r.series_id}:${r.occurrence_date}`)
+      );
+      rows
+        .filter((r) => r.status !== "completed" && r.status !== "pending" && r.status !== "skipped")
+        .forEach((r) => push({ ...r, recurring: !!r.series_id }));
+
+      const today = keyFromDate(new Date());
+      const from = keyFromDate(start) > today ? keyFromDate(start) : today;
+      const to = keyFromDate(new Date(y, m + 1, 0));
+      for (const s of series) {
+        for (const day of expandOccurrences(s, from, to)) {
+          if (materialized.has(`${s.id}:${day}`)) continue;
+          const due = zonedTime(day, s.due_time, s.timezone);
+          if (due.getTime() <= Date.now()) continue;
+          push({
+            id: `${s.id}:${day}`,
+            title: s.title,
+            due_at: due.toISOString(),
+            status: "open",
+            completed_at: null,
+            series_id: s.id,
+            occurrence_date: day,
+            recurring: true,
+          });
+        }
+      }
+      Object.values(map).forEach((list) => list.sort((a, b) => a.due_at.localeCompare(b.due_at)));
       setEventsByDate(map);
     },
     [session?.user?.id]
@@ -97,7 +148,9 @@ export default function Dashboard() {
       <div className="mx-auto max-w-6xl space-y-4 md:space-y-6">
         {/* Leaderboard */}
         <LeaderboardCard
-          title="Leaderboard · This week"
+          title={squad ? `Leaderboard · ${squad.name}` : "Leaderboard"}
+          window="week"
+          squadId={squadId}
           limit={5}
           onSeeAll={() => nav("/leaderboard")}
         />
@@ -110,11 +163,23 @@ export default function Dashboard() {
           <div className="mb-4 flex items-center justify-between">
             <h2 className="text-xl md:text-2xl font-semibold">Recent Activity</h2>
           </div>
-          <RecentActivity />
+          <RecentActivity squadId={squadId} />
         </section>
 
-        {/* Global Chat — at the very bottom */}
-        <ChatGlobal />
+        {/* Chat (global or the selected squad's room) — at the very bottom */}
+        <Chat
+          roomId={roomId}
+          title={squad ? `${squad.name} Chat` : "Global Chat"}
+          onlineScope={{ squadId }}
+          headerRight={
+            <button
+              onClick={() => nav("/chat")}
+              className="rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+            >
+              All rooms
+            </button>
+          }
+        />
       </div>
     </div>
   );
@@ -0,0 +1,47 @@
+// src/pages/JoinSquad.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { joinSquad } from "../api/squads";
+import { useSquad } from "../lib/squadContext";
+
+/** Invite links land here (/join/:code); joins, selects the squad, moves on. */
+export default function JoinSquadPage() {
+  const { code = "" } = useParams();
+  const nav = useNavigate();
+  const { reloadSquads, setSquadId } = useSquad();
+  const [err, setErr] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return; // StrictMode runs effects twice in dev
+    started.current = true;
+    (async () => {
+      try {
+        const s = await joinSquad(code);
+        await reloadSquads();
+        setSquadId(s.id);
+        nav("/squads", { replace: true });
+      } catch (e: any) {
+        setErr(e.message ?? "Couldn't join this squad");
+      }
+    })();
+  }, [code, nav, reloadSquads, setSquadId]);
+
+  return (
+    <section className="max-w-xl rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-5 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]">
+      {err ? (
+        <>
+          <div className="text-rose-400">{err}</div>
+          <button
+            onClick={() => nav("/squads")}
+            className="mt-3 rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+          >
+            Go to Squads
+          </button>
+        </>
+      ) : (
+        <div className="text-white/70">Joining squad…</div>
+      )}
+    </section>
+  );
+}
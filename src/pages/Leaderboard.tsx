@@ -0,0 +1,18 @@
+// src/pages/Leaderboard.tsx
+import React from "react";
+import LeaderboardCard from "../components/LeaderboardCard";
+import { useSquad } from "../lib/squadContext";
+
+export default function LeaderboardPage() {
+  const { squadId, squad } = useSquad();
+  return (
+    <div className="mx-auto max-w-3xl">
+      <LeaderboardCard
+        title={squad ? `Leaderboard · ${squad.name}` : "Leaderboard"}
+        limit={20}
+        window="week"
+        squadId={squadId}
+      />
+    </div>
+  );
+}
@@ -1,19 +1,34 @@
 import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "../lib/supabaseClient";
 import type { Session } from "@supabase/supabase-js";
 import Avatar from "../components/Avatar";
 import AvatarUploader from "../components/AvatarUploader";
+import AchievementShelf from "../components/AchievementShelf";
+import LevelProgress from "../components/LevelProgress";
+import TierBadge from "../components/TierBadge";
+import { fetchStreakEvents, fetchStreaks } from "../api/streaks";
+import type { StreakEvent, UserStreak } from "../api/streaks";
+import { fetchLevels } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+import { profilePath, setProfileVisibility, VISIBILITY_LABELS } from "../api/profiles";
+import type { ProfileVisibility } from "../api/profiles";
 
 type ProfileRow = {
   id: string;
   display_name: string | null;
   avatar_url: string | null;
+  profile_visibility: ProfileVisibility;
 };
 
 export default function Profile() {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<ProfileRow | null>(null);
   const [loading, setLoading] = useState(true);
+  const [streak, setStreak] = useState<UserStreak | null>(null);
+  const [streakEvents, setStreakEvents] = useState<StreakEvent[]>([]);
+  const [level, setLevel] = useState<UserLevel | null>(null);
+  const [privacyErr, setPrivacyErr] = useState<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data }) => setSession(data.session ?? null));
@@ -26,11 +41,21 @@ export default function Profile() {
       setLoading(true);
       const { data } = await supabase
         .from("profiles")
-        .select("id, display_name, avatar_url")
+        .select("id, display_name, avatar_url, profile_visibility")
         .eq("id", session.user.id)
         .single();
       if (alive) setProfile(data as ProfileRow);
       setLoading(false);
+
+      const [streaks, events, levels] = await Promise.all([
+        fetchStreaks([session.user.id]).catch(() => ({} as Record<string, UserStreak>)),
+        fetchStreakEvents(session.user.id).catch(() => []),
+        fetchLevels([session.user.id]).catch(() => ({} as Record<string, UserLevel>)),
+      ]);
+      if (!alive) return;
+      setStreak(streaks[session.user.id] ?? null);
+      setStreakEvents(events);
+      setLevel(levels[session.user.id] ?? null);
     })();
     return () => {
       alive = false;
@@ -62,6 +87,18 @@ export default function Profile() {
 
   const initial = (profile.display_name || session.user.email || "?").charAt(0);
 
+  const onVisibility = async (v: ProfileVisibility) => {
+    const prev = profile.profile_visibility;
+    setPrivacyErr(null);
+    setProfile({ ...profile, profile_visibility: v });
+    try {
+      await setProfileVisibility(profile.id, v);
+    } catch (e: any) {
+      setProfile({ ...profile, profile_visibility: prev });
+      setPrivacyErr(e.message ?? "Couldn't save");
+    }
+  };
+
   return (
     <section className="max-w-xl rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-5 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]">
       <h2 className="text-xl md:text-2xl font-semibold mb-4">Profile</h2>
@@ -69,13 +106,66 @@ export default function Profile() {
       <div className="flex items-center gap-4 md:gap-5">
         <Avatar path={profile.avatar_url ?? undefined} size={72} fallback={initial} />
         <div className="min-w-0">
-          <div className="font-semibold text-[18px] truncate">
-            {profile.display_name || session.user.email}
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-semibold text-[18px] truncate">{profile.display_name || session.user.email}</span>
+            <TierBadge level={level} className="shrink-0" />
           </div>
           <div className="text-sm text-white/70 truncate">{session.user.email}</div>
+          <Link to={profilePath(profile.id)} className="text-xs text-sky-300 hover:underline">
+            View public profile
+          </Link>
         </div>
       </div>
 
+      <LevelProgress level={level} className="mt-5" />
+
+      {/* Streak */}
+      <div className="mt-5 grid grid-cols-3 gap-2">
+        <StatTile
+          label={streak?.at_risk ? "Streak · at risk" : "Streak"}
+          value={`🔥 ${streak?.current_streak ?? 0}`}
+          highlight={streak?.at_risk}
+        />
+        <StatTile label="Longest" value={`${streak?.longest_streak ?? 0} days`} />
+        <StatTile label="Freezes" value={`❄️ ${streak?.streak_freezes ?? 0}`} />
+      </div>
+      {streak?.at_risk && (
+        <div className="mt-2 text-xs text-amber-200/90">
+          Complete a task today to keep your streak alive.
+        </div>
+      )}
+      {streakEvents.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-white/60">
+          {streakEvents.map((ev) => (
+            <li key={ev.id}>{describeStreakEvent(ev)}</li>
+          ))}
+        </ul>
+      )}
+
+      <AchievementShelf userId={profile.id} showProgress className="mt-5" />
+
+      {/* Privacy */}
+      <label className="mt-5 flex items-center justify-between gap-3 text-sm">
+        <span>
+          <span className="font-semibold">Who can see your stats</span>
+          <span className="block text-xs text-white/60">
+            XP, streak, feed posts and leaderboard spot, plus the stats and recent proofs on your profile page
+          </span>
+        </span>
+        <select
+          value={profile.profile_visibility}
+          onChange={(e) => onVisibility(e.target.value as ProfileVisibility)}
+          className="shrink-0 rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/20"
+        >
+          {(Object.keys(VISIBILITY_LABELS) as ProfileVisibility[]).map((v) => (
+            <option key={v} value={v}>
+              {VISIBILITY_LABELS[v]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {privacyErr && <div className="mt-1 text-xs text-rose-400">{privacyErr}</div>}
+
       <div className="mt-4">
         <AvatarUploader
           userId={profile.id}
@@ -86,3 +176,30 @@ export default function Profile() {
     </section>
   );
 }
+
+function StatTile({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div
+      className={[
+        "rounded-2xl border p-3",
+        highlight ? "border-amber-300/30 bg-amber-300/10" : "border-white/10 bg-white/[0.03]",
+      ].join(" ")}
+    >
+      <div className="text-[11px] text-white/60">{label}</div>
+      <div className="mt-0.5 text-lg font-semibold">{value}</div>
+    </div>
+  );
+}
+
+function describeStreakEvent(ev: StreakEvent) {
+  switch (ev.kind) {
+    case "break":
+      return `💔 ${ev.day}: ${ev.streak_length}-day streak ended`;
+    case "freeze_used":
+      return `❄️ ${ev.day}: freeze used to save a ${ev.streak_length}-day streak`;
+    case "freeze_earned":
+      return `🎁 ${ev.day}: earned a freeze for ${ev.streak_length} days in a row`;
+    default:
+      return ev.day;
+  }
+}
@@ -0,0 +1,208 @@
+// src/pages/PublicProfile.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Avatar from "../components/Avatar";
+import AchievementShelf from "../components/AchievementShelf";
+import LevelProgress from "../components/LevelProgress";
+import ProofLightbox from "../components/ProofLightbox";
+import TierBadge from "../components/TierBadge";
+import { fetchLevels } from "../api/levels";
+import type { UserLevel } from "../api/levels";
+import { fetchProfileCompletions, fetchPublicProfile } from "../api/profiles";
+import type { ProfileCompletion, PublicProfile } from "../api/profiles";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-5 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+
+/** /u/:userId — another player's level, stats and recent completions, as far as their privacy setting allows. */
+export default function PublicProfilePage() {
+  const { userId = "" } = useParams();
+  const [me, setMe] = useState<string | null>(null);
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [level, setLevel] = useState<UserLevel | null>(null);
+  const [completions, setCompletions] = useState<ProfileCompletion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<ProfileCompletion | null>(null);
+  const closeViewer = useCallback(() => setViewing(null), []);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setMe(data.user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const [p, levels, recent] = await Promise.all([
+          fetchPublicProfile(userId),
+          fetchLevels([userId]).catch(() => ({} as Record<string, UserLevel>)),
+          fetchProfileCompletions(userId).catch(() => [] as ProfileCompletion[]),
+        ]);
+        if (!alive) return;
+        setProfile(p);
+        setLevel(levels[userId] ?? null);
+        setCompletions(recent);
+      } catch (e: any) {
+        if (alive) setErr(e.message ?? "Failed to load profile");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [userId]);
+
+  if (loading) {
+    return (
+      <section className={`max-w-2xl ${card}`}>
+        <div className="flex items-center gap-4">
+          <div className="h-[72px] w-[72px] rounded-full bg-white/10 animate-pulse" />
+          <div className="space-y-2">
+            <div className="h-4 w-48 rounded bg-white/10 animate-pulse" />
+            <div className="h-3 w-32 rounded bg-white/10 animate-pulse" />
+          </div>
+        </div>
+      </section>
+    );
+  }
+
+  if (err || !profile) {
+    return (
+      <section className={`max-w-2xl ${card}`}>
+        <div className={err ? "text-rose-400" : "text-white/80"}>{err ?? "Player not found."}</div>
+      </section>
+    );
+  }
+
+  const name = profile.display_name?.trim() || `Player ${profile.id.slice(0, 4)}`;
+  const mine = profile.id === me;
+  const graded = (profile.completed_count ?? 0) + (profile.missed_count ?? 0);
+  const rate = graded ? Math.round(((profile.completed_count ?? 0) / graded) * 100) : null;
+
+  return (
+    <section className={`max-w-2xl ${card}`}>
+      <div className="flex items-center gap-4 md:gap-5">
+        <Avatar path={profile.avatar_url ?? undefined} size={72} fallback={name.charAt(0)} />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 min-w-0">
+            <h2 className="font-semibold text-xl truncate">{name}</h2>
+            <TierBadge level={level} className="shrink-0" />
+          </div>
+          <div className="text-sm text-white/60">
+            Playing since {new Date(profile.created_at).toLocaleDateString()}
+          </div>
+        </div>
+        {mine && (
+          <Link
+            to="/profile"
+            className="shrink-0 rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1]"
+          >
+            Edit
+          </Link>
+        )}
+      </div>
+
+      {!profile.visible ? (
+        <div className="mt-5 rounded-2xl border border-white/10 bg-white/[0.03] p-4 text-sm text-white/70">
+          🔒 {name} only shares their stats with{" "}
+          {profile.profile_visibility === "squads" ? "squadmates" : "themselves"}.
+        </div>
+      ) : (
+        <>
+          <LevelProgress level={level} className="mt-5" />
+
+          <div className="mt-5 grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <StatTile label="Total XP" value={`${profile.total_xp ?? 0}`} />
+            <StatTile label="This week" value={`${profile.weekly_xp ?? 0} XP`} />
+            <StatTile
+              label={`Streak · best ${profile.longest_streak ?? 0}`}
+              value={`🔥 ${profile.current_streak ?? 0}`}
+            />
+            <StatTile
+              label={`${profile.completed_count ?? 0} done · ${profile.missed_count ?? 0} missed`}
+              value={rate == null ? "—" : `${rate}%`}
+            />
+          </div>
+
+          {!!profile.top_categories?.length && (
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-white/60">Top categories</span>
+              {profile.top_categories.map((c) => (
+                <span
+                  key={c.category}
+                  className="rounded-full border border-white/10 bg-white/[0.06] px-2.5 py-0.5 capitalize"
+                >
+                  {c.category} · {c.count}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <h3 className="mt-6 text-sm font-semibold">Recent completions</h3>
+          {completions.length ? (
+            <ul className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {completions.map((c) => {
+                const cover = c.attachments[0];
+                const thumb = cover ? cover.thumb_url || (cover.kind === "photo" ? cover.url : "") : "";
+                return (
+                  <li key={c.id}>
+                    <button
+                      onClick={() => cover && setViewing(c)}
+                      disabled={!cover}
+                      title={c.task_title ?? undefined}
+                      className="block w-full overflow-hidden rounded-2xl border border-white/10 bg-white/[0.03] text-left hover:border-white/20"
+                    >
+                      {thumb ? (
+                        <img src={thumb} alt="Proof" className="h-28 w-full object-cover" loading="lazy" />
+                      ) : (
+                        <div className="h-28 w-full bg-slate-800" />
+                      )}
+                      <div className="p-2">
+                        <div className="truncate text-sm">
+                          {c.task_title || "(untitled)"}
+                          {c.step_title && <span className="text-white/50"> · {c.step_title}</span>}
+                        </div>
+                        <div className="text-[11px] text-white/50">
+                          {signedXp(c.delta + c.vote_xp)} · {new Date(c.created_at).toLocaleDateString()}
+                        </div>
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <div className="mt-2 text-sm text-white/60">No completions yet.</div>
+          )}
+        </>
+      )}
+
+      <AchievementShelf userId={profile.id} showProgress={mine} className="mt-6" />
+
+      {viewing && (
+        <ProofLightbox
+          attachments={viewing.attachments}
+          title={viewing.task_title ?? undefined}
+          note={viewing.proof_note}
+          onClose={closeViewer}
+        />
+      )}
+    </section>
+  );
+}
+
+const signedXp = (xp: number) => `${xp < 0 ? "−" : "+"}${Math.abs(xp)} XP`;
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] p-3">
+      <div className="text-[11px] text-white/60 truncate">{label}</div>
+      <div className="mt-0.5 text-lg font-semibold">{value}</div>
+    </div>
+  );
+}
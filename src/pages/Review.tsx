@@ -0,0 +1,331 @@
+// src/pages/Review.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Avatar from "../components/Avatar";
+import SuspiciousBadge from "../components/SuspiciousBadge";
+import ProofLightbox from "../components/ProofLightbox";
+import { fetchProofQueue, PROOF_FLAG_LABELS, reviewProof, settleDueProofs } from "../api/proofs";
+import type { ProofVerdict, QueuedProof } from "../api/proofs";
+import { profilePath } from "../api/profiles";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+const field =
+  "w-full rounded-xl bg-white/[0.06] border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/20";
+const ghostBtn =
+  "rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-50";
+
+type TabKey = "review" | "mine";
+
+/** "5h left" until the review window closes */
+function timeLeft(iso: string) {
+  const min = Math.max(0, Math.floor((+new Date(iso) - Date.now()) / 60_000));
+  if (min < 60) return `${min}m left`;
+  return `${Math.floor(min / 60)}h left`;
+}
+
+/** /review — squadmates' proofs to approve or reject, and how your own are doing. */
+export default function ReviewPage() {
+  const [me, setMe] = useState<string | null>(null);
+  const [tab, setTab] = useState<TabKey>("review");
+  const [proofs, setProofs] = useState<QueuedProof[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setMe(data.user?.id ?? null));
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      setProofs(await fetchProofQueue({ limit: 100 }));
+      setErr(null);
+    } catch (e: any) {
+      setErr(e.message ?? "Failed to load proofs");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // close out expired windows first so the list is current
+    settleDueProofs()
+      .catch((e) => console.error("Failed to settle proofs:", e))
+      .finally(load);
+  }, [load]);
+
+  // other reviewers' verdicts and new submissions
+  useEffect(() => {
+    const ch = supabase
+      .channel("proof_queue")
+      .on("postgres_changes", { event: "*", schema: "public", table: "task_proofs" }, () => load())
+      .on("postgres_changes", { event: "*", schema: "public", table: "proof_reviews" }, () => load())
+      .subscribe();
+    return () => {
+      void supabase.removeChannel(ch);
+    };
+  }, [load]);
+
+  const toReview = proofs.filter((p) => p.user_id !== me && p.can_review);
+  const mine = proofs.filter((p) => p.user_id === me);
+  const list = tab === "review" ? toReview : mine;
+
+  const onReview = async (p: QueuedProof, verdict: ProofVerdict, reason?: string) => {
+    await reviewProof(p.id, verdict, reason);
+    await load();
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      <section className={card}>
+        <h2 className="text-xl md:text-2xl font-semibold mb-1">Proof review</h2>
+        <p className="mb-4 text-sm text-white/60">
+          Completions earn XP once squadmates verify the proof. If nobody objects within 24h it's approved
+          automatically.
+        </p>
+
+        <div className="mb-3 flex items-center gap-2 overflow-x-auto no-scrollbar">
+          <TabChip
+            label={`To review (${toReview.filter((p) => !p.my_verdict).length})`}
+            active={tab === "review"}
+            onClick={() => setTab("review")}
+          />
+          <TabChip label={`My proofs (${mine.length})`} active={tab === "mine"} onClick={() => setTab("mine")} />
+        </div>
+
+        {err && <div className="mb-3 text-rose-400 text-sm">{err}</div>}
+
+        <div className="grid gap-2">
+          {loading ? (
+            <div className="text-white/60 text-sm py-3 text-center">Loading…</div>
+          ) : list.length ? (
+            list.map((p) => (
+              <ProofCard
+                key={p.id}
+                p={p}
+                reviewable={tab === "review"}
+                onReview={(verdict, reason) => onReview(p, verdict, reason)}
+                onFlagsCleared={load}
+              />
+            ))
+          ) : (
+            <div className="text-white/60 text-sm py-3 text-center">
+              {tab === "review" ? "Nothing to review right now." : "You haven't submitted any proofs yet."}
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+/* ---------- UI bits ---------- */
+
+function TabChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={[
+        "whitespace-nowrap rounded-full px-3 py-1.5 text-sm border transition",
+        active ? "bg-white text-slate-900 border-white" : "bg-white/[0.06] text-white border-white/10 hover:bg-white/[0.1]",
+      ].join(" ")}
+    >
+      {label}
+    </button>
+  );
+}
+
+const STATUS_BADGE: Record<QueuedProof["status"], string> = {
+  pending: "border-amber-300/30 bg-amber-300/10 text-amber-200",
+  approved: "border-emerald-300/30 bg-emerald-300/10 text-emerald-200",
+  rejected: "border-rose-300/30 bg-rose-300/10 text-rose-200",
+};
+
+function ProofCard({
+  p,
+  reviewable,
+  onReview,
+  onFlagsCleared,
+}: {
+  p: QueuedProof;
+  reviewable: boolean;
+  onReview: (verdict: ProofVerdict, reason?: string) => Promise<void>;
+  onFlagsCleared: () => void;
+}) {
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [viewing, setViewing] = useState(false);
+  const closeViewer = useCallback(() => setViewing(false), []);
+  const name = p.display_name || `Player ${p.user_id.slice(0, 4)}`;
+  const cover = p.attachments[0];
+  const takenAt = p.attachments.map((a) => a.captured_at).filter((t): t is string => !!t);
+
+  const submit = async (verdict: ProofVerdict, why?: string) => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await onReview(verdict, why);
+      setRejecting(false);
+      setReason("");
+    } catch (e: any) {
+      setErr(e.message ?? "Review failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-[96px,1fr] sm:grid-cols-[140px,1fr] gap-3 sm:gap-4 rounded-2xl border border-white/10 bg-white/[0.03] p-3 sm:p-4">
+      <button
+        onClick={() => cover && setViewing(true)}
+        title="Open proof"
+        className="relative block self-start overflow-hidden rounded-xl ring-1 ring-white/10 hover:ring-white/20"
+      >
+        {cover?.thumb_url || cover?.kind === "photo" ? (
+          <img
+            src={cover.thumb_url || cover.url}
+            alt="Proof"
+            className="h-28 sm:h-32 w-full object-cover"
+            loading="lazy"
+          />
+        ) : (
+          <div className="h-28 sm:h-32 w-full bg-slate-800" />
+        )}
+        {cover?.kind === "video" && (
+          <span className="absolute inset-0 grid place-items-center text-2xl text-white/90 drop-shadow">▶</span>
+        )}
+        {p.attachments.length > 1 && (
+          <span className="absolute bottom-1.5 right-1.5 rounded-full bg-black/70 px-1.5 py-0.5 text-[11px] text-white">
+            1/{p.attachments.length}
+          </span>
+        )}
+      </button>
+
+      <div className="min-w-0 grid gap-2 content-start">
+        <div className="flex items-center justify-between gap-2">
+          <Link to={profilePath(p.user_id)} className="flex items-center gap-2 min-w-0 hover:underline">
+            <Avatar path={p.avatar_url ?? undefined} size={28} fallback={name.charAt(0)} />
+            <span className="truncate text-sm font-semibold">{name}</span>
+          </Link>
+          <span className={`shrink-0 rounded-full px-2 py-0.5 text-xs border ${STATUS_BADGE[p.status]}`}>
+            {p.status}
+          </span>
+        </div>
+
+        <div className="min-w-0">
+          <div className="truncate font-semibold">{p.task_title}</div>
+          {p.step_title && <div className="truncate text-xs text-sky-200/80">Step: {p.step_title}</div>}
+          <div className="text-xs text-white/60">
+            {p.step_xp ?? p.xp_assigned} XP · ✓ {p.approvals} · ✗ {p.rejections}
+            {p.quorum > 0 && ` · ${p.quorum} to decide`}
+            {p.status !== "rejected" && new Date(p.review_ends_at) > new Date() && ` · ${timeLeft(p.review_ends_at)}`}
+          </div>
+        </div>
+
+        {p.note && <p className="text-sm text-white/80 whitespace-pre-line">{p.note}</p>}
+
+        {p.flags.length > 0 && (
+          <div className="grid gap-1.5 rounded-xl border border-amber-300/20 bg-amber-300/[0.06] p-2">
+            <SuspiciousBadge
+              proofId={p.id}
+              flags={p.flags}
+              canClear={reviewable}
+              onCleared={onFlagsCleared}
+            />
+            <ul className="text-xs text-amber-100/80 list-disc pl-4">
+              {p.flags.map((f) => (
+                <li key={f}>
+                  {PROOF_FLAG_LABELS[f] ?? f}
+                  {f === "capture_time" &&
+                    takenAt.length > 0 &&
+                    ` (taken ${takenAt.map((t) => new Date(t).toLocaleString()).join(", ")})`}
+                </li>
+              ))}
+            </ul>
+            {p.flags.includes("duplicate") && p.duplicate_thumb_url && (
+              <div className="flex items-center gap-2 text-xs text-white/60">
+                <img
+                  src={p.duplicate_thumb_url}
+                  alt="Earlier proof"
+                  className="h-12 w-12 rounded-lg object-cover ring-1 ring-white/10"
+                  loading="lazy"
+                />
+                Earlier proof it resembles
+              </div>
+            )}
+          </div>
+        )}
+
+        {p.status === "rejected" && p.decision_reason && (
+          <p className="text-xs italic text-rose-200/80">“{p.decision_reason}”</p>
+        )}
+
+        {reviewable && p.my_verdict && (
+          <div className="text-xs text-white/60">
+            You {p.my_verdict === "approve" ? "approved" : `rejected: “${p.my_reason}”`}
+          </div>
+        )}
+
+        {reviewable && p.can_review && !rejecting && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => submit("approve")}
+              disabled={busy || p.my_verdict === "approve"}
+              className="rounded-lg bg-emerald-500/90 hover:bg-emerald-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => setRejecting(true)}
+              disabled={busy || p.my_verdict === "reject"}
+              className={ghostBtn}
+            >
+              Reject
+            </button>
+          </div>
+        )}
+
+        {reviewable && rejecting && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (reason.trim()) submit("reject", reason.trim());
+            }}
+            className="grid gap-2"
+          >
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What's wrong with this proof?"
+              maxLength={300}
+              className={field}
+              autoFocus
+              required
+            />
+            <div className="flex items-center gap-2">
+              <button
+                type="submit"
+                disabled={busy || !reason.trim()}
+                className="rounded-lg bg-rose-500/90 hover:bg-rose-400 text-slate-950 font-semibold px-3 py-1.5 text-sm disabled:opacity-50"
+              >
+                Reject proof
+              </button>
+              <button type="button" onClick={() => setRejecting(false)} className={ghostBtn}>
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {err && <div className="text-rose-400 text-xs">{err}</div>}
+      </div>
+
+      {viewing && (
+        <ProofLightbox attachments={p.attachments} title={p.task_title} note={p.note} onClose={closeViewer} />
+      )}
+    </div>
+  );
+}
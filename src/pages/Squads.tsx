@@ -0,0 +1,298 @@
+// src/pages/Squads.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "../lib/supabaseClient";
+import Avatar from "../components/Avatar";
+import { useSquad } from "../lib/squadContext";
+import {
+  createSquad,
+  fetchSquadMembers,
+  inviteLink,
+  joinSquad,
+  leaveSquad,
+  regenerateInviteCode,
+  removeSquadMember,
+} from "../api/squads";
+import type { Squad, SquadMember } from "../api/squads";
+import { openDm } from "../api/chat";
+import { profilePath } from "../api/profiles";
+import { describeLastSeen, useOnlineUsers } from "../lib/presence";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+const field =
+  "flex-1 rounded-xl bg-white/[0.06] border border-white/10 px-3.5 py-2 text-[15px] outline-none focus:border-white/20";
+const primaryBtn =
+  "rounded-xl bg-sky-500/90 hover:bg-sky-400 text-slate-950 font-semibold text-sm px-3.5 py-2 disabled:opacity-50";
+const ghostBtn =
+  "rounded-lg border border-white/10 bg-white/[0.06] px-3 py-1.5 text-sm hover:bg-white/[0.1] disabled:opacity-50";
+
+export default function SquadsPage() {
+  const { squads, squadId, setSquadId, reloadSquads } = useSquad();
+  const [me, setMe] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setMe(data.user?.id ?? null));
+  }, []);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(e.message ?? "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onCreate = () =>
+    run(async () => {
+      const s = await createSquad(name.trim());
+      setName("");
+      await reloadSquads();
+      setSquadId(s.id);
+    });
+
+  const onJoin = () =>
+    run(async () => {
+      const s = await joinSquad(code.trim());
+      setCode("");
+      await reloadSquads();
+      setSquadId(s.id);
+    });
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-4 md:space-y-6">
+      <section className={card}>
+        <h2 className="text-xl md:text-2xl font-semibold mb-4">Squads</h2>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="grid gap-1">
+            <span className="text-xs text-white/60">Start a squad</span>
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Squad name"
+                maxLength={60}
+                className={field}
+              />
+              <button onClick={onCreate} disabled={busy || !name.trim()} className={primaryBtn}>
+                Create
+              </button>
+            </div>
+          </div>
+          <div className="grid gap-1">
+            <span className="text-xs text-white/60">Join with an invite code</span>
+            <div className="flex gap-2">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="e.g. 3F9A12BC"
+                maxLength={16}
+                className={`${field} uppercase tracking-widest`}
+              />
+              <button onClick={onJoin} disabled={busy || !code.trim()} className={primaryBtn}>
+                Join
+              </button>
+            </div>
+          </div>
+        </div>
+        {err && <div className="mt-3 text-rose-400 text-sm">{err}</div>}
+      </section>
+
+      {squads.length === 0 && (
+        <section className={card}>
+          <div className="text-white/60">
+            You're not in a squad yet. Create one and share the invite link with your friends.
+          </div>
+        </section>
+      )}
+
+      {squads.map((s) => (
+        <SquadCard
+          key={s.id}
+          squad={s}
+          me={me}
+          selected={s.id === squadId}
+          onSelect={() => setSquadId(s.id)}
+          onChanged={async () => {
+            await reloadSquads();
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/* ---------- one squad: invite, members, leave ---------- */
+function SquadCard({
+  squad,
+  me,
+  selected,
+  onSelect,
+  onChanged,
+}: {
+  squad: Squad;
+  me: string | null;
+  selected: boolean;
+  onSelect: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const nav = useNavigate();
+  const [members, setMembers] = useState<SquadMember[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const online = useOnlineUsers(squad.id);
+  const isOwner = squad.owner_id === me;
+
+  useEffect(() => {
+    let alive = true;
+    fetchSquadMembers(squad.id)
+      .then((m) => alive && setMembers(m))
+      .catch((e) => alive && setErr(e.message));
+    return () => {
+      alive = false;
+    };
+  }, [squad.id]);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setErr(null);
+    try {
+      await fn();
+    } catch (e: any) {
+      setErr(e.message ?? "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(squad.invite_code));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setErr("Couldn't copy — share the code instead.");
+    }
+  };
+
+  const onLeave = () => {
+    const last = members.length <= 1;
+    const msg = last
+      ? `You're the last member — leaving deletes "${squad.name}". Continue?`
+      : `Leave "${squad.name}"?`;
+    if (!window.confirm(msg)) return;
+    run(async () => {
+      await leaveSquad(squad.id);
+      await onChanged();
+    });
+  };
+
+  const onRemove = (m: SquadMember) => {
+    if (!window.confirm(`Remove ${m.display_name || "this player"} from the squad?`)) return;
+    run(async () => {
+      await removeSquadMember(squad.id, m.user_id);
+      setMembers((prev) => prev.filter((x) => x.user_id !== m.user_id));
+    });
+  };
+
+  const onRegenerate = () => {
+    if (!window.confirm("Make a new invite code? The current code and link will stop working.")) return;
+    run(async () => {
+      await regenerateInviteCode(squad.id);
+      await onChanged();
+    });
+  };
+
+  return (
+    <section className={`${card} ${selected ? "ring-1 ring-sky-300/30" : ""}`}>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold truncate">{squad.name}</h3>
+          <div className="text-xs text-white/60">
+            {members.length} member{members.length === 1 ? "" : "s"}
+            {isOwner && " · you own this squad"}
+          </div>
+        </div>
+        {selected ? (
+          <span className="rounded-full px-3 py-1 text-xs bg-sky-400/20 border border-sky-300/30">Viewing</span>
+        ) : (
+          <button onClick={onSelect} className={ghostBtn}>
+            View
+          </button>
+        )}
+      </div>
+
+      {/* Invite */}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <code className="rounded-lg bg-white/[0.06] border border-white/10 px-3 py-1.5 text-sm tracking-widest">
+          {squad.invite_code}
+        </code>
+        <button onClick={copyLink} className={ghostBtn}>
+          {copied ? "Copied ✓" : "Copy invite link"}
+        </button>
+        {isOwner && (
+          <button onClick={onRegenerate} disabled={busy} className={ghostBtn}>
+            New code
+          </button>
+        )}
+      </div>
+
+      {/* Members */}
+      <ul className="grid gap-2">
+        {members.map((m) => {
+          const name = m.display_name || `Player ${m.user_id.slice(0, 4)}`;
+          return (
+            <li key={m.user_id} className="flex items-center gap-3">
+              <Link to={profilePath(m.user_id)} className="shrink-0">
+                <Avatar path={m.avatar_url ?? undefined} size={32} fallback={name.charAt(0)} />
+              </Link>
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-[15px]">
+                  <Link to={profilePath(m.user_id)} className="hover:underline">
+                    {name}
+                  </Link>
+                  {m.user_id === me && <span className="text-white/50"> (you)</span>}
+                </div>
+                <div className="text-xs text-white/50">
+                  {m.role === "owner" ? "Owner" : "Member"} ·{" "}
+                  {describeLastSeen(m.last_seen_at, online.some((u) => u.user_id === m.user_id))} · joined{" "}
+                  {new Date(m.joined_at).toLocaleDateString()}
+                </div>
+              </div>
+              {m.user_id !== me && (
+                <button
+                  onClick={() => run(async () => nav(`/chat/${await openDm(m.user_id)}`))}
+                  disabled={busy}
+                  className={ghostBtn}
+                >
+                  Message
+                </button>
+              )}
+              {isOwner && m.user_id !== me && (
+                <button onClick={() => onRemove(m)} disabled={busy} className={`${ghostBtn} text-rose-300`}>
+                  Remove
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 flex items-center justify-between">
+        {err ? <div className="text-rose-400 text-sm">{err}</div> : <span />}
+        <button onClick={onLeave} disabled={busy} className={`${ghostBtn} text-rose-300`}>
+          Leave squad
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,367 @@
+// src/pages/Stats.tsx
+import React, { useEffect, useState } from "react";
+import {
+  fetchDailyXp,
+  fetchTaskScores,
+  fetchWeeklyXp,
+  fetchXpHeatmap,
+  MAX_STATS_DAYS,
+} from "../api/stats";
+import type { DailyXp, HeatmapCell, StatsRange, TaskScores, WeekXp } from "../api/stats";
+
+const card =
+  "rounded-3xl border border-white/10 bg-white/[0.04] backdrop-blur p-4 md:p-6 shadow-[0_10px_40px_-10px_rgba(0,0,0,0.6)]";
+const field =
+  "rounded-xl bg-white/[0.06] border border-white/10 px-3 py-1.5 text-sm outline-none focus:border-white/20";
+
+type RangeKey = "7d" | "30d" | "90d" | "1y" | "all" | "custom";
+
+const RANGE_LABELS: Record<RangeKey, string> = {
+  "7d": "7 days",
+  "30d": "30 days",
+  "90d": "90 days",
+  "1y": "1 year",
+  all: "All time",
+  custom: "Custom",
+};
+
+const RANGE_DAYS: Partial<Record<RangeKey, number>> = { "7d": 7, "30d": 30, "90d": 90, "1y": 365 };
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Local YYYY-MM-DD, `back` days ago */
+function dayInput(back = 0) {
+  const d = new Date();
+  d.setDate(d.getDate() - back);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+const shortDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+const signedXp = (xp: number) => `${xp < 0 ? "−" : "+"}${Math.abs(xp)} XP`;
+
+/** /stats — the signed-in player's XP and task trends over a chosen range. */
+export default function StatsPage() {
+  const [rangeKey, setRangeKey] = useState<RangeKey>("30d");
+  const [customFrom, setCustomFrom] = useState(() => dayInput(29));
+  const [customTo, setCustomTo] = useState(() => dayInput());
+
+  const [daily, setDaily] = useState<DailyXp[]>([]);
+  const [heatmap, setHeatmap] = useState<HeatmapCell[]>([]);
+  const [weeks, setWeeks] = useState<WeekXp[]>([]);
+  const [scores, setScores] = useState<TaskScores[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  const days = RANGE_DAYS[rangeKey];
+  const from = rangeKey === "custom" ? customFrom || null : days ? dayInput(days - 1) : null;
+  const to = rangeKey === "custom" ? customTo || null : null;
+
+  useEffect(() => {
+    let alive = true;
+    if (from && to && (from > to || (+new Date(to) - +new Date(from)) / 86_400_000 >= MAX_STATS_DAYS)) {
+      setErr(from > to ? "The range starts after it ends." : `Pick at most ${MAX_STATS_DAYS} days.`);
+      setLoading(false);
+      return;
+    }
+    (async () => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const r: StatsRange = { from, to };
+        const [d, h, w, s] = await Promise.all([
+          fetchDailyXp(r),
+          fetchXpHeatmap(r),
+          fetchWeeklyXp(r),
+          fetchTaskScores(r),
+        ]);
+        if (!alive) return;
+        setDaily(d);
+        setHeatmap(h);
+        setWeeks(w);
+        setScores(s);
+      } catch (e: any) {
+        if (alive) setErr(e.message ?? "Failed to load stats");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [from, to]);
+
+  const gained = daily.reduce((sum, d) => sum + d.xp, 0);
+  const total = scores.find((s) => s.category == null) ?? null;
+  const categories = scores.filter((s) => s.category != null);
+
+  return (
+    <div className="mx-auto max-w-4xl grid gap-4">
+      <section className={card}>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="font-semibold text-lg">Your stats</h2>
+            <div className="text-sm text-white/60">
+              {loading ? "Loading…" : daily.length ? `${signedXp(gained)} over ${daily.length} days` : "No data"}
+            </div>
+          </div>
+          <div className="flex gap-2 overflow-x-auto">
+            {(Object.keys(RANGE_LABELS) as RangeKey[]).map((k) => (
+              <TabChip key={k} label={RANGE_LABELS[k]} active={rangeKey === k} onClick={() => setRangeKey(k)} />
+            ))}
+          </div>
+        </div>
+        {rangeKey === "custom" && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <input
+              type="date"
+              value={customFrom}
+              max={customTo || undefined}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              className={field}
+            />
+            <span className="text-white/60">to</span>
+            <input
+              type="date"
+              value={customTo}
+              min={customFrom || undefined}
+              onChange={(e) => setCustomTo(e.target.value)}
+              className={field}
+            />
+          </div>
+        )}
+        {err && <div className="mt-3 text-sm text-rose-400">{err}</div>}
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <section className={card}>
+          <h3 className="text-sm font-semibold">Total XP</h3>
+          <LineChart
+            points={daily.map((d) => ({ label: d.day, value: d.cumulative }))}
+            stroke="stroke-sky-400"
+            className="mt-3"
+          />
+        </section>
+        <section className={card}>
+          <h3 className="text-sm font-semibold">XP per day</h3>
+          <LineChart
+            points={daily.map((d) => ({ label: d.day, value: d.xp }))}
+            stroke="stroke-emerald-400"
+            className="mt-3"
+          />
+        </section>
+      </div>
+
+      <section className={card}>
+        <h3 className="text-sm font-semibold">When you earn XP</h3>
+        <Heatmap cells={heatmap} className="mt-3" />
+      </section>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <section className={card}>
+          <h3 className="text-sm font-semibold">Tasks</h3>
+          <CompletionBar completed={total?.completed ?? 0} missed={total?.missed ?? 0} className="mt-3" />
+          <div className="mt-4 flex items-baseline justify-between text-sm">
+            <span className="text-white/60">Average score per task</span>
+            <span className="text-lg font-semibold">{total?.avg_score == null ? "—" : `${total.avg_score} XP`}</span>
+          </div>
+          {categories.length > 0 && (
+            <table className="mt-3 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-white/50">
+                  <th className="font-normal pb-1">Category</th>
+                  <th className="font-normal pb-1 text-right">Done</th>
+                  <th className="font-normal pb-1 text-right">Missed</th>
+                  <th className="font-normal pb-1 text-right">Avg score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map((c) => (
+                  <tr key={c.category} className="border-t border-white/5">
+                    <td className="py-1.5 capitalize">{c.category}</td>
+                    <td className="py-1.5 text-right">{c.completed}</td>
+                    <td className="py-1.5 text-right">{c.missed}</td>
+                    <td className="py-1.5 text-right">{c.avg_score ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section className={card}>
+          <h3 className="text-sm font-semibold">Best and worst weeks</h3>
+          <WeekRanking weeks={weeks} className="mt-3" />
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function TabChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={[
+        "whitespace-nowrap rounded-full px-3 py-1.5 text-sm border transition",
+        active ? "bg-white text-slate-900 border-white" : "bg-white/[0.06] text-white border-white/10 hover:bg-white/[0.1]",
+      ].join(" ")}
+    >
+      {label}
+    </button>
+  );
+}
+
+/** Plain SVG line with a zero line when the values cross it; hover a point for its value. */
+function LineChart({
+  points,
+  stroke,
+  className = "",
+}: {
+  points: { label: string; value: number }[];
+  stroke: string;
+  className?: string;
+}) {
+  if (!points.length) {
+    return <div className={`h-40 grid place-items-center text-sm text-white/50 ${className}`}>No XP yet</div>;
+  }
+
+  const W = 600;
+  const H = 160;
+  const values = points.map((p) => p.value);
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const span = max - min || 1;
+  const x = (i: number) => (points.length === 1 ? W / 2 : (i / (points.length - 1)) * W);
+  const y = (v: number) => H - ((v - min) / span) * H;
+  const path = points.map((p, i) => `${i ? "L" : "M"}${x(i).toFixed(1)},${y(p.value).toFixed(1)}`).join(" ");
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-[11px] text-white/50">
+        <span>high {max}</span>
+        <span>low {min}</span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" className="h-40 w-full overflow-visible">
+        {min < 0 && (
+          <line x1={0} x2={W} y1={y(0)} y2={y(0)} className="stroke-white/20" strokeDasharray="4 4" />
+        )}
+        <path d={path} fill="none" className={stroke} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        {points.length <= 92 &&
+          points.map((p, i) => (
+            <circle key={p.label} cx={x(i)} cy={y(p.value)} r={3} className={`fill-slate-950 ${stroke}`}>
+              <title>{`${shortDay(p.label)} · ${p.value} XP`}</title>
+            </circle>
+          ))}
+      </svg>
+      <div className="mt-1 flex justify-between text-[11px] text-white/50">
+        <span>{shortDay(points[0].label)}</span>
+        <span>{shortDay(points[points.length - 1].label)}</span>
+      </div>
+    </div>
+  );
+}
+
+/** Weekday × hour grid; green for XP gained, red where penalties outweigh it. */
+function Heatmap({ cells, className = "" }: { cells: HeatmapCell[]; className?: string }) {
+  const byKey = new Map(cells.map((c) => [`${c.weekday}:${c.hour}`, c]));
+  const peak = Math.max(1, ...cells.map((c) => Math.abs(c.xp)));
+  const hours = Array.from({ length: 24 }, (_, h) => h);
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <div className="grid min-w-[560px] grid-cols-[2.5rem,repeat(24,minmax(0,1fr))] gap-[3px] text-[10px] text-white/50">
+        <span />
+        {hours.map((h) => (
+          <span key={h} className="text-center">
+            {h % 3 === 0 ? h : ""}
+          </span>
+        ))}
+        {WEEKDAYS.map((label, i) => (
+          <React.Fragment key={label}>
+            <span className="self-center">{label}</span>
+            {hours.map((h) => {
+              const c = byKey.get(`${i + 1}:${h}`);
+              const strength = c ? 0.15 + (Math.abs(c.xp) / peak) * 0.85 : 0;
+              return (
+                <span
+                  key={h}
+                  title={c ? `${label} ${h}:00 · ${signedXp(c.xp)} · ${c.entries} entries` : `${label} ${h}:00`}
+                  className={`aspect-square rounded-[3px] ${
+                    !c ? "bg-white/[0.05]" : c.xp < 0 ? "bg-rose-400" : "bg-emerald-400"
+                  }`}
+                  style={c ? { opacity: strength } : undefined}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CompletionBar({ completed, missed, className = "" }: { completed: number; missed: number; className?: string }) {
+  const graded = completed + missed;
+  const pct = graded ? Math.round((completed / graded) * 100) : 0;
+  return (
+    <div className={className}>
+      <div className="flex items-baseline justify-between text-sm">
+        <span>
+          <span className="font-semibold text-emerald-300">{completed}</span> completed ·{" "}
+          <span className="font-semibold text-rose-300">{missed}</span> missed
+        </span>
+        <span className="text-lg font-semibold">{graded ? `${pct}%` : "—"}</span>
+      </div>
+      <div className="mt-2 flex h-2.5 overflow-hidden rounded-full bg-white/10">
+        {graded > 0 && (
+          <>
+            <div className="bg-emerald-400" style={{ width: `${pct}%` }} />
+            <div className="bg-rose-400" style={{ width: `${100 - pct}%` }} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Top three and bottom three finished weeks; the week in progress can only rank as a best. */
+function WeekRanking({ weeks, className = "" }: { weeks: WeekXp[]; className?: string }) {
+  if (!weeks.length) {
+    return <div className={`text-sm text-white/50 ${className}`}>No weeks in this range.</div>;
+  }
+
+  const byXp = [...weeks].sort((a, b) => b.xp - a.xp);
+  const best = byXp.slice(0, 3);
+  const worst = byXp
+    .filter((w) => w.finished && !best.includes(w))
+    .slice(-3)
+    .reverse();
+
+  const row = (w: WeekXp) => (
+    <li key={w.week_start} className="flex items-center justify-between gap-2 text-sm">
+      <span>
+        Week of {shortDay(w.week_start)}
+        {!w.finished && <span className="text-white/50"> · so far</span>}
+      </span>
+      <span className={`font-semibold ${w.xp < 0 ? "text-rose-300" : "text-emerald-300"}`}>{signedXp(w.xp)}</span>
+    </li>
+  );
+
+  return (
+    <div className={`grid gap-4 ${className}`}>
+      <div>
+        <div className="text-xs text-white/50">Best</div>
+        <ul className="mt-1 grid gap-1">{best.map(row)}</ul>
+      </div>
+      {worst.length > 0 && (
+        <div>
+          <div className="text-xs text-white/50">Worst</div>
+          <ul className="mt-1 grid gap-1">{worst.map(row)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// supabase/functions/_shared/exif.test.ts
+// deno test supabase/functions/_shared
+import { assertEquals } from "jsr:@std/assert@1";
+import { readCaptureTime } from "./exif.ts";
+
+/** JPEG start + APP1 "Exif" segment with DateTimeOriginal (and optionally OffsetTimeOriginal). */
+function jpegWithExif(taken: string, offset?: string, little = true) {
+  const bytes: number[] = [];
+  const u16 = (n: number) => (little ? bytes.push(n & 0xff, n >> 8) : bytes.push(n >> 8, n & 0xff));
+  const u32 = (n: number) =>
+    little
+      ? bytes.push(n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24)
+      : bytes.push(n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+  const ascii = (s: string) => bytes.push(...Array.from(s + "\0", (c) => c.charCodeAt(0)));
+
+  const tags: [number, string][] = [[0x9003, taken]];
+  if (offset) tags.push([0x9011, offset]);
+
+  // TIFF-relative offsets: header 8, IFD0 (1 entry) 18, Exif IFD, then the strings
+  const exifIfd = 8 + 2 + 12 + 4;
+  let data = exifIfd + 2 + tags.length * 12 + 4;
+
+  bytes.push(0xff, 0xd8, 0xff, 0xe1, 0x00, 0x00);
+  ascii("Exif");
+  bytes.push(0);
+  bytes.push(...(little ? [0x49, 0x49] : [0x4d, 0x4d]));
+  u16(42);
+  u32(8);
+  u16(1);
+  u16(0x8769); // Exif IFD pointer
+  u16(4);
+  u32(1);
+  u32(exifIfd);
+  u32(0);
+  u16(tags.length);
+  for (const [tag, value] of tags) {
+    u16(tag);
+    u16(2); // ASCII
+    u32(value.length + 1);
+    u32(data); // every value here is longer than 4 bytes, so it lives after the IFD
+    data += value.length + 1;
+  }
+  u32(0);
+  for (const [, value] of tags) ascii(value);
+  return new Uint8Array(bytes);
+}
+
+Deno.test("exif: reads DateTimeOriginal with its offset", () => {
+  const taken = readCaptureTime(jpegWithExif("2026:10:18 07:45:12", "+02:00"), "UTC");
+  assertEquals(taken?.toISOString(), "2026-10-18T05:45:12.000Z");
+});
+
+Deno.test("exif: handles big-endian TIFF", () => {
+  const taken = readCaptureTime(jpegWithExif("2026:10:18 07:45:12", "-05:00", false), "UTC");
+  assertEquals(taken?.toISOString(), "2026-10-18T12:45:12.000Z");
+});
+
+Deno.test("exif: without an offset the clock is in the given timezone", () => {
+  const summer = readCaptureTime(jpegWithExif("2026:07:18 07:45:12"), "Europe/Berlin");
+  assertEquals(summer?.toISOString(), "2026-07-18T05:45:12.000Z");
+  const winter = readCaptureTime(jpegWithExif("2026:12:18 07:45:12"), "Europe/Berlin");
+  assertEquals(winter?.toISOString(), "2026-12-18T06:45:12.000Z");
+});
+
+Deno.test("exif: null without EXIF or with a malformed date", () => {
+  assertEquals(readCaptureTime(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), "UTC"), null);
+  assertEquals(readCaptureTime(jpegWithExif("not a date"), "UTC"), null);
+});
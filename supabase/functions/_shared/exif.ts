@@ -0,0 +1,115 @@
+// supabase/functions/_shared/exif.ts
+// Just enough EXIF to read when a photo was taken. Runs on the original the app
+// uploads to proof-originals: the re-encoded proof photos carry no metadata.
+import { zonedInstant } from "./recurrence.ts";
+
+export const SCAN_BYTES = 1024 * 1024; // EXIF sits near the start of JPEG and HEIC files
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+type Tiff = { view: DataView; start: number; little: boolean };
+
+/**
+ * EXIF DateTimeOriginal (falling back to DateTime) as a Date, or null when the
+ * file has none. Without an OffsetTimeOriginal the camera clock is assumed to
+ * be in `timeZone` (the player's profile timezone).
+ */
+export function readCaptureTime(bytes: Uint8Array, timeZone: string): Date | null {
+  try {
+    const scan = bytes.subarray(0, SCAN_BYTES);
+    const tiff = findTiff(new DataView(scan.buffer, scan.byteOffset, scan.byteLength));
+    if (!tiff) return null;
+
+    const ifd0 = readIfd(tiff, tiff.start + tiff.view.getUint32(tiff.start + 4, tiff.little));
+    const exifPtr = ifd0.get(TAG_EXIF_IFD);
+    const exif = exifPtr ? readIfd(tiff, tiff.start + readUint(tiff, exifPtr)) : new Map<number, number>();
+
+    const taken = readAscii(tiff, exif.get(TAG_DATETIME_ORIGINAL)) ?? readAscii(tiff, ifd0.get(TAG_DATETIME));
+    return taken ? parseExifDate(taken, readAscii(tiff, exif.get(TAG_OFFSET_TIME_ORIGINAL)), timeZone) : null;
+  } catch {
+    return null; // malformed metadata is the same as none
+  }
+}
+
+/**
+ * EXIF Orientation (1..8) of the file, 1 when it has none. The app applies it
+ * while decoding, so the proof photo is the original turned this way.
+ */
+export function readOrientation(bytes: Uint8Array): number {
+  try {
+    const scan = bytes.subarray(0, SCAN_BYTES);
+    const tiff = findTiff(new DataView(scan.buffer, scan.byteOffset, scan.byteLength));
+    if (!tiff) return 1;
+
+    const ifd0 = readIfd(tiff, tiff.start + tiff.view.getUint32(tiff.start + 4, tiff.little));
+    const entry = ifd0.get(TAG_ORIENTATION);
+    const value = entry == null ? 1 : tiff.view.getUint16(entry + 8, tiff.little); // SHORT, stored inline
+    return value >= 1 && value <= 8 ? value : 1;
+  } catch {
+    return 1;
+  }
+}
+
+/* ---------- parsing ---------- */
+
+// "Exif\0\0" followed by a TIFF header ("II*\0" or "MM\0*")
+function findTiff(view: DataView): Tiff | null {
+  for (let i = 0; i + 14 < view.byteLength; i++) {
+    if (
+      view.getUint32(i) === 0x45786966 && // "Exif"
+      view.getUint16(i + 4) === 0
+    ) {
+      const start = i + 6;
+      const order = view.getUint16(start);
+      if (order === 0x4949 && view.getUint16(start + 2, true) === 42) return { view, start, little: true };
+      if (order === 0x4d4d && view.getUint16(start + 2, false) === 42) return { view, start, little: false };
+    }
+  }
+  return null;
+}
+
+// tag → absolute offset of its 12-byte directory entry
+function readIfd({ view, little }: Tiff, offset: number) {
+  const entries = new Map<number, number>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    entries.set(view.getUint16(entry, little), entry);
+  }
+  return entries;
+}
+
+function readUint({ view, little }: Tiff, entry: number) {
+  return view.getUint32(entry + 8, little);
+}
+
+function readAscii(tiff: Tiff, entry: number | undefined) {
+  if (entry == null) return null;
+  const { view, start, little } = tiff;
+  const count = view.getUint32(entry + 4, little);
+  const at = count <= 4 ? entry + 8 : start + view.getUint32(entry + 8, little);
+  let s = "";
+  for (let i = 0; i < count && at + i < view.byteLength; i++) {
+    const c = view.getUint8(at + i);
+    if (c === 0) break;
+    s += String.fromCharCode(c);
+  }
+  return s.trim() || null;
+}
+
+// "2026:10:18 07:45:12" (+ optional "+02:00")
+function parseExifDate(value: string, offset: string | null, timeZone: string) {
+  const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m;
+  if (offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const wall = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+  return isNaN(wall) ? null : zonedInstant(wall, timeZone);
+}
@@ -0,0 +1,45 @@
+// supabase/functions/_shared/fingerprint.test.ts
+// deno test supabase/functions/_shared
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import jpeg from "npm:jpeg-js@0.4.4";
+import { differenceHash, hashDistance } from "./fingerprint.ts";
+
+/** JPEG of a w×h image whose brightness is `shade(x, y)`. */
+function encode(w: number, h: number, shade: (x: number, y: number) => number) {
+  const data = new Uint8Array(w * h * 4);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const v = shade(x, y);
+      data.set([v, v, v, 255], (y * w + x) * 4);
+    }
+  }
+  return new Uint8Array(jpeg.encode({ width: w, height: h, data }, 95).data);
+}
+
+// lopsided on purpose, so every turn or flip hashes differently
+const shade = (x: number, y: number) => (x * 37 + y * y * 3 + ((x >> 3) ^ (y >> 2)) * 40) % 256;
+
+Deno.test("fingerprint: an original stored sideways matches its upright copy", () => {
+  const upright = encode(36, 48, shade);
+  // orientation 6: stored rotated 90° counter-clockwise, shown turned clockwise
+  const sideways = encode(48, 36, (x, y) => shade(35 - y, x));
+  const want = differenceHash(upright)!;
+  assertEquals(differenceHash(sideways, 6), want);
+  assert(hashDistance(differenceHash(sideways)!, want) > 10);
+});
+
+Deno.test("fingerprint: mirrored and upside-down originals", () => {
+  const want = differenceHash(encode(36, 48, shade))!;
+  assertEquals(differenceHash(encode(36, 48, (x, y) => shade(35 - x, y)), 2), want);
+  assertEquals(differenceHash(encode(36, 48, (x, y) => shade(35 - x, 47 - y)), 3), want);
+});
+
+Deno.test("fingerprint: hashDistance counts differing bits", () => {
+  assertEquals(hashDistance("0000000000000000", "0000000000000000"), 0);
+  assertEquals(hashDistance("ffffffffffffffff", "0000000000000000"), 64);
+  assertEquals(hashDistance("8000000000000001", "0000000000000000"), 2);
+});
+
+Deno.test("fingerprint: null for bytes that aren't a JPEG", () => {
+  assertEquals(differenceHash(new Uint8Array([1, 2, 3])), null);
+});
@@ -0,0 +1,80 @@
+// supabase/functions/_shared/fingerprint.ts
+// Photo fingerprint for duplicate detection, computed from the stored proof
+// photo so the app can't pick its own. apply_task_proof compares fingerprints
+// by Hamming distance (proof_duplicate_bits / proof_similar_bits); submit-proof
+// also uses it to check an original belongs to its proof photo.
+import jpeg from "npm:jpeg-js@0.4.4";
+
+const MAX_DECODE_MB = 64; // a 1600 px proof photo decodes to ~8 MB of RGBA
+
+/**
+ * 64-bit difference hash (dHash) of a JPEG as 16 hex chars: the image squashed
+ * to 9×8 grayscale, one bit per "brighter than its right neighbour". Re-saved,
+ * resized or lightly edited copies land within a few bits of each other.
+ * `orientation` (EXIF, 1..8) turns the image upright first, as the app does
+ * before re-encoding. Null when the bytes aren't a decodable JPEG.
+ */
+export function differenceHash(bytes: Uint8Array, orientation = 1): string | null {
+  let img: { width: number; height: number; data: Uint8Array };
+  try {
+    img = jpeg.decode(bytes, { useTArray: true, maxMemoryUsageInMB: MAX_DECODE_MB });
+  } catch {
+    return null;
+  }
+  if (!img.width || !img.height) return null;
+
+  // upright size, and where upright pixel (x, y) sits in the decoded image
+  const { width: w, height: h } = img;
+  const turned = orientation >= 5 && orientation <= 8;
+  const width = turned ? h : w;
+  const height = turned ? w : h;
+  const at = (x: number, y: number) => {
+    switch (orientation) {
+      case 2: return y * w + (w - 1 - x);
+      case 3: return (h - 1 - y) * w + (w - 1 - x);
+      case 4: return (h - 1 - y) * w + x;
+      case 5: return x * w + y;
+      case 6: return (h - 1 - x) * w + y;
+      case 7: return (h - 1 - x) * w + (w - 1 - y);
+      case 8: return x * w + (w - 1 - y);
+      default: return y * w + x;
+    }
+  };
+
+  // box-average each of the 9×8 cells
+  const cells = new Float64Array(9 * 8);
+  for (let cy = 0; cy < 8; cy++) {
+    const y0 = Math.floor((cy * height) / 8);
+    const y1 = Math.max(y0 + 1, Math.floor(((cy + 1) * height) / 8));
+    for (let cx = 0; cx < 9; cx++) {
+      const x0 = Math.floor((cx * width) / 9);
+      const x1 = Math.max(x0 + 1, Math.floor(((cx + 1) * width) / 9));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = at(x, y) * 4;
+          sum += img.data[i] * 0.299 + img.data[i + 1] * 0.587 + img.data[i + 2] * 0.114;
+        }
+      }
+      cells[cy * 9 + cx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  let hex = "";
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) byte = (byte << 1) | (cells[y * 9 + x] > cells[y * 9 + x + 1] ? 1 : 0);
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** Bits that differ between two differenceHash values. */
+export function hashDistance(a: string, b: string) {
+  let bits = 0;
+  for (let i = 0; i < 16; i += 4) {
+    let x = parseInt(a.slice(i, i + 4), 16) ^ parseInt(b.slice(i, i + 4), 16);
+    for (; x; x &= x - 1) bits++;
+  }
+  return bits;
+}
@@ -0,0 +1,25 @@
+// supabase/functions/_shared/rateLimit.ts
+import { json } from "./cors.ts";
+import { adminClient } from "./supabase.ts";
+
+/** Buckets defined in rate_limit_rule() that edge functions spend from. */
+export type RateLimitAction = "scoring";
+
+/**
+ * Spend one token from the caller's bucket (consume_rate_limit). Returns a
+ * ready-made 429 response when the bucket is empty, otherwise null.
+ */
+export async function rateLimit(userId: string, action: RateLimitAction): Promise<Response | null> {
+  const { error } = await adminClient().rpc("consume_rate_limit", {
+    p_user_id: userId,
+    p_action: action,
+  });
+  if (!error) return null;
+  if (error.code === "PT429") {
+    const retryAfter = Number(error.hint) || 60;
+    return json({ error: error.message, retry_after: retryAfter }, 429, {
+      "Retry-After": String(retryAfter),
+    });
+  }
+  throw new Error(error.message);
+}
@@ -0,0 +1,30 @@
+// supabase/functions/_shared/recurrence.test.ts
+// deno test supabase/functions/_shared
+import { assertEquals } from "jsr:@std/assert@1";
+import { parseRecurrence } from "./recurrence.ts";
+
+Deno.test("parseRecurrence: normalizes weekly days", () => {
+  assertEquals(parseRecurrence({ freq: "weekly", by_weekday: [5, 1, 5, 9] }), {
+    freq: "weekly",
+    interval_days: null,
+    by_weekday: [1, 5],
+    until: null,
+  });
+});
+
+Deno.test("parseRecurrence: 'until' must be a real day", () => {
+  assertEquals(parseRecurrence({ freq: "daily", until: "2026-02-28" }), {
+    freq: "daily",
+    interval_days: null,
+    by_weekday: null,
+    until: "2026-02-28",
+  });
+  assertEquals(parseRecurrence({ freq: "daily", until: "2026-02-31" }), "Invalid 'until' date");
+  assertEquals(parseRecurrence({ freq: "daily", until: "2026-13-01" }), "Invalid 'until' date");
+  assertEquals(parseRecurrence({ freq: "daily", until: "tomorrow" }), "Invalid 'until' date");
+});
+
+Deno.test("parseRecurrence: rejects anything that isn't a rule", () => {
+  assertEquals(parseRecurrence(null), "Unknown repeat 'undefined'");
+  assertEquals(parseRecurrence({ freq: "interval", interval_days: 0 }), "Repeat interval must be 1..365 days");
+});
@@ -0,0 +1,95 @@
+// supabase/functions/_shared/recurrence.ts
+// Validates the `recurrence` payload sent by the task form. The rule itself is
+// evaluated in SQL (series_occurs_on) and mirrored in src/lib/recurrence.ts.
+// Also the edge functions' one copy of the timezone arithmetic.
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+export type Freq = "daily" | "weekdays" | "interval" | "weekly";
+
+export type Recurrence = {
+  freq: Freq;
+  interval_days: number | null;
+  by_weekday: number[] | null; // ISO 1 = Mon .. 7 = Sun
+  until: string | null;        // yyyy-mm-dd
+};
+
+const FREQS: Freq[] = ["daily", "weekdays", "interval", "weekly"];
+
+/** Returns the normalized rule or an error message for a 400. */
+export function parseRecurrence(raw: unknown): Recurrence | string {
+  const r: Record<string, unknown> = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const freq = String(r.freq ?? "") as Freq;
+  if (!FREQS.includes(freq)) return `Unknown repeat '${r.freq}'`;
+
+  let interval_days: number | null = null;
+  if (freq === "interval") {
+    interval_days = Math.round(Number(r.interval_days));
+    if (!(interval_days >= 1 && interval_days <= 365)) {
+      return "Repeat interval must be 1..365 days";
+    }
+  }
+
+  let by_weekday: number[] | null = null;
+  if (freq === "weekly") {
+    const days = Array.isArray(r.by_weekday) ? r.by_weekday.map(Number) : [];
+    by_weekday = [...new Set<number>(days)].filter((d) => d >= 1 && d <= 7).sort();
+    if (!by_weekday.length) return "Pick at least one weekday";
+  }
+
+  let until: string | null = null;
+  if (r.until) {
+    until = String(r.until);
+    if (!isCalendarDate(until)) return "Invalid 'until' date";
+  }
+
+  return { freq, interval_days, by_weekday, until };
+}
+
+// yyyy-mm-dd naming a real day: 2026-02-31 doesn't survive the round trip
+function isCalendarDate(ymd: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(ymd);
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCFullYear() === +m[1] && d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+}
+
+/**
+ * IANA zone from the browser, falling back to UTC when Postgres doesn't know it
+ * (is_known_timezone, the list check_timezone enforces).
+ */
+export async function parseTimezone(admin: SupabaseClient, raw: unknown): Promise<string> {
+  const tz = String(raw ?? "");
+  if (!tz) return "UTC";
+  const { data: known, error } = await admin.rpc("is_known_timezone", { p_name: tz });
+  if (error) throw error;
+  return known ? tz : "UTC";
+}
+
+/**
+ * A wall-clock time in `timeZone`, given as its fields read as UTC
+ * (`Date.UTC(y, m, d, h, mi, s)`), as an instant; `(ts) at time zone tz` in SQL.
+ */
+export function zonedInstant(wall: number, timeZone: string): Date {
+  // guess with the offset at the wall time read as UTC, then once more in case
+  // a DST change lies in between
+  let ms = wall - zoneOffset(wall, timeZone);
+  ms = wall - zoneOffset(ms, timeZone);
+  return new Date(ms);
+}
+
+// ms to add to UTC to get local time in `timeZone` at instant `ms`
+function zoneOffset(ms: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(ms));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const local = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return local - Math.floor(ms / 1000) * 1000; // the parts have no milliseconds
+}
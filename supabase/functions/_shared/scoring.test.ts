@@ -0,0 +1,61 @@
+// supabase/functions/_shared/scoring.test.ts
+// deno test supabase/functions/_shared
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { heuristicScorer, taskCategory, XP_MAX, XP_MIN } from "./scoring.ts";
+
+const score = (title: string, extra: { description?: string; minutes?: number; difficulty?: number } = {}) =>
+  heuristicScorer.score({ title, ...extra });
+
+Deno.test("heuristic: category sets the base, default effort keeps it near", async () => {
+  const gym = await score("Gym: push day");
+  assertEquals(gym.scorer, "heuristic");
+  assert(gym.xp > 0 && gym.xp <= 30, `gym scored ${gym.xp}`);
+  assert(gym.rationale.includes("gym"));
+
+  assert((await score("Vape after class")).xp < 0);
+  assert((await score("Shoplift a snack")).xp <= -50);
+});
+
+Deno.test("heuristic: the first matching rule wins", async () => {
+  // "stole" (theft) comes before "run" (cardio)
+  const res = await score("Stole a bike and ran");
+  assert(res.rationale.includes("theft"), res.rationale);
+});
+
+Deno.test("heuristic: effort scales good tasks, duration only worsens vices", async () => {
+  const short = await score("Study for exam", { minutes: 10, difficulty: 1 });
+  const long = await score("Study for exam", { minutes: 180, difficulty: 5 });
+  assert(long.xp > short.xp);
+
+  const quick = await score("Doomscroll tiktok", { minutes: 10, difficulty: 5 });
+  const binge = await score("Doomscroll tiktok", { minutes: 240, difficulty: 1 });
+  assertEquals(quick.xp, -20);
+  assert(binge.xp < quick.xp);
+});
+
+Deno.test("heuristic: description counts, unmatched tasks get a small positive score", async () => {
+  assert((await score("Evening", { description: "drink beers" })).xp < 0);
+
+  const none = await score("Sort the garage", { minutes: 30 });
+  assert(none.xp > 0 && none.xp <= 40, `unmatched scored ${none.xp}`);
+  assert(none.rationale.startsWith("No category matched"));
+});
+
+Deno.test("heuristic: an appeal doesn't change the category", async () => {
+  const plain = await score("Nap on the couch");
+  const appealed = await heuristicScorer.score({ title: "Nap on the couch", appeal: "internship offer" });
+  assertEquals(appealed, plain);
+});
+
+Deno.test("taskCategory: the heuristic's first matching rule, or null", () => {
+  assertEquals(taskCategory({ title: "Stole a bike and ran" }), "theft");
+  assertEquals(taskCategory({ title: "Evening", description: "leg day at the gym" }), "gym");
+  assertEquals(taskCategory({ title: "Sort the garage" }), null);
+});
+
+Deno.test("heuristic: stays inside the XP range and is deterministic", async () => {
+  const worst = await score("Assault and robbery", { minutes: 600 });
+  const best = await score("Graduate with top marks", { minutes: 600, difficulty: 5 });
+  assert(worst.xp > XP_MIN && best.xp < XP_MAX);
+  assertEquals(await score("Graduate with top marks", { minutes: 600, difficulty: 5 }), best);
+});
@@ -0,0 +1,19 @@
+// supabase/functions/_shared/supabase.ts
+import { createClient, type User } from "jsr:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+/** The signed-in user behind the request's JWT, or null. */
+export async function getCaller(req: Request): Promise<User | null> {
+  const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+  const { data, error } = await userClient.auth.getUser();
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Service-role client; bypasses RLS, so only use it after checking the caller. */
+export const adminClient = () => createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
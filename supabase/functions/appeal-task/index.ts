@@ -0,0 +1,77 @@
+// supabase/functions/appeal-task/index.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { scoreTask } from "../_shared/scoring.ts";
+import { cors, json } from "../_shared/cors.ts";
+import { adminClient, getCaller } from "../_shared/supabase.ts";
+import { rateLimit } from "../_shared/rateLimit.ts";
+
+const CONTEXT_MAX = 1000;
+
+/* -------------------- server -------------------- */
+// Owner adds context → task is re-scored → before/after logged in task_rescores.
+// The per-task cap and the "open tasks only" rule live in apply_task_rescore;
+// an appeal the heuristic scorer answers with the same XP is free.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: cors });
+  }
+
+  try {
+    const user = await getCaller(req);
+    if (!user) return json({ error: "Not signed in" }, 401);
+
+    const body = await req.json();
+    const taskId = String(body?.task_id ?? "");
+    const context = String(body?.context ?? "").trim();
+    if (!taskId) return json({ error: "Missing 'task_id'" }, 400);
+    if (!context) return json({ error: "Tell us why the score is wrong" }, 400);
+    if (context.length > CONTEXT_MAX) {
+      return json({ error: `Appeal must be ≤ ${CONTEXT_MAX} characters` }, 400);
+    }
+
+    const admin = adminClient();
+    const { data: task, error: selErr } = await admin
+      .from("tasks")
+      .select("id, owner_id, title, description, est_minutes, difficulty, status, appeal_count")
+      .eq("id", taskId)
+      .maybeSingle();
+    if (selErr) return json({ error: selErr.message }, 500);
+    if (!task || task.owner_id !== user.id) return json({ error: "Task not found" }, 404);
+    if (task.status !== "open") return json({ error: "Only open tasks can be appealed" }, 409);
+    // apply_task_rescore enforces the cap; checked early to skip scoring
+    const { data: maxAppeals, error: capErr } = await admin.rpc("task_max_appeals");
+    if (capErr) return json({ error: capErr.message }, 500);
+    if (task.appeal_count >= maxAppeals) {
+      return json({ error: `Appeal limit reached (${maxAppeals} per task)` }, 409);
+    }
+
+    const limited = await rateLimit(user.id, "scoring");
+    if (limited) return limited;
+
+    const { xp, rationale, scorer } = await scoreTask({
+      title: task.title,
+      description: task.description ?? "",
+      minutes: task.est_minutes ?? undefined,
+      difficulty: task.difficulty ?? undefined,
+      appeal: context,
+    });
+
+    const { data: updated, error: rpcErr } = await admin.rpc("apply_task_rescore", {
+      p_task_id: task.id,
+      p_user_id: user.id,
+      p_context: context,
+      p_xp: xp,
+      p_rationale: rationale,
+      p_scorer: scorer,
+    });
+    if (rpcErr) {
+      // limit reached / task no longer open
+      const status = rpcErr.code === "22023" ? 409 : rpcErr.code === "P0002" ? 404 : 500;
+      return json({ error: rpcErr.message }, status);
+    }
+
+    return json({ task: updated });
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+});
@@ -0,0 +1,125 @@
+// supabase/functions/create-task/index.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { scoreTask, taskCategory } from "../_shared/scoring.ts";
+import { cors, json } from "../_shared/cors.ts";
+import { adminClient, getCaller } from "../_shared/supabase.ts";
+import { rateLimit } from "../_shared/rateLimit.ts";
+import { parseRecurrence, parseTimezone } from "../_shared/recurrence.ts";
+
+const TITLE_MAX = 200;
+const DESCRIPTION_MAX = 2000;
+
+/* -------------------- server -------------------- */
+// The only way to create a task: the caller never gets to pick xp_assigned.
+// With `recurrence` it creates a series instead; the score is cached on the
+// series and its first occurrences are generated right away.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: cors });
+  }
+
+  try {
+    // 1) who is calling
+    const user = await getCaller(req);
+    if (!user) return json({ error: "Not signed in" }, 401);
+
+    // 2) validate input
+    const body = await req.json();
+    const title = String(body?.title ?? "").trim();
+    const description = String(body?.description ?? "").trim();
+    const dueAt = new Date(body?.due_at ?? "");
+    const minutes = optionalNumber(body?.minutes);
+    const difficulty = optionalNumber(body?.difficulty);
+
+    if (!title) return json({ error: "Missing 'title'" }, 400);
+    if (title.length > TITLE_MAX) return json({ error: `Title must be ≤ ${TITLE_MAX} characters` }, 400);
+    if (description.length > DESCRIPTION_MAX) {
+      return json({ error: `Description must be ≤ ${DESCRIPTION_MAX} characters` }, 400);
+    }
+    if (isNaN(dueAt.getTime())) return json({ error: "Missing or invalid 'due_at'" }, 400);
+
+    const recurrence = body?.recurrence ? parseRecurrence(body.recurrence) : null;
+    if (typeof recurrence === "string") return json({ error: recurrence }, 400);
+
+    // 3) every create hits the scorer, so it spends from the scoring bucket
+    const limited = await rateLimit(user.id, "scoring");
+    if (limited) return limited;
+
+    // 4) score, then insert in a single statement
+    const { xp, rationale, scorer } = await scoreTask({
+      title,
+      description,
+      minutes,
+      difficulty,
+    });
+
+    const category = taskCategory({ title, description });
+
+    const admin = adminClient();
+    const est_minutes = minutes == null ? null : clampInt(minutes, 1, 600);
+    const diff = difficulty == null ? null : clampInt(difficulty, 1, 5);
+
+    if (recurrence) {
+      const { data: series, error: serErr } = await admin
+        .rpc("create_task_series", {
+          p_owner_id: user.id,
+          p_title: title,
+          p_description: description || null,
+          p_est_minutes: est_minutes,
+          p_difficulty: diff,
+          p_xp: xp,
+          p_rationale: rationale,
+          p_scorer: scorer,
+          p_freq: recurrence.freq,
+          p_interval_days: recurrence.interval_days,
+          p_by_weekday: recurrence.by_weekday,
+          p_first_due_at: dueAt.toISOString(),
+          p_timezone: await parseTimezone(admin, body?.timezone),
+          p_until: recurrence.until,
+          p_category: category,
+        })
+        .single();
+      if (serErr) return json({ error: serErr.message }, 500);
+
+      const { data: tasks, error: selErr } = await admin
+        .from("tasks")
+        .select("*")
+        .eq("series_id", (series as { id: string }).id)
+        .order("due_at", { ascending: true });
+      if (selErr) return json({ error: selErr.message }, 500);
+
+      return json({ series, tasks });
+    }
+
+    const { data: task, error: insErr } = await admin
+      .from("tasks")
+      .insert({
+        owner_id: user.id,
+        title,
+        description: description || null,
+        due_at: dueAt.toISOString(),
+        xp_assigned: xp,
+        xp_rationale: rationale,
+        xp_scorer: scorer,
+        category,
+        est_minutes,
+        difficulty: diff,
+      })
+      .select()
+      .single();
+    if (insErr) return json({ error: insErr.message }, 500);
+
+    return json({ task });
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+});
+
+/* -------------------- helpers -------------------- */
+const optionalNumber = (v: unknown) => {
+  const n = Number(v);
+  return v == null || v === "" || !Number.isFinite(n) ? undefined : n;
+};
+
+const clampInt = (n: number, lo: number, hi: number) =>
+  Math.min(hi, Math.max(lo, Math.round(n)));
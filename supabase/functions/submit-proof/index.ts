@@ -0,0 +1,141 @@
+// supabase/functions/submit-proof/index.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { cors, json } from "../_shared/cors.ts";
+import { adminClient, getCaller } from "../_shared/supabase.ts";
+import { readCaptureTime, readOrientation } from "../_shared/exif.ts";
+import { differenceHash, hashDistance } from "../_shared/fingerprint.ts";
+
+const PROOF_BUCKET = "task-proofs";
+const ORIGINALS_BUCKET = "proof-originals";
+const VIDEO_BUCKET = "proof-videos";
+const MAX_ATTACHMENTS = 8; // well above what apply_task_proof accepts
+
+/* -------------------- server -------------------- */
+// The app uploads the processed photos, any clip and the photos' originals,
+// then calls this. Each photo's fingerprint is computed from the stored
+// full-size image and its capture time read from the original (deleted right
+// after). The original only counts when its own fingerprint, turned upright,
+// is within proof_similar_bits() of the photo's: an older file sent alongside
+// a different photo, or one this can't decode (HEIC), leaves the photo without
+// a capture time, which flags it. Limits, duplicate checks and flags live in
+// apply_task_proof.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: cors });
+  }
+
+  const admin = adminClient();
+  const originals: string[] = [];
+
+  try {
+    const user = await getCaller(req);
+    if (!user) return json({ error: "Not signed in" }, 401);
+
+    const body = await req.json();
+    const taskId = String(body?.task_id ?? "");
+    const raw: any[] = Array.isArray(body?.attachments) ? body.attachments : [];
+    if (!taskId) return json({ error: "Missing 'task_id'" }, 400);
+    if (!raw.length) return json({ error: "Add a photo or a video" }, 400);
+    if (raw.length > MAX_ATTACHMENTS) return json({ error: "Too many attachments" }, 400);
+
+    const ownPath = (path: unknown) =>
+      typeof path === "string" && path.startsWith(`${user.id}/`) && !path.includes("..") ? path : null;
+    for (const a of raw) {
+      const path = ownPath(a?.original_path);
+      if (path) originals.push(path);
+    }
+    // Only the caller's own uploads are stored, and under this project's public
+    // URL whatever host the client put in front of the path.
+    const ownUpload = (bucket: string, url: unknown) => {
+      const path = ownPath(new RegExp(`/${bucket}/(.+)$`).exec(String(url ?? ""))?.[1]);
+      return path ? { path, url: admin.storage.from(bucket).getPublicUrl(path).data.publicUrl } : null;
+    };
+
+    const { data: profile, error: profErr } = await admin
+      .from("profiles")
+      .select("timezone")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (profErr) return json({ error: profErr.message }, 500);
+    const timeZone = profile?.timezone ?? "UTC";
+
+    let similarBits: number | null = null;
+    const attachments: Record<string, unknown>[] = [];
+    for (const a of raw) {
+      if (a?.kind !== "video" && a?.kind !== "photo") {
+        return json({ error: "Attachments must be photos or videos" }, 400);
+      }
+      const thumb = a.thumb_url == null ? null : ownUpload(PROOF_BUCKET, a.thumb_url);
+      if (a.thumb_url != null && !thumb) return json({ error: "Thumbnail upload not found" }, 404);
+
+      if (a.kind === "video") {
+        const clip = ownUpload(VIDEO_BUCKET, a.url);
+        if (!clip) return json({ error: "Video upload not found" }, 404);
+        attachments.push({
+          kind: "video",
+          url: clip.url,
+          thumb_url: thumb?.url ?? null,
+          duration_ms: a.duration_ms ?? null,
+        });
+        continue;
+      }
+
+      const photo = ownUpload(PROOF_BUCKET, a.url);
+      if (!photo) return json({ error: "Photo upload not found" }, 404);
+      const { data: full, error: fullErr } = await admin.storage.from(PROOF_BUCKET).download(photo.path);
+      if (fullErr || !full) return json({ error: "Photo upload not found" }, 404);
+
+      const phash = differenceHash(new Uint8Array(await full.arrayBuffer()));
+
+      // a missing, unreadable or unrelated original is flagged (no capture
+      // time), not refused
+      let capturedAt: Date | null = null;
+      const originalPath = ownPath(a.original_path);
+      if (originalPath && phash) {
+        const { data: original } = await admin.storage.from(ORIGINALS_BUCKET).download(originalPath);
+        if (original) {
+          const bytes = new Uint8Array(await original.arrayBuffer());
+          const originalHash = differenceHash(bytes, readOrientation(bytes));
+          if (originalHash) {
+            if (similarBits == null) {
+              const { data, error: bitsErr } = await admin.rpc("proof_similar_bits");
+              if (bitsErr) return json({ error: bitsErr.message }, 500);
+              similarBits = Number(data);
+            }
+            if (hashDistance(originalHash, phash) <= similarBits) {
+              capturedAt = readCaptureTime(bytes, timeZone);
+            }
+          }
+        }
+      }
+
+      attachments.push({
+        kind: "photo",
+        url: photo.url,
+        thumb_url: thumb?.url ?? null,
+        phash,
+        captured_at: capturedAt?.toISOString() ?? null,
+      });
+    }
+
+    // marks the task pending + queues the proof in one transaction
+    const { data: proofId, error: rpcErr } = await admin.rpc("apply_task_proof", {
+      p_task_id: taskId,
+      p_user_id: user.id,
+      p_attachments: attachments,
+      p_note: typeof body?.note === "string" ? body.note : null,
+      p_step_id: body?.step_id ?? null,
+    });
+    if (rpcErr) {
+      // limits, duplicates, task no longer open
+      const status = rpcErr.code === "22023" ? 409 : rpcErr.code === "P0002" ? 404 : 500;
+      return json({ error: rpcErr.message }, status);
+    }
+
+    return json({ proof_id: proofId });
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  } finally {
+    if (originals.length) await admin.storage.from(ORIGINALS_BUCKET).remove(originals);
+  }
+});
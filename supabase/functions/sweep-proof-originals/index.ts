@@ -0,0 +1,35 @@
+// supabase/functions/sweep-proof-originals/index.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { json } from "../_shared/cors.ts";
+import { adminClient } from "../_shared/supabase.ts";
+
+const ORIGINALS_BUCKET = "proof-originals";
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const MAX_BATCHES = 10;
+
+/* -------------------- server -------------------- */
+// Called by pg_cron (see 20261018490000_proof_originals_sweep.sql). Deletes
+// photo originals a failed or abandoned submission left in proof-originals,
+// through the Storage API so the files go along with their rows.
+Deno.serve(async (req) => {
+  if (req.headers.get("Authorization") !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return json({ error: "Not allowed" }, 403);
+  }
+
+  try {
+    const admin = adminClient();
+    let removed = 0;
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data: names, error } = await admin.rpc("stale_proof_originals");
+      if (error) return json({ error: error.message }, 500);
+      if (!names?.length) break;
+
+      const { error: removeErr } = await admin.storage.from(ORIGINALS_BUCKET).remove(names as string[]);
+      if (removeErr) return json({ error: removeErr.message }, 500);
+      removed += names.length;
+    }
+    return json({ removed });
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+});
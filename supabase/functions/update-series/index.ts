@@ -0,0 +1,120 @@
+// supabase/functions/update-series/index.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { scoreTask, taskCategory } from "../_shared/scoring.ts";
+import { cors, json } from "../_shared/cors.ts";
+import { adminClient, getCaller } from "../_shared/supabase.ts";
+import { rateLimit } from "../_shared/rateLimit.ts";
+import { parseRecurrence, parseTimezone } from "../_shared/recurrence.ts";
+
+const TITLE_MAX = 200;
+const DESCRIPTION_MAX = 2000;
+
+/* -------------------- server -------------------- */
+// Edit a whole series. Changing the title or description re-scores it (the
+// cached score must describe what is actually being done); schedule-only
+// edits keep the cached score. A changed score uses up one of the series'
+// appeals, as for a task edit (see task_max_appeals()). Future open
+// occurrences are then re-synced.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: cors });
+  }
+
+  try {
+    const user = await getCaller(req);
+    if (!user) return json({ error: "Not signed in" }, 401);
+
+    const body = await req.json();
+    const seriesId = String(body?.series_id ?? "");
+    if (!seriesId) return json({ error: "Missing 'series_id'" }, 400);
+
+    const admin = adminClient();
+    const { data: series, error: selErr } = await admin
+      .from("task_series")
+      .select("*")
+      .eq("id", seriesId)
+      .maybeSingle();
+    if (selErr) return json({ error: selErr.message }, 500);
+    if (!series || series.owner_id !== user.id) return json({ error: "Series not found" }, 404);
+    if (!series.active) return json({ error: "Series has ended" }, 409);
+
+    const patch: Record<string, unknown> = {};
+
+    // text → re-score
+    const title = body?.title == null ? series.title : String(body.title).trim();
+    const description =
+      body?.description == null ? series.description ?? "" : String(body.description).trim();
+    if (!title) return json({ error: "Missing 'title'" }, 400);
+    if (title.length > TITLE_MAX) return json({ error: `Title must be ≤ ${TITLE_MAX} characters` }, 400);
+    if (description.length > DESCRIPTION_MAX) {
+      return json({ error: `Description must be ≤ ${DESCRIPTION_MAX} characters` }, 400);
+    }
+    if (title !== series.title || description !== (series.description ?? "")) {
+      const limited = await rateLimit(user.id, "scoring");
+      if (limited) return limited;
+
+      const { xp, rationale, scorer } = await scoreTask({
+        title,
+        description,
+        minutes: series.est_minutes ?? undefined,
+        difficulty: series.difficulty ?? undefined,
+      });
+      if (xp !== series.xp_assigned) {
+        const { data: maxAppeals, error: capErr } = await admin.rpc("task_max_appeals");
+        if (capErr) return json({ error: capErr.message }, 500);
+        if (series.appeal_count >= maxAppeals) {
+          return json(
+            { error: `Appeal limit reached (${maxAppeals} per series), so this edit can't change the XP` },
+            409
+          );
+        }
+        patch.appeal_count = series.appeal_count + 1;
+      }
+      Object.assign(patch, {
+        title,
+        description: description || null,
+        xp_assigned: xp,
+        xp_rationale: rationale,
+        xp_scorer: scorer,
+        category: taskCategory({ title, description }),
+      });
+    }
+
+    // schedule
+    if (body?.recurrence) {
+      const rule = parseRecurrence(body.recurrence);
+      if (typeof rule === "string") return json({ error: rule }, 400);
+      Object.assign(patch, rule);
+    }
+    if (body?.due_time != null) {
+      const dueTime = String(body.due_time);
+      if (!/^\d{2}:\d{2}(:\d{2})?$/.test(dueTime)) return json({ error: "Invalid 'due_time'" }, 400);
+      patch.due_time = dueTime;
+    }
+    if (body?.timezone != null) patch.timezone = await parseTimezone(admin, body.timezone);
+
+    if (Object.keys(patch).length) {
+      // an appeal is only spent against the count it was checked against
+      const { data: saved, error: updErr } = await admin
+        .from("task_series")
+        .update(patch)
+        .eq("id", series.id)
+        .eq("appeal_count", series.appeal_count)
+        .select("id");
+      if (updErr) return json({ error: updErr.message }, 400);
+      if (!saved?.length) return json({ error: "The series was just changed, try again" }, 409);
+    }
+
+    const { error: syncErr } = await admin.rpc("sync_series_instances", { p_series_id: series.id });
+    if (syncErr) return json({ error: syncErr.message }, 500);
+
+    const [{ data: updated }, { data: tasks }] = await Promise.all([
+      admin.from("task_series").select("*").eq("id", series.id).single(),
+      admin.from("tasks").select("*").eq("series_id", series.id).order("due_at", { ascending: true }),
+    ]);
+
+    return json({ series: updated, tasks: tasks ?? [] });
+  } catch (err) {
+    return json({ error: String(err) }, 500);
+  }
+});
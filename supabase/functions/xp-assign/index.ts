@@ -1,113 +1,97 @@
 // supabase/functions/xp-assign/index.ts
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { scoreTask, taskCategory } from "../_shared/scoring.ts";
+import { cors, json } from "../_shared/cors.ts";
+import { adminClient, getCaller } from "../_shared/supabase.ts";
+import { rateLimit } from "../_shared/rateLimit.ts";
 
-const cors = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+const TITLE_MAX = 200; // mirrors create-task
+const DESCRIPTION_MAX = 2000;
 
 /* -------------------- server -------------------- */
+// Preview-only scoring; tasks are created (and scored again) by create-task.
+// With a `task_id` it edits that task instead: the new title/description is
+// re-scored and saved through apply_task_edit, which also audits the change.
+// A changed score uses up one of the task's appeals (see task_max_appeals()).
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: cors });
   }
 
   try {
-    const { title, description = "" } = await req.json();
+    const user = await getCaller(req);
+    if (!user) return json({ error: "Not signed in" }, 401);
+
+    const body = await req.json();
+    const title = String(body?.title ?? "").trim();
+    const description = String(body?.description ?? "").trim();
+    const taskId = body?.task_id ? String(body.task_id) : null;
     if (!title) {
-      return new Response(
-        JSON.stringify({ error: "Missing 'title'" }),
-        {
-          status: 400,
-          headers: { "Content-Type": "application/json", ...cors },
-        }
-      );
+      return json({ error: "Missing 'title'" }, 400);
     }
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-
-    let xp = 0;
-    let rationale = "Default heuristic used (no LLM).";
+    if (!taskId) {
+      const limited = await rateLimit(user.id, "scoring");
+      if (limited) return limited;
 
-    if (OPENAI_API_KEY) {
-      const prompt = `
-You are the harsh referee for a small friend group's productivity XP game.  
-You must assign **a single signed XP score** in the range **-100 to +100**.  
-Think like a bell curve: most normal tasks fall in the middle (−20..+40), extreme highs and lows are very rare.  
-Do not be sympathetic, only judge based on raw facts.  
+      // scorer chain is configured with XP_SCORERS (see _shared/scoring.ts)
+      const { xp, rationale, scorer } = await scoreTask({
+        title,
+        description,
+        minutes: body?.minutes,
+        difficulty: body?.difficulty,
+      });
 
-Rules:
-- Good, productive, meaningful, effortful tasks → positive XP.  
-- Lazy, trivial, selfish, vice, joke, or illegal/antisocial tasks → negative XP.  
-- Extreme values (±90..100) should be almost impossible (reserved for lifetime-level achievements or heinous acts).  
+      return json({ xp, rationale, scorer });
+    }
 
-Return STRICT JSON ONLY:
-{
-  "xp": 25,
-  "rationale": "one blunt factual sentence"
-}
+    // -------- edit an existing task --------
+    if (title.length > TITLE_MAX) return json({ error: `Title must be ≤ ${TITLE_MAX} characters` }, 400);
+    if (description.length > DESCRIPTION_MAX) {
+      return json({ error: `Description must be ≤ ${DESCRIPTION_MAX} characters` }, 400);
+    }
 
-Calibration examples (approximate XP):
-- Brush teeth → +5 XP (daily hygiene, minimal effort).
-- Go for a 5km run → +25 XP (sustained effort, health benefit).
-- Gym workout → +30 XP.
-- Study 3+ hours for an exam → +35 XP.
-- Go to work (obligation) → +10 XP.
-- Land top marks or Google internship → +95 XP (near cap).
-- Drink alcohol → -10 XP.
-- Vape → -15 XP.
-- Waste time scrolling TikTok 2h → -20 XP.
-- Illegal activity (severity matters):  
-  • Minor theft → -50 XP.  
-  • Serious crime (assault, stealing from vulnerable) → -70 to -90 XP.  
+    const admin = adminClient();
+    const { data: task, error: selErr } = await admin
+      .from("tasks")
+      .select("id, owner_id, title, description, est_minutes, difficulty, status")
+      .eq("id", taskId)
+      .maybeSingle();
+    if (selErr) return json({ error: selErr.message }, 500);
+    if (!task || task.owner_id !== user.id) return json({ error: "Task not found" }, 404);
+    if (task.status !== "open") return json({ error: "Only open tasks can be edited" }, 409);
+    if (title === task.title && description === (task.description ?? "")) {
+      return json({ error: "Nothing changed" }, 400);
+    }
 
-Task to judge:
-Title: ${title}
-Description: ${description || "(none)"}
-      `.trim();
+    const limited = await rateLimit(user.id, "scoring");
+    if (limited) return limited;
 
-      const r = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [{ role: "user", content: prompt }],
-          temperature: 0.1,
-          max_tokens: 200,
-          response_format: { type: "json_object" },
-        }),
-      });
+    const { xp, rationale, scorer } = await scoreTask({
+      title,
+      description,
+      minutes: task.est_minutes ?? undefined,
+      difficulty: task.difficulty ?? undefined,
+    });
 
-      if (!r.ok) {
-        rationale = `OpenAI error ${r.status}; fallback XP=0.`;
-      } else {
-        const data = await r.json();
-        const raw = data?.choices?.[0]?.message?.content ?? "{}";
-        const js = JSON.parse(raw);
-        xp = clamp(Number(js.xp) || 0, -100, 100);
-        rationale =
-          typeof js.rationale === "string"
-            ? js.rationale
-            : "Scored by GPT-5.";
-      }
+    const { data: updated, error: rpcErr } = await admin.rpc("apply_task_edit", {
+      p_task_id: task.id,
+      p_user_id: user.id,
+      p_title: title,
+      p_description: description,
+      p_xp: xp,
+      p_rationale: rationale,
+      p_scorer: scorer,
+      p_category: taskCategory({ title, description }),
+    });
+    if (rpcErr) {
+      // task no longer open
+      const status = rpcErr.code === "22023" ? 409 : rpcErr.code === "P0002" ? 404 : 500;
+      return json({ error: rpcErr.message }, status);
     }
 
-    return new Response(JSON.stringify({ xp, rationale }), {
-      headers: { "Content-Type": "application/json", ...cors },
-    });
+    return json({ task: updated });
   } catch (err) {
-    return new Response(JSON.stringify({ error: String(err) }), {
-      status: 500,
-      headers: { "Content-Type": "application/json", ...cors },
-    });
+    return json({ error: String(err) }, 500);
   }
 });
-
-/* -------------------- helpers -------------------- */
-const clamp = (n: number, lo: number, hi: number) =>
-  Math.min(hi, Math.max(lo, n));
@@ -0,0 +1,39 @@
+-- profiles: one row per auth user, created by trigger on sign-up
+create table public.profiles (
+  id           uuid primary key references auth.users (id) on delete cascade,
+  display_name text,
+  avatar_url   text,            -- storage path in the "avatars" bucket
+  created_at   timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "profiles are readable by signed-in users"
+  on public.profiles for select
+  to authenticated
+  using (true);
+
+create policy "users update their own profile"
+  on public.profiles for update
+  to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+-- AuthForm passes display_name in options.data on sign-up
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, display_name)
+  values (new.id, nullif(trim(new.raw_user_meta_data ->> 'display_name'), ''))
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
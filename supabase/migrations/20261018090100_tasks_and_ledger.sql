@@ -0,0 +1,66 @@
+-- tasks: owner-only; XP is assigned by the xp-assign edge function
+create table public.tasks (
+  id           uuid primary key default gen_random_uuid(),
+  owner_id     uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title        text not null check (length(trim(title)) > 0),
+  description  text,
+  due_at       timestamptz not null,
+  xp_assigned  integer not null default 0 check (xp_assigned between -100 and 100),
+  status       text not null default 'open' check (status in ('open', 'completed', 'missed')),
+  completed_at timestamptz,
+  created_at   timestamptz not null default now()
+);
+
+create index tasks_owner_due_idx on public.tasks (owner_id, due_at);
+create index tasks_open_due_idx on public.tasks (due_at) where status = 'open';
+
+alter table public.tasks enable row level security;
+
+create policy "owners read their tasks"
+  on public.tasks for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+create policy "owners create their tasks"
+  on public.tasks for insert
+  to authenticated
+  with check (owner_id = auth.uid());
+
+create policy "owners update their tasks"
+  on public.tasks for update
+  to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "owners delete their tasks"
+  on public.tasks for delete
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- xp_ledger: append-only XP history. Rows are written by the RPCs below
+-- (security definer), never directly by clients.
+create table public.xp_ledger (
+  id              uuid primary key default gen_random_uuid(),
+  user_id         uuid not null references auth.users (id) on delete cascade,
+  task_id         uuid references public.tasks (id) on delete set null,
+  delta           integer not null,
+  reason          text not null,
+  proof_url       text,
+  proof_thumb_url text,
+  created_at      timestamptz not null default now()
+);
+
+create index xp_ledger_user_idx on public.xp_ledger (user_id, created_at desc);
+create index xp_ledger_created_idx on public.xp_ledger (created_at desc);
+
+-- a task can only pay out once
+create unique index xp_ledger_task_completed_uidx
+  on public.xp_ledger (task_id)
+  where reason = 'task completed';
+
+alter table public.xp_ledger enable row level security;
+
+create policy "ledger is readable by signed-in users"
+  on public.xp_ledger for select
+  to authenticated
+  using (true);
@@ -0,0 +1,48 @@
+-- xp_reactions: 👍 / 👎 on a ledger entry, one vote per voter
+create table public.xp_reactions (
+  ledger_id  uuid not null references public.xp_ledger (id) on delete cascade,
+  voter_id   uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  value      smallint not null check (value in (-1, 1)),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (ledger_id, voter_id)
+);
+
+create index xp_reactions_voter_idx on public.xp_reactions (voter_id);
+
+alter table public.xp_reactions enable row level security;
+
+create policy "reactions are readable by signed-in users"
+  on public.xp_reactions for select
+  to authenticated
+  using (true);
+
+create policy "voters cast their own vote"
+  on public.xp_reactions for insert
+  to authenticated
+  with check (voter_id = auth.uid());
+
+create policy "voters change their own vote"
+  on public.xp_reactions for update
+  to authenticated
+  using (voter_id = auth.uid())
+  with check (voter_id = auth.uid());
+
+create policy "voters remove their own vote"
+  on public.xp_reactions for delete
+  to authenticated
+  using (voter_id = auth.uid());
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger xp_reactions_touch
+  before update on public.xp_reactions
+  for each row execute function public.touch_updated_at();
@@ -0,0 +1,22 @@
+-- chat_messages: ChatGlobal inserts only { content, room }
+create table public.chat_messages (
+  id         uuid primary key default gen_random_uuid(),
+  room       text not null default 'global',
+  user_id    uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  content    text not null check (length(trim(content)) between 1 and 1000),
+  created_at timestamptz not null default now()
+);
+
+create index chat_messages_room_created_idx on public.chat_messages (room, created_at desc);
+
+alter table public.chat_messages enable row level security;
+
+create policy "chat is readable by signed-in users"
+  on public.chat_messages for select
+  to authenticated
+  using (true);
+
+create policy "users post as themselves"
+  on public.chat_messages for insert
+  to authenticated
+  with check (user_id = auth.uid());
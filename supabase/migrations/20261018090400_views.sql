@@ -0,0 +1,55 @@
+-- Read models used by the client. Views run as their owner, so they expose
+-- the joined public bits (names, avatars, titles) without opening up tasks.
+
+-- total XP per user (users without ledger rows show up with 0)
+create or replace view public.users_xp as
+select
+  p.id as user_id,
+  coalesce(sum(l.delta), 0)::integer as xp
+from public.profiles p
+left join public.xp_ledger l on l.user_id = p.id
+group by p.id;
+
+-- RecentActivity feed
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.proof_url,
+  l.proof_thumb_url,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id;
+
+create or replace view public.xp_reaction_summary as
+select
+  ledger_id,
+  count(*) filter (where value = 1)::integer  as upvotes,
+  count(*) filter (where value = -1)::integer as downvotes,
+  coalesce(sum(value), 0)::integer            as net
+from public.xp_reactions
+group by ledger_id;
+
+create or replace view public.chat_messages_view as
+select
+  m.id,
+  m.room,
+  m.user_id,
+  m.content,
+  m.created_at,
+  p.display_name,
+  p.avatar_url as user_avatar_url
+from public.chat_messages m
+left join public.profiles p on p.id = m.user_id;
+
+revoke all on public.users_xp, public.xp_ledger_view,
+  public.xp_reaction_summary, public.chat_messages_view from anon;
+grant select on public.users_xp, public.xp_ledger_view,
+  public.xp_reaction_summary, public.chat_messages_view to authenticated;
@@ -0,0 +1,100 @@
+-- Grade the caller's overdue tasks: open + past due → missed, with a
+-- penalty of ceil(xp / 2). Tasks that were worth negative XP cost nothing.
+-- Returns the number of tasks marked missed.
+create or replace function public.penalize_my_overdue()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with missed as (
+    update tasks
+       set status = 'missed'
+     where owner_id = auth.uid()
+       and status = 'open'
+       and due_at < now()
+    returning id, owner_id, xp_assigned
+  ), penalties as (
+    insert into xp_ledger (user_id, task_id, delta, reason)
+    select owner_id, id, -ceil(xp_assigned / 2.0)::integer, 'task missed'
+      from missed
+     where xp_assigned > 0
+    returning 1
+  )
+  select count(*) into n from missed;
+
+  return n;
+end;
+$$;
+
+-- Mark an open task completed and credit xp_assigned to the ledger.
+-- Returns the new ledger row id.
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_proof_url text,
+  p_proof_thumb_url text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  ledger_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if coalesce(trim(p_proof_url), '') = '' then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  update tasks
+     set status = 'completed', completed_at = now()
+   where id = t.id;
+
+  insert into xp_ledger (user_id, task_id, delta, reason, proof_url, proof_thumb_url)
+  values (t.owner_id, t.id, t.xp_assigned, 'task completed', p_proof_url,
+          coalesce(p_proof_thumb_url, p_proof_url))
+  returning id into ledger_id;
+
+  return ledger_id;
+end;
+$$;
+
+-- XP a single vote is worth on a ledger entry (shown as "±N XP/vote"):
+-- a tenth of the entry's size, at least 1.
+create or replace function public.points_per_vote(p_ledger_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select greatest(1, ceil(abs(delta) / 10.0))::integer
+    from xp_ledger
+   where id = p_ledger_id;
+$$;
+
+revoke execute on function public.penalize_my_overdue() from anon, public;
+revoke execute on function public.complete_task_with_proof(uuid, text, text) from anon, public;
+revoke execute on function public.points_per_vote(uuid) from anon, public;
+grant execute on function public.penalize_my_overdue() to authenticated;
+grant execute on function public.complete_task_with_proof(uuid, text, text) to authenticated;
+grant execute on function public.points_per_vote(uuid) to authenticated;
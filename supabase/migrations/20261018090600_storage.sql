@@ -0,0 +1,31 @@
+-- Public buckets; objects live under "<uid>/..." and only the owner writes there.
+insert into storage.buckets (id, name, public)
+values
+  ('avatars', 'avatars', true),
+  ('task-proofs', 'task-proofs', true)
+on conflict (id) do nothing;
+
+create policy "owners upload avatars"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners replace avatars"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners delete avatars"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners upload proofs"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'task-proofs' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners delete proofs"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'task-proofs' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,7 @@
+-- Tables the client subscribes to with postgres_changes.
+alter publication supabase_realtime add table public.chat_messages;
+alter publication supabase_realtime add table public.xp_ledger;
+alter publication supabase_realtime add table public.xp_reactions;
+
+-- Reactions reads voter_id from payload.old on DELETE
+alter table public.xp_reactions replica identity full;
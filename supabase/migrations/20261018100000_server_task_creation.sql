@@ -0,0 +1,13 @@
+-- Tasks are created by the create-task edge function (service role), which
+-- scores them and inserts in one statement. Clients can no longer insert
+-- tasks or touch xp_assigned / status directly.
+
+alter table public.tasks
+  add column xp_rationale text,
+  add column xp_scorer    text;
+
+drop policy "owners create their tasks" on public.tasks;
+
+-- owners may still fix the editable fields; status moves through RPCs
+revoke insert, update on public.tasks from anon, authenticated;
+grant update (title, description, due_at) on public.tasks to authenticated;
@@ -0,0 +1,86 @@
+-- Owners can appeal an open task's score with extra context. Each appeal
+-- re-runs the scorer (appeal-task edge function) and is logged here with the
+-- before/after values. Appeals per task are capped so scores can't be farmed.
+
+alter table public.tasks
+  add column est_minutes  integer check (est_minutes between 1 and 600),
+  add column difficulty   smallint check (difficulty between 1 and 5),
+  add column appeal_count integer not null default 0;
+
+create table public.task_rescores (
+  id               uuid primary key default gen_random_uuid(),
+  task_id          uuid not null references public.tasks (id) on delete cascade,
+  user_id          uuid not null references auth.users (id) on delete cascade,
+  context          text not null check (length(trim(context)) between 1 and 1000),
+  xp_before        integer not null,
+  xp_after         integer not null,
+  rationale_before text,
+  rationale_after  text,
+  scorer           text,
+  created_at       timestamptz not null default now()
+);
+
+create index task_rescores_task_idx on public.task_rescores (task_id, created_at);
+
+alter table public.task_rescores enable row level security;
+
+create policy "owners read their rescores"
+  on public.task_rescores for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Applied by appeal-task after scoring. Locks the task so two concurrent
+-- appeals can't both slip under the cap.
+create or replace function public.apply_task_rescore(
+  p_task_id   uuid,
+  p_user_id   uuid,
+  p_context   text,
+  p_xp        integer,
+  p_rationale text,
+  p_scorer    text
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  max_appeals constant integer := 2;
+  t tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be appealed' using errcode = '22023';
+  end if;
+  if t.appeal_count >= max_appeals then
+    raise exception 'appeal limit reached (% per task)', max_appeals using errcode = '22023';
+  end if;
+
+  insert into task_rescores (task_id, user_id, context, xp_before, xp_after,
+                             rationale_before, rationale_after, scorer)
+  values (t.id, p_user_id, p_context, t.xp_assigned, p_xp,
+          t.xp_rationale, p_rationale, p_scorer);
+
+  update tasks
+     set xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         appeal_count = appeal_count + 1
+   where id = t.id
+  returning * into t;
+
+  return t;
+end;
+$$;
+
+revoke execute on function public.apply_task_rescore(uuid, uuid, text, integer, text, text)
+  from anon, authenticated, public;
+grant execute on function public.apply_task_rescore(uuid, uuid, text, integer, text, text)
+  to service_role;
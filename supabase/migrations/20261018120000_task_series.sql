@@ -0,0 +1,284 @@
+-- Recurring tasks. A series is scored once (cached xp_*), and its occurrences
+-- are materialized into tasks a couple of days ahead; the calendar expands
+-- the rule client-side for anything further out.
+--
+-- Rules (RRULE-style, evaluated in the series' timezone):
+--   daily                  every day
+--   weekdays               Mon..Fri
+--   interval + interval_days   every N days from starts_on
+--   weekly + by_weekday    given ISO weekdays (1 = Mon .. 7 = Sun)
+
+create table public.task_series (
+  id            uuid primary key default gen_random_uuid(),
+  owner_id      uuid not null references auth.users (id) on delete cascade,
+  title         text not null check (length(trim(title)) > 0),
+  description   text,
+  est_minutes   integer check (est_minutes between 1 and 600),
+  difficulty    smallint check (difficulty between 1 and 5),
+  xp_assigned   integer not null check (xp_assigned between -100 and 100),
+  xp_rationale  text,
+  xp_scorer     text,
+  freq          text not null check (freq in ('daily', 'weekdays', 'interval', 'weekly')),
+  interval_days integer check (interval_days between 1 and 365),
+  by_weekday    smallint[],
+  due_time      time not null,
+  timezone      text not null default 'UTC',
+  starts_on     date not null,
+  until         date,
+  active        boolean not null default true,
+  created_at    timestamptz not null default now(),
+  check (freq <> 'interval' or interval_days is not null),
+  check (freq <> 'weekly' or cardinality(by_weekday) > 0),
+  check (by_weekday is null or by_weekday <@ array[1,2,3,4,5,6,7]::smallint[]),
+  check (until is null or until >= starts_on)
+);
+
+create index task_series_owner_idx on public.task_series (owner_id) where active;
+
+alter table public.task_series enable row level security;
+
+create policy "owners read their series"
+  on public.task_series for select
+  to authenticated
+  using (owner_id = auth.uid());
+
+-- series are written by create-task / update-series and the RPCs below
+revoke insert, update, delete on public.task_series from anon, authenticated;
+
+alter table public.tasks
+  add column series_id       uuid references public.task_series (id) on delete set null,
+  add column occurrence_date date,
+  add constraint tasks_series_occurrence_key unique (series_id, occurrence_date);
+
+-- a skipped occurrence keeps its row so it isn't generated again
+alter table public.tasks drop constraint tasks_status_check;
+alter table public.tasks
+  add constraint tasks_status_check check (status in ('open', 'completed', 'missed', 'skipped'));
+
+/* -------------------- rule evaluation -------------------- */
+create or replace function public.series_occurs_on(s public.task_series, d date)
+returns boolean
+language sql
+immutable
+as $$
+  select d >= s.starts_on
+     and (s.until is null or d <= s.until)
+     and case s.freq
+           when 'daily'    then true
+           when 'weekdays' then extract(isodow from d) between 1 and 5
+           when 'interval' then (d - s.starts_on) % s.interval_days = 0
+           when 'weekly'   then extract(isodow from d)::smallint = any (s.by_weekday)
+           else false
+         end;
+$$;
+
+/* -------------------- materialization -------------------- */
+-- Days ahead (in the series' timezone) that get real task rows.
+create or replace function public.series_horizon_days()
+returns integer
+language sql
+immutable
+as $$ select 2 $$;
+
+-- Insert missing occurrences up to the horizon. Only future due times are
+-- generated, so a series never back-fills instantly-missed tasks.
+create or replace function public.generate_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  insert into tasks (owner_id, series_id, occurrence_date, title, description,
+                     due_at, xp_assigned, xp_rationale, xp_scorer, est_minutes, difficulty)
+  select s.owner_id, s.id, d::date, s.title, s.description,
+         (d::date + s.due_time) at time zone s.timezone,
+         s.xp_assigned, s.xp_rationale, s.xp_scorer, s.est_minutes, s.difficulty
+    from task_series s
+   cross join lateral generate_series(
+           greatest(s.starts_on, (now() at time zone s.timezone)::date),
+           (now() at time zone s.timezone)::date + series_horizon_days(),
+           interval '1 day') as d
+   where s.id = p_series_id
+     and s.active
+     and series_occurs_on(s, d::date)
+     and (d::date + s.due_time) at time zone s.timezone > now()
+  on conflict (series_id, occurrence_date) do nothing;
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+-- Called by TaskManager on load, next to penalize_my_overdue.
+create or replace function public.generate_my_occurrences()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s_id uuid;
+  n integer := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  for s_id in
+    select id from task_series where owner_id = auth.uid() and active
+  loop
+    n := n + generate_series_instances(s_id);
+  end loop;
+  return n;
+end;
+$$;
+
+-- Used by create-task once the series has been scored. due_at is the first
+-- occurrence as picked in the form; its local date/time seed the rule.
+create or replace function public.create_task_series(
+  p_owner_id      uuid,
+  p_title         text,
+  p_description   text,
+  p_est_minutes   integer,
+  p_difficulty    smallint,
+  p_xp            integer,
+  p_rationale     text,
+  p_scorer        text,
+  p_freq          text,
+  p_interval_days integer,
+  p_by_weekday    smallint[],
+  p_first_due_at  timestamptz,
+  p_timezone      text,
+  p_until         date
+)
+returns public.task_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  insert into task_series (owner_id, title, description, est_minutes, difficulty,
+                           xp_assigned, xp_rationale, xp_scorer, freq, interval_days,
+                           by_weekday, due_time, timezone, starts_on, until)
+  values (p_owner_id, p_title, p_description, p_est_minutes, p_difficulty,
+          p_xp, p_rationale, p_scorer, p_freq, p_interval_days,
+          p_by_weekday, (p_first_due_at at time zone p_timezone)::time, p_timezone,
+          (p_first_due_at at time zone p_timezone)::date, p_until)
+  returning * into s;
+
+  perform generate_series_instances(s.id);
+  return s;
+end;
+$$;
+
+-- After a whole-series edit: refresh the future open occurrences from the
+-- series, drop the ones the new rule no longer produces, and top up.
+-- Completed, missed, skipped and already-moved past rows are left alone.
+create or replace function public.sync_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+
+  delete from tasks t
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and (not s.active or not series_occurs_on(s, t.occurrence_date));
+
+  update tasks t
+     set title        = s.title,
+         description  = s.description,
+         due_at       = (t.occurrence_date + s.due_time) at time zone s.timezone,
+         xp_assigned  = s.xp_assigned,
+         xp_rationale = s.xp_rationale,
+         xp_scorer    = s.xp_scorer,
+         est_minutes  = s.est_minutes,
+         difficulty   = s.difficulty
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now();
+
+  return generate_series_instances(s.id);
+end;
+$$;
+
+/* -------------------- owner actions -------------------- */
+-- Skip one occurrence. Works for materialized and not-yet-generated dates.
+create or replace function public.skip_occurrence(p_series_id uuid, p_date date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found or s.owner_id is distinct from auth.uid() then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+  if not series_occurs_on(s, p_date) then
+    raise exception 'series has no occurrence on %', p_date using errcode = '22023';
+  end if;
+
+  insert into tasks (owner_id, series_id, occurrence_date, title, description,
+                     due_at, xp_assigned, xp_rationale, xp_scorer, est_minutes,
+                     difficulty, status)
+  values (s.owner_id, s.id, p_date, s.title, s.description,
+          (p_date + s.due_time) at time zone s.timezone,
+          s.xp_assigned, s.xp_rationale, s.xp_scorer, s.est_minutes,
+          s.difficulty, 'skipped')
+  on conflict (series_id, occurrence_date)
+  do update set status = 'skipped'
+           where tasks.status = 'open';
+end;
+$$;
+
+-- Stop a series: it ends today and its future open occurrences are removed.
+create or replace function public.end_series(p_series_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update task_series
+     set active = false,
+         until  = greatest(starts_on, (now() at time zone timezone)::date)
+   where id = p_series_id
+     and owner_id = auth.uid();
+  if not found then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+
+  perform sync_series_instances(p_series_id);
+end;
+$$;
+
+revoke execute on function public.generate_series_instances(uuid) from anon, authenticated, public;
+revoke execute on function public.create_task_series(uuid, text, text, integer, smallint, integer, text, text, text, integer, smallint[], timestamptz, text, date) from anon, authenticated, public;
+revoke execute on function public.sync_series_instances(uuid) from anon, authenticated, public;
+grant execute on function public.generate_series_instances(uuid) to service_role;
+grant execute on function public.create_task_series(uuid, text, text, integer, smallint, integer, text, text, text, integer, smallint[], timestamptz, text, date) to service_role;
+grant execute on function public.sync_series_instances(uuid) to service_role;
+
+revoke execute on function public.generate_my_occurrences() from anon, public;
+revoke execute on function public.skip_occurrence(uuid, date) from anon, public;
+revoke execute on function public.end_series(uuid) from anon, public;
+grant execute on function public.generate_my_occurrences() to authenticated;
+grant execute on function public.skip_occurrence(uuid, date) to authenticated;
+grant execute on function public.end_series(uuid) to authenticated;
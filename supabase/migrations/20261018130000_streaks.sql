@@ -0,0 +1,276 @@
+-- Streaks: consecutive days (in the user's own timezone) with at least one
+-- completion. Freeze tokens bridge an empty day without breaking the streak;
+-- one is earned for every 7-day stretch, up to max_streak_freezes().
+-- Past days are closed out by penalize_my_overdue: an empty day either
+-- consumes a freeze or records a 'break' event.
+
+alter table public.profiles
+  add column timezone               text not null default 'UTC',
+  add column streak_freezes         integer not null default 0 check (streak_freezes >= 0),
+  add column streak_checked_through date;
+
+-- streak bookkeeping is server-side only
+revoke update on public.profiles from anon, authenticated;
+grant update (display_name, avatar_url, timezone) on public.profiles to authenticated;
+
+create or replace function public.max_streak_freezes()
+returns integer
+language sql
+immutable
+as $$ select 2 $$;
+
+create table public.streak_freeze_days (
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  day        date not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, day)
+);
+
+alter table public.streak_freeze_days enable row level security;
+
+create policy "freeze days are readable by signed-in users"
+  on public.streak_freeze_days for select
+  to authenticated
+  using (true);
+
+create table public.streak_events (
+  id            uuid primary key default gen_random_uuid(),
+  user_id       uuid not null references auth.users (id) on delete cascade,
+  kind          text not null check (kind in ('break', 'freeze_used', 'freeze_earned')),
+  day           date not null,
+  streak_length integer not null default 0,
+  created_at    timestamptz not null default now()
+);
+
+create index streak_events_user_idx on public.streak_events (user_id, created_at desc);
+
+alter table public.streak_events enable row level security;
+
+create policy "streak events are readable by signed-in users"
+  on public.streak_events for select
+  to authenticated
+  using (true);
+
+/* -------------------- day model -------------------- */
+-- One row per user per local day that keeps a streak going.
+-- done = at least one completion (frozen days bridge but don't count).
+create or replace view public.user_activity_days as
+select user_id, day, bool_or(done) as done
+from (
+  select l.user_id,
+         (l.created_at at time zone p.timezone)::date as day,
+         true as done
+    from public.xp_ledger l
+    join public.profiles p on p.id = l.user_id
+   where l.reason = 'task completed'
+  union all
+  select f.user_id, f.day, false
+    from public.streak_freeze_days f
+) d
+group by user_id, day;
+
+-- Completed days in the unbroken run of active days ending on p_day.
+create or replace function public.streak_ending_on(p_user_id uuid, p_day date)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with run as (
+    select done,
+           p_day - day as back,
+           row_number() over (order by day desc) - 1 as rn
+      from user_activity_days
+     where user_id = p_user_id
+       and day <= p_day
+  )
+  select count(*) filter (where done)::integer
+    from run
+   where back = rn;
+$$;
+
+create or replace function public.local_today(p_user_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (now() at time zone coalesce(
+    (select timezone from profiles where id = p_user_id), 'UTC'))::date;
+$$;
+
+-- current_streak counts today if already done, otherwise runs through
+-- yesterday (still alive, "at risk" until something is completed today).
+create or replace view public.user_streaks as
+with base as (
+  select p.id as user_id,
+         p.streak_freezes,
+         public.local_today(p.id) as today
+    from public.profiles p
+), cur as (
+  select b.*,
+         public.streak_ending_on(b.user_id, b.today)     as through_today,
+         public.streak_ending_on(b.user_id, b.today - 1) as through_yesterday,
+         exists (select 1 from public.user_activity_days a
+                  where a.user_id = b.user_id and a.day = b.today and a.done) as done_today
+    from base b
+), islands as (
+  select user_id,
+         count(*) filter (where done) as len,
+         max(day) filter (where done) as last_day
+    from (
+      select a.*, a.day - (row_number() over (partition by a.user_id order by a.day))::integer as grp
+        from public.user_activity_days a
+    ) g
+   group by user_id, grp
+)
+select c.user_id,
+       greatest(c.through_today, c.through_yesterday)::integer as current_streak,
+       coalesce((select max(i.len) from islands i where i.user_id = c.user_id), 0)::integer as longest_streak,
+       (select max(i.last_day) from islands i where i.user_id = c.user_id) as last_active_day,
+       c.done_today,
+       (not c.done_today and c.through_yesterday > 0) as at_risk,
+       c.streak_freezes
+  from cur c;
+
+revoke all on public.user_activity_days, public.user_streaks from anon;
+grant select on public.user_activity_days, public.user_streaks to authenticated;
+
+/* -------------------- earning freezes -------------------- */
+-- The first completion of a local day that lands the streak on a multiple of
+-- 7 earns a freeze token (capped).
+create or replace function public.award_streak_freeze()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  d date;
+  len integer;
+begin
+  if new.reason <> 'task completed' then
+    return new;
+  end if;
+
+  select (new.created_at at time zone timezone)::date into d
+    from profiles where id = new.user_id;
+
+  -- only once per day
+  if exists (
+    select 1 from xp_ledger l join profiles p on p.id = l.user_id
+     where l.user_id = new.user_id
+       and l.id <> new.id
+       and l.reason = 'task completed'
+       and (l.created_at at time zone p.timezone)::date = d
+  ) then
+    return new;
+  end if;
+
+  len := streak_ending_on(new.user_id, d);
+  if len > 0 and len % 7 = 0 then
+    update profiles
+       set streak_freezes = least(max_streak_freezes(), streak_freezes + 1)
+     where id = new.user_id
+       and streak_freezes < max_streak_freezes();
+    if found then
+      insert into streak_events (user_id, kind, day, streak_length)
+      values (new.user_id, 'freeze_earned', d, len);
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger xp_ledger_award_streak_freeze
+  after insert on public.xp_ledger
+  for each row execute function public.award_streak_freeze();
+
+/* -------------------- closing days -------------------- */
+-- Walk the user's finished days since the last check. An empty day after an
+-- active one either burns a freeze or records the streak break.
+create or replace function public.close_streak_days(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p profiles%rowtype;
+  yesterday date;
+  d date;
+  len integer;
+begin
+  select * into p from profiles where id = p_user_id for update;
+  if not found then
+    return;
+  end if;
+
+  yesterday := local_today(p_user_id) - 1;
+  d := coalesce(p.streak_checked_through + 1, yesterday);
+
+  while d <= yesterday loop
+    if not exists (select 1 from user_activity_days
+                    where user_id = p_user_id and day = d) then
+      len := streak_ending_on(p_user_id, d - 1);
+      if len > 0 then
+        if p.streak_freezes > 0 then
+          insert into streak_freeze_days (user_id, day) values (p_user_id, d);
+          p.streak_freezes := p.streak_freezes - 1;
+          insert into streak_events (user_id, kind, day, streak_length)
+          values (p_user_id, 'freeze_used', d, len);
+        else
+          insert into streak_events (user_id, kind, day, streak_length)
+          values (p_user_id, 'break', d, len);
+        end if;
+      end if;
+    end if;
+    d := d + 1;
+  end loop;
+
+  update profiles
+     set streak_freezes = p.streak_freezes,
+         streak_checked_through = greatest(coalesce(streak_checked_through, yesterday), yesterday)
+   where id = p_user_id;
+end;
+$$;
+
+revoke execute on function public.close_streak_days(uuid) from anon, authenticated, public;
+grant execute on function public.close_streak_days(uuid) to service_role;
+
+-- penalize_my_overdue now also closes out the caller's finished days
+create or replace function public.penalize_my_overdue()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  with missed as (
+    update tasks
+       set status = 'missed'
+     where owner_id = auth.uid()
+       and status = 'open'
+       and due_at < now()
+    returning id, owner_id, xp_assigned
+  ), penalties as (
+    insert into xp_ledger (user_id, task_id, delta, reason)
+    select owner_id, id, -ceil(xp_assigned / 2.0)::integer, 'task missed'
+      from missed
+     where xp_assigned > 0
+    returning 1
+  )
+  select count(*) into n from missed;
+
+  perform close_streak_days(auth.uid());
+  return n;
+end;
+$$;
@@ -0,0 +1,137 @@
+-- Time-windowed leaderboards aggregated from xp_ledger.
+-- Windows are computed in leaderboard_timezone(); weeks start on Monday.
+-- Each window is compared with the one before it for rank movement:
+--   day → yesterday, week → last week, month → last month,
+--   season → the previous season, all → all-time as of this week's start.
+
+create table public.seasons (
+  id         uuid primary key default gen_random_uuid(),
+  name       text not null,
+  starts_at  timestamptz not null,
+  ends_at    timestamptz not null,
+  created_at timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+alter table public.seasons enable row level security;
+
+create policy "seasons are readable by signed-in users"
+  on public.seasons for select
+  to authenticated
+  using (true);
+
+create or replace function public.leaderboard_timezone()
+returns text
+language sql
+immutable
+as $$ select 'UTC'::text $$;
+
+create or replace function public.leaderboard_bounds(
+  p_window    text,
+  p_season_id uuid default null
+)
+returns table (cur_start timestamptz, cur_end timestamptz, prev_start timestamptz, prev_end timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  tz constant text := leaderboard_timezone();
+  local_now timestamp := now() at time zone tz;
+  s seasons%rowtype;
+  prev seasons%rowtype;
+begin
+  case p_window
+    when 'day' then
+      cur_start  := date_trunc('day', local_now) at time zone tz;
+      cur_end    := cur_start + interval '1 day';
+      prev_start := cur_start - interval '1 day';
+      prev_end   := cur_start;
+    when 'week' then
+      cur_start  := date_trunc('week', local_now) at time zone tz; -- ISO week: Monday
+      cur_end    := cur_start + interval '1 week';
+      prev_start := cur_start - interval '1 week';
+      prev_end   := cur_start;
+    when 'month' then
+      cur_start  := date_trunc('month', local_now) at time zone tz;
+      cur_end    := (date_trunc('month', local_now) + interval '1 month') at time zone tz;
+      prev_start := (date_trunc('month', local_now) - interval '1 month') at time zone tz;
+      prev_end   := cur_start;
+    when 'season' then
+      if p_season_id is null then
+        select * into s from seasons
+         where starts_at <= now()
+         order by (ends_at > now()) desc, starts_at desc
+         limit 1;
+      else
+        select * into s from seasons where id = p_season_id;
+      end if;
+      if not found then
+        raise exception 'season not found' using errcode = 'P0002';
+      end if;
+      select * into prev from seasons
+       where ends_at <= s.starts_at
+       order by ends_at desc
+       limit 1;
+      cur_start  := s.starts_at;
+      cur_end    := s.ends_at;
+      prev_start := coalesce(prev.starts_at, s.starts_at);
+      prev_end   := coalesce(prev.ends_at, s.starts_at);
+    when 'all' then
+      cur_start  := '-infinity';
+      cur_end    := 'infinity';
+      prev_start := '-infinity';
+      prev_end   := date_trunc('week', local_now) at time zone tz;
+    else
+      raise exception 'unknown leaderboard window %', p_window using errcode = '22023';
+  end case;
+  return next;
+end;
+$$;
+
+-- One page of the board. prev_rank is the user's rank in the previous window
+-- (null when they had no XP there); total is the full row count for paging.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0
+)
+returns table (user_id uuid, xp integer, rank integer, prev_rank integer, total integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), sums as (
+    select p.id as user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end) as prev_rows
+      from profiles p
+      cross join b
+      left join xp_ledger l on l.user_id = p.id
+     group by p.id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked
+   order by rank, user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+$$;
+
+revoke execute on function public.leaderboard_bounds(text, uuid) from anon, public;
+revoke execute on function public.leaderboard(text, uuid, integer, integer) from anon, public;
+grant execute on function public.leaderboard_bounds(text, uuid) to authenticated;
+grant execute on function public.leaderboard(text, uuid, integer, integer) to authenticated;
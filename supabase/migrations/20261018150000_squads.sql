@@ -0,0 +1,356 @@
+-- Squads: friend groups with their own leaderboard, feed, chat and reaction
+-- counts. Anyone with the invite code (or link) can join; the owner can
+-- rotate the code and remove members. Membership is only changed through the
+-- RPCs below. A member's squad XP only counts ledger rows from after they
+-- joined, so the same player can sit at different totals in each squad.
+
+create table public.squads (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null check (length(trim(name)) between 1 and 60),
+  owner_id    uuid not null references auth.users (id) on delete cascade,
+  invite_code text not null unique,
+  created_at  timestamptz not null default now()
+);
+
+create table public.squad_members (
+  squad_id  uuid not null references public.squads (id) on delete cascade,
+  user_id   uuid not null references auth.users (id) on delete cascade,
+  role      text not null default 'member' check (role in ('owner', 'member')),
+  joined_at timestamptz not null default now(),
+  primary key (squad_id, user_id)
+);
+
+create index squad_members_user_idx on public.squad_members (user_id);
+
+-- Security definer so the policies below don't recurse into squad_members' RLS.
+create or replace function public.is_squad_member(p_squad_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from squad_members
+     where squad_id = p_squad_id
+       and user_id = auth.uid()
+  );
+$$;
+
+alter table public.squads enable row level security;
+alter table public.squad_members enable row level security;
+
+create policy "members read their squads"
+  on public.squads for select
+  to authenticated
+  using (public.is_squad_member(id));
+
+create policy "members read their squadmates"
+  on public.squad_members for select
+  to authenticated
+  using (public.is_squad_member(squad_id));
+
+revoke insert, update, delete on public.squads, public.squad_members from anon, authenticated;
+
+-- 8 hex chars, uppercased; retried until unused
+create or replace function public.new_squad_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  code text;
+begin
+  loop
+    code := upper(substr(md5(gen_random_uuid()::text), 1, 8));
+    exit when not exists (select 1 from squads where invite_code = code);
+  end loop;
+  return code;
+end;
+$$;
+
+create or replace function public.create_squad(p_name text)
+returns public.squads
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s squads%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  insert into squads (name, owner_id, invite_code)
+  values (trim(p_name), auth.uid(), new_squad_invite_code())
+  returning * into s;
+
+  insert into squad_members (squad_id, user_id, role)
+  values (s.id, auth.uid(), 'owner');
+
+  return s;
+end;
+$$;
+
+-- Joining twice is a no-op (joined_at, and so the squad XP tally, is kept).
+create or replace function public.join_squad(p_invite_code text)
+returns public.squads
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s squads%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select * into s from squads where invite_code = upper(trim(p_invite_code));
+  if not found then
+    raise exception 'invite code not found' using errcode = 'P0002';
+  end if;
+
+  insert into squad_members (squad_id, user_id)
+  values (s.id, auth.uid())
+  on conflict (squad_id, user_id) do nothing;
+
+  return s;
+end;
+$$;
+
+-- An owner leaving hands the squad to the longest-standing member; the last
+-- member leaving deletes it.
+create or replace function public.leave_squad(p_squad_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me squad_members%rowtype;
+  heir uuid;
+begin
+  select * into me
+    from squad_members
+   where squad_id = p_squad_id
+     and user_id = auth.uid()
+     for update;
+  if not found then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  delete from squad_members where squad_id = p_squad_id and user_id = me.user_id;
+
+  if me.role = 'owner' then
+    select user_id into heir
+      from squad_members
+     where squad_id = p_squad_id
+     order by joined_at, user_id
+     limit 1;
+
+    if heir is null then
+      delete from squads where id = p_squad_id;
+    else
+      update squad_members set role = 'owner' where squad_id = p_squad_id and user_id = heir;
+      update squads set owner_id = heir where id = p_squad_id;
+    end if;
+  end if;
+end;
+$$;
+
+create or replace function public.remove_squad_member(p_squad_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from squads where id = p_squad_id and owner_id = auth.uid()) then
+    raise exception 'only the squad owner can remove members' using errcode = '42501';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'owners leave instead of removing themselves' using errcode = '22023';
+  end if;
+
+  delete from squad_members where squad_id = p_squad_id and user_id = p_user_id;
+end;
+$$;
+
+-- Invalidates the old code and link.
+create or replace function public.regenerate_squad_invite(p_squad_id uuid)
+returns public.squads
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s squads%rowtype;
+begin
+  update squads
+     set invite_code = new_squad_invite_code()
+   where id = p_squad_id
+     and owner_id = auth.uid()
+  returning * into s;
+  if not found then
+    raise exception 'only the squad owner can change the invite code' using errcode = '42501';
+  end if;
+  return s;
+end;
+$$;
+
+revoke execute on function public.new_squad_invite_code() from anon, authenticated, public;
+revoke execute on function public.create_squad(text) from anon, public;
+revoke execute on function public.join_squad(text) from anon, public;
+revoke execute on function public.leave_squad(uuid) from anon, public;
+revoke execute on function public.remove_squad_member(uuid, uuid) from anon, public;
+revoke execute on function public.regenerate_squad_invite(uuid) from anon, public;
+grant execute on function public.create_squad(text) to authenticated;
+grant execute on function public.join_squad(text) to authenticated;
+grant execute on function public.leave_squad(uuid) to authenticated;
+grant execute on function public.remove_squad_member(uuid, uuid) to authenticated;
+grant execute on function public.regenerate_squad_invite(uuid) to authenticated;
+
+/* ---------- chat: squad rooms ---------- */
+-- squad_id null = the global room
+alter table public.chat_messages
+  add column squad_id uuid references public.squads (id) on delete cascade;
+
+create index chat_messages_squad_created_idx on public.chat_messages (squad_id, created_at desc)
+  where squad_id is not null;
+
+drop policy "chat is readable by signed-in users" on public.chat_messages;
+drop policy "users post as themselves" on public.chat_messages;
+
+create policy "chat is readable by the room's members"
+  on public.chat_messages for select
+  to authenticated
+  using (squad_id is null or public.is_squad_member(squad_id));
+
+create policy "users post as themselves to their rooms"
+  on public.chat_messages for insert
+  to authenticated
+  with check (user_id = auth.uid() and (squad_id is null or public.is_squad_member(squad_id)));
+
+-- views bypass RLS, so the room check is repeated here
+create or replace view public.chat_messages_view as
+select
+  m.id,
+  m.room,
+  m.user_id,
+  m.content,
+  m.created_at,
+  p.display_name,
+  p.avatar_url as user_avatar_url,
+  m.squad_id
+from public.chat_messages m
+left join public.profiles p on p.id = m.user_id
+where m.squad_id is null or public.is_squad_member(m.squad_id);
+
+/* ---------- squad read models ---------- */
+create or replace view public.squad_members_view as
+select
+  sm.squad_id,
+  sm.user_id,
+  sm.role,
+  sm.joined_at,
+  p.display_name,
+  p.avatar_url
+from public.squad_members sm
+left join public.profiles p on p.id = sm.user_id
+where public.is_squad_member(sm.squad_id);
+
+-- RecentActivity for a squad: members' ledger rows since they joined
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+-- Reactions counted from the squad's own members only
+create or replace view public.squad_reaction_summary as
+select
+  sm.squad_id,
+  r.ledger_id,
+  count(*) filter (where r.value = 1)::integer  as upvotes,
+  count(*) filter (where r.value = -1)::integer as downvotes,
+  coalesce(sum(r.value), 0)::integer            as net
+from public.xp_reactions r
+join public.squad_members sm on sm.user_id = r.voter_id
+where public.is_squad_member(sm.squad_id)
+group by sm.squad_id, r.ledger_id;
+
+revoke all on public.squad_members_view, public.squad_xp_ledger_view,
+  public.squad_reaction_summary from anon;
+grant select on public.squad_members_view, public.squad_xp_ledger_view,
+  public.squad_reaction_summary to authenticated;
+
+/* ---------- leaderboard: optional squad scope ---------- */
+drop function public.leaderboard(text, uuid, integer, integer);
+
+-- Without p_squad_id: every player, all their XP. With it: the squad's
+-- members, counting only XP earned since each of them joined.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end) as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+revoke execute on function public.leaderboard(text, uuid, integer, integer, uuid) from anon, public;
+grant execute on function public.leaderboard(text, uuid, integer, integer, uuid) to authenticated;
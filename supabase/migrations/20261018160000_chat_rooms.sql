@@ -0,0 +1,270 @@
+-- Chat rooms. Every message belongs to a room:
+--   global — one room everybody can read and post in
+--   squad  — one per squad (created with it), members only
+--   dm     — between exactly two players, only they can read it
+--   post   — discussion under one activity post (xp_ledger row), open to all
+-- Access is checked by can_access_room() in RLS and in the views, so a DM is
+-- never readable by anyone else. Replaces chat_messages.room/squad_id.
+
+create table public.chat_rooms (
+  id         uuid primary key default gen_random_uuid(),
+  kind       text not null check (kind in ('global', 'squad', 'dm', 'post')),
+  squad_id   uuid references public.squads (id) on delete cascade,
+  ledger_id  uuid references public.xp_ledger (id) on delete cascade,
+  dm_user_a  uuid references auth.users (id) on delete cascade, -- dm_user_a < dm_user_b
+  dm_user_b  uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  check (
+    case kind
+      when 'global' then squad_id is null and ledger_id is null and dm_user_a is null
+      when 'squad'  then squad_id is not null and ledger_id is null and dm_user_a is null
+      when 'post'   then ledger_id is not null and squad_id is null and dm_user_a is null
+      when 'dm'     then dm_user_a < dm_user_b and squad_id is null and ledger_id is null
+    end
+  )
+);
+
+create unique index chat_rooms_global_key on public.chat_rooms (kind) where kind = 'global';
+create unique index chat_rooms_squad_key on public.chat_rooms (squad_id) where kind = 'squad';
+create unique index chat_rooms_post_key on public.chat_rooms (ledger_id) where kind = 'post';
+create unique index chat_rooms_dm_key on public.chat_rooms (dm_user_a, dm_user_b) where kind = 'dm';
+create index chat_rooms_dm_b_idx on public.chat_rooms (dm_user_b) where kind = 'dm';
+
+-- last time each player looked at a room; drives the unread counters
+create table public.chat_room_reads (
+  room_id      uuid not null references public.chat_rooms (id) on delete cascade,
+  user_id      uuid not null references auth.users (id) on delete cascade,
+  last_read_at timestamptz not null default now(),
+  primary key (room_id, user_id)
+);
+
+create or replace function public.can_access_room(p_room_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from chat_rooms r
+     where r.id = p_room_id
+       and (r.kind in ('global', 'post')
+            or (r.kind = 'squad' and is_squad_member(r.squad_id))
+            or (r.kind = 'dm' and auth.uid() in (r.dm_user_a, r.dm_user_b)))
+  );
+$$;
+
+alter table public.chat_rooms enable row level security;
+alter table public.chat_room_reads enable row level security;
+
+create policy "rooms are readable by their members"
+  on public.chat_rooms for select
+  to authenticated
+  using (public.can_access_room(id));
+
+create policy "players read their own read markers"
+  on public.chat_room_reads for select
+  to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.chat_rooms, public.chat_room_reads from anon, authenticated;
+
+insert into public.chat_rooms (kind) values ('global');
+insert into public.chat_rooms (kind, squad_id) select 'squad', id from public.squads;
+
+create or replace function public.create_squad_room()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into chat_rooms (kind, squad_id) values ('squad', new.id);
+  return new;
+end;
+$$;
+
+create trigger squads_create_room
+  after insert on public.squads
+  for each row execute function public.create_squad_room();
+
+/* ---------- chat_messages: room → room_id ---------- */
+alter table public.chat_messages
+  add column room_id uuid references public.chat_rooms (id) on delete cascade;
+
+update public.chat_messages m
+   set room_id = coalesce(
+         (select r.id from public.chat_rooms r where r.kind = 'squad' and r.squad_id = m.squad_id),
+         (select r.id from public.chat_rooms r where r.kind = 'global'));
+
+drop view public.chat_messages_view;
+drop policy "chat is readable by the room's members" on public.chat_messages;
+drop policy "users post as themselves to their rooms" on public.chat_messages;
+drop index public.chat_messages_room_created_idx;
+drop index public.chat_messages_squad_created_idx;
+
+alter table public.chat_messages
+  drop column room,
+  drop column squad_id,
+  alter column room_id set not null;
+
+create index chat_messages_room_created_idx on public.chat_messages (room_id, created_at desc);
+
+create policy "chat is readable by the room's members"
+  on public.chat_messages for select
+  to authenticated
+  using (public.can_access_room(room_id));
+
+create policy "users post as themselves to their rooms"
+  on public.chat_messages for insert
+  to authenticated
+  with check (user_id = auth.uid() and public.can_access_room(room_id));
+
+-- views bypass RLS, so the room check is repeated here
+create view public.chat_messages_view as
+select
+  m.id,
+  m.room_id,
+  m.user_id,
+  m.content,
+  m.created_at,
+  p.display_name,
+  p.avatar_url as user_avatar_url
+from public.chat_messages m
+left join public.profiles p on p.id = m.user_id
+where public.can_access_room(m.room_id);
+
+-- The caller's room list: global, their squads and DMs, and the post rooms
+-- they own, posted in or opened. unread counts others' messages since the
+-- caller last read the room.
+create view public.my_chat_rooms as
+select
+  r.id,
+  r.kind,
+  r.squad_id,
+  r.ledger_id,
+  o.other_user_id,
+  case r.kind
+    when 'global' then 'Global'
+    when 'squad'  then s.name
+    when 'dm'     then coalesce(op.display_name, 'Player')
+    when 'post'   then coalesce(t.title, 'Activity post')
+  end as title,
+  op.avatar_url as other_avatar_url,
+  lm.last_message_at,
+  coalesce(u.unread, 0) as unread
+from public.chat_rooms r
+cross join lateral (
+  select case when r.kind = 'dm'
+              then case when r.dm_user_a = auth.uid() then r.dm_user_b else r.dm_user_a end
+         end as other_user_id
+) o
+left join public.squads s on s.id = r.squad_id
+left join public.profiles op on op.id = o.other_user_id
+left join public.xp_ledger l on l.id = r.ledger_id
+left join public.tasks t on t.id = l.task_id
+left join public.chat_room_reads rr on rr.room_id = r.id and rr.user_id = auth.uid()
+left join lateral (
+  select max(m.created_at) as last_message_at
+    from public.chat_messages m
+   where m.room_id = r.id
+) lm on true
+left join lateral (
+  select count(*)::integer as unread
+    from public.chat_messages m
+   where m.room_id = r.id
+     and m.user_id <> auth.uid()
+     and m.created_at > coalesce(rr.last_read_at, '-infinity')
+) u on true
+where public.can_access_room(r.id)
+  and (r.kind <> 'post'
+       or l.user_id = auth.uid()
+       or rr.room_id is not null
+       or exists (select 1 from public.chat_messages m where m.room_id = r.id and m.user_id = auth.uid()));
+
+revoke all on public.chat_messages_view, public.my_chat_rooms from anon;
+grant select on public.chat_messages_view, public.my_chat_rooms to authenticated;
+
+/* ---------- RPCs ---------- */
+-- Get-or-create the DM room with another player.
+create or replace function public.open_dm(p_user_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r chat_rooms%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'you can''t message yourself' using errcode = '22023';
+  end if;
+  if not exists (select 1 from profiles where id = p_user_id) then
+    raise exception 'player not found' using errcode = 'P0002';
+  end if;
+
+  insert into chat_rooms (kind, dm_user_a, dm_user_b)
+  values ('dm', least(auth.uid(), p_user_id), greatest(auth.uid(), p_user_id))
+  on conflict (dm_user_a, dm_user_b) where kind = 'dm' do nothing;
+
+  select * into r
+    from chat_rooms
+   where kind = 'dm'
+     and dm_user_a = least(auth.uid(), p_user_id)
+     and dm_user_b = greatest(auth.uid(), p_user_id);
+  return r;
+end;
+$$;
+
+-- Get-or-create the discussion room under an activity post.
+create or replace function public.open_post_room(p_ledger_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r chat_rooms%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if not exists (select 1 from xp_ledger where id = p_ledger_id) then
+    raise exception 'post not found' using errcode = 'P0002';
+  end if;
+
+  insert into chat_rooms (kind, ledger_id)
+  values ('post', p_ledger_id)
+  on conflict (ledger_id) where kind = 'post' do nothing;
+
+  select * into r from chat_rooms where kind = 'post' and ledger_id = p_ledger_id;
+  return r;
+end;
+$$;
+
+create or replace function public.mark_room_read(p_room_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not can_access_room(p_room_id) then
+    raise exception 'room not found' using errcode = 'P0002';
+  end if;
+
+  insert into chat_room_reads (room_id, user_id, last_read_at)
+  values (p_room_id, auth.uid(), now())
+  on conflict (room_id, user_id) do update set last_read_at = excluded.last_read_at;
+end;
+$$;
+
+revoke execute on function public.open_dm(uuid) from anon, public;
+revoke execute on function public.open_post_room(uuid) from anon, public;
+revoke execute on function public.mark_room_read(uuid) from anon, public;
+grant execute on function public.open_dm(uuid) to authenticated;
+grant execute on function public.open_post_room(uuid) to authenticated;
+grant execute on function public.mark_room_read(uuid) to authenticated;
@@ -0,0 +1,121 @@
+-- Chat message edits, soft deletes and replies.
+-- Messages are changed only through edit_chat_message / delete_chat_message,
+-- which check the caller wrote the message. A deleted message keeps its row
+-- (so replies still thread) but loses its content. Both show up as realtime
+-- UPDATEs on chat_messages.
+
+alter table public.chat_messages
+  add column reply_to_id uuid references public.chat_messages (id) on delete set null,
+  add column edited_at   timestamptz,
+  add column deleted_at  timestamptz;
+
+alter table public.chat_messages
+  drop constraint chat_messages_content_check,
+  add constraint chat_messages_content_check
+    check (deleted_at is not null or length(trim(content)) between 1 and 1000);
+
+create index chat_messages_reply_idx on public.chat_messages (reply_to_id) where reply_to_id is not null;
+
+revoke update, delete on public.chat_messages from anon, authenticated;
+
+-- a reply must quote a message from the same room
+create or replace function public.check_chat_reply()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.reply_to_id is not null and not exists (
+    select 1 from public.chat_messages p
+     where p.id = new.reply_to_id
+       and p.room_id = new.room_id
+  ) then
+    raise exception 'reply target is not in this room' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger chat_messages_check_reply
+  before insert on public.chat_messages
+  for each row execute function public.check_chat_reply();
+
+create or replace function public.edit_chat_message(p_message_id uuid, p_content text)
+returns public.chat_messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m chat_messages%rowtype;
+begin
+  select * into m
+    from chat_messages
+   where id = p_message_id
+     for update;
+  if not found or m.user_id is distinct from auth.uid() then
+    raise exception 'message not found' using errcode = 'P0002';
+  end if;
+  if m.deleted_at is not null then
+    raise exception 'message was deleted' using errcode = '22023';
+  end if;
+  if length(trim(coalesce(p_content, ''))) not between 1 and 1000 then
+    raise exception 'message must be 1–1000 characters' using errcode = '22023';
+  end if;
+
+  if p_content is distinct from m.content then
+    update chat_messages
+       set content   = p_content,
+           edited_at = now()
+     where id = m.id
+    returning * into m;
+  end if;
+  return m;
+end;
+$$;
+
+create or replace function public.delete_chat_message(p_message_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update chat_messages
+     set content    = '',
+         deleted_at = now()
+   where id = p_message_id
+     and user_id = auth.uid()
+     and deleted_at is null;
+  if not found and not exists (
+    select 1 from chat_messages where id = p_message_id and user_id = auth.uid()
+  ) then
+    raise exception 'message not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke execute on function public.edit_chat_message(uuid, text) from anon, public;
+revoke execute on function public.delete_chat_message(uuid) from anon, public;
+grant execute on function public.edit_chat_message(uuid, text) to authenticated;
+grant execute on function public.delete_chat_message(uuid) to authenticated;
+
+-- content is null for deleted messages; reply_* quote the parent
+create or replace view public.chat_messages_view as
+select
+  m.id,
+  m.room_id,
+  m.user_id,
+  case when m.deleted_at is null then m.content end as content,
+  m.created_at,
+  p.display_name,
+  p.avatar_url as user_avatar_url,
+  m.reply_to_id,
+  m.edited_at,
+  m.deleted_at,
+  case when r.deleted_at is null then r.content end as reply_content,
+  rp.display_name as reply_display_name
+from public.chat_messages m
+left join public.profiles p on p.id = m.user_id
+left join public.chat_messages r on r.id = m.reply_to_id
+left join public.profiles rp on rp.id = r.user_id
+where public.can_access_room(m.room_id);
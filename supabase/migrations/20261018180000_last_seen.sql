@@ -0,0 +1,50 @@
+-- Last-seen timestamps. Who's online right now comes from Realtime presence
+-- (client side); this is the durable "seen 2h ago" for everyone else.
+-- Clients can't write the column directly, only bump it to now().
+
+alter table public.profiles
+  add column last_seen_at timestamptz;
+
+-- Called by AppShell on load, on an interval and when the tab is hidden.
+-- Writes at most once a minute per user.
+create or replace function public.touch_last_seen()
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  seen timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  update profiles
+     set last_seen_at = now()
+   where id = auth.uid()
+     and (last_seen_at is null or last_seen_at < now() - interval '1 minute')
+  returning last_seen_at into seen;
+
+  if seen is null then
+    select last_seen_at into seen from profiles where id = auth.uid();
+  end if;
+  return seen;
+end;
+$$;
+
+revoke execute on function public.touch_last_seen() from anon, public;
+grant execute on function public.touch_last_seen() to authenticated;
+
+create or replace view public.squad_members_view as
+select
+  sm.squad_id,
+  sm.user_id,
+  sm.role,
+  sm.joined_at,
+  p.display_name,
+  p.avatar_url,
+  p.last_seen_at
+from public.squad_members sm
+left join public.profiles p on p.id = sm.user_id
+where public.is_squad_member(sm.squad_id);
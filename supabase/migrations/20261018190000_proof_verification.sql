@@ -0,0 +1,407 @@
+-- Proof verification. Completing a task no longer credits XP straight away:
+-- the proof goes into a queue and the owner's squadmates approve or reject it.
+--
+--   * quorum approvals                     -> approved, XP credited
+--   * quorum rejections inside the window  -> rejected (an approved proof has
+--                                             its XP reversed with the reasons)
+--   * window ends while still pending      -> approved unless rejections
+--                                             outnumber approvals
+--
+-- The quorum shrinks to the number of squadmates who could review, so a
+-- player with no squad is approved once the window closes. Approved XP is
+-- dated to the submission so streaks and leaderboard windows don't shift.
+
+alter table public.tasks drop constraint tasks_status_check;
+alter table public.tasks
+  add constraint tasks_status_check
+  check (status in ('open', 'pending', 'completed', 'rejected', 'missed', 'skipped'));
+
+create or replace function public.proof_quorum()
+returns integer
+language sql
+immutable
+as $$ select 2 $$;
+
+create or replace function public.proof_review_window()
+returns interval
+language sql
+immutable
+as $$ select interval '24 hours' $$;
+
+/* ---------- tables ---------- */
+create table public.task_proofs (
+  id              uuid primary key default gen_random_uuid(),
+  task_id         uuid not null references public.tasks (id) on delete cascade,
+  user_id         uuid not null references auth.users (id) on delete cascade,
+  proof_url       text not null,
+  proof_thumb_url text,
+  status          text not null default 'pending'
+                  check (status in ('pending', 'approved', 'rejected')),
+  submitted_at    timestamptz not null default now(),
+  review_ends_at  timestamptz not null,
+  decided_at      timestamptz,
+  decision_reason text,
+  ledger_id       uuid references public.xp_ledger (id) on delete set null
+);
+
+create unique index task_proofs_task_uidx on public.task_proofs (task_id);
+create index task_proofs_user_idx on public.task_proofs (user_id, submitted_at desc);
+create index task_proofs_due_idx on public.task_proofs (review_ends_at) where status = 'pending';
+
+create table public.proof_reviews (
+  proof_id    uuid not null references public.task_proofs (id) on delete cascade,
+  reviewer_id uuid not null references auth.users (id) on delete cascade,
+  verdict     text not null check (verdict in ('approve', 'reject')),
+  reason      text check (reason is null or length(trim(reason)) between 1 and 300),
+  created_at  timestamptz not null default now(),
+  primary key (proof_id, reviewer_id),
+  constraint proof_reviews_reason_required check (verdict = 'approve' or reason is not null)
+);
+
+create index proof_reviews_reviewer_idx on public.proof_reviews (reviewer_id);
+
+-- one reversal per task
+create unique index xp_ledger_proof_rejected_uidx
+  on public.xp_ledger (task_id)
+  where reason = 'proof rejected';
+
+/* ---------- access ---------- */
+-- Does the caller share a squad with p_user_id? Security definer for the same
+-- reason as is_squad_member.
+create or replace function public.shares_squad_with(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from squad_members a
+      join squad_members b on b.squad_id = a.squad_id
+     where a.user_id = auth.uid()
+       and b.user_id = p_user_id
+       and b.user_id <> a.user_id
+  );
+$$;
+
+-- How many distinct squadmates could review p_user_id's proofs.
+create or replace function public.proof_reviewer_count(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(distinct b.user_id)::integer
+    from squad_members a
+    join squad_members b on b.squad_id = a.squad_id
+   where a.user_id = p_user_id
+     and b.user_id <> p_user_id;
+$$;
+
+alter table public.task_proofs enable row level security;
+alter table public.proof_reviews enable row level security;
+
+create policy "owners and squadmates read proofs"
+  on public.task_proofs for select
+  to authenticated
+  using (user_id = auth.uid() or public.shares_squad_with(user_id));
+
+create policy "reviews follow their proof"
+  on public.proof_reviews for select
+  to authenticated
+  using (exists (select 1 from public.task_proofs p where p.id = proof_id));
+
+revoke insert, update, delete on public.task_proofs, public.proof_reviews from anon, authenticated;
+
+/* ---------- decisions ---------- */
+create or replace function public.approve_proof(p public.task_proofs)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  lid uuid;
+begin
+  insert into xp_ledger (user_id, task_id, delta, reason, proof_url, proof_thumb_url, created_at)
+  select p.user_id, t.id, t.xp_assigned, 'task completed', p.proof_url,
+         coalesce(p.proof_thumb_url, p.proof_url), p.submitted_at
+    from tasks t
+   where t.id = p.task_id
+  returning id into lid;
+
+  update tasks set status = 'completed' where id = p.task_id;
+
+  update task_proofs
+     set status = 'approved', decided_at = now(), ledger_id = lid
+   where id = p.id;
+end;
+$$;
+
+-- Rejecting an approved proof takes its XP back as a separate ledger row.
+create or replace function public.reject_proof(p public.task_proofs, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p.ledger_id is not null then
+    insert into xp_ledger (user_id, task_id, delta, reason)
+    select user_id, task_id, -delta, 'proof rejected'
+      from xp_ledger
+     where id = p.ledger_id;
+  end if;
+
+  update tasks set status = 'rejected' where id = p.task_id;
+
+  update task_proofs
+     set status = 'rejected', decided_at = now(), decision_reason = p_reason
+   where id = p.id;
+end;
+$$;
+
+-- Apply the quorum rules to one proof. Safe to call repeatedly.
+create or replace function public.evaluate_proof(p_proof_id uuid)
+returns public.task_proofs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p task_proofs%rowtype;
+  ups integer;
+  downs integer;
+  reasons text;
+  quorum integer;
+  window_open boolean;
+begin
+  select * into p from task_proofs where id = p_proof_id for update;
+  if not found or p.status = 'rejected' then
+    return p;
+  end if;
+
+  select count(*) filter (where verdict = 'approve'),
+         count(*) filter (where verdict = 'reject'),
+         string_agg(reason, '; ' order by created_at) filter (where verdict = 'reject')
+    into ups, downs, reasons
+    from proof_reviews
+   where proof_id = p.id;
+
+  quorum := least(proof_quorum(), proof_reviewer_count(p.user_id));
+  window_open := now() < p.review_ends_at;
+
+  if window_open and quorum > 0 and downs >= quorum then
+    perform reject_proof(p, reasons);
+  elsif p.status = 'pending' and quorum > 0 and ups >= quorum then
+    perform approve_proof(p);
+  elsif p.status = 'pending' and not window_open then
+    if ups >= downs then
+      perform approve_proof(p);
+    else
+      perform reject_proof(p, reasons);
+    end if;
+  end if;
+
+  select * into p from task_proofs where id = p.id;
+  return p;
+end;
+$$;
+
+revoke execute on function public.approve_proof(public.task_proofs) from anon, authenticated, public;
+revoke execute on function public.reject_proof(public.task_proofs, text) from anon, authenticated, public;
+revoke execute on function public.evaluate_proof(uuid) from anon, authenticated, public;
+
+/* ---------- completing ---------- */
+-- Same signature as before, but the task waits in 'pending' and the return
+-- value is the task_proofs id rather than a ledger id.
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_proof_url text,
+  p_proof_thumb_url text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  proof_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if coalesce(trim(p_proof_url), '') = '' then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  update tasks
+     set status = 'pending', completed_at = now()
+   where id = t.id;
+
+  insert into task_proofs (task_id, user_id, proof_url, proof_thumb_url, review_ends_at)
+  values (t.id, t.owner_id, p_proof_url, coalesce(p_proof_thumb_url, p_proof_url),
+          now() + proof_review_window())
+  returning id into proof_id;
+
+  return proof_id;
+end;
+$$;
+
+/* ---------- reviewing ---------- */
+-- Squadmates only, never your own proof. A verdict can be changed while the
+-- window is open; a rejection needs a reason.
+create or replace function public.review_proof(
+  p_proof_id uuid,
+  p_verdict text,
+  p_reason text default null
+)
+returns public.task_proofs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p task_proofs%rowtype;
+  why text := nullif(trim(coalesce(p_reason, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_verdict not in ('approve', 'reject') then
+    raise exception 'unknown verdict %', p_verdict using errcode = '22023';
+  end if;
+  if p_verdict = 'reject' and why is null then
+    raise exception 'a rejection needs a reason' using errcode = '22023';
+  end if;
+
+  select * into p from task_proofs where id = p_proof_id for update;
+  if not found or not (p.user_id = auth.uid() or shares_squad_with(p.user_id)) then
+    raise exception 'proof not found' using errcode = 'P0002';
+  end if;
+  if p.user_id = auth.uid() then
+    raise exception 'you can''t review your own proof' using errcode = '42501';
+  end if;
+  if p.status = 'rejected' or now() >= p.review_ends_at then
+    raise exception 'review window has closed' using errcode = '22023';
+  end if;
+
+  insert into proof_reviews (proof_id, reviewer_id, verdict, reason)
+  values (p.id, auth.uid(), p_verdict, case when p_verdict = 'reject' then why end)
+  on conflict (proof_id, reviewer_id)
+  do update set verdict = excluded.verdict, reason = excluded.reason, created_at = now();
+
+  return evaluate_proof(p.id);
+end;
+$$;
+
+-- Settle every proof whose window has closed. Clients call this when the
+-- task list or review queue loads; returns how many were settled.
+create or replace function public.settle_due_proofs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select id from task_proofs
+     where status = 'pending'
+       and review_ends_at <= now()
+     order by review_ends_at
+     limit 500
+  loop
+    perform evaluate_proof(r.id);
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.review_proof(uuid, text, text) from anon, public;
+revoke execute on function public.settle_due_proofs() from anon, public;
+grant execute on function public.review_proof(uuid, text, text) to authenticated;
+grant execute on function public.settle_due_proofs() to authenticated;
+
+/* ---------- streaks ---------- */
+-- A proof waiting for review keeps its day active; approval then lands a
+-- ledger row dated the same moment.
+create or replace view public.user_activity_days as
+select user_id, day, bool_or(done) as done
+from (
+  select l.user_id,
+         (l.created_at at time zone p.timezone)::date as day,
+         true as done
+    from public.xp_ledger l
+    join public.profiles p on p.id = l.user_id
+   where l.reason = 'task completed'
+  union all
+  select tp.user_id,
+         (tp.submitted_at at time zone p.timezone)::date,
+         true
+    from public.task_proofs tp
+    join public.profiles p on p.id = tp.user_id
+   where tp.status = 'pending'
+  union all
+  select f.user_id, f.day, false
+    from public.streak_freeze_days f
+) d
+group by user_id, day;
+
+/* ---------- queue ---------- */
+create or replace view public.proof_queue as
+select
+  tp.id,
+  tp.task_id,
+  t.title          as task_title,
+  t.xp_assigned,
+  tp.user_id,
+  p.display_name,
+  p.avatar_url,
+  tp.proof_url,
+  tp.proof_thumb_url,
+  tp.status,
+  tp.submitted_at,
+  tp.review_ends_at,
+  tp.decided_at,
+  tp.decision_reason,
+  coalesce(v.approvals, 0)  as approvals,
+  coalesce(v.rejections, 0) as rejections,
+  least(public.proof_quorum(), public.proof_reviewer_count(tp.user_id)) as quorum,
+  mine.verdict     as my_verdict,
+  mine.reason      as my_reason,
+  (tp.user_id <> auth.uid()
+     and tp.status <> 'rejected'
+     and now() < tp.review_ends_at) as can_review
+from public.task_proofs tp
+join public.tasks t on t.id = tp.task_id
+left join public.profiles p on p.id = tp.user_id
+left join lateral (
+  select count(*) filter (where r.verdict = 'approve')::integer as approvals,
+         count(*) filter (where r.verdict = 'reject')::integer  as rejections
+    from public.proof_reviews r
+   where r.proof_id = tp.id
+) v on true
+left join public.proof_reviews mine
+  on mine.proof_id = tp.id and mine.reviewer_id = auth.uid()
+where tp.user_id = auth.uid() or public.shares_squad_with(tp.user_id);
+
+revoke all on public.proof_queue from anon;
+grant select on public.proof_queue to authenticated;
+
+alter publication supabase_realtime add table public.task_proofs;
+alter publication supabase_realtime add table public.proof_reviews;
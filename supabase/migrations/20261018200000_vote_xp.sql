@@ -0,0 +1,290 @@
+-- Votes move XP. Each 👍/👎 on a completed task is worth points_per_vote()
+-- of the post, scaled by a weight fixed when the vote is cast:
+--
+--   * no votes on your own posts, and only completed tasks can be voted on
+--   * a voter's weight halves for every other post by the same author they
+--     voted on in the last 7 days (brigading one player fades out fast)
+--   * a post's vote XP is capped at half its base XP, either direction
+--   * a post whose proof was rejected carries no vote XP
+--
+-- The ledger stays append-only: whenever a post's vote total changes, a
+-- 'vote adjustment' row for the difference is written to the post's owner,
+-- pointing back at the post through source_ledger_id.
+
+alter table public.xp_ledger
+  add column source_ledger_id uuid references public.xp_ledger (id) on delete cascade;
+
+create index xp_ledger_source_idx on public.xp_ledger (source_ledger_id)
+  where source_ledger_id is not null;
+
+alter table public.xp_reactions
+  add column weight real not null default 1 check (weight > 0 and weight <= 1);
+
+create or replace function public.vote_decay_window()
+returns interval
+language sql
+immutable
+as $$ select interval '7 days' $$;
+
+-- Most a post can gain or lose from votes.
+create or replace function public.vote_xp_cap(p_ledger_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ceil(abs(delta) / 2.0)::integer
+    from xp_ledger
+   where id = p_ledger_id;
+$$;
+
+revoke execute on function public.vote_xp_cap(uuid) from anon, public;
+grant execute on function public.vote_xp_cap(uuid) to authenticated;
+
+/* ---------- casting ---------- */
+create or replace function public.check_xp_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post xp_ledger%rowtype;
+  prior integer;
+begin
+  if tg_op = 'UPDATE' then
+    if new.ledger_id <> old.ledger_id or new.voter_id <> old.voter_id then
+      raise exception 'a vote can''t be moved' using errcode = '22023';
+    end if;
+    new.weight := old.weight; -- flipping a vote keeps its weight
+    return new;
+  end if;
+
+  select * into post from xp_ledger where id = new.ledger_id;
+  if not found or post.reason <> 'task completed' then
+    raise exception 'only completed tasks can be voted on' using errcode = '22023';
+  end if;
+  if post.user_id = new.voter_id then
+    raise exception 'you can''t vote on your own post' using errcode = '42501';
+  end if;
+
+  select count(*) into prior
+    from xp_reactions r
+    join xp_ledger l on l.id = r.ledger_id
+   where r.voter_id = new.voter_id
+     and l.user_id = post.user_id
+     and r.ledger_id <> new.ledger_id
+     and r.created_at > now() - vote_decay_window();
+
+  new.weight := power(0.5, prior);
+  return new;
+end;
+$$;
+
+create trigger xp_reactions_check
+  before insert or update on public.xp_reactions
+  for each row execute function public.check_xp_reaction();
+
+/* ---------- settling ---------- */
+-- What the post's votes are worth right now.
+create or replace function public.vote_xp_target(p_ledger_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+           when exists (select 1 from xp_ledger x
+                         where x.task_id = l.task_id and x.reason = 'proof rejected') then 0
+           else greatest(-vote_xp_cap(l.id), least(vote_xp_cap(l.id),
+                  round(points_per_vote(l.id) * coalesce(v.score, 0))::integer))
+         end
+    from xp_ledger l
+    left join lateral (
+      select sum(r.value * r.weight) as score
+        from xp_reactions r
+       where r.ledger_id = l.id
+    ) v on true
+   where l.id = p_ledger_id;
+$$;
+
+-- Write the difference between the target and what has been paid so far.
+create or replace function public.sync_vote_xp(p_ledger_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post xp_ledger%rowtype;
+  paid integer;
+  target integer;
+begin
+  select * into post from xp_ledger where id = p_ledger_id for update;
+  if not found or post.reason <> 'task completed' then
+    return;
+  end if;
+
+  select coalesce(sum(delta), 0) into paid
+    from xp_ledger
+   where source_ledger_id = post.id
+     and reason = 'vote adjustment';
+
+  target := vote_xp_target(post.id);
+  if target <> paid then
+    insert into xp_ledger (user_id, task_id, delta, reason, source_ledger_id)
+    values (post.user_id, post.task_id, target - paid, 'vote adjustment', post.id);
+  end if;
+end;
+$$;
+
+create or replace function public.xp_reactions_sync()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform sync_vote_xp(coalesce(new.ledger_id, old.ledger_id));
+  return null;
+end;
+$$;
+
+create trigger xp_reactions_sync
+  after insert or update or delete on public.xp_reactions
+  for each row execute function public.xp_reactions_sync();
+
+-- A rejected proof takes the post's vote XP with it.
+create or replace function public.xp_ledger_sync_rejected_votes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform sync_vote_xp(l.id)
+     from xp_ledger l
+    where l.task_id = new.task_id
+      and l.reason = 'task completed';
+  return null;
+end;
+$$;
+
+create trigger xp_ledger_sync_rejected_votes
+  after insert on public.xp_ledger
+  for each row
+  when (new.reason = 'proof rejected')
+  execute function public.xp_ledger_sync_rejected_votes();
+
+revoke execute on function public.vote_xp_target(uuid) from anon, authenticated, public;
+revoke execute on function public.sync_vote_xp(uuid) from anon, authenticated, public;
+
+-- pay out votes cast before this migration (at full weight)
+select public.sync_vote_xp(ledger_id)
+  from (select distinct ledger_id from public.xp_reactions) r;
+
+/* ---------- read models ---------- */
+-- The feed shows vote XP on the post itself; adjustment rows are filtered
+-- out client-side.
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.proof_url,
+  l.proof_thumb_url,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+/* ---------- leaderboard: vote share ---------- */
+drop function public.leaderboard(text, uuid, integer, integer, uuid);
+
+-- As before, plus vote_xp: the part of xp that came from votes.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, vote_xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end
+                                           and l.reason = 'vote adjustment'), 0) as cur_vote_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end) as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           s.cur_vote_xp::integer as vote_xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+revoke execute on function public.leaderboard(text, uuid, integer, integer, uuid) from anon, public;
+grant execute on function public.leaderboard(text, uuid, integer, integer, uuid) to authenticated;
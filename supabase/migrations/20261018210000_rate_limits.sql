@@ -0,0 +1,124 @@
+-- Server-side rate limits: one token bucket per user per action.
+--
+--   vote     xp_reactions insert/update/delete   (each change moves XP)
+--   chat     chat_messages insert
+--   proof    uploads to the task-proofs bucket
+--   scoring  create-task, xp-assign, appeal-task, update-series (edge
+--            functions; every call can hit the LLM scorer)
+--
+-- Table writes are checked by triggers for the signed-in caller; the edge
+-- functions spend tokens through consume_rate_limit() with the service role.
+-- An empty bucket raises SQLSTATE PT429, which PostgREST turns into an HTTP
+-- 429; the hint carries the seconds until the next token.
+
+create table public.rate_limit_buckets (
+  user_id     uuid not null references auth.users (id) on delete cascade,
+  action      text not null,
+  tokens      double precision not null,
+  refilled_at timestamptz not null default now(),
+  primary key (user_id, action)
+);
+
+alter table public.rate_limit_buckets enable row level security;
+
+create policy "users read their own buckets"
+  on public.rate_limit_buckets for select
+  to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.rate_limit_buckets from anon, authenticated;
+
+-- Burst size and how long one token takes to come back.
+create or replace function public.rate_limit_rule(p_action text)
+returns table (capacity integer, refill_every interval, label text)
+language sql
+immutable
+as $$
+  select r.capacity, r.refill_every, r.label
+    from (values
+      ('vote',    20, interval '3 seconds', 'votes'),
+      ('chat',    15, interval '4 seconds', 'messages'),
+      ('proof',   10, interval '3 minutes', 'proof uploads'),
+      ('scoring', 10, interval '3 minutes', 'scoring requests')
+    ) as r (action, capacity, refill_every, label)
+   where r.action = p_action;
+$$;
+
+-- Spend one token from p_user_id's bucket for p_action, or raise PT429.
+create or replace function public.consume_rate_limit(p_user_id uuid, p_action text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rule record;
+  b rate_limit_buckets%rowtype;
+  avail double precision;
+  wait integer;
+begin
+  select * into rule from rate_limit_rule(p_action);
+  if not found then
+    raise exception 'unknown rate limit action %', p_action using errcode = '22023';
+  end if;
+
+  insert into rate_limit_buckets (user_id, action, tokens)
+  values (p_user_id, p_action, rule.capacity)
+  on conflict (user_id, action) do nothing;
+
+  select * into b
+    from rate_limit_buckets
+   where user_id = p_user_id and action = p_action
+     for update;
+
+  avail := least(rule.capacity::double precision,
+                 b.tokens + extract(epoch from now() - b.refilled_at)
+                            / extract(epoch from rule.refill_every));
+
+  if avail < 1 then
+    wait := ceil((1 - avail) * extract(epoch from rule.refill_every));
+    raise exception 'Slow down: too many % right now. Try again in %s.', rule.label, wait
+      using errcode = 'PT429', hint = wait::text;
+  end if;
+
+  update rate_limit_buckets
+     set tokens = avail - 1, refilled_at = now()
+   where user_id = p_user_id and action = p_action;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(uuid, text) from anon, authenticated, public;
+grant execute on function public.consume_rate_limit(uuid, text) to service_role;
+
+-- Trigger form: the action is the trigger argument. Writes without a signed-in
+-- caller (service role, seeds) aren't limited.
+create or replace function public.rate_limit_trigger()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null then
+    perform consume_rate_limit(auth.uid(), tg_argv[0]);
+  end if;
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger xp_reactions_rate_limit
+  before insert or update or delete on public.xp_reactions
+  for each row execute function public.rate_limit_trigger('vote');
+
+create trigger chat_messages_rate_limit
+  before insert on public.chat_messages
+  for each row execute function public.rate_limit_trigger('chat');
+
+create trigger task_proofs_upload_rate_limit
+  before insert on storage.objects
+  for each row
+  when (new.bucket_id = 'task-proofs')
+  execute function public.rate_limit_trigger('proof');
@@ -0,0 +1,253 @@
+-- Proof authenticity. The client sends two facts it reads before the photo is
+-- re-encoded (which strips EXIF): a 64-bit difference hash of the image and
+-- the EXIF capture time, if the photo had one.
+--
+--   * same image as one of the user's earlier proofs (distance <= 4 bits)
+--       -> the submission is refused
+--   * close to an earlier proof (<= 10 bits)          -> flagged 'duplicate'
+--   * captured before the task existed, or in the future -> flagged 'capture_time'
+--
+-- Flags don't block anything on their own: they show up as a "suspicious"
+-- badge in the feed and the review queue until a squadmate clears them.
+
+alter table public.task_proofs
+  add column phash            bit(64),
+  add column captured_at      timestamptz,
+  add column duplicate_of     uuid references public.task_proofs (id) on delete set null,
+  add column flags            text[] not null default '{}',
+  add column flags_cleared_by uuid references auth.users (id) on delete set null,
+  add column flags_cleared_at timestamptz;
+
+create index task_proofs_user_phash_idx on public.task_proofs (user_id) where phash is not null;
+
+create or replace function public.proof_duplicate_bits()
+returns integer
+language sql
+immutable
+as $$ select 4 $$;
+
+create or replace function public.proof_similar_bits()
+returns integer
+language sql
+immutable
+as $$ select 10 $$;
+
+-- Camera clocks drift; this much either side of the window is fine.
+create or replace function public.proof_clock_slack()
+returns interval
+language sql
+immutable
+as $$ select interval '10 minutes' $$;
+
+/* ---------- completing ---------- */
+drop function public.complete_task_with_proof(uuid, text, text);
+
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_proof_url text,
+  p_proof_thumb_url text default null,
+  p_phash text default null,         -- 16 hex chars
+  p_captured_at timestamptz default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  hash bit(64);
+  nearest record;
+  dup_id uuid;
+  found_flags text[] := '{}';
+  proof_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if coalesce(trim(p_proof_url), '') = '' then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  if p_phash is not null then
+    if p_phash !~ '^[0-9a-fA-F]{16}$' then
+      raise exception 'invalid image hash' using errcode = '22023';
+    end if;
+    hash := ('x' || p_phash)::bit(64);
+
+    select tp.id, pt.title, bit_count(tp.phash # hash) as distance
+      into nearest
+      from task_proofs tp
+      join tasks pt on pt.id = tp.task_id
+     where tp.user_id = t.owner_id
+       and tp.phash is not null
+     order by bit_count(tp.phash # hash)
+     limit 1;
+
+    if nearest.id is not null and nearest.distance <= proof_duplicate_bits() then
+      raise exception 'this photo was already used as proof for "%"', nearest.title
+        using errcode = '22023';
+    end if;
+    if nearest.id is not null and nearest.distance <= proof_similar_bits() then
+      found_flags := array_append(found_flags, 'duplicate');
+      dup_id := nearest.id;
+    end if;
+  end if;
+
+  if p_captured_at is not null
+     and (p_captured_at < t.created_at - proof_clock_slack()
+          or p_captured_at > now() + proof_clock_slack()) then
+    found_flags := array_append(found_flags, 'capture_time');
+  end if;
+
+  update tasks
+     set status = 'pending', completed_at = now()
+   where id = t.id;
+
+  insert into task_proofs (task_id, user_id, proof_url, proof_thumb_url, review_ends_at,
+                           phash, captured_at, duplicate_of, flags)
+  values (t.id, t.owner_id, p_proof_url, coalesce(p_proof_thumb_url, p_proof_url),
+          now() + proof_review_window(), hash, p_captured_at, dup_id, found_flags)
+  returning id into proof_id;
+
+  return proof_id;
+end;
+$$;
+
+revoke execute on function public.complete_task_with_proof(uuid, text, text, text, timestamptz) from anon, public;
+grant execute on function public.complete_task_with_proof(uuid, text, text, text, timestamptz) to authenticated;
+
+/* ---------- clearing ---------- */
+-- Any squadmate of the owner can vouch for a flagged proof.
+create or replace function public.clear_proof_flags(p_proof_id uuid)
+returns public.task_proofs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p task_proofs%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select * into p from task_proofs where id = p_proof_id for update;
+  if not found or not (p.user_id = auth.uid() or shares_squad_with(p.user_id)) then
+    raise exception 'proof not found' using errcode = 'P0002';
+  end if;
+  if p.user_id = auth.uid() then
+    raise exception 'you can''t clear flags on your own proof' using errcode = '42501';
+  end if;
+
+  update task_proofs
+     set flags_cleared_by = auth.uid(), flags_cleared_at = now()
+   where id = p.id
+     and cardinality(flags) > 0
+     and flags_cleared_at is null
+  returning * into p;
+
+  return p;
+end;
+$$;
+
+revoke execute on function public.clear_proof_flags(uuid) from anon, public;
+grant execute on function public.clear_proof_flags(uuid) to authenticated;
+
+-- Flags that still need a look.
+create or replace function public.open_proof_flags(p public.task_proofs)
+returns text[]
+language sql
+immutable
+as $$
+  select case when p.flags_cleared_at is null then p.flags else '{}'::text[] end;
+$$;
+
+/* ---------- read models ---------- */
+create or replace view public.proof_queue as
+select
+  tp.id,
+  tp.task_id,
+  t.title          as task_title,
+  t.xp_assigned,
+  tp.user_id,
+  p.display_name,
+  p.avatar_url,
+  tp.proof_url,
+  tp.proof_thumb_url,
+  tp.status,
+  tp.submitted_at,
+  tp.review_ends_at,
+  tp.decided_at,
+  tp.decision_reason,
+  coalesce(v.approvals, 0)  as approvals,
+  coalesce(v.rejections, 0) as rejections,
+  least(public.proof_quorum(), public.proof_reviewer_count(tp.user_id)) as quorum,
+  mine.verdict     as my_verdict,
+  mine.reason      as my_reason,
+  (tp.user_id <> auth.uid()
+     and tp.status <> 'rejected'
+     and now() < tp.review_ends_at) as can_review,
+  public.open_proof_flags(tp) as flags,
+  tp.captured_at,
+  dup.proof_thumb_url as duplicate_thumb_url
+from public.task_proofs tp
+join public.tasks t on t.id = tp.task_id
+left join public.profiles p on p.id = tp.user_id
+left join lateral (
+  select count(*) filter (where r.verdict = 'approve')::integer as approvals,
+         count(*) filter (where r.verdict = 'reject')::integer  as rejections
+    from public.proof_reviews r
+   where r.proof_id = tp.id
+) v on true
+left join public.proof_reviews mine
+  on mine.proof_id = tp.id and mine.reviewer_id = auth.uid()
+left join public.task_proofs dup on dup.id = tp.duplicate_of
+where tp.user_id = auth.uid() or public.shares_squad_with(tp.user_id);
+
+-- Feed rows carry the proof behind them so the client can badge flagged posts.
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.proof_url,
+  l.proof_thumb_url,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
@@ -0,0 +1,417 @@
+-- Proofs with several attachments: up to four photos and one short video
+-- clip, plus an optional note from the player.
+--
+-- Photos, their thumbnails and video poster frames stay in the task-proofs
+-- bucket. Clips go to proof-videos, whose size and type limits the storage
+-- API enforces on upload; complete_task_with_proof checks the stored object
+-- again before accepting it.
+--
+-- Media no longer lives on the ledger or on task_proofs: a completion's
+-- ledger row points at its proof (task_proofs.ledger_id) and the proof owns an
+-- ordered list of proof_attachments. Completions from before proof review get
+-- an approved proof backfilled so their photos carry over.
+
+create or replace function public.proof_max_photos()
+returns integer
+language sql
+immutable
+as $$ select 4 $$;
+
+create or replace function public.proof_max_videos()
+returns integer
+language sql
+immutable
+as $$ select 1 $$;
+
+create or replace function public.proof_max_video_bytes()
+returns bigint
+language sql
+immutable
+as $$ select 25::bigint * 1024 * 1024 $$;
+
+create or replace function public.proof_max_video_ms()
+returns integer
+language sql
+immutable
+as $$ select 30000 $$;
+
+/* ---------- storage ---------- */
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('proof-videos', 'proof-videos', true, 25 * 1024 * 1024,
+        array['video/mp4', 'video/quicktime', 'video/webm'])
+on conflict (id) do update
+  set file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+create policy "owners upload proof videos"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'proof-videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "owners delete proof videos"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'proof-videos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- A full submission is up to ten files (four photos + thumbnails, a clip and
+-- its poster), so the proof bucket holds two of them.
+create or replace function public.rate_limit_rule(p_action text)
+returns table (capacity integer, refill_every interval, label text)
+language sql
+immutable
+as $$
+  select r.capacity, r.refill_every, r.label
+    from (values
+      ('vote',    20, interval '3 seconds', 'votes'),
+      ('chat',    15, interval '4 seconds', 'messages'),
+      ('proof',   20, interval '3 minutes', 'proof uploads'),
+      ('scoring', 10, interval '3 minutes', 'scoring requests')
+    ) as r (action, capacity, refill_every, label)
+   where r.action = p_action;
+$$;
+
+drop trigger task_proofs_upload_rate_limit on storage.objects;
+
+create trigger task_proofs_upload_rate_limit
+  before insert on storage.objects
+  for each row
+  when (new.bucket_id in ('task-proofs', 'proof-videos'))
+  execute function public.rate_limit_trigger('proof');
+
+/* ---------- tables ---------- */
+create table public.proof_attachments (
+  id          uuid primary key default gen_random_uuid(),
+  proof_id    uuid not null references public.task_proofs (id) on delete cascade,
+  position    smallint not null,
+  kind        text not null check (kind in ('photo', 'video')),
+  url         text not null,
+  thumb_url   text,              -- photo thumbnail, or a video's poster frame
+  bytes       bigint,            -- videos, as stored
+  duration_ms integer,           -- videos
+  phash       bit(64),           -- photos
+  captured_at timestamptz,       -- photos, from EXIF
+  created_at  timestamptz not null default now(),
+  unique (proof_id, position)
+);
+
+alter table public.task_proofs
+  add column note text check (note is null or length(trim(note)) between 1 and 500);
+
+alter table public.proof_attachments enable row level security;
+
+create policy "attachments follow their proof"
+  on public.proof_attachments for select
+  to authenticated
+  using (exists (select 1 from public.task_proofs p where p.id = proof_id));
+
+revoke insert, update, delete on public.proof_attachments from anon, authenticated;
+
+/* ---------- backfill ---------- */
+drop view public.squad_xp_ledger_view;
+drop view public.xp_ledger_view;
+drop view public.proof_queue;
+
+-- completions credited before proofs were reviewed
+insert into public.task_proofs (task_id, user_id, proof_url, proof_thumb_url, status,
+                                submitted_at, review_ends_at, decided_at, ledger_id)
+select l.task_id, l.user_id, l.proof_url, coalesce(l.proof_thumb_url, l.proof_url), 'approved',
+       l.created_at, l.created_at, l.created_at, l.id
+  from public.xp_ledger l
+ where l.reason = 'task completed'
+   and l.task_id is not null
+   and l.proof_url is not null
+   and not exists (select 1 from public.task_proofs tp where tp.ledger_id = l.id)
+on conflict (task_id) do nothing;
+
+insert into public.proof_attachments (proof_id, position, kind, url, thumb_url, phash, captured_at, created_at)
+select tp.id, 0, 'photo', tp.proof_url, coalesce(tp.proof_thumb_url, tp.proof_url),
+       tp.phash, tp.captured_at, tp.submitted_at
+  from public.task_proofs tp;
+
+alter table public.xp_ledger
+  drop column proof_url,
+  drop column proof_thumb_url;
+
+alter table public.task_proofs
+  drop column proof_url,
+  drop column proof_thumb_url,
+  drop column phash,
+  drop column captured_at;
+
+/* ---------- decisions ---------- */
+create or replace function public.approve_proof(p public.task_proofs)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  lid uuid;
+begin
+  insert into xp_ledger (user_id, task_id, delta, reason, created_at)
+  select p.user_id, t.id, t.xp_assigned, 'task completed', p.submitted_at
+    from tasks t
+   where t.id = p.task_id
+  returning id into lid;
+
+  update tasks set status = 'completed' where id = p.task_id;
+
+  update task_proofs
+     set status = 'approved', decided_at = now(), ledger_id = lid
+   where id = p.id;
+end;
+$$;
+
+/* ---------- completing ---------- */
+drop function public.complete_task_with_proof(uuid, text, text, text, timestamptz);
+
+-- p_attachments, in display order:
+--   [{ "kind": "photo", "url", "thumb_url", "phash", "captured_at" },
+--    { "kind": "video", "url", "thumb_url", "duration_ms" }]
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_attachments jsonb,
+  p_note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  a jsonb;
+  pos integer := 0;
+  photos integer;
+  videos integer;
+  hash bit(64);
+  taken timestamptz;
+  size bigint;
+  nearest record;
+  dup_id uuid;
+  found_flags text[] := '{}';
+  new_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if jsonb_typeof(p_attachments) is distinct from 'array' or jsonb_array_length(p_attachments) = 0 then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  select count(*) filter (where x->>'kind' = 'photo'),
+         count(*) filter (where x->>'kind' = 'video')
+    into photos, videos
+    from jsonb_array_elements(p_attachments) as e (x);
+
+  if photos + videos <> jsonb_array_length(p_attachments) then
+    raise exception 'attachments must be photos or videos' using errcode = '22023';
+  end if;
+  if photos > proof_max_photos() then
+    raise exception 'a proof can have at most % photos', proof_max_photos() using errcode = '22023';
+  end if;
+  if videos > proof_max_videos() then
+    raise exception 'a proof can have at most % video', proof_max_videos() using errcode = '22023';
+  end if;
+
+  update tasks
+     set status = 'pending', completed_at = now()
+   where id = t.id;
+
+  insert into task_proofs (task_id, user_id, review_ends_at, note)
+  values (t.id, t.owner_id, now() + proof_review_window(), nullif(trim(p_note), ''))
+  returning id into new_id;
+
+  for a in
+    select x from jsonb_array_elements(p_attachments) with ordinality as e (x, n) order by n
+  loop
+    if coalesce(trim(a->>'url'), '') = '' then
+      raise exception 'attachment url is required' using errcode = '22023';
+    end if;
+    hash := null;
+    taken := null;
+    size := null;
+
+    if a->>'kind' = 'video' then
+      -- trust the stored object, not the client, for the size
+      select (o.metadata->>'size')::bigint into size
+        from storage.objects o
+       where o.bucket_id = 'proof-videos'
+         and o.name = substring(a->>'url' from '/proof-videos/(.+)$')
+         and (storage.foldername(o.name))[1] = t.owner_id::text;
+
+      if size is null then
+        raise exception 'video upload not found' using errcode = 'P0002';
+      end if;
+      if size > proof_max_video_bytes() then
+        raise exception 'videos can be at most % MB', proof_max_video_bytes() / (1024 * 1024)
+          using errcode = '22023';
+      end if;
+      if coalesce((a->>'duration_ms')::integer, 0) > proof_max_video_ms() then
+        raise exception 'videos can be at most % seconds', proof_max_video_ms() / 1000
+          using errcode = '22023';
+      end if;
+    else
+      if a->>'phash' is not null then
+        if a->>'phash' !~ '^[0-9a-fA-F]{16}$' then
+          raise exception 'invalid image hash' using errcode = '22023';
+        end if;
+        hash := ('x' || (a->>'phash'))::bit(64);
+
+        select tp.id, pt.title, bit_count(pa.phash # hash) as distance
+          into nearest
+          from proof_attachments pa
+          join task_proofs tp on tp.id = pa.proof_id
+          join tasks pt on pt.id = tp.task_id
+         where tp.user_id = t.owner_id
+           and tp.id <> new_id
+           and pa.phash is not null
+         order by bit_count(pa.phash # hash)
+         limit 1;
+
+        if nearest.id is not null and nearest.distance <= proof_duplicate_bits() then
+          raise exception 'this photo was already used as proof for "%"', nearest.title
+            using errcode = '22023';
+        end if;
+        if nearest.id is not null and nearest.distance <= proof_similar_bits() and dup_id is null then
+          found_flags := array_append(found_flags, 'duplicate');
+          dup_id := nearest.id;
+        end if;
+      end if;
+
+      taken := (a->>'captured_at')::timestamptz;
+      if taken is not null
+         and (taken < t.created_at - proof_clock_slack() or taken > now() + proof_clock_slack())
+         and not 'capture_time' = any (found_flags) then
+        found_flags := array_append(found_flags, 'capture_time');
+      end if;
+    end if;
+
+    insert into proof_attachments (proof_id, position, kind, url, thumb_url, bytes, duration_ms, phash, captured_at)
+    values (new_id, pos, a->>'kind', a->>'url', nullif(a->>'thumb_url', ''), size,
+            (a->>'duration_ms')::integer, hash, taken);
+    pos := pos + 1;
+  end loop;
+
+  update task_proofs
+     set flags = found_flags, duplicate_of = dup_id
+   where id = new_id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.complete_task_with_proof(uuid, jsonb, text) from anon, public;
+grant execute on function public.complete_task_with_proof(uuid, jsonb, text) to authenticated;
+
+/* ---------- read models ---------- */
+create or replace view public.proof_queue as
+select
+  tp.id,
+  tp.task_id,
+  t.title          as task_title,
+  t.xp_assigned,
+  tp.user_id,
+  p.display_name,
+  p.avatar_url,
+  coalesce(att.attachments, '[]') as attachments,
+  tp.note,
+  tp.status,
+  tp.submitted_at,
+  tp.review_ends_at,
+  tp.decided_at,
+  tp.decision_reason,
+  coalesce(v.approvals, 0)  as approvals,
+  coalesce(v.rejections, 0) as rejections,
+  least(public.proof_quorum(), public.proof_reviewer_count(tp.user_id)) as quorum,
+  mine.verdict     as my_verdict,
+  mine.reason      as my_reason,
+  (tp.user_id <> auth.uid()
+     and tp.status <> 'rejected'
+     and now() < tp.review_ends_at) as can_review,
+  public.open_proof_flags(tp) as flags,
+  dup.thumb_url    as duplicate_thumb_url
+from public.task_proofs tp
+join public.tasks t on t.id = tp.task_id
+left join public.profiles p on p.id = tp.user_id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms, 'captured_at', a.captured_at
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join lateral (
+  select count(*) filter (where r.verdict = 'approve')::integer as approvals,
+         count(*) filter (where r.verdict = 'reject')::integer  as rejections
+    from public.proof_reviews r
+   where r.proof_id = tp.id
+) v on true
+left join public.proof_reviews mine
+  on mine.proof_id = tp.id and mine.reviewer_id = auth.uid()
+left join lateral (
+  select a.thumb_url
+    from public.proof_attachments a
+   where a.proof_id = tp.duplicate_of
+   order by a.position
+   limit 1
+) dup on true
+where tp.user_id = auth.uid() or public.shares_squad_with(tp.user_id);
+
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+revoke all on public.proof_queue, public.xp_ledger_view, public.squad_xp_ledger_view from anon;
+grant select on public.proof_queue, public.xp_ledger_view, public.squad_xp_ledger_view to authenticated;
@@ -0,0 +1,427 @@
+-- Owners can fix their tasks after the fact, through RPCs only:
+--
+--   * edit        title/description of an open task; re-scored by xp-assign,
+--                 which applies it with apply_task_edit
+--   * reschedule  open tasks; moving a due date later is a postponement and
+--                 each task gets task_max_postpones() of them
+--   * delete      open, one-off tasks with no XP history (recurring ones are
+--                 skipped instead, or the generator would bring them back)
+--   * uncomplete  a pending or approved completion goes back to open: an
+--                 approved one has its XP (and vote XP) reversed, and the
+--                 proof is deleted
+--
+-- Every change lands in task_changes with before/after snapshots. Rows keep
+-- their task_id after the task is deleted.
+
+alter table public.tasks
+  add column postpone_count integer not null default 0;
+
+create or replace function public.task_max_postpones()
+returns integer
+language sql
+immutable
+as $$ select 2 $$;
+
+-- owners no longer write tasks directly
+revoke update (title, description, due_at) on public.tasks from authenticated;
+revoke delete on public.tasks from anon, authenticated;
+drop policy "owners update their tasks" on public.tasks;
+drop policy "owners delete their tasks" on public.tasks;
+
+/* ---------- audit ---------- */
+create table public.task_changes (
+  id         uuid primary key default gen_random_uuid(),
+  task_id    uuid not null,
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  action     text not null check (action in ('edit', 'reschedule', 'delete', 'uncomplete')),
+  before     jsonb not null,
+  after      jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index task_changes_task_idx on public.task_changes (task_id, created_at desc);
+create index task_changes_user_idx on public.task_changes (user_id, created_at desc);
+
+alter table public.task_changes enable row level security;
+
+create policy "owners read their task changes"
+  on public.task_changes for select
+  to authenticated
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on public.task_changes from anon, authenticated;
+
+/* ---------- undone completions ---------- */
+-- An undone completion keeps its 'task completed' row; the reversal points
+-- back at it through source_ledger_id. A task that is completed again pays
+-- out again (one proof per task keeps it to one live payout at a time).
+drop index public.xp_ledger_task_completed_uidx;
+
+create index xp_ledger_task_completed_idx
+  on public.xp_ledger (task_id)
+  where reason = 'task completed';
+
+create unique index xp_ledger_completion_undone_uidx
+  on public.xp_ledger (source_ledger_id)
+  where reason = 'completion undone';
+
+create or replace function public.completion_undone(p_ledger_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from xp_ledger
+     where source_ledger_id = p_ledger_id
+       and reason = 'completion undone'
+  );
+$$;
+
+revoke execute on function public.completion_undone(uuid) from anon, public;
+grant execute on function public.completion_undone(uuid) to authenticated;
+
+-- Undone posts carry no vote XP and take no new votes.
+create or replace function public.vote_xp_target(p_ledger_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+           when exists (select 1 from xp_ledger x
+                         where x.task_id = l.task_id and x.reason = 'proof rejected') then 0
+           when completion_undone(l.id) then 0
+           else greatest(-vote_xp_cap(l.id), least(vote_xp_cap(l.id),
+                  round(points_per_vote(l.id) * coalesce(v.score, 0))::integer))
+         end
+    from xp_ledger l
+    left join lateral (
+      select sum(r.value * r.weight) as score
+        from xp_reactions r
+       where r.ledger_id = l.id
+    ) v on true
+   where l.id = p_ledger_id;
+$$;
+
+create or replace function public.check_xp_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post xp_ledger%rowtype;
+  prior integer;
+begin
+  if tg_op = 'UPDATE' then
+    if new.ledger_id <> old.ledger_id or new.voter_id <> old.voter_id then
+      raise exception 'a vote can''t be moved' using errcode = '22023';
+    end if;
+    new.weight := old.weight; -- flipping a vote keeps its weight
+    return new;
+  end if;
+
+  select * into post from xp_ledger where id = new.ledger_id;
+  if not found or post.reason <> 'task completed' or completion_undone(post.id) then
+    raise exception 'only completed tasks can be voted on' using errcode = '22023';
+  end if;
+  if post.user_id = new.voter_id then
+    raise exception 'you can''t vote on your own post' using errcode = '42501';
+  end if;
+
+  select count(*) into prior
+    from xp_reactions r
+    join xp_ledger l on l.id = r.ledger_id
+   where r.voter_id = new.voter_id
+     and l.user_id = post.user_id
+     and r.ledger_id <> new.ledger_id
+     and r.created_at > now() - vote_decay_window();
+
+  new.weight := power(0.5, prior);
+  return new;
+end;
+$$;
+
+-- Undone completions don't keep a streak day.
+create or replace view public.user_activity_days as
+select user_id, day, bool_or(done) as done
+from (
+  select l.user_id,
+         (l.created_at at time zone p.timezone)::date as day,
+         true as done
+    from public.xp_ledger l
+    join public.profiles p on p.id = l.user_id
+   where l.reason = 'task completed'
+     and not public.completion_undone(l.id)
+  union all
+  select tp.user_id,
+         (tp.submitted_at at time zone p.timezone)::date,
+         true
+    from public.task_proofs tp
+    join public.profiles p on p.id = tp.user_id
+   where tp.status = 'pending'
+  union all
+  select f.user_id, f.day, false
+    from public.streak_freeze_days f
+) d
+group by user_id, day;
+
+/* ---------- edit ---------- */
+-- Applied by xp-assign after re-scoring the new wording.
+create or replace function public.apply_task_edit(
+  p_task_id     uuid,
+  p_user_id     uuid,
+  p_title       text,
+  p_description text,
+  p_xp          integer,
+  p_rationale   text,
+  p_scorer      text
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  updated tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be edited' using errcode = '22023';
+  end if;
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'title is required' using errcode = '22023';
+  end if;
+
+  update tasks
+     set title        = trim(p_title),
+         description  = nullif(trim(p_description), ''),
+         xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer
+   where id = t.id
+  returning * into updated;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, p_user_id, 'edit',
+          jsonb_build_object('title', t.title, 'description', t.description, 'xp_assigned', t.xp_assigned),
+          jsonb_build_object('title', updated.title, 'description', updated.description,
+                             'xp_assigned', updated.xp_assigned));
+
+  return updated;
+end;
+$$;
+
+revoke execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text)
+  from anon, authenticated, public;
+grant execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text)
+  to service_role;
+
+/* ---------- reschedule ---------- */
+create or replace function public.reschedule_task(p_task_id uuid, p_due_at timestamptz)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  updated tasks%rowtype;
+  postpone boolean;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be rescheduled' using errcode = '22023';
+  end if;
+  if p_due_at is null or p_due_at <= now() then
+    raise exception 'the new due date must be in the future' using errcode = '22023';
+  end if;
+
+  postpone := p_due_at > t.due_at;
+  if postpone and t.postpone_count >= task_max_postpones() then
+    raise exception 'this task has been postponed % times already', task_max_postpones()
+      using errcode = '22023';
+  end if;
+
+  update tasks
+     set due_at = p_due_at,
+         postpone_count = postpone_count + case when postpone then 1 else 0 end
+   where id = t.id
+  returning * into updated;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, t.owner_id, 'reschedule',
+          jsonb_build_object('due_at', t.due_at, 'postpone_count', t.postpone_count),
+          jsonb_build_object('due_at', updated.due_at, 'postpone_count', updated.postpone_count));
+
+  return updated;
+end;
+$$;
+
+revoke execute on function public.reschedule_task(uuid, timestamptz) from anon, public;
+grant execute on function public.reschedule_task(uuid, timestamptz) to authenticated;
+
+/* ---------- delete ---------- */
+create or replace function public.delete_task(p_task_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be deleted' using errcode = '22023';
+  end if;
+  if t.series_id is not null then
+    raise exception 'recurring tasks can be skipped, not deleted' using errcode = '22023';
+  end if;
+  if exists (select 1 from xp_ledger where task_id = t.id) then
+    raise exception 'tasks with XP history can''t be deleted' using errcode = '22023';
+  end if;
+
+  insert into task_changes (task_id, user_id, action, before)
+  values (t.id, t.owner_id, 'delete', to_jsonb(t));
+
+  delete from tasks where id = t.id;
+end;
+$$;
+
+revoke execute on function public.delete_task(uuid) from anon, public;
+grant execute on function public.delete_task(uuid) to authenticated;
+
+/* ---------- uncomplete ---------- */
+-- Returns the deleted proof's media so the client can remove the uploads.
+create or replace function public.uncomplete_task(p_task_id uuid)
+returns table (url text, thumb_url text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  p task_proofs%rowtype;
+  post xp_ledger%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status not in ('pending', 'completed') then
+    raise exception 'only pending or completed tasks can be undone' using errcode = '22023';
+  end if;
+
+  select * into p from task_proofs where task_id = t.id for update;
+  if p.ledger_id is not null then
+    select * into post from xp_ledger where id = p.ledger_id;
+  end if;
+
+  if post.id is not null then
+    insert into xp_ledger (user_id, task_id, delta, reason, source_ledger_id)
+    values (post.user_id, post.task_id, -post.delta, 'completion undone', post.id);
+    perform sync_vote_xp(post.id);
+  end if;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, t.owner_id, 'uncomplete',
+          jsonb_build_object('status', t.status, 'completed_at', t.completed_at,
+                             'proof_id', p.id, 'ledger_id', post.id, 'xp', post.delta),
+          jsonb_build_object('status', 'open'));
+
+  update tasks
+     set status = 'open', completed_at = null
+   where id = t.id;
+
+  if p.id is not null then
+    return query
+      select a.url, a.thumb_url from proof_attachments a where a.proof_id = p.id;
+    delete from task_proofs where id = p.id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.uncomplete_task(uuid) from anon, public;
+grant execute on function public.uncomplete_task(uuid) to authenticated;
+
+/* ---------- read models ---------- */
+-- Feed posts say whether they were undone; the reversal rows themselves are
+-- filtered out client-side.
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone';
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
@@ -0,0 +1,126 @@
+-- Missed tasks are graded on a schedule instead of only when their owner
+-- opens the Tasks page. Every five minutes pg_cron:
+--
+--   * marks open tasks missed once they are missed_task_grace() past due,
+--     for every user, with a 'task missed' ledger row of
+--     missed_task_penalty(xp) -- the one formula the client mirrors
+--   * settles proofs whose review window has closed
+--   * closes out finished streak days
+--
+-- Tasks worth zero or negative XP (habits you're trying to break) still lapse
+-- to missed, but cost nothing: not doing them was the point.
+-- penalize_my_overdue() stays so the Tasks page is current the moment it
+-- opens; it applies the same rule to the caller only.
+
+create extension if not exists pg_cron;
+
+create or replace function public.missed_task_grace()
+returns interval
+language sql
+immutable
+as $$ select interval '1 hour' $$;
+
+-- Ledger delta for missing a task worth p_xp: half of it, rounded up.
+create or replace function public.missed_task_penalty(p_xp integer)
+returns integer
+language sql
+immutable
+as $$ select case when p_xp > 0 then -ceil(p_xp / 2.0)::integer else 0 end $$;
+
+grant execute on function public.missed_task_grace() to authenticated;
+grant execute on function public.missed_task_penalty(integer) to authenticated;
+
+-- What the task actually cost when it was graded (0 = no penalty).
+alter table public.tasks
+  add column penalty_xp integer;
+
+update public.tasks t
+   set penalty_xp = coalesce(
+         (select l.delta from public.xp_ledger l where l.task_id = t.id and l.reason = 'task missed' limit 1),
+         0)
+ where t.status = 'missed';
+
+-- a task is only penalized once
+create unique index xp_ledger_task_missed_uidx
+  on public.xp_ledger (task_id)
+  where reason = 'task missed';
+
+/* ---------- grading ---------- */
+-- Grade overdue tasks for one user, or for everyone when p_user_id is null.
+-- Returns the number of tasks marked missed.
+create or replace function public.grade_overdue_tasks(p_user_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  with missed as (
+    update tasks
+       set status = 'missed',
+           penalty_xp = missed_task_penalty(xp_assigned)
+     where status = 'open'
+       and due_at < now() - missed_task_grace()
+       and (p_user_id is null or owner_id = p_user_id)
+    returning id, owner_id, penalty_xp
+  ), penalties as (
+    insert into xp_ledger (user_id, task_id, delta, reason)
+    select owner_id, id, penalty_xp, 'task missed'
+      from missed
+     where penalty_xp < 0
+    on conflict do nothing
+    returning 1
+  )
+  select count(*) into n from missed;
+
+  return n;
+end;
+$$;
+
+revoke execute on function public.grade_overdue_tasks(uuid) from anon, authenticated, public;
+grant execute on function public.grade_overdue_tasks(uuid) to service_role;
+
+create or replace function public.penalize_my_overdue()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  n := grade_overdue_tasks(auth.uid());
+  perform close_streak_days(auth.uid());
+  return n;
+end;
+$$;
+
+/* ---------- schedule ---------- */
+-- The cron entry point: everything that used to wait for someone to open the app.
+create or replace function public.run_scheduled_grading()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform grade_overdue_tasks(null);
+  perform settle_due_proofs();
+
+  -- users whose local yesterday hasn't been closed yet
+  perform close_streak_days(p.id)
+     from profiles p
+    where p.streak_checked_through is null
+       or p.streak_checked_through < (now() at time zone p.timezone)::date - 1;
+end;
+$$;
+
+revoke execute on function public.run_scheduled_grading() from anon, authenticated, public;
+
+select cron.schedule('grade-overdue-tasks', '*/5 * * * *', 'select public.run_scheduled_grading()');
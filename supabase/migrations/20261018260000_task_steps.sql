@@ -0,0 +1,746 @@
+-- Checklists. A task can be split into up to task_max_steps() steps, each
+-- worth an even share of xp_assigned (task_step_xp). Steps are checked off
+-- one at a time with their own proof, which goes through the same squad
+-- review as a whole-task proof:
+--
+--   * an approved step posts a 'task completed' row for its share, so votes,
+--     streaks and the feed treat it like any other completion
+--   * the task turns pending once every step has proof, then completed (or
+--     rejected if every step was turned down)
+--   * a task graded missed only pays the penalty on steps nobody submitted
+--     proof for (task_unproven_xp)
+--
+-- A checklist can be changed until the first step has proof; after that the
+-- task's score is locked too, so the shares already paid out stay right.
+-- Rejection reversals now point at the post they reverse (source_ledger_id),
+-- since a task can have more than one.
+
+create or replace function public.task_max_steps()
+returns integer
+language sql
+immutable
+as $$ select 10 $$;
+
+-- Share of p_xp earned by the step at p_position (0-based) of p_steps; the
+-- shares add up to p_xp, earlier steps carrying the remainder.
+create or replace function public.task_step_xp(p_xp integer, p_steps integer, p_position integer)
+returns integer
+language sql
+immutable
+as $$
+  select (sign(p_xp) * (abs(p_xp) / p_steps
+                        + case when p_position < abs(p_xp) % p_steps then 1 else 0 end))::integer
+$$;
+
+grant execute on function public.task_max_steps() to authenticated;
+grant execute on function public.task_step_xp(integer, integer, integer) to authenticated;
+
+/* ---------- tables ---------- */
+create table public.task_steps (
+  id         uuid primary key default gen_random_uuid(),
+  task_id    uuid not null references public.tasks (id) on delete cascade,
+  position   smallint not null,
+  title      text not null check (length(trim(title)) between 1 and 200),
+  created_at timestamptz not null default now(),
+  unique (task_id, position)
+);
+
+alter table public.task_steps enable row level security;
+
+create policy "steps follow their task"
+  on public.task_steps for select
+  to authenticated
+  using (exists (select 1 from public.tasks t where t.id = task_id));
+
+revoke insert, update, delete on public.task_steps from anon, authenticated;
+
+-- one proof per task, or one per step
+alter table public.task_proofs
+  add column step_id uuid references public.task_steps (id) on delete cascade;
+
+drop index public.task_proofs_task_uidx;
+create unique index task_proofs_task_uidx on public.task_proofs (task_id) where step_id is null;
+create unique index task_proofs_step_uidx on public.task_proofs (step_id) where step_id is not null;
+
+alter table public.task_changes drop constraint task_changes_action_check;
+alter table public.task_changes
+  add constraint task_changes_action_check
+  check (action in ('edit', 'reschedule', 'delete', 'uncomplete', 'steps'));
+
+/* ---------- rejections per post ---------- */
+update public.xp_ledger x
+   set source_ledger_id = tp.ledger_id
+  from public.task_proofs tp
+ where x.reason = 'proof rejected'
+   and x.source_ledger_id is null
+   and tp.task_id = x.task_id
+   and tp.ledger_id is not null;
+
+drop index public.xp_ledger_proof_rejected_uidx;
+create unique index xp_ledger_proof_rejected_uidx
+  on public.xp_ledger (source_ledger_id)
+  where reason = 'proof rejected';
+
+create or replace function public.completion_rejected(p_ledger_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from xp_ledger
+     where source_ledger_id = p_ledger_id
+       and reason = 'proof rejected'
+  );
+$$;
+
+revoke execute on function public.completion_rejected(uuid) from anon, public;
+grant execute on function public.completion_rejected(uuid) to authenticated;
+
+create or replace function public.vote_xp_target(p_ledger_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+           when completion_rejected(l.id) then 0
+           when completion_undone(l.id) then 0
+           else greatest(-vote_xp_cap(l.id), least(vote_xp_cap(l.id),
+                  round(points_per_vote(l.id) * coalesce(v.score, 0))::integer))
+         end
+    from xp_ledger l
+    left join lateral (
+      select sum(r.value * r.weight) as score
+        from xp_reactions r
+       where r.ledger_id = l.id
+    ) v on true
+   where l.id = p_ledger_id;
+$$;
+
+create or replace function public.xp_ledger_sync_rejected_votes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform sync_vote_xp(new.source_ledger_id);
+  return null;
+end;
+$$;
+
+/* ---------- progress ---------- */
+-- XP of the part of a task nobody has submitted proof for: the whole task, or
+-- the shares of its steps without proof.
+create or replace function public.task_unproven_xp(p_task_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+           when n.steps = 0 then t.xp_assigned
+           else coalesce((
+             select sum(task_step_xp(t.xp_assigned, n.steps, s.position))
+               from task_steps s
+              where s.task_id = t.id
+                and not exists (select 1 from task_proofs tp where tp.step_id = s.id)
+           ), 0)::integer
+         end
+    from tasks t
+   cross join lateral (
+     select count(*)::integer as steps from task_steps s where s.task_id = t.id
+   ) n
+   where t.id = p_task_id;
+$$;
+
+revoke execute on function public.task_unproven_xp(uuid) from anon, public;
+grant execute on function public.task_unproven_xp(uuid) to authenticated;
+
+-- Move a checklist task along once every step has proof: pending while any
+-- is still in review, then completed if at least one was approved. Missed
+-- tasks stay missed.
+create or replace function public.settle_task_steps(p_task_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  steps integer;
+  todo integer;
+  waiting integer;
+  approved integer;
+begin
+  select count(*),
+         count(*) filter (where tp.id is null),
+         count(*) filter (where tp.status = 'pending'),
+         count(*) filter (where tp.status = 'approved')
+    into steps, todo, waiting, approved
+    from task_steps s
+    left join task_proofs tp on tp.step_id = s.id
+   where s.task_id = p_task_id;
+
+  if steps = 0 or todo > 0 then
+    return;
+  end if;
+
+  update tasks
+     set status = case when waiting > 0 then 'pending'
+                       when approved > 0 then 'completed'
+                       else 'rejected' end
+   where id = p_task_id
+     and status in ('open', 'pending', 'completed', 'rejected');
+end;
+$$;
+
+revoke execute on function public.settle_task_steps(uuid) from anon, authenticated, public;
+
+-- re-scoring would change shares that were already paid out
+create or replace function public.lock_stepped_task_xp()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.xp_assigned is distinct from old.xp_assigned
+     and exists (select 1 from task_proofs tp where tp.task_id = new.id and tp.step_id is not null) then
+    raise exception 'a task can''t be re-scored once its steps have proof' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_lock_stepped_xp
+  before update of xp_assigned on public.tasks
+  for each row
+  execute function public.lock_stepped_task_xp();
+
+/* ---------- editing ---------- */
+-- Replaces the whole checklist; an empty array removes it.
+create or replace function public.set_task_steps(p_task_id uuid, p_titles text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  titles text[];
+  old_titles text[];
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can have their steps changed' using errcode = '22023';
+  end if;
+  if exists (select 1 from task_proofs where task_id = t.id) then
+    raise exception 'steps can''t change once one has proof' using errcode = '22023';
+  end if;
+
+  select coalesce(array_agg(trim(x) order by n), '{}')
+    into titles
+    from unnest(coalesce(p_titles, '{}')) with ordinality as u (x, n);
+
+  if cardinality(titles) > task_max_steps() then
+    raise exception 'a task can have at most % steps', task_max_steps() using errcode = '22023';
+  end if;
+  if exists (select 1 from unnest(titles) x where coalesce(x, '') = '' or length(x) > 200) then
+    raise exception 'step titles must be 1-200 characters' using errcode = '22023';
+  end if;
+  if cardinality(titles) > 0 and t.xp_assigned <= 0 then
+    raise exception 'only tasks worth XP can be split into steps' using errcode = '22023';
+  end if;
+
+  select coalesce(array_agg(title order by position), '{}')
+    into old_titles
+    from task_steps
+   where task_id = t.id;
+
+  if old_titles = titles then
+    return;
+  end if;
+
+  delete from task_steps where task_id = t.id;
+  insert into task_steps (task_id, position, title)
+  select t.id, n - 1, x
+    from unnest(titles) with ordinality as u (x, n);
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, t.owner_id, 'steps',
+          jsonb_build_object('steps', to_jsonb(old_titles)),
+          jsonb_build_object('steps', to_jsonb(titles)));
+end;
+$$;
+
+revoke execute on function public.set_task_steps(uuid, text[]) from anon, public;
+grant execute on function public.set_task_steps(uuid, text[]) to authenticated;
+
+/* ---------- decisions ---------- */
+create or replace function public.approve_proof(p public.task_proofs)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  lid uuid;
+begin
+  insert into xp_ledger (user_id, task_id, delta, reason, created_at)
+  select p.user_id, t.id,
+         case when s.id is null then t.xp_assigned
+              else task_step_xp(t.xp_assigned,
+                                (select count(*)::integer from task_steps x where x.task_id = t.id),
+                                s.position)
+         end,
+         'task completed', p.submitted_at
+    from tasks t
+    left join task_steps s on s.id = p.step_id
+   where t.id = p.task_id
+  returning id into lid;
+
+  update task_proofs
+     set status = 'approved', decided_at = now(), ledger_id = lid
+   where id = p.id;
+
+  if p.step_id is null then
+    update tasks set status = 'completed' where id = p.task_id;
+  else
+    perform settle_task_steps(p.task_id);
+  end if;
+end;
+$$;
+
+-- Rejecting an approved proof takes its XP back as a separate ledger row.
+create or replace function public.reject_proof(p public.task_proofs, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p.ledger_id is not null then
+    insert into xp_ledger (user_id, task_id, delta, reason, source_ledger_id)
+    select user_id, task_id, -delta, 'proof rejected', id
+      from xp_ledger
+     where id = p.ledger_id;
+  end if;
+
+  update task_proofs
+     set status = 'rejected', decided_at = now(), decision_reason = p_reason
+   where id = p.id;
+
+  if p.step_id is null then
+    update tasks set status = 'rejected' where id = p.task_id;
+  else
+    perform settle_task_steps(p.task_id);
+  end if;
+end;
+$$;
+
+/* ---------- completing ---------- */
+drop function public.complete_task_with_proof(uuid, jsonb, text);
+
+-- With p_step_id the proof checks off that step; tasks with a checklist can
+-- only be completed step by step.
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_attachments jsonb,
+  p_note text default null,
+  p_step_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  a jsonb;
+  pos integer := 0;
+  photos integer;
+  videos integer;
+  hash bit(64);
+  taken timestamptz;
+  size bigint;
+  nearest record;
+  dup_id uuid;
+  found_flags text[] := '{}';
+  new_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if p_step_id is null then
+    if exists (select 1 from task_steps where task_id = t.id) then
+      raise exception 'this task is checked off step by step' using errcode = '22023';
+    end if;
+  else
+    if not exists (select 1 from task_steps where id = p_step_id and task_id = t.id) then
+      raise exception 'step not found' using errcode = 'P0002';
+    end if;
+    if exists (select 1 from task_proofs where step_id = p_step_id) then
+      raise exception 'this step already has proof' using errcode = '22023';
+    end if;
+  end if;
+  if jsonb_typeof(p_attachments) is distinct from 'array' or jsonb_array_length(p_attachments) = 0 then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  select count(*) filter (where x->>'kind' = 'photo'),
+         count(*) filter (where x->>'kind' = 'video')
+    into photos, videos
+    from jsonb_array_elements(p_attachments) as e (x);
+
+  if photos + videos <> jsonb_array_length(p_attachments) then
+    raise exception 'attachments must be photos or videos' using errcode = '22023';
+  end if;
+  if photos > proof_max_photos() then
+    raise exception 'a proof can have at most % photos', proof_max_photos() using errcode = '22023';
+  end if;
+  if videos > proof_max_videos() then
+    raise exception 'a proof can have at most % video', proof_max_videos() using errcode = '22023';
+  end if;
+
+  insert into task_proofs (task_id, step_id, user_id, review_ends_at, note)
+  values (t.id, p_step_id, t.owner_id, now() + proof_review_window(), nullif(trim(p_note), ''))
+  returning id into new_id;
+
+  if p_step_id is null or task_unproven_xp(t.id) = 0 then
+    update tasks
+       set status = 'pending', completed_at = now()
+     where id = t.id;
+  end if;
+
+  for a in
+    select x from jsonb_array_elements(p_attachments) with ordinality as e (x, n) order by n
+  loop
+    if coalesce(trim(a->>'url'), '') = '' then
+      raise exception 'attachment url is required' using errcode = '22023';
+    end if;
+    hash := null;
+    taken := null;
+    size := null;
+
+    if a->>'kind' = 'video' then
+      -- trust the stored object, not the client, for the size
+      select (o.metadata->>'size')::bigint into size
+        from storage.objects o
+       where o.bucket_id = 'proof-videos'
+         and o.name = substring(a->>'url' from '/proof-videos/(.+)$')
+         and (storage.foldername(o.name))[1] = t.owner_id::text;
+
+      if size is null then
+        raise exception 'video upload not found' using errcode = 'P0002';
+      end if;
+      if size > proof_max_video_bytes() then
+        raise exception 'videos can be at most % MB', proof_max_video_bytes() / (1024 * 1024)
+          using errcode = '22023';
+      end if;
+      if coalesce((a->>'duration_ms')::integer, 0) > proof_max_video_ms() then
+        raise exception 'videos can be at most % seconds', proof_max_video_ms() / 1000
+          using errcode = '22023';
+      end if;
+    else
+      if a->>'phash' is not null then
+        if a->>'phash' !~ '^[0-9a-fA-F]{16}$' then
+          raise exception 'invalid image hash' using errcode = '22023';
+        end if;
+        hash := ('x' || (a->>'phash'))::bit(64);
+
+        select tp.id, pt.title, bit_count(pa.phash # hash) as distance
+          into nearest
+          from proof_attachments pa
+          join task_proofs tp on tp.id = pa.proof_id
+          join tasks pt on pt.id = tp.task_id
+         where tp.user_id = t.owner_id
+           and tp.id <> new_id
+           and pa.phash is not null
+         order by bit_count(pa.phash # hash)
+         limit 1;
+
+        if nearest.id is not null and nearest.distance <= proof_duplicate_bits() then
+          raise exception 'this photo was already used as proof for "%"', nearest.title
+            using errcode = '22023';
+        end if;
+        if nearest.id is not null and nearest.distance <= proof_similar_bits() and dup_id is null then
+          found_flags := array_append(found_flags, 'duplicate');
+          dup_id := nearest.id;
+        end if;
+      end if;
+
+      taken := (a->>'captured_at')::timestamptz;
+      if taken is not null
+         and (taken < t.created_at - proof_clock_slack() or taken > now() + proof_clock_slack())
+         and not 'capture_time' = any (found_flags) then
+        found_flags := array_append(found_flags, 'capture_time');
+      end if;
+    end if;
+
+    insert into proof_attachments (proof_id, position, kind, url, thumb_url, bytes, duration_ms, phash, captured_at)
+    values (new_id, pos, a->>'kind', a->>'url', nullif(a->>'thumb_url', ''), size,
+            (a->>'duration_ms')::integer, hash, taken);
+    pos := pos + 1;
+  end loop;
+
+  update task_proofs
+     set flags = found_flags, duplicate_of = dup_id
+   where id = new_id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.complete_task_with_proof(uuid, jsonb, text, uuid) from anon, public;
+grant execute on function public.complete_task_with_proof(uuid, jsonb, text, uuid) to authenticated;
+
+/* ---------- uncomplete ---------- */
+-- A checklist task is undone as a whole: every approved step is reversed and
+-- every step proof deleted.
+create or replace function public.uncomplete_task(p_task_id uuid)
+returns table (url text, thumb_url text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  p task_proofs%rowtype;
+  post xp_ledger%rowtype;
+  proof_ids uuid[] := '{}';
+  ledger_ids uuid[] := '{}';
+  reversed integer;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status not in ('pending', 'completed') then
+    raise exception 'only pending or completed tasks can be undone' using errcode = '22023';
+  end if;
+
+  for p in
+    select * from task_proofs where task_id = t.id order by submitted_at for update
+  loop
+    proof_ids := proof_ids || p.id;
+    if p.status = 'approved' and p.ledger_id is not null then
+      select * into post from xp_ledger where id = p.ledger_id;
+      insert into xp_ledger (user_id, task_id, delta, reason, source_ledger_id)
+      values (post.user_id, post.task_id, -post.delta, 'completion undone', post.id);
+      perform sync_vote_xp(post.id);
+      ledger_ids := ledger_ids || post.id;
+      reversed := coalesce(reversed, 0) + post.delta;
+    end if;
+  end loop;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, t.owner_id, 'uncomplete',
+          jsonb_build_object('status', t.status, 'completed_at', t.completed_at,
+                             'proof_id', proof_ids[1], 'ledger_id', ledger_ids[1], 'xp', reversed,
+                             'steps', nullif(cardinality(proof_ids), 1)),
+          jsonb_build_object('status', 'open'));
+
+  update tasks
+     set status = 'open', completed_at = null
+   where id = t.id;
+
+  return query
+    select a.url, a.thumb_url from proof_attachments a where a.proof_id = any (proof_ids);
+  delete from task_proofs where id = any (proof_ids);
+end;
+$$;
+
+/* ---------- grading ---------- */
+create or replace function public.grade_overdue_tasks(p_user_id uuid default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  with missed as (
+    update tasks
+       set status = 'missed',
+           penalty_xp = missed_task_penalty(task_unproven_xp(id))
+     where status = 'open'
+       and due_at < now() - missed_task_grace()
+       and (p_user_id is null or owner_id = p_user_id)
+    returning id, owner_id, penalty_xp
+  ), penalties as (
+    insert into xp_ledger (user_id, task_id, delta, reason)
+    select owner_id, id, penalty_xp, 'task missed'
+      from missed
+     where penalty_xp < 0
+    on conflict do nothing
+    returning 1
+  )
+  select count(*) into n from missed;
+
+  return n;
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- The owner's checklists with each step's share and where its proof stands.
+create or replace view public.task_steps_view as
+select
+  s.id,
+  s.task_id,
+  s.position,
+  s.title,
+  public.task_step_xp(t.xp_assigned, n.steps, s.position) as xp,
+  tp.id          as proof_id,
+  tp.status      as proof_status
+from public.task_steps s
+join public.tasks t on t.id = s.task_id
+cross join lateral (
+  select count(*)::integer as steps from public.task_steps x where x.task_id = s.task_id
+) n
+left join public.task_proofs tp on tp.step_id = s.id
+where t.owner_id = auth.uid();
+
+create or replace view public.proof_queue as
+select
+  tp.id,
+  tp.task_id,
+  t.title          as task_title,
+  t.xp_assigned,
+  tp.user_id,
+  p.display_name,
+  p.avatar_url,
+  coalesce(att.attachments, '[]') as attachments,
+  tp.note,
+  tp.status,
+  tp.submitted_at,
+  tp.review_ends_at,
+  tp.decided_at,
+  tp.decision_reason,
+  coalesce(v.approvals, 0)  as approvals,
+  coalesce(v.rejections, 0) as rejections,
+  least(public.proof_quorum(), public.proof_reviewer_count(tp.user_id)) as quorum,
+  mine.verdict     as my_verdict,
+  mine.reason      as my_reason,
+  (tp.user_id <> auth.uid()
+     and tp.status <> 'rejected'
+     and now() < tp.review_ends_at) as can_review,
+  public.open_proof_flags(tp) as flags,
+  dup.thumb_url    as duplicate_thumb_url,
+  tp.step_id,
+  st.title         as step_title,
+  st.xp            as step_xp
+from public.task_proofs tp
+join public.tasks t on t.id = tp.task_id
+left join public.profiles p on p.id = tp.user_id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms, 'captured_at', a.captured_at
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join lateral (
+  select count(*) filter (where r.verdict = 'approve')::integer as approvals,
+         count(*) filter (where r.verdict = 'reject')::integer  as rejections
+    from public.proof_reviews r
+   where r.proof_id = tp.id
+) v on true
+left join public.proof_reviews mine
+  on mine.proof_id = tp.id and mine.reviewer_id = auth.uid()
+left join lateral (
+  select a.thumb_url
+    from public.proof_attachments a
+   where a.proof_id = tp.duplicate_of
+   order by a.position
+   limit 1
+) dup on true
+left join lateral (
+  select s.title,
+         public.task_step_xp(t.xp_assigned,
+                             (select count(*)::integer from public.task_steps x where x.task_id = s.task_id),
+                             s.position) as xp
+    from public.task_steps s
+   where s.id = tp.step_id
+) st on true
+where tp.user_id = auth.uid() or public.shares_squad_with(tp.user_id);
+
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone,
+  st.title       as step_title
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone'
+left join public.task_steps st on st.id = tp.step_id;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+revoke all on public.task_steps_view, public.proof_queue, public.xp_ledger_view, public.squad_xp_ledger_view
+  from anon;
+grant select on public.task_steps_view, public.proof_queue, public.xp_ledger_view, public.squad_xp_ledger_view
+  to authenticated;
@@ -0,0 +1,284 @@
+-- Levels and rank tiers, derived from total XP (the sum of the ledger).
+--
+--   * reaching level n takes level_min_xp(n) = base * (n - 1) ^ exponent XP,
+--     tuned with level_curve_base() / level_curve_exponent()
+--   * level_tier() groups levels into Bronze .. Diamond; a negative total is
+--     level 0, "in the red"
+--   * the first time a player reaches a level, a 'level up' row (delta 0)
+--     lands in the ledger so it shows up in the feed, with the level itself
+--     in level_events. Dropping a level and climbing back doesn't post again.
+
+create or replace function public.level_curve_base()
+returns numeric
+language sql
+immutable
+as $$ select 50::numeric $$;
+
+create or replace function public.level_curve_exponent()
+returns numeric
+language sql
+immutable
+as $$ select 1.5 $$;
+
+-- Total XP needed to reach p_level; level 1 starts at 0.
+create or replace function public.level_min_xp(p_level integer)
+returns integer
+language sql
+immutable
+as $$
+  select case
+           when p_level <= 1 then 0
+           else round(level_curve_base() * power((p_level - 1)::numeric, level_curve_exponent()))::integer
+         end
+$$;
+
+create or replace function public.xp_level(p_xp integer)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+  lvl integer;
+begin
+  if p_xp < 0 then
+    return 0;
+  end if;
+
+  lvl := 1 + floor(power(p_xp / level_curve_base(), 1 / level_curve_exponent()))::integer;
+  -- the estimate can be one off at a boundary
+  while level_min_xp(lvl + 1) <= p_xp loop
+    lvl := lvl + 1;
+  end loop;
+  while lvl > 1 and level_min_xp(lvl) > p_xp loop
+    lvl := lvl - 1;
+  end loop;
+  return lvl;
+end;
+$$;
+
+create or replace function public.level_tier(p_level integer)
+returns text
+language sql
+immutable
+as $$
+  select case
+           when p_level <= 0 then 'red'
+           when p_level < 5 then 'bronze'
+           when p_level < 10 then 'silver'
+           when p_level < 20 then 'gold'
+           when p_level < 35 then 'platinum'
+           else 'diamond'
+         end
+$$;
+
+grant execute on function public.level_curve_base() to authenticated;
+grant execute on function public.level_curve_exponent() to authenticated;
+grant execute on function public.level_min_xp(integer) to authenticated;
+grant execute on function public.xp_level(integer) to authenticated;
+grant execute on function public.level_tier(integer) to authenticated;
+
+/* ---------- level-ups ---------- */
+create table public.level_events (
+  id         uuid primary key default gen_random_uuid(),
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  level      integer not null check (level > 1),
+  tier       text not null,
+  ledger_id  uuid references public.xp_ledger (id) on delete set null, -- the feed post
+  created_at timestamptz not null default now(),
+  unique (user_id, level)
+);
+
+create index level_events_ledger_idx on public.level_events (ledger_id) where ledger_id is not null;
+
+alter table public.level_events enable row level security;
+
+create policy "level events are readable by signed-in users"
+  on public.level_events for select
+  to authenticated
+  using (true);
+
+revoke insert, update, delete on public.level_events from anon, authenticated;
+
+-- players already past level 1 start from where they are, without a post
+insert into public.level_events (user_id, level, tier)
+select u.user_id, public.xp_level(u.xp), public.level_tier(public.xp_level(u.xp))
+  from (
+    select l.user_id, sum(l.delta)::integer as xp
+      from public.xp_ledger l
+     group by l.user_id
+  ) u
+ where public.xp_level(u.xp) > 1;
+
+create or replace function public.xp_ledger_level_up()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  total integer;
+  lvl integer;
+  best integer;
+  lid uuid;
+begin
+  -- one level check at a time per player
+  perform 1 from profiles where id = new.user_id for update;
+
+  select coalesce(sum(delta), 0) into total from xp_ledger where user_id = new.user_id;
+  lvl := xp_level(total);
+  select coalesce(max(level), 1) into best from level_events where user_id = new.user_id;
+
+  if lvl > best then
+    insert into xp_ledger (user_id, delta, reason)
+    values (new.user_id, 0, 'level up')
+    returning id into lid;
+
+    insert into level_events (user_id, level, tier, ledger_id)
+    values (new.user_id, lvl, level_tier(lvl), lid);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger xp_ledger_level_up
+  after insert on public.xp_ledger
+  for each row
+  when (new.delta > 0)
+  execute function public.xp_ledger_level_up();
+
+/* ---------- leaderboard ---------- */
+-- As before, but level-up posts don't count as XP activity for rank movement.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, vote_xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end
+                                           and l.reason = 'vote adjustment'), 0) as cur_vote_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end
+                                 and l.reason <> 'level up') as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           s.cur_vote_xp::integer as vote_xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- Total XP plus where it puts the player; level_xp / next_level_xp bound the
+-- current level (both null / 0 while in the red).
+create or replace view public.users_xp as
+select
+  u.user_id,
+  u.xp,
+  public.xp_level(u.xp) as level,
+  public.level_tier(public.xp_level(u.xp)) as tier,
+  case when u.xp >= 0 then public.level_min_xp(public.xp_level(u.xp)) end as level_xp,
+  case when u.xp >= 0 then public.level_min_xp(public.xp_level(u.xp) + 1) else 0 end as next_level_xp
+from (
+  select p.id as user_id, coalesce(sum(l.delta), 0)::integer as xp
+    from public.profiles p
+    left join public.xp_ledger l on l.user_id = p.id
+   group by p.id
+) u;
+
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone,
+  st.title       as step_title,
+  le.level,
+  le.tier
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone'
+left join public.task_steps st on st.id = tp.step_id
+left join public.level_events le on le.ledger_id = l.id;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+revoke all on public.users_xp, public.xp_ledger_view, public.squad_xp_ledger_view from anon;
+grant select on public.users_xp, public.xp_ledger_view, public.squad_xp_ledger_view to authenticated;
@@ -0,0 +1,531 @@
+-- Achievements: badges earned by hitting a threshold on one of a few server
+-- metrics. The rules are rows in achievements, so a new badge is an insert
+-- (name, icon, metric, threshold, params) -- no client release:
+--
+--   completions       tasks completed; params.keywords (optional) only counts
+--                     tasks whose title contains one of the words
+--   streak            current streak in days
+--   weekly_top        weeks finished #1 on the global weekly board
+--   upvotes_received  👍 on the player's posts
+--
+-- Rules are checked when the metric can move (a task completes, a completion
+-- posts, a 👍 lands, a week is crowned by the scheduled job). Earning one
+-- writes user_achievements, an 'achievement' row (delta 0) to the ledger for
+-- the feed, and an announcement to the global chat.
+
+create table public.achievements (
+  key         text primary key check (key ~ '^[a-z0-9_]+$'),
+  name        text not null check (length(trim(name)) between 1 and 40),
+  description text not null,
+  icon        text not null, -- an emoji
+  metric      text not null check (metric in ('completions', 'streak', 'weekly_top', 'upvotes_received')),
+  threshold   integer not null check (threshold > 0),
+  params      jsonb not null default '{}',
+  position    integer not null default 0, -- shelf order
+  active      boolean not null default true,
+  created_at  timestamptz not null default now()
+);
+
+create table public.user_achievements (
+  user_id         uuid not null references auth.users (id) on delete cascade,
+  achievement_key text not null references public.achievements (key) on update cascade on delete cascade,
+  ledger_id       uuid references public.xp_ledger (id) on delete set null, -- the feed post
+  earned_at       timestamptz not null default now(),
+  primary key (user_id, achievement_key)
+);
+
+create index user_achievements_ledger_idx on public.user_achievements (ledger_id) where ledger_id is not null;
+
+-- #1 of each finished week, ties included
+create table public.weekly_champions (
+  week_start date not null,
+  user_id    uuid not null references auth.users (id) on delete cascade,
+  xp         integer not null,
+  created_at timestamptz not null default now(),
+  primary key (week_start, user_id)
+);
+
+create index weekly_champions_user_idx on public.weekly_champions (user_id);
+
+alter table public.achievements enable row level security;
+alter table public.user_achievements enable row level security;
+alter table public.weekly_champions enable row level security;
+
+create policy "achievements are readable by signed-in users"
+  on public.achievements for select
+  to authenticated
+  using (true);
+
+create policy "earned achievements are readable by signed-in users"
+  on public.user_achievements for select
+  to authenticated
+  using (true);
+
+create policy "weekly champions are readable by signed-in users"
+  on public.weekly_champions for select
+  to authenticated
+  using (true);
+
+revoke insert, update, delete on public.achievements, public.user_achievements, public.weekly_champions
+  from anon, authenticated;
+
+insert into public.achievements (key, name, description, icon, metric, threshold, params, position) values
+  ('first_completion', 'First Rep',       'Complete your first task.',                 '🎯', 'completions',      1,   '{}', 10),
+  ('gym_10',           'Gym Rat',         'Complete 10 gym tasks.',                    '🏋️', 'completions',      10,
+   '{"keywords": ["gym", "workout", "lift", "squat", "bench", "deadlift", "leg day"]}', 20),
+  ('streak_30',        'Iron Month',      'Keep a 30-day streak.',                     '🔥', 'streak',           30,  '{}', 30),
+  ('weekly_top',       'Weekly Champion', 'Finish a week at the top of the board.',    '🏆', 'weekly_top',       1,   '{}', 40),
+  ('upvotes_100',      'Crowd Favorite',  'Get 100 upvotes on your posts.',            '👏', 'upvotes_received', 100, '{}', 50);
+
+/* ---------- chat announcements ---------- */
+-- Announcements are written by the server in the player's name; players can't
+-- post or edit them, and they don't spend the player's chat rate limit.
+alter table public.chat_messages
+  add column kind text not null default 'message' check (kind in ('message', 'achievement'));
+
+drop policy "users post as themselves to their rooms" on public.chat_messages;
+
+create policy "users post as themselves to their rooms"
+  on public.chat_messages for insert
+  to authenticated
+  with check (user_id = auth.uid() and kind = 'message' and public.can_access_room(room_id));
+
+drop trigger chat_messages_rate_limit on public.chat_messages;
+
+create trigger chat_messages_rate_limit
+  before insert on public.chat_messages
+  for each row
+  when (new.kind = 'message')
+  execute function public.rate_limit_trigger('chat');
+
+create or replace function public.edit_chat_message(p_message_id uuid, p_content text)
+returns public.chat_messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m chat_messages%rowtype;
+begin
+  select * into m
+    from chat_messages
+   where id = p_message_id
+     for update;
+  if not found or m.user_id is distinct from auth.uid() then
+    raise exception 'message not found' using errcode = 'P0002';
+  end if;
+  if m.kind <> 'message' then
+    raise exception 'announcements can''t be edited' using errcode = '22023';
+  end if;
+  if m.deleted_at is not null then
+    raise exception 'message was deleted' using errcode = '22023';
+  end if;
+  if length(trim(coalesce(p_content, ''))) not between 1 and 1000 then
+    raise exception 'message must be 1–1000 characters' using errcode = '22023';
+  end if;
+
+  if p_content is distinct from m.content then
+    update chat_messages
+       set content   = p_content,
+           edited_at = now()
+     where id = m.id
+    returning * into m;
+  end if;
+  return m;
+end;
+$$;
+
+create or replace view public.chat_messages_view as
+select
+  m.id,
+  m.room_id,
+  m.user_id,
+  case when m.deleted_at is null then m.content end as content,
+  m.created_at,
+  p.display_name,
+  p.avatar_url as user_avatar_url,
+  m.reply_to_id,
+  m.edited_at,
+  m.deleted_at,
+  case when r.deleted_at is null then r.content end as reply_content,
+  rp.display_name as reply_display_name,
+  m.kind
+from public.chat_messages m
+left join public.profiles p on p.id = m.user_id
+left join public.chat_messages r on r.id = m.reply_to_id
+left join public.profiles rp on rp.id = r.user_id
+where public.can_access_room(m.room_id);
+
+revoke all on public.chat_messages_view from anon;
+grant select on public.chat_messages_view to authenticated;
+
+/* ---------- metrics ---------- */
+-- Where p_user_id stands on one metric; p_params narrows it per rule.
+create or replace function public.achievement_progress(p_user_id uuid, p_metric text, p_params jsonb default '{}')
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  case p_metric
+    when 'completions' then
+      select count(*) into n
+        from tasks t
+       where t.owner_id = p_user_id
+         and t.status = 'completed'
+         and (not (p_params ? 'keywords')
+              or exists (select 1 from jsonb_array_elements_text(p_params -> 'keywords') k
+                          where t.title ilike '%' || k || '%'));
+    when 'streak' then
+      n := streak_ending_on(p_user_id, local_today(p_user_id));
+    when 'weekly_top' then
+      select count(*) into n from weekly_champions where user_id = p_user_id;
+    when 'upvotes_received' then
+      select count(*) into n
+        from xp_reactions r
+        join xp_ledger l on l.id = r.ledger_id
+       where l.user_id = p_user_id
+         and r.value = 1;
+    else
+      raise exception 'unknown achievement metric %', p_metric using errcode = '22023';
+  end case;
+  return coalesce(n, 0);
+end;
+$$;
+
+revoke execute on function public.achievement_progress(uuid, text, jsonb) from anon, authenticated, public;
+
+-- Award every active rule on p_metric that p_user_id now meets. Returns the
+-- number of achievements earned.
+create or replace function public.check_achievements(p_user_id uuid, p_metric text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  a achievements%rowtype;
+  lid uuid;
+  n integer := 0;
+begin
+  -- one check at a time per player
+  perform 1 from profiles where id = p_user_id for update;
+  if not found then
+    return 0;
+  end if;
+
+  for a in
+    select * from achievements x
+     where x.metric = p_metric
+       and x.active
+       and not exists (select 1 from user_achievements ua
+                        where ua.user_id = p_user_id and ua.achievement_key = x.key)
+     order by x.position, x.key
+  loop
+    if achievement_progress(p_user_id, a.metric, a.params) >= a.threshold then
+      insert into xp_ledger (user_id, delta, reason)
+      values (p_user_id, 0, 'achievement')
+      returning id into lid;
+
+      insert into user_achievements (user_id, achievement_key, ledger_id)
+      values (p_user_id, a.key, lid);
+
+      insert into chat_messages (room_id, user_id, content, kind)
+      select r.id, p_user_id, a.icon || ' Unlocked ' || a.name || ': ' || a.description, 'achievement'
+        from chat_rooms r
+       where r.kind = 'global';
+
+      n := n + 1;
+    end if;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.check_achievements(uuid, text) from anon, authenticated, public;
+
+-- The caller's standing on every active rule, for the badge shelf.
+create or replace function public.my_achievement_progress()
+returns table (achievement_key text, progress integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  return query
+  select a.key, achievement_progress(auth.uid(), a.metric, a.params)
+    from achievements a
+   where a.active;
+end;
+$$;
+
+revoke execute on function public.my_achievement_progress() from anon, public;
+grant execute on function public.my_achievement_progress() to authenticated;
+
+/* ---------- triggers ---------- */
+create or replace function public.tasks_check_achievements()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform check_achievements(new.owner_id, 'completions');
+  return null;
+end;
+$$;
+
+create trigger tasks_check_achievements
+  after update of status on public.tasks
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.tasks_check_achievements();
+
+create or replace function public.xp_ledger_check_achievements()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform check_achievements(new.user_id, 'streak');
+  return null;
+end;
+$$;
+
+create trigger xp_ledger_check_achievements
+  after insert on public.xp_ledger
+  for each row
+  when (new.reason = 'task completed')
+  execute function public.xp_ledger_check_achievements();
+
+create or replace function public.xp_reactions_check_achievements()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform check_achievements(l.user_id, 'upvotes_received')
+     from xp_ledger l
+    where l.id = new.ledger_id;
+  return null;
+end;
+$$;
+
+create trigger xp_reactions_check_achievements
+  after insert or update of value on public.xp_reactions
+  for each row
+  when (new.value = 1)
+  execute function public.xp_reactions_check_achievements();
+
+/* ---------- weekly champions ---------- */
+-- Crown last week's #1 (everyone tied for it, as long as they finished above
+-- zero). Runs from the scheduled job; a week is only crowned once.
+create or replace function public.crown_weekly_champions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+  wk date;
+  uid uuid;
+  n integer := 0;
+begin
+  select * into b from leaderboard_bounds('week');
+  wk := (b.prev_start at time zone leaderboard_timezone())::date;
+  if exists (select 1 from weekly_champions where week_start = wk) then
+    return 0;
+  end if;
+
+  for uid in
+    insert into weekly_champions (week_start, user_id, xp)
+    select wk, s.user_id, s.xp
+      from (
+        select l.user_id,
+               sum(l.delta)::integer as xp,
+               rank() over (order by sum(l.delta) desc) as rnk
+          from xp_ledger l
+         where l.created_at >= b.prev_start
+           and l.created_at < b.prev_end
+         group by l.user_id
+      ) s
+     where s.rnk = 1
+       and s.xp > 0
+    returning user_id
+  loop
+    perform check_achievements(uid, 'weekly_top');
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.crown_weekly_champions() from anon, authenticated, public;
+
+create or replace function public.run_scheduled_grading()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform grade_overdue_tasks(null);
+  perform settle_due_proofs();
+
+  -- users whose local yesterday hasn't been closed yet
+  perform close_streak_days(p.id)
+     from profiles p
+    where p.streak_checked_through is null
+       or p.streak_checked_through < (now() at time zone p.timezone)::date - 1;
+
+  perform crown_weekly_champions();
+end;
+$$;
+
+revoke execute on function public.run_scheduled_grading() from anon, authenticated, public;
+
+/* ---------- backfill ---------- */
+-- Players who already meet a rule get it quietly, without a post.
+insert into public.user_achievements (user_id, achievement_key)
+select p.id, a.key
+  from public.profiles p
+  cross join public.achievements a
+ where public.achievement_progress(p.id, a.metric, a.params) >= a.threshold;
+
+/* ---------- leaderboard ---------- */
+-- As before; achievement posts don't count as XP activity either.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, vote_xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end
+                                           and l.reason = 'vote adjustment'), 0) as cur_vote_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end
+                                 and l.reason not in ('level up', 'achievement')) as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           s.cur_vote_xp::integer as vote_xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+/* ---------- read models ---------- */
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone,
+  st.title       as step_title,
+  le.level,
+  le.tier,
+  ua.achievement_key,
+  ach.name       as achievement_name,
+  ach.icon       as achievement_icon,
+  ach.description as achievement_description
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone'
+left join public.task_steps st on st.id = tp.step_id
+left join public.level_events le on le.ledger_id = l.id
+left join public.user_achievements ua on ua.ledger_id = l.id
+left join public.achievements ach on ach.key = ua.achievement_key;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+revoke all on public.xp_ledger_view, public.squad_xp_ledger_view from anon;
+grant select on public.xp_ledger_view, public.squad_xp_ledger_view to authenticated;
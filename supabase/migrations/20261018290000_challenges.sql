@@ -0,0 +1,688 @@
+-- Head-to-head challenges. A player challenges another player, or their whole
+-- squad, to one of:
+--
+--   most_xp    most XP earned between the challenge's start and its deadline
+--   task_race  finish a task before the deadline; every entrant puts up one of
+--              their own open tasks, and whoever gets it approved in time wins
+--
+-- Stakes are optional. Everyone who takes part pays the stake into escrow (a
+-- 'challenge stake' ledger row) when they join; at the deadline the pot is
+-- split between the winners. A draw, or a challenge nobody else joined, hands
+-- every stake back. Results land in the ledger as 'challenge won' /
+-- 'challenge lost' / 'challenge draw' rows, so they show up in the feed.
+-- Challenges are resolved by the scheduled job, and whenever a client calls
+-- resolve_due_challenges().
+
+create or replace function public.challenge_max_stake()
+returns integer
+language sql
+immutable
+as $$ select 100 $$;
+
+create or replace function public.challenge_max_length()
+returns interval
+language sql
+immutable
+as $$ select interval '31 days' $$;
+
+grant execute on function public.challenge_max_stake() to authenticated;
+grant execute on function public.challenge_max_length() to authenticated;
+
+create table public.challenges (
+  id          uuid primary key default gen_random_uuid(),
+  creator_id  uuid not null references auth.users (id) on delete cascade,
+  kind        text not null check (kind in ('most_xp', 'task_race')),
+  title       text not null check (length(trim(title)) between 1 and 80),
+  squad_id    uuid references public.squads (id) on delete set null, -- squad-wide challenge
+  stake       integer not null default 0 check (stake between 0 and public.challenge_max_stake()),
+  starts_at   timestamptz not null default now(),
+  ends_at     timestamptz not null,
+  status      text not null default 'pending'
+              check (status in ('pending', 'active', 'resolved', 'cancelled', 'declined', 'expired')),
+  resolved_at timestamptz,
+  created_at  timestamptz not null default now(),
+  check (ends_at > starts_at)
+);
+
+create index challenges_due_idx on public.challenges (ends_at) where status in ('pending', 'active');
+
+-- The creator is a participant too, accepted from the start.
+create table public.challenge_participants (
+  challenge_id     uuid not null references public.challenges (id) on delete cascade,
+  user_id          uuid not null references auth.users (id) on delete cascade,
+  status           text not null default 'invited' check (status in ('invited', 'accepted', 'declined')),
+  task_id          uuid references public.tasks (id) on delete set null, -- task_race entry
+  stake_ledger_id  uuid references public.xp_ledger (id) on delete set null,
+  score            integer, -- frozen at resolution
+  result           text check (result in ('won', 'lost', 'draw')),
+  result_ledger_id uuid references public.xp_ledger (id) on delete set null, -- the feed post
+  responded_at     timestamptz,
+  primary key (challenge_id, user_id)
+);
+
+create index challenge_participants_user_idx on public.challenge_participants (user_id);
+create index challenge_participants_result_idx on public.challenge_participants (result_ledger_id)
+  where result_ledger_id is not null;
+
+create or replace function public.is_challenge_participant(p_challenge_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from challenge_participants
+     where challenge_id = p_challenge_id
+       and user_id = auth.uid()
+  );
+$$;
+
+alter table public.challenges enable row level security;
+alter table public.challenge_participants enable row level security;
+
+create policy "participants read their challenges"
+  on public.challenges for select
+  to authenticated
+  using (public.is_challenge_participant(id));
+
+create policy "participants read who else is in"
+  on public.challenge_participants for select
+  to authenticated
+  using (public.is_challenge_participant(challenge_id));
+
+revoke insert, update, delete on public.challenges, public.challenge_participants from anon, authenticated;
+
+/* ---------- scoring ---------- */
+-- most_xp: XP earned in the window, not counting challenge payouts and stakes.
+-- task_race: 1 once the entry task is approved, if it was done before the deadline.
+create or replace function public.challenge_score(p_challenge_id uuid, p_user_id uuid)
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  n integer;
+begin
+  select * into c from challenges where id = p_challenge_id;
+  if not found then
+    return null;
+  end if;
+
+  if c.kind = 'most_xp' then
+    select coalesce(sum(l.delta), 0) into n
+      from xp_ledger l
+     where l.user_id = p_user_id
+       and l.created_at >= c.starts_at
+       and l.created_at < c.ends_at
+       and l.reason not like 'challenge %';
+  else
+    select case when t.status = 'completed' and t.completed_at < c.ends_at then 1 else 0 end into n
+      from challenge_participants cp
+      join tasks t on t.id = cp.task_id
+     where cp.challenge_id = p_challenge_id
+       and cp.user_id = p_user_id;
+  end if;
+  return coalesce(n, 0);
+end;
+$$;
+
+revoke execute on function public.challenge_score(uuid, uuid) from anon, public;
+grant execute on function public.challenge_score(uuid, uuid) to authenticated;
+
+/* ---------- escrow ---------- */
+-- Take p_stake from p_user_id into escrow; returns the ledger row (null for no stake).
+create or replace function public.escrow_challenge_stake(p_user_id uuid, p_stake integer)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  total integer;
+  lid uuid;
+begin
+  if p_stake <= 0 then
+    return null;
+  end if;
+
+  -- one balance check at a time per player
+  perform 1 from profiles where id = p_user_id for update;
+  select coalesce(sum(delta), 0) into total from xp_ledger where user_id = p_user_id;
+  if total < p_stake then
+    raise exception 'not enough XP to stake % (you have %)', p_stake, total using errcode = '22023';
+  end if;
+
+  insert into xp_ledger (user_id, delta, reason)
+  values (p_user_id, -p_stake, 'challenge stake')
+  returning id into lid;
+  return lid;
+end;
+$$;
+
+revoke execute on function public.escrow_challenge_stake(uuid, integer) from anon, authenticated, public;
+
+-- Hand back every accepted participant's stake; used when a challenge never gets going.
+create or replace function public.refund_challenge_stakes(p_challenge_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into xp_ledger (user_id, delta, reason)
+  select cp.user_id, c.stake, 'challenge refund'
+    from challenge_participants cp
+    join challenges c on c.id = cp.challenge_id
+   where cp.challenge_id = p_challenge_id
+     and cp.status = 'accepted'
+     and cp.stake_ledger_id is not null;
+end;
+$$;
+
+revoke execute on function public.refund_challenge_stakes(uuid) from anon, authenticated, public;
+
+/* ---------- RPCs ---------- */
+-- Challenge one player (p_opponent_id) or every other member of a squad
+-- (p_squad_id). task_race needs the creator's entry task.
+create or replace function public.create_challenge(
+  p_kind        text,
+  p_title       text,
+  p_ends_at     timestamptz,
+  p_stake       integer default 0,
+  p_opponent_id uuid default null,
+  p_squad_id    uuid default null,
+  p_task_id     uuid default null
+)
+returns public.challenges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_kind not in ('most_xp', 'task_race') then
+    raise exception 'unknown challenge kind' using errcode = '22023';
+  end if;
+  if length(trim(coalesce(p_title, ''))) not between 1 and 80 then
+    raise exception 'title must be 1–80 characters' using errcode = '22023';
+  end if;
+  if p_ends_at is null or p_ends_at <= now() or p_ends_at > now() + challenge_max_length() then
+    raise exception 'the deadline must be in the next %', challenge_max_length() using errcode = '22023';
+  end if;
+  if coalesce(p_stake, 0) not between 0 and challenge_max_stake() then
+    raise exception 'stake must be 0–% XP', challenge_max_stake() using errcode = '22023';
+  end if;
+  if (p_opponent_id is null) = (p_squad_id is null) then
+    raise exception 'challenge either a player or a squad' using errcode = '22023';
+  end if;
+  if p_opponent_id = auth.uid() then
+    raise exception 'you can''t challenge yourself' using errcode = '22023';
+  end if;
+  if p_opponent_id is not null and not exists (select 1 from profiles where id = p_opponent_id) then
+    raise exception 'player not found' using errcode = 'P0002';
+  end if;
+  if p_squad_id is not null then
+    if not is_squad_member(p_squad_id) then
+      raise exception 'squad not found' using errcode = 'P0002';
+    end if;
+    if not exists (select 1 from squad_members where squad_id = p_squad_id and user_id <> auth.uid()) then
+      raise exception 'nobody else is in this squad yet' using errcode = '22023';
+    end if;
+  end if;
+  if p_kind = 'task_race' and not exists (
+    select 1 from tasks where id = p_task_id and owner_id = auth.uid() and status = 'open'
+  ) then
+    raise exception 'pick one of your open tasks to race with' using errcode = '22023';
+  end if;
+
+  insert into challenges (creator_id, kind, title, squad_id, stake, ends_at)
+  values (auth.uid(), p_kind, trim(p_title), p_squad_id, coalesce(p_stake, 0), p_ends_at)
+  returning * into c;
+
+  insert into challenge_participants (challenge_id, user_id, status, task_id, stake_ledger_id, responded_at)
+  values (c.id, auth.uid(), 'accepted', case when p_kind = 'task_race' then p_task_id end,
+          escrow_challenge_stake(auth.uid(), c.stake), now());
+
+  insert into challenge_participants (challenge_id, user_id)
+  select c.id, u.user_id
+    from (
+      select p_opponent_id as user_id where p_opponent_id is not null
+      union
+      select sm.user_id from squad_members sm where sm.squad_id = p_squad_id and sm.user_id <> auth.uid()
+    ) u;
+
+  return c;
+end;
+$$;
+
+-- Accept (paying the stake, and naming an entry task for a task_race) or decline.
+create or replace function public.respond_to_challenge(
+  p_challenge_id uuid,
+  p_accept       boolean,
+  p_task_id      uuid default null
+)
+returns public.challenges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  cp challenge_participants%rowtype;
+begin
+  select * into c from challenges where id = p_challenge_id for update;
+  select * into cp
+    from challenge_participants
+   where challenge_id = p_challenge_id
+     and user_id = auth.uid();
+  if c.id is null or cp.user_id is null then
+    raise exception 'challenge not found' using errcode = 'P0002';
+  end if;
+  if cp.status <> 'invited' then
+    raise exception 'you already answered this challenge' using errcode = '22023';
+  end if;
+  if c.status not in ('pending', 'active') or c.ends_at <= now() then
+    raise exception 'this challenge is closed' using errcode = '22023';
+  end if;
+
+  if p_accept then
+    if c.kind = 'task_race' and not exists (
+      select 1 from tasks where id = p_task_id and owner_id = auth.uid() and status = 'open'
+    ) then
+      raise exception 'pick one of your open tasks to race with' using errcode = '22023';
+    end if;
+
+    update challenge_participants
+       set status          = 'accepted',
+           task_id         = case when c.kind = 'task_race' then p_task_id end,
+           stake_ledger_id = escrow_challenge_stake(auth.uid(), c.stake),
+           responded_at    = now()
+     where challenge_id = c.id
+       and user_id = auth.uid();
+
+    update challenges set status = 'active' where id = c.id and status = 'pending'
+    returning * into c;
+  else
+    update challenge_participants
+       set status = 'declined', responded_at = now()
+     where challenge_id = c.id
+       and user_id = auth.uid();
+
+    -- everyone said no: the creator gets their stake back
+    if c.status = 'pending' and not exists (
+      select 1 from challenge_participants where challenge_id = c.id and status = 'invited'
+    ) then
+      perform refund_challenge_stakes(c.id);
+      update challenges set status = 'declined', resolved_at = now() where id = c.id
+      returning * into c;
+    end if;
+  end if;
+
+  select * into c from challenges where id = p_challenge_id;
+  return c;
+end;
+$$;
+
+-- The creator can call it off until someone has accepted.
+create or replace function public.cancel_challenge(p_challenge_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+begin
+  select * into c from challenges where id = p_challenge_id for update;
+  if not found or c.creator_id is distinct from auth.uid() then
+    raise exception 'challenge not found' using errcode = 'P0002';
+  end if;
+  if c.status <> 'pending' then
+    raise exception 'only a challenge nobody has accepted can be cancelled' using errcode = '22023';
+  end if;
+
+  perform refund_challenge_stakes(c.id);
+  update challenges set status = 'cancelled', resolved_at = now() where id = c.id;
+end;
+$$;
+
+/* ---------- resolution ---------- */
+-- Score everyone who accepted and pay out. With fewer than two entrants the
+-- stakes go back; when everyone (or, in a race, no one) comes out on top it's
+-- a draw. The pot is split evenly between winners, the odd XP going to the
+-- first of them.
+create or replace function public.resolve_challenge(p_challenge_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  entrants integer;
+  winners integer;
+  best integer;
+  share integer;
+  extra integer;
+  r record;
+  lid uuid;
+begin
+  select * into c from challenges where id = p_challenge_id for update;
+  if not found or c.status not in ('pending', 'active') or c.ends_at > now() then
+    return;
+  end if;
+
+  update challenge_participants
+     set score = challenge_score(c.id, user_id)
+   where challenge_id = c.id
+     and status = 'accepted';
+
+  select count(*), max(score) into entrants, best
+    from challenge_participants
+   where challenge_id = c.id
+     and status = 'accepted';
+
+  if entrants < 2 then
+    perform refund_challenge_stakes(c.id);
+    update challenges set status = 'expired', resolved_at = now() where id = c.id;
+    return;
+  end if;
+
+  if c.kind = 'task_race' and best = 0 then
+    winners := 0; -- nobody finished
+  else
+    select count(*) into winners
+      from challenge_participants
+     where challenge_id = c.id
+       and status = 'accepted'
+       and score = best;
+  end if;
+
+  share := case when winners > 0 then (c.stake * entrants) / winners else 0 end;
+  extra := case when winners > 0 then (c.stake * entrants) - share * winners else 0 end;
+
+  for r in
+    select cp.user_id,
+           case when winners in (0, entrants) then 'draw'
+                when cp.score = best then 'won'
+                else 'lost'
+           end as result
+      from challenge_participants cp
+     where cp.challenge_id = c.id
+       and cp.status = 'accepted'
+     order by cp.score desc, cp.user_id
+  loop
+    insert into xp_ledger (user_id, delta, reason)
+    values (r.user_id,
+            case r.result
+              when 'draw' then c.stake
+              when 'won'  then share + extra
+              else 0
+            end,
+            'challenge ' || r.result)
+    returning id into lid;
+
+    if r.result = 'won' then
+      extra := 0;
+    end if;
+
+    update challenge_participants
+       set result = r.result, result_ledger_id = lid
+     where challenge_id = c.id
+       and user_id = r.user_id;
+  end loop;
+
+  update challenges set status = 'resolved', resolved_at = now() where id = c.id;
+end;
+$$;
+
+revoke execute on function public.resolve_challenge(uuid) from anon, authenticated, public;
+
+-- Resolve every challenge past its deadline. A race waits while an entry
+-- finished in time is still in review. Clients call this when the challenges
+-- page loads; returns how many were resolved.
+create or replace function public.resolve_due_challenges()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select c.id
+      from challenges c
+     where c.status in ('pending', 'active')
+       and c.ends_at <= now()
+       and not exists (
+         select 1
+           from challenge_participants cp
+           join tasks t on t.id = cp.task_id
+          where cp.challenge_id = c.id
+            and cp.status = 'accepted'
+            and t.status = 'pending'
+            and t.completed_at < c.ends_at
+       )
+     order by c.ends_at
+     limit 200
+  loop
+    perform resolve_challenge(r.id);
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.create_challenge(text, text, timestamptz, integer, uuid, uuid, uuid) from anon, public;
+revoke execute on function public.respond_to_challenge(uuid, boolean, uuid) from anon, public;
+revoke execute on function public.cancel_challenge(uuid) from anon, public;
+revoke execute on function public.resolve_due_challenges() from anon, public;
+grant execute on function public.create_challenge(text, text, timestamptz, integer, uuid, uuid, uuid) to authenticated;
+grant execute on function public.respond_to_challenge(uuid, boolean, uuid) to authenticated;
+grant execute on function public.cancel_challenge(uuid) to authenticated;
+grant execute on function public.resolve_due_challenges() to authenticated;
+
+create or replace function public.run_scheduled_grading()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform grade_overdue_tasks(null);
+  perform settle_due_proofs();
+
+  -- users whose local yesterday hasn't been closed yet
+  perform close_streak_days(p.id)
+     from profiles p
+    where p.streak_checked_through is null
+       or p.streak_checked_through < (now() at time zone p.timezone)::date - 1;
+
+  perform crown_weekly_champions();
+  perform resolve_due_challenges();
+end;
+$$;
+
+revoke execute on function public.run_scheduled_grading() from anon, authenticated, public;
+
+/* ---------- leaderboard ---------- */
+-- As before; a lost challenge (no XP either way) isn't activity.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, vote_xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end
+                                           and l.reason = 'vote adjustment'), 0) as cur_vote_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end
+                                 and l.reason not in ('level up', 'achievement', 'challenge lost')) as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           s.cur_vote_xp::integer as vote_xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- The caller's challenges, with everyone in them. score is live until the
+-- challenge resolves, then frozen.
+create or replace view public.my_challenges as
+select
+  c.id,
+  c.creator_id,
+  c.kind,
+  c.title,
+  c.squad_id,
+  s.name as squad_name,
+  c.stake,
+  c.starts_at,
+  c.ends_at,
+  c.status,
+  c.resolved_at,
+  c.created_at,
+  me.status as my_status,
+  me.result as my_result,
+  coalesce(ps.participants, '[]') as participants
+from public.challenges c
+join public.challenge_participants me
+  on me.challenge_id = c.id and me.user_id = auth.uid()
+left join public.squads s on s.id = c.squad_id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'user_id', cp.user_id,
+           'display_name', p.display_name,
+           'avatar_url', p.avatar_url,
+           'status', cp.status,
+           'result', cp.result,
+           'task_title', t.title,
+           'score', case when cp.status = 'accepted'
+                         then coalesce(cp.score, public.challenge_score(c.id, cp.user_id))
+                    end
+         ) order by (cp.user_id = c.creator_id) desc, p.display_name) as participants
+    from public.challenge_participants cp
+    left join public.profiles p on p.id = cp.user_id
+    left join public.tasks t on t.id = cp.task_id
+   where cp.challenge_id = c.id
+) ps on true;
+
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone,
+  st.title       as step_title,
+  le.level,
+  le.tier,
+  ua.achievement_key,
+  ach.name       as achievement_name,
+  ach.icon       as achievement_icon,
+  ach.description as achievement_description,
+  ch.id          as challenge_id,
+  ch.title       as challenge_title,
+  ch.kind        as challenge_kind
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone'
+left join public.task_steps st on st.id = tp.step_id
+left join public.level_events le on le.ledger_id = l.id
+left join public.user_achievements ua on ua.ledger_id = l.id
+left join public.achievements ach on ach.key = ua.achievement_key
+left join public.challenge_participants chp on chp.result_ledger_id = l.id
+left join public.challenges ch on ch.id = chp.challenge_id;
+
+create or replace view public.squad_xp_ledger_view as
+select
+  sm.squad_id,
+  v.*
+from public.squad_members sm
+join public.xp_ledger_view v
+  on v.user_id = sm.user_id
+ and v.created_at >= sm.joined_at
+where public.is_squad_member(sm.squad_id);
+
+revoke all on public.my_challenges, public.xp_ledger_view, public.squad_xp_ledger_view from anon;
+grant select on public.my_challenges, public.xp_ledger_view, public.squad_xp_ledger_view to authenticated;
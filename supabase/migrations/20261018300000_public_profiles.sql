@@ -0,0 +1,157 @@
+-- Public profile pages (/u/:userId).
+--
+-- Name, avatar and level are shown everywhere already, so they're always
+-- visible. The rest -- XP, streak, completion rate, top categories and recent
+-- completions -- follows the player's profile_visibility:
+--
+--   everyone  any signed-in player
+--   squads    players who share a squad with them
+--   private   only the player
+--
+-- Posts in the shared feed are unaffected.
+-- Categories come from task_category(), which mirrors the keyword rules of the
+-- heuristic scorer (RULES in supabase/functions/_shared/scoring.ts); keep the
+-- two in sync.
+
+alter table public.profiles
+  add column profile_visibility text not null default 'everyone'
+    check (profile_visibility in ('everyone', 'squads', 'private'));
+
+grant update (display_name, avatar_url, timezone, profile_visibility) on public.profiles to authenticated;
+
+create or replace function public.can_view_profile(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() = p_user_id
+      or exists (
+           select 1 from profiles p
+            where p.id = p_user_id
+              and (p.profile_visibility = 'everyone'
+                   or (p.profile_visibility = 'squads' and exists (
+                         select 1
+                           from squad_members a
+                           join squad_members b on b.squad_id = a.squad_id
+                          where a.user_id = p_user_id
+                            and b.user_id = auth.uid()
+                       )))
+         );
+$$;
+
+revoke execute on function public.can_view_profile(uuid) from anon, public;
+grant execute on function public.can_view_profile(uuid) to authenticated;
+
+-- First matching keyword rule's label, or null when nothing matches.
+create or replace function public.task_category(p_text text)
+returns text
+language sql
+immutable
+as $$
+  select r.label
+    from (values
+      (1,  '\y(assault|rob(bed|bery)?|burglar\w*|stab\w*)\y',              'serious crime'),
+      (2,  '\y(steal\w*|stole|shoplift\w*|theft)\y',                       'theft'),
+      (3,  '\y(tiktok|doom ?scroll\w*|scroll\w*|reels|binge\w*)\y',        'time wasting'),
+      (4,  '\y(vap(e|ing)|smok\w*|cigarette\w*)\y',                        'vice'),
+      (5,  '\y(drink\w*|beer\w*|alcohol|drunk)\y',                         'alcohol'),
+      (6,  '\y(internship|offer|promot\w*|graduat\w*|top marks)\y',        'major milestone'),
+      (7,  '\y(exam|study\w*|revis\w*|homework|assignment|lecture)\y',     'study'),
+      (8,  '\y(gym|lift\w*|workout|train\w*|squat\w*|bench)\y',            'gym'),
+      (9,  '\y(run|ran|jog\w*|5k|10k|swim\w*|cycl\w*|hike|hiking)\y',      'cardio'),
+      (10, '\y(read\w*|book|code|coding|project|practice|learn\w*)\y',     'skill building'),
+      (11, '\y(clean\w*|laundry|dishes|groceries|cook\w*|meal prep)\y',    'chores'),
+      (12, '\y(work|shift|job)\y',                                         'work'),
+      (13, '\y(brush\w*|floss\w*|shower\w*|make (my|the) bed)\y',          'hygiene')
+    ) as r (position, pattern, label)
+   where p_text ~* r.pattern
+   order by r.position
+   limit 1;
+$$;
+
+grant execute on function public.task_category(text) to authenticated;
+
+/* ---------- read models ---------- */
+-- One row per player; the stats columns are null unless visible is true.
+-- weekly_xp uses the leaderboard's week.
+create or replace view public.public_profiles as
+select
+  p.id,
+  p.display_name,
+  p.avatar_url,
+  p.created_at,
+  p.profile_visibility,
+  x.level,
+  x.tier,
+  v.visible,
+  case when v.visible then x.xp end as total_xp,
+  case when v.visible then w.xp end as weekly_xp,
+  case when v.visible then s.current_streak end as current_streak,
+  case when v.visible then s.longest_streak end as longest_streak,
+  case when v.visible then tc.completed end as completed_count,
+  case when v.visible then tc.missed end as missed_count,
+  case when v.visible then coalesce(cat.categories, '[]') end as top_categories
+from public.profiles p
+cross join lateral (select public.can_view_profile(p.id) as visible) v
+left join public.users_xp x on x.user_id = p.id
+left join public.user_streaks s on s.user_id = p.id
+left join lateral (
+  select coalesce(sum(l.delta), 0)::integer as xp
+    from public.xp_ledger l
+    cross join public.leaderboard_bounds('week') b
+   where l.user_id = p.id
+     and l.created_at >= b.cur_start
+     and l.created_at < b.cur_end
+) w on true
+left join lateral (
+  select count(*) filter (where t.status = 'completed')::integer as completed,
+         count(*) filter (where t.status = 'missed')::integer as missed
+    from public.tasks t
+   where t.owner_id = p.id
+) tc on true
+left join lateral (
+  select jsonb_agg(jsonb_build_object('category', c.category, 'count', c.n) order by c.n desc, c.category) as categories
+    from (
+      select coalesce(public.task_category(t.title || ' ' || coalesce(t.description, '')), 'other') as category,
+             count(*)::integer as n
+        from public.tasks t
+       where t.owner_id = p.id
+         and t.status = 'completed'
+       group by 1
+       order by 2 desc, 1
+       limit 3
+    ) c
+) cat on true;
+
+revoke all on public.public_profiles from anon;
+grant select on public.public_profiles to authenticated;
+
+-- A player's latest completions with their proofs, if their profile is visible
+-- to the caller.
+create or replace function public.profile_completions(p_user_id uuid, p_limit integer default 12)
+returns setof public.xp_ledger_view
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not can_view_profile(p_user_id) then
+    return;
+  end if;
+
+  return query
+  select *
+    from xp_ledger_view v
+   where v.user_id = p_user_id
+     and v.reason = 'task completed'
+     and not v.undone
+   order by v.created_at desc
+   limit least(greatest(p_limit, 0), 50);
+end;
+$$;
+
+revoke execute on function public.profile_completions(uuid, integer) from anon, public;
+grant execute on function public.profile_completions(uuid, integer) to authenticated;
@@ -0,0 +1,217 @@
+-- Personal stats (/stats): the caller's XP and task trends over a date range.
+--
+-- Everything is aggregated here so the browser never pulls the whole ledger:
+--
+--   my_xp_daily       XP per day and the running total
+--   my_xp_heatmap     XP by weekday and hour
+--   my_xp_weeks       XP per ISO week (best / worst weeks)
+--   my_task_scores    completed vs missed and the average score, per category
+--
+-- Ranges are inclusive days in the player's timezone; a null start means
+-- since they joined and a null end means today. XP is every ledger row, so
+-- the running total ends at the player's total XP.
+
+create or replace function public.stats_max_days()
+returns integer
+language sql
+immutable
+as $$ select 1096 $$;
+
+-- The caller's timezone and range, checked and clamped to stats_max_days().
+create or replace function public.stats_bounds(p_from date, p_to date)
+returns table (tz text, from_day date, to_day date, range_start timestamptz, range_end timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  p profiles%rowtype;
+  first_xp timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+
+  select * into p from profiles where id = auth.uid();
+  if not found then
+    raise exception 'profile not found' using errcode = 'P0002';
+  end if;
+
+  tz := p.timezone;
+  to_day := coalesce(p_to, (now() at time zone tz)::date);
+
+  if p_from is null then
+    select min(l.created_at) into first_xp from xp_ledger l where l.user_id = p.id;
+    from_day := greatest(
+      (least(p.created_at, coalesce(first_xp, p.created_at)) at time zone tz)::date,
+      to_day - stats_max_days() + 1
+    );
+  else
+    from_day := p_from;
+  end if;
+
+  if from_day > to_day then
+    raise exception 'range starts after it ends' using errcode = '22023';
+  end if;
+  if to_day - from_day >= stats_max_days() then
+    raise exception 'range is longer than % days', stats_max_days() using errcode = '22023';
+  end if;
+
+  range_start := from_day::timestamp at time zone tz;
+  range_end   := (to_day + 1)::timestamp at time zone tz;
+  return next;
+end;
+$$;
+
+revoke execute on function public.stats_bounds(date, date) from anon, authenticated, public;
+
+/* ---------- XP ---------- */
+-- One row per day in the range, including empty days; cumulative carries the
+-- balance from before the range.
+create or replace function public.my_xp_daily(p_from date default null, p_to date default null)
+returns table (day date, xp integer, cumulative integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+  opening integer;
+begin
+  select * into b from stats_bounds(p_from, p_to);
+
+  select coalesce(sum(l.delta), 0)::integer into opening
+    from xp_ledger l
+   where l.user_id = auth.uid()
+     and l.created_at < b.range_start;
+
+  return query
+  with d as (
+    select (l.created_at at time zone b.tz)::date as day, sum(l.delta)::integer as xp
+      from xp_ledger l
+     where l.user_id = auth.uid()
+       and l.created_at >= b.range_start
+       and l.created_at < b.range_end
+     group by 1
+  )
+  select g::date,
+         coalesce(d.xp, 0),
+         (opening + sum(coalesce(d.xp, 0)) over (order by g))::integer
+    from generate_series(b.from_day, b.to_day, interval '1 day') g
+    left join d on d.day = g::date
+   order by 1;
+end;
+$$;
+
+revoke execute on function public.my_xp_daily(date, date) from anon, public;
+grant execute on function public.my_xp_daily(date, date) to authenticated;
+
+-- Only cells with XP; weekday is ISO (1 = Monday).
+create or replace function public.my_xp_heatmap(p_from date default null, p_to date default null)
+returns table (weekday integer, hour integer, xp integer, entries integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+begin
+  select * into b from stats_bounds(p_from, p_to);
+
+  return query
+  select extract(isodow from l.created_at at time zone b.tz)::integer,
+         extract(hour from l.created_at at time zone b.tz)::integer,
+         sum(l.delta)::integer,
+         count(*)::integer
+    from xp_ledger l
+   where l.user_id = auth.uid()
+     and l.delta <> 0
+     and l.created_at >= b.range_start
+     and l.created_at < b.range_end
+   group by 1, 2
+   order by 1, 2;
+end;
+$$;
+
+revoke execute on function public.my_xp_heatmap(date, date) from anon, public;
+grant execute on function public.my_xp_heatmap(date, date) to authenticated;
+
+-- Every ISO week the range touches, summed over the whole week; finished is
+-- false for the week in progress.
+create or replace function public.my_xp_weeks(p_from date default null, p_to date default null)
+returns table (week_start date, xp integer, finished boolean)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+begin
+  select * into b from stats_bounds(p_from, p_to);
+
+  return query
+  with w as (
+    select (date_trunc('week', l.created_at at time zone b.tz))::date as week_start,
+           sum(l.delta)::integer as xp
+      from xp_ledger l
+     where l.user_id = auth.uid()
+       and l.created_at >= date_trunc('week', b.from_day::timestamp) at time zone b.tz
+       and l.created_at < (date_trunc('week', b.to_day::timestamp) + interval '1 week') at time zone b.tz
+     group by 1
+  )
+  select g::date,
+         coalesce(w.xp, 0),
+         ((g + interval '1 week') at time zone b.tz) <= now()
+    from generate_series(date_trunc('week', b.from_day::timestamp),
+                         date_trunc('week', b.to_day::timestamp),
+                         interval '1 week') g
+    left join w on w.week_start = g::date
+   order by 1;
+end;
+$$;
+
+revoke execute on function public.my_xp_weeks(date, date) from anon, public;
+grant execute on function public.my_xp_weeks(date, date) to authenticated;
+
+/* ---------- tasks ---------- */
+-- Graded tasks due in the range: one row per category (task_category(), with
+-- 'other' for no match) plus a total row whose category is null.
+-- avg_score is the XP the tasks were scored at, not what was earned.
+create or replace function public.my_task_scores(p_from date default null, p_to date default null)
+returns table (category text, completed integer, missed integer, avg_score numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+begin
+  select * into b from stats_bounds(p_from, p_to);
+
+  return query
+  select case when grouping(c.category) = 0 then c.category end,
+         count(*) filter (where c.status = 'completed')::integer,
+         count(*) filter (where c.status = 'missed')::integer,
+         round(avg(c.xp_assigned), 1)
+    from (
+      select coalesce(task_category(t.title || ' ' || coalesce(t.description, '')), 'other') as category,
+             t.status,
+             t.xp_assigned
+        from tasks t
+       where t.owner_id = auth.uid()
+         and t.status in ('completed', 'missed')
+         and t.due_at >= b.range_start
+         and t.due_at < b.range_end
+    ) c
+   group by grouping sets ((), (c.category))
+   order by grouping(c.category) desc, count(*) desc, 1;
+end;
+$$;
+
+revoke execute on function public.my_task_scores(date, date) from anon, public;
+grant execute on function public.my_task_scores(date, date) to authenticated;
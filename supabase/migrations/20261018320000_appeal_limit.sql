@@ -0,0 +1,58 @@
+-- The appeal cap lives in task_max_appeals() only: apply_task_rescore enforces
+-- it, the appeal-task edge function and the task list read it from here.
+
+create or replace function public.task_max_appeals()
+returns integer
+language sql
+immutable
+as $$ select 2 $$;
+
+grant execute on function public.task_max_appeals() to authenticated, service_role;
+
+create or replace function public.apply_task_rescore(
+  p_task_id   uuid,
+  p_user_id   uuid,
+  p_context   text,
+  p_xp        integer,
+  p_rationale text,
+  p_scorer    text
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be appealed' using errcode = '22023';
+  end if;
+  if t.appeal_count >= task_max_appeals() then
+    raise exception 'appeal limit reached (% per task)', task_max_appeals() using errcode = '22023';
+  end if;
+
+  insert into task_rescores (task_id, user_id, context, xp_before, xp_after,
+                             rationale_before, rationale_after, scorer)
+  values (t.id, p_user_id, p_context, t.xp_assigned, p_xp,
+          t.xp_rationale, p_rationale, p_scorer);
+
+  update tasks
+     set xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         appeal_count = appeal_count + 1
+   where id = t.id
+  returning * into t;
+
+  return t;
+end;
+$$;
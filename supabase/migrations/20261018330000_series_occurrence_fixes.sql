@@ -0,0 +1,88 @@
+-- Recurring task fixes:
+--
+--   * skip_occurrence refuses occurrences that are already due, so a late one
+--     can't dodge the missed penalty during the grace period
+--   * sync_series_instances keeps the due date of occurrences the owner
+--     rescheduled (a 'reschedule' row in task_changes)
+
+create or replace function public.sync_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+
+  delete from tasks t
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and (not s.active or not series_occurs_on(s, t.occurrence_date));
+
+  update tasks t
+     set title        = s.title,
+         description  = s.description,
+         due_at       = case
+                          when exists (select 1 from task_changes c
+                                        where c.task_id = t.id and c.action = 'reschedule')
+                          then t.due_at
+                          else (t.occurrence_date + s.due_time) at time zone s.timezone
+                        end,
+         xp_assigned  = s.xp_assigned,
+         xp_rationale = s.xp_rationale,
+         xp_scorer    = s.xp_scorer,
+         est_minutes  = s.est_minutes,
+         difficulty   = s.difficulty
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now();
+
+  return generate_series_instances(s.id);
+end;
+$$;
+
+create or replace function public.skip_occurrence(p_series_id uuid, p_date date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+  due timestamptz;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found or s.owner_id is distinct from auth.uid() then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+  if not series_occurs_on(s, p_date) then
+    raise exception 'series has no occurrence on %', p_date using errcode = '22023';
+  end if;
+
+  -- a generated occurrence may have been rescheduled
+  select t.due_at into due
+    from tasks t
+   where t.series_id = s.id
+     and t.occurrence_date = p_date;
+  if coalesce(due, (p_date + s.due_time) at time zone s.timezone) <= now() then
+    raise exception 'this occurrence is already due' using errcode = '22023';
+  end if;
+
+  insert into tasks (owner_id, series_id, occurrence_date, title, description,
+                     due_at, xp_assigned, xp_rationale, xp_scorer, est_minutes,
+                     difficulty, status)
+  values (s.owner_id, s.id, p_date, s.title, s.description,
+          (p_date + s.due_time) at time zone s.timezone,
+          s.xp_assigned, s.xp_rationale, s.xp_scorer, s.est_minutes,
+          s.difficulty, 'skipped')
+  on conflict (series_id, occurrence_date)
+  do update set status = 'skipped'
+           where tasks.status = 'open';
+end;
+$$;
@@ -0,0 +1,34 @@
+-- Squad presence moves to one private Realtime channel per squad,
+-- "squad-online:<squad id>". Realtime checks these policies on join, so only
+-- members see (and appear in) a squad's online list. The global "online"
+-- channel no longer carries anyone's squad ids.
+
+-- The squad id in a squad presence topic, or null for any other topic.
+create or replace function public.squad_presence_topic_squad(p_topic text)
+returns uuid
+language sql
+immutable
+as $$
+  select case
+           when p_topic ~ '^squad-online:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+           then split_part(p_topic, ':', 2)::uuid
+         end;
+$$;
+
+grant execute on function public.squad_presence_topic_squad(text) to authenticated;
+
+create policy "squad members receive squad presence"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'presence'
+    and public.is_squad_member(public.squad_presence_topic_squad(realtime.topic()))
+  );
+
+create policy "squad members track squad presence"
+  on realtime.messages for insert
+  to authenticated
+  with check (
+    realtime.messages.extension = 'presence'
+    and public.is_squad_member(public.squad_presence_topic_squad(realtime.topic()))
+  );
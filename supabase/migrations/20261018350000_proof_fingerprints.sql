@@ -0,0 +1,174 @@
+-- Duplicate detection leans on the photo fingerprint the app computes before
+-- upload. A photo that arrives without one skipped the check entirely, so it
+-- is now flagged 'no_hash' for the reviewer. Photos of the same submission are
+-- also compared with each other: the same shot attached twice is refused.
+
+create or replace function public.complete_task_with_proof(
+  p_task_id uuid,
+  p_attachments jsonb,
+  p_note text default null,
+  p_step_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  a jsonb;
+  pos integer := 0;
+  photos integer;
+  videos integer;
+  hash bit(64);
+  taken timestamptz;
+  size bigint;
+  nearest record;
+  dup_id uuid;
+  found_flags text[] := '{}';
+  new_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from auth.uid() then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if p_step_id is null then
+    if exists (select 1 from task_steps where task_id = t.id) then
+      raise exception 'this task is checked off step by step' using errcode = '22023';
+    end if;
+  else
+    if not exists (select 1 from task_steps where id = p_step_id and task_id = t.id) then
+      raise exception 'step not found' using errcode = 'P0002';
+    end if;
+    if exists (select 1 from task_proofs where step_id = p_step_id) then
+      raise exception 'this step already has proof' using errcode = '22023';
+    end if;
+  end if;
+  if jsonb_typeof(p_attachments) is distinct from 'array' or jsonb_array_length(p_attachments) = 0 then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  select count(*) filter (where x->>'kind' = 'photo'),
+         count(*) filter (where x->>'kind' = 'video')
+    into photos, videos
+    from jsonb_array_elements(p_attachments) as e (x);
+
+  if photos + videos <> jsonb_array_length(p_attachments) then
+    raise exception 'attachments must be photos or videos' using errcode = '22023';
+  end if;
+  if photos > proof_max_photos() then
+    raise exception 'a proof can have at most % photos', proof_max_photos() using errcode = '22023';
+  end if;
+  if videos > proof_max_videos() then
+    raise exception 'a proof can have at most % video', proof_max_videos() using errcode = '22023';
+  end if;
+
+  insert into task_proofs (task_id, step_id, user_id, review_ends_at, note)
+  values (t.id, p_step_id, t.owner_id, now() + proof_review_window(), nullif(trim(p_note), ''))
+  returning id into new_id;
+
+  if p_step_id is null or task_unproven_xp(t.id) = 0 then
+    update tasks
+       set status = 'pending', completed_at = now()
+     where id = t.id;
+  end if;
+
+  for a in
+    select x from jsonb_array_elements(p_attachments) with ordinality as e (x, n) order by n
+  loop
+    if coalesce(trim(a->>'url'), '') = '' then
+      raise exception 'attachment url is required' using errcode = '22023';
+    end if;
+    hash := null;
+    taken := null;
+    size := null;
+
+    if a->>'kind' = 'video' then
+      -- trust the stored object, not the client, for the size
+      select (o.metadata->>'size')::bigint into size
+        from storage.objects o
+       where o.bucket_id = 'proof-videos'
+         and o.name = substring(a->>'url' from '/proof-videos/(.+)$')
+         and (storage.foldername(o.name))[1] = t.owner_id::text;
+
+      if size is null then
+        raise exception 'video upload not found' using errcode = 'P0002';
+      end if;
+      if size > proof_max_video_bytes() then
+        raise exception 'videos can be at most % MB', proof_max_video_bytes() / (1024 * 1024)
+          using errcode = '22023';
+      end if;
+      if coalesce((a->>'duration_ms')::integer, 0) > proof_max_video_ms() then
+        raise exception 'videos can be at most % seconds', proof_max_video_ms() / 1000
+          using errcode = '22023';
+      end if;
+    else
+      if a->>'phash' is null then
+        if not 'no_hash' = any (found_flags) then
+          found_flags := array_append(found_flags, 'no_hash');
+        end if;
+      else
+        if a->>'phash' !~ '^[0-9a-fA-F]{16}$' then
+          raise exception 'invalid image hash' using errcode = '22023';
+        end if;
+        hash := ('x' || (a->>'phash'))::bit(64);
+
+        if exists (select 1
+                     from proof_attachments pa
+                    where pa.proof_id = new_id
+                      and bit_count(pa.phash # hash) <= proof_duplicate_bits()) then
+          raise exception 'the same photo is attached more than once' using errcode = '22023';
+        end if;
+
+        select tp.id, pt.title, bit_count(pa.phash # hash) as distance
+          into nearest
+          from proof_attachments pa
+          join task_proofs tp on tp.id = pa.proof_id
+          join tasks pt on pt.id = tp.task_id
+         where tp.user_id = t.owner_id
+           and tp.id <> new_id
+           and pa.phash is not null
+         order by bit_count(pa.phash # hash)
+         limit 1;
+
+        if nearest.id is not null and nearest.distance <= proof_duplicate_bits() then
+          raise exception 'this photo was already used as proof for "%"', nearest.title
+            using errcode = '22023';
+        end if;
+        if nearest.id is not null and nearest.distance <= proof_similar_bits() and dup_id is null then
+          found_flags := array_append(found_flags, 'duplicate');
+          dup_id := nearest.id;
+        end if;
+      end if;
+
+      taken := (a->>'captured_at')::timestamptz;
+      if taken is not null
+         and (taken < t.created_at - proof_clock_slack() or taken > now() + proof_clock_slack())
+         and not 'capture_time' = any (found_flags) then
+        found_flags := array_append(found_flags, 'capture_time');
+      end if;
+    end if;
+
+    insert into proof_attachments (proof_id, position, kind, url, thumb_url, bytes, duration_ms, phash, captured_at)
+    values (new_id, pos, a->>'kind', a->>'url', nullif(a->>'thumb_url', ''), size,
+            (a->>'duration_ms')::integer, hash, taken);
+    pos := pos + 1;
+  end loop;
+
+  update task_proofs
+     set flags = found_flags, duplicate_of = dup_id
+   where id = new_id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.complete_task_with_proof(uuid, jsonb, text, uuid) from anon, public;
+grant execute on function public.complete_task_with_proof(uuid, jsonb, text, uuid) to authenticated;
@@ -0,0 +1,65 @@
+-- Editing a task re-scores it, which made every edit a free re-roll of its XP.
+-- An edit whose new score differs now uses one of the task's appeals, and once
+-- they are used up only edits that keep the score go through.
+
+create or replace function public.apply_task_edit(
+  p_task_id     uuid,
+  p_user_id     uuid,
+  p_title       text,
+  p_description text,
+  p_xp          integer,
+  p_rationale   text,
+  p_scorer      text
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  updated tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be edited' using errcode = '22023';
+  end if;
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'title is required' using errcode = '22023';
+  end if;
+  if p_xp is distinct from t.xp_assigned and t.appeal_count >= task_max_appeals() then
+    raise exception 'appeal limit reached (% per task), so this edit can''t change the XP', task_max_appeals()
+      using errcode = '22023';
+  end if;
+
+  update tasks
+     set title        = trim(p_title),
+         description  = nullif(trim(p_description), ''),
+         xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         appeal_count = appeal_count + (p_xp is distinct from t.xp_assigned)::integer
+   where id = t.id
+  returning * into updated;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, p_user_id, 'edit',
+          jsonb_build_object('title', t.title, 'description', t.description, 'xp_assigned', t.xp_assigned),
+          jsonb_build_object('title', updated.title, 'description', updated.description,
+                             'xp_assigned', updated.xp_assigned));
+
+  return updated;
+end;
+$$;
+
+revoke execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text)
+  from anon, authenticated, public;
+grant execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text)
+  to service_role;
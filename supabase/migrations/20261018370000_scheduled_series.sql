@@ -0,0 +1,30 @@
+-- Series occurrences were only generated when their owner opened the Tasks
+-- page, so a player who stopped opening the app never had a recurring task go
+-- missed. The scheduled job now tops up every active series first, then grades.
+
+create or replace function public.run_scheduled_grading()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform generate_series_instances(s.id)
+     from task_series s
+    where s.active;
+
+  perform grade_overdue_tasks(null);
+  perform settle_due_proofs();
+
+  -- users whose local yesterday hasn't been closed yet
+  perform close_streak_days(p.id)
+     from profiles p
+    where p.streak_checked_through is null
+       or p.streak_checked_through < (now() at time zone p.timezone)::date - 1;
+
+  perform crown_weekly_champions();
+  perform resolve_due_challenges();
+end;
+$$;
+
+revoke execute on function public.run_scheduled_grading() from anon, authenticated, public;
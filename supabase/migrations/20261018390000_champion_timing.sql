@@ -0,0 +1,68 @@
+-- Weekly champions fixes:
+--
+--   * a week is crowned only once proofs submitted in it are past their
+--     review window, since approval backdates the XP into that week
+--   * every week the job has looked at is recorded in crowned_weeks, winner or
+--     not, so a week nobody finished above zero isn't re-scanned every run
+
+create table public.crowned_weeks (
+  week_start date primary key,
+  crowned_at timestamptz not null default now()
+);
+
+alter table public.crowned_weeks enable row level security;
+revoke all on public.crowned_weeks from anon, authenticated;
+
+insert into public.crowned_weeks (week_start, crowned_at)
+select week_start, min(created_at)
+  from public.weekly_champions
+ group by week_start;
+
+create or replace function public.crown_weekly_champions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+  wk date;
+  uid uuid;
+  n integer := 0;
+begin
+  select * into b from leaderboard_bounds('week');
+  wk := (b.prev_start at time zone leaderboard_timezone())::date;
+  if now() < b.prev_end + proof_review_window() then
+    return 0;
+  end if;
+
+  insert into crowned_weeks (week_start) values (wk)
+  on conflict do nothing;
+  if not found then
+    return 0;
+  end if;
+
+  for uid in
+    insert into weekly_champions (week_start, user_id, xp)
+    select wk, s.user_id, s.xp
+      from (
+        select l.user_id,
+               sum(l.delta)::integer as xp,
+               rank() over (order by sum(l.delta) desc) as rnk
+          from xp_ledger l
+         where l.created_at >= b.prev_start
+           and l.created_at < b.prev_end
+         group by l.user_id
+      ) s
+     where s.rnk = 1
+       and s.xp > 0
+    returning user_id
+  loop
+    perform check_achievements(uid, 'weekly_top');
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
+
+revoke execute on function public.crown_weekly_champions() from anon, authenticated, public;
@@ -0,0 +1,139 @@
+-- Challenge fixes:
+--
+--   * most_xp counts each entrant's XP from when they joined, not from the
+--     challenge's start, so accepting late can't bank XP already earned
+--   * live scores are only shown to entrants; an invitee sees them once they
+--     join or the challenge is resolved
+--   * a most_xp challenge waits past its deadline while an entrant's proof
+--     from the window is still in review (at most proof_review_window()),
+--     since approval backdates the XP into the window
+
+/* ---------- scoring ---------- */
+create or replace function public.challenge_score(p_challenge_id uuid, p_user_id uuid)
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  n integer;
+begin
+  select * into c from challenges where id = p_challenge_id;
+  if not found then
+    return null;
+  end if;
+
+  if c.kind = 'most_xp' then
+    select coalesce(sum(l.delta), 0) into n
+      from xp_ledger l
+      join challenge_participants cp
+        on cp.challenge_id = c.id and cp.user_id = l.user_id
+     where l.user_id = p_user_id
+       and l.created_at >= greatest(c.starts_at, cp.responded_at)
+       and l.created_at < c.ends_at
+       and l.reason not like 'challenge %';
+  else
+    select case when t.status = 'completed' and t.completed_at < c.ends_at then 1 else 0 end into n
+      from challenge_participants cp
+      join tasks t on t.id = cp.task_id
+     where cp.challenge_id = p_challenge_id
+       and cp.user_id = p_user_id;
+  end if;
+  return coalesce(n, 0);
+end;
+$$;
+
+/* ---------- resolution ---------- */
+-- Resolve every challenge past its deadline. A race waits while an entry
+-- finished in time is still in review; most_xp waits while an entrant's proof
+-- submitted in the window is, up to proof_review_window() past the deadline.
+create or replace function public.resolve_due_challenges()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  n integer := 0;
+begin
+  for r in
+    select c.id
+      from challenges c
+     where c.status in ('pending', 'active')
+       and c.ends_at <= now()
+       and not exists (
+         select 1
+           from challenge_participants cp
+           join tasks t on t.id = cp.task_id
+          where cp.challenge_id = c.id
+            and cp.status = 'accepted'
+            and t.status = 'pending'
+            and t.completed_at < c.ends_at
+       )
+       and (c.kind <> 'most_xp'
+            or c.ends_at + proof_review_window() <= now()
+            or not exists (
+              select 1
+                from challenge_participants cp
+                join task_proofs tp on tp.user_id = cp.user_id
+               where cp.challenge_id = c.id
+                 and cp.status = 'accepted'
+                 and tp.status = 'pending'
+                 and tp.submitted_at >= greatest(c.starts_at, cp.responded_at)
+                 and tp.submitted_at < c.ends_at
+            ))
+     order by c.ends_at
+     limit 200
+  loop
+    perform resolve_challenge(r.id);
+    n := n + 1;
+  end loop;
+  return n;
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- The caller's challenges, with everyone in them. score is live for entrants
+-- until the challenge resolves, then frozen and shown to everyone.
+create or replace view public.my_challenges as
+select
+  c.id,
+  c.creator_id,
+  c.kind,
+  c.title,
+  c.squad_id,
+  s.name as squad_name,
+  c.stake,
+  c.starts_at,
+  c.ends_at,
+  c.status,
+  c.resolved_at,
+  c.created_at,
+  me.status as my_status,
+  me.result as my_result,
+  coalesce(ps.participants, '[]') as participants
+from public.challenges c
+join public.challenge_participants me
+  on me.challenge_id = c.id and me.user_id = auth.uid()
+left join public.squads s on s.id = c.squad_id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'user_id', cp.user_id,
+           'display_name', p.display_name,
+           'avatar_url', p.avatar_url,
+           'status', cp.status,
+           'result', cp.result,
+           'task_title', t.title,
+           'score', case when cp.status <> 'accepted' then null
+                         when cp.score is not null then cp.score
+                         when me.status = 'accepted' then public.challenge_score(c.id, cp.user_id)
+                    end
+         ) order by (cp.user_id = c.creator_id) desc, p.display_name) as participants
+    from public.challenge_participants cp
+    left join public.profiles p on p.id = cp.user_id
+    left join public.tasks t on t.id = cp.task_id
+   where cp.challenge_id = c.id
+) ps on true;
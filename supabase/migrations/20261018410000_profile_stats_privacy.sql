@@ -0,0 +1,63 @@
+-- profile_visibility also covers the views public_profiles reads from. A
+-- hidden player's users_xp row keeps level and tier (shown next to their name
+-- everywhere) but not the XP behind them, and their streaks and streak events
+-- are only readable by those allowed to see their profile.
+
+create or replace view public.users_xp as
+select
+  u.user_id,
+  case when v.visible then u.xp end as xp,
+  public.xp_level(u.xp) as level,
+  public.level_tier(public.xp_level(u.xp)) as tier,
+  case when v.visible and u.xp >= 0 then public.level_min_xp(public.xp_level(u.xp)) end as level_xp,
+  case when not v.visible then null
+       when u.xp >= 0 then public.level_min_xp(public.xp_level(u.xp) + 1)
+       else 0
+  end as next_level_xp
+from (
+  select p.id as user_id, coalesce(sum(l.delta), 0)::integer as xp
+    from public.profiles p
+    left join public.xp_ledger l on l.user_id = p.id
+   group by p.id
+) u
+cross join lateral (select public.can_view_profile(u.user_id) as visible) v;
+
+create or replace view public.user_streaks as
+with base as (
+  select p.id as user_id,
+         p.streak_freezes,
+         public.local_today(p.id) as today
+    from public.profiles p
+), cur as (
+  select b.*,
+         public.streak_ending_on(b.user_id, b.today)     as through_today,
+         public.streak_ending_on(b.user_id, b.today - 1) as through_yesterday,
+         exists (select 1 from public.user_activity_days a
+                  where a.user_id = b.user_id and a.day = b.today and a.done) as done_today
+    from base b
+), islands as (
+  select user_id,
+         count(*) filter (where done) as len,
+         max(day) filter (where done) as last_day
+    from (
+      select a.*, a.day - (row_number() over (partition by a.user_id order by a.day))::integer as grp
+        from public.user_activity_days a
+    ) g
+   group by user_id, grp
+)
+select c.user_id,
+       greatest(c.through_today, c.through_yesterday)::integer as current_streak,
+       coalesce((select max(i.len) from islands i where i.user_id = c.user_id), 0)::integer as longest_streak,
+       (select max(i.last_day) from islands i where i.user_id = c.user_id) as last_active_day,
+       c.done_today,
+       (not c.done_today and c.through_yesterday > 0) as at_risk,
+       c.streak_freezes
+  from cur c
+ where public.can_view_profile(c.user_id);
+
+drop policy "streak events are readable by signed-in users" on public.streak_events;
+
+create policy "streak events follow profile visibility"
+  on public.streak_events for select
+  to authenticated
+  using (public.can_view_profile(user_id));
@@ -0,0 +1,331 @@
+-- Task categories are stored instead of derived in SQL. The edge functions
+-- set tasks.category (and task_series.category) from the heuristic scorer's
+-- keyword rules whenever they score a task, so RULES in
+-- supabase/functions/_shared/scoring.ts is the only copy; task_category(), the
+-- SQL mirror of it, is used once below to backfill and then dropped.
+-- public_profiles and my_task_scores aggregate the column.
+
+alter table public.tasks add column category text;
+alter table public.task_series add column category text;
+
+update public.tasks
+   set category = public.task_category(title || ' ' || coalesce(description, ''));
+update public.task_series
+   set category = public.task_category(title || ' ' || coalesce(description, ''));
+
+/* ---------- read models ---------- */
+-- One row per player; the stats columns are null unless visible is true.
+-- weekly_xp uses the leaderboard's week.
+create or replace view public.public_profiles as
+select
+  p.id,
+  p.display_name,
+  p.avatar_url,
+  p.created_at,
+  p.profile_visibility,
+  x.level,
+  x.tier,
+  v.visible,
+  case when v.visible then x.xp end as total_xp,
+  case when v.visible then w.xp end as weekly_xp,
+  case when v.visible then s.current_streak end as current_streak,
+  case when v.visible then s.longest_streak end as longest_streak,
+  case when v.visible then tc.completed end as completed_count,
+  case when v.visible then tc.missed end as missed_count,
+  case when v.visible then coalesce(cat.categories, '[]') end as top_categories
+from public.profiles p
+cross join lateral (select public.can_view_profile(p.id) as visible) v
+left join public.users_xp x on x.user_id = p.id
+left join public.user_streaks s on s.user_id = p.id
+left join lateral (
+  select coalesce(sum(l.delta), 0)::integer as xp
+    from public.xp_ledger l
+    cross join public.leaderboard_bounds('week') b
+   where l.user_id = p.id
+     and l.created_at >= b.cur_start
+     and l.created_at < b.cur_end
+) w on true
+left join lateral (
+  select count(*) filter (where t.status = 'completed')::integer as completed,
+         count(*) filter (where t.status = 'missed')::integer as missed
+    from public.tasks t
+   where t.owner_id = p.id
+) tc on true
+left join lateral (
+  select jsonb_agg(jsonb_build_object('category', c.category, 'count', c.n) order by c.n desc, c.category) as categories
+    from (
+      select coalesce(t.category, 'other') as category,
+             count(*)::integer as n
+        from public.tasks t
+       where t.owner_id = p.id
+         and t.status = 'completed'
+       group by 1
+       order by 2 desc, 1
+       limit 3
+    ) c
+) cat on true;
+
+-- Graded tasks due in the range: one row per stored category ('other' for
+-- none) plus a total row whose category is null.
+create or replace function public.my_task_scores(p_from date default null, p_to date default null)
+returns table (category text, completed integer, missed integer, avg_score numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  b record;
+begin
+  select * into b from stats_bounds(p_from, p_to);
+
+  return query
+  select case when grouping(c.category) = 0 then c.category end,
+         count(*) filter (where c.status = 'completed')::integer,
+         count(*) filter (where c.status = 'missed')::integer,
+         round(avg(c.xp_assigned), 1)
+    from (
+      select coalesce(t.category, 'other') as category,
+             t.status,
+             t.xp_assigned
+        from tasks t
+       where t.owner_id = auth.uid()
+         and t.status in ('completed', 'missed')
+         and t.due_at >= b.range_start
+         and t.due_at < b.range_end
+    ) c
+   group by grouping sets ((), (c.category))
+   order by grouping(c.category) desc, count(*) desc, 1;
+end;
+$$;
+
+drop function public.task_category(text);
+
+/* ---------- scoring writes ---------- */
+drop function public.create_task_series(uuid, text, text, integer, smallint, integer, text, text, text, integer, smallint[], timestamptz, text, date);
+
+create or replace function public.create_task_series(
+  p_owner_id      uuid,
+  p_title         text,
+  p_description   text,
+  p_est_minutes   integer,
+  p_difficulty    smallint,
+  p_xp            integer,
+  p_rationale     text,
+  p_scorer        text,
+  p_freq          text,
+  p_interval_days integer,
+  p_by_weekday    smallint[],
+  p_first_due_at  timestamptz,
+  p_timezone      text,
+  p_until         date,
+  p_category      text default null
+)
+returns public.task_series
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  insert into task_series (owner_id, title, description, est_minutes, difficulty,
+                           xp_assigned, xp_rationale, xp_scorer, category, freq, interval_days,
+                           by_weekday, due_time, timezone, starts_on, until)
+  values (p_owner_id, p_title, p_description, p_est_minutes, p_difficulty,
+          p_xp, p_rationale, p_scorer, p_category, p_freq, p_interval_days,
+          p_by_weekday, (p_first_due_at at time zone p_timezone)::time, p_timezone,
+          (p_first_due_at at time zone p_timezone)::date, p_until)
+  returning * into s;
+
+  perform generate_series_instances(s.id);
+  return s;
+end;
+$$;
+
+revoke execute on function public.create_task_series(uuid, text, text, integer, smallint, integer, text, text, text, integer, smallint[], timestamptz, text, date, text) from anon, authenticated, public;
+grant execute on function public.create_task_series(uuid, text, text, integer, smallint, integer, text, text, text, integer, smallint[], timestamptz, text, date, text) to service_role;
+
+drop function public.apply_task_edit(uuid, uuid, text, text, integer, text, text);
+
+create or replace function public.apply_task_edit(
+  p_task_id     uuid,
+  p_user_id     uuid,
+  p_title       text,
+  p_description text,
+  p_xp          integer,
+  p_rationale   text,
+  p_scorer      text,
+  p_category    text default null
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  updated tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be edited' using errcode = '22023';
+  end if;
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'title is required' using errcode = '22023';
+  end if;
+  if p_xp is distinct from t.xp_assigned and t.appeal_count >= task_max_appeals() then
+    raise exception 'appeal limit reached (% per task), so this edit can''t change the XP', task_max_appeals()
+      using errcode = '22023';
+  end if;
+
+  update tasks
+     set title        = trim(p_title),
+         description  = nullif(trim(p_description), ''),
+         xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         category     = p_category,
+         appeal_count = appeal_count + (p_xp is distinct from t.xp_assigned)::integer
+   where id = t.id
+  returning * into updated;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, p_user_id, 'edit',
+          jsonb_build_object('title', t.title, 'description', t.description, 'xp_assigned', t.xp_assigned),
+          jsonb_build_object('title', updated.title, 'description', updated.description,
+                             'xp_assigned', updated.xp_assigned));
+
+  return updated;
+end;
+$$;
+
+revoke execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text, text)
+  from anon, authenticated, public;
+grant execute on function public.apply_task_edit(uuid, uuid, text, text, integer, text, text, text)
+  to service_role;
+
+/* ---------- series ---------- */
+-- Occurrences carry the series' category like its score.
+create or replace function public.generate_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  insert into tasks (owner_id, series_id, occurrence_date, title, description,
+                     due_at, xp_assigned, xp_rationale, xp_scorer, category, est_minutes, difficulty)
+  select s.owner_id, s.id, d::date, s.title, s.description,
+         (d::date + s.due_time) at time zone s.timezone,
+         s.xp_assigned, s.xp_rationale, s.xp_scorer, s.category, s.est_minutes, s.difficulty
+    from task_series s
+   cross join lateral generate_series(
+           greatest(s.starts_on, (now() at time zone s.timezone)::date),
+           (now() at time zone s.timezone)::date + series_horizon_days(),
+           interval '1 day') as d
+   where s.id = p_series_id
+     and s.active
+     and series_occurs_on(s, d::date)
+     and (d::date + s.due_time) at time zone s.timezone > now()
+  on conflict (series_id, occurrence_date) do nothing;
+
+  get diagnostics n = row_count;
+  return n;
+end;
+$$;
+
+create or replace function public.sync_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+
+  -- occurrences with step proof stay as they are: their score is locked
+  delete from tasks t
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and (not s.active or not series_occurs_on(s, t.occurrence_date))
+     and not exists (select 1 from task_proofs tp where tp.task_id = t.id);
+
+  update tasks t
+     set title        = s.title,
+         description  = s.description,
+         due_at       = case
+                          when exists (select 1 from task_changes c
+                                        where c.task_id = t.id and c.action = 'reschedule')
+                          then t.due_at
+                          else (t.occurrence_date + s.due_time) at time zone s.timezone
+                        end,
+         xp_assigned  = s.xp_assigned,
+         xp_rationale = s.xp_rationale,
+         xp_scorer    = s.xp_scorer,
+         category     = s.category,
+         est_minutes  = s.est_minutes,
+         difficulty   = s.difficulty
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and not exists (select 1 from task_proofs tp where tp.task_id = t.id);
+
+  return generate_series_instances(s.id);
+end;
+$$;
+
+create or replace function public.skip_occurrence(p_series_id uuid, p_date date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+  due timestamptz;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found or s.owner_id is distinct from auth.uid() then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+  if not series_occurs_on(s, p_date) then
+    raise exception 'series has no occurrence on %', p_date using errcode = '22023';
+  end if;
+
+  -- a generated occurrence may have been rescheduled
+  select t.due_at into due
+    from tasks t
+   where t.series_id = s.id
+     and t.occurrence_date = p_date;
+  if coalesce(due, (p_date + s.due_time) at time zone s.timezone) <= now() then
+    raise exception 'this occurrence is already due' using errcode = '22023';
+  end if;
+
+  insert into tasks (owner_id, series_id, occurrence_date, title, description,
+                     due_at, xp_assigned, xp_rationale, xp_scorer, category,
+                     est_minutes, difficulty, status)
+  values (s.owner_id, s.id, p_date, s.title, s.description,
+          (p_date + s.due_time) at time zone s.timezone,
+          s.xp_assigned, s.xp_rationale, s.xp_scorer, s.category,
+          s.est_minutes, s.difficulty, 'skipped')
+  on conflict (series_id, occurrence_date)
+  do update set status = 'skipped'
+           where tasks.status = 'open';
+end;
+$$;
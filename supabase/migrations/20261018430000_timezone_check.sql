@@ -0,0 +1,34 @@
+-- Timezones are free text the client writes (profiles) or passes through
+-- create-task / update-series (task_series), and the streak views and the
+-- scheduled job evaluate `at time zone` over every row. One unknown name made
+-- them fail for everyone, so only names Postgres knows are accepted now.
+
+create or replace function public.check_timezone()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    raise exception 'unknown timezone "%"', new.timezone using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+update public.profiles
+   set timezone = 'UTC'
+ where timezone not in (select name from pg_timezone_names);
+update public.task_series
+   set timezone = 'UTC'
+ where timezone not in (select name from pg_timezone_names);
+
+create trigger profiles_check_timezone
+  before insert or update of timezone on public.profiles
+  for each row
+  execute function public.check_timezone();
+
+create trigger task_series_check_timezone
+  before insert or update of timezone on public.task_series
+  for each row
+  execute function public.check_timezone();
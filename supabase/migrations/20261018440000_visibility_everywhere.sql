@@ -0,0 +1,151 @@
+-- profile_visibility covers every read path to a player's XP and streak, not
+-- just public_profiles / users_xp / user_streaks: the ledger (and so the feed),
+-- the leaderboard, weekly champions and streak freeze days follow
+-- can_view_profile() too. A private player only shows up for themselves;
+-- "squads" players only for their squadmates. user_activity_days is only read
+-- by the streak functions and views, so signed-in users lose direct access.
+
+drop policy "ledger is readable by signed-in users" on public.xp_ledger;
+
+create policy "ledger follows profile visibility"
+  on public.xp_ledger for select
+  to authenticated
+  using (public.can_view_profile(user_id));
+
+drop policy "freeze days are readable by signed-in users" on public.streak_freeze_days;
+
+create policy "freeze days follow profile visibility"
+  on public.streak_freeze_days for select
+  to authenticated
+  using (public.can_view_profile(user_id));
+
+drop policy "weekly champions are readable by signed-in users" on public.weekly_champions;
+
+create policy "weekly champions follow profile visibility"
+  on public.weekly_champions for select
+  to authenticated
+  using (public.can_view_profile(user_id));
+
+revoke select on public.user_activity_days from authenticated;
+
+/* ---------- leaderboard ---------- */
+-- As before, over the players the caller may see.
+create or replace function public.leaderboard(
+  p_window    text default 'week',
+  p_season_id uuid default null,
+  p_limit     integer default 5,
+  p_offset    integer default 0,
+  p_squad_id  uuid default null
+)
+returns table (user_id uuid, xp integer, vote_xp integer, rank integer, prev_rank integer, total integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if p_squad_id is not null and not is_squad_member(p_squad_id) then
+    raise exception 'squad not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with b as (
+    select * from leaderboard_bounds(p_window, p_season_id)
+  ), players as (
+    select p.id as user_id, '-infinity'::timestamptz as since
+      from profiles p
+     where p_squad_id is null
+       and can_view_profile(p.id)
+    union all
+    select sm.user_id, sm.joined_at
+      from squad_members sm
+     where sm.squad_id = p_squad_id
+       and can_view_profile(sm.user_id)
+  ), sums as (
+    select pl.user_id,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end), 0) as cur_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.cur_start and l.created_at < b.cur_end
+                                           and l.reason = 'vote adjustment'), 0) as cur_vote_xp,
+           coalesce(sum(l.delta) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end), 0) as prev_xp,
+           count(l.id) filter (where l.created_at >= b.prev_start and l.created_at < b.prev_end
+                                 and l.reason not in ('level up', 'achievement', 'challenge lost')) as prev_rows
+      from players pl
+      cross join b
+      left join xp_ledger l on l.user_id = pl.user_id and l.created_at >= pl.since
+     group by pl.user_id
+  ), ranked as (
+    select s.user_id,
+           s.cur_xp::integer as xp,
+           s.cur_vote_xp::integer as vote_xp,
+           (rank() over (order by s.cur_xp desc))::integer as rank,
+           case when s.prev_rows > 0
+                then (rank() over (order by s.prev_xp desc))::integer
+           end as prev_rank,
+           (count(*) over ())::integer as total
+      from sums s
+  )
+  select * from ranked r
+   order by r.rank, r.user_id
+   limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- squad_xp_ledger_view reads this view, so squad feeds are filtered as well.
+create or replace view public.xp_ledger_view as
+select
+  l.id,
+  l.user_id,
+  l.task_id,
+  l.delta,
+  l.reason,
+  l.created_at,
+  t.title        as task_title,
+  p.display_name as user_name,
+  p.avatar_url   as user_avatar_url,
+  l.source_ledger_id,
+  coalesce(v.vote_xp, 0)::integer as vote_xp,
+  tp.id          as proof_id,
+  coalesce(public.open_proof_flags(tp), '{}') as proof_flags,
+  tp.note        as proof_note,
+  coalesce(att.attachments, '[]') as attachments,
+  (u.id is not null) as undone,
+  st.title       as step_title,
+  le.level,
+  le.tier,
+  ua.achievement_key,
+  ach.name       as achievement_name,
+  ach.icon       as achievement_icon,
+  ach.description as achievement_description,
+  ch.id          as challenge_id,
+  ch.title       as challenge_title,
+  ch.kind        as challenge_kind
+from public.xp_ledger l
+left join public.tasks t on t.id = l.task_id
+left join public.profiles p on p.id = l.user_id
+left join lateral (
+  select sum(a.delta) as vote_xp
+    from public.xp_ledger a
+   where a.source_ledger_id = l.id
+     and a.reason = 'vote adjustment'
+) v on true
+left join public.task_proofs tp on tp.ledger_id = l.id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'id', a.id, 'kind', a.kind, 'url', a.url, 'thumb_url', a.thumb_url,
+           'duration_ms', a.duration_ms
+         ) order by a.position) as attachments
+    from public.proof_attachments a
+   where a.proof_id = tp.id
+) att on true
+left join public.xp_ledger u
+  on u.source_ledger_id = l.id and u.reason = 'completion undone'
+left join public.task_steps st on st.id = tp.step_id
+left join public.level_events le on le.ledger_id = l.id
+left join public.user_achievements ua on ua.ledger_id = l.id
+left join public.achievements ach on ach.key = ua.achievement_key
+left join public.challenge_participants chp on chp.result_ledger_id = l.id
+left join public.challenges ch on ch.id = chp.challenge_id
+where public.can_view_profile(l.user_id);
@@ -0,0 +1,224 @@
+-- The photo fingerprint and capture time used to come from the app, so a
+-- modified client could send any hash (dodging the duplicate check) or any
+-- timestamp. Proofs now go through the submit-proof edge function: it hashes
+-- the stored full-size photo and reads EXIF from the untouched original the
+-- app parks in the private proof-originals bucket, then records the proof via
+-- apply_task_proof. Clients can no longer call the RPC with their own values.
+-- A photo whose original carries no capture time is flagged 'no_capture_time'
+-- for the reviewer, like a photo without a fingerprint ('no_hash').
+
+/* ---------- originals ---------- */
+-- Read once by submit-proof and deleted right after; nobody else reads them.
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('proof-originals', 'proof-originals', false, 30 * 1024 * 1024)
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit;
+
+create policy "owners upload proof originals"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'proof-originals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Originals add up to four files per submission.
+create or replace function public.rate_limit_rule(p_action text)
+returns table (capacity integer, refill_every interval, label text)
+language sql
+immutable
+as $$
+  select r.capacity, r.refill_every, r.label
+    from (values
+      ('vote',    20, interval '3 seconds', 'votes'),
+      ('chat',    15, interval '4 seconds', 'messages'),
+      ('proof',   28, interval '3 minutes', 'proof uploads'),
+      ('scoring', 10, interval '3 minutes', 'scoring requests')
+    ) as r (action, capacity, refill_every, label)
+   where r.action = p_action;
+$$;
+
+drop trigger task_proofs_upload_rate_limit on storage.objects;
+
+create trigger task_proofs_upload_rate_limit
+  before insert on storage.objects
+  for each row
+  when (new.bucket_id in ('task-proofs', 'proof-videos', 'proof-originals'))
+  execute function public.rate_limit_trigger('proof');
+
+/* ---------- submission ---------- */
+drop function public.complete_task_with_proof(uuid, jsonb, text, uuid);
+
+-- Service-only: called by submit-proof after it filled in phash and
+-- captured_at for every photo.
+create or replace function public.apply_task_proof(
+  p_task_id uuid,
+  p_user_id uuid,
+  p_attachments jsonb,
+  p_note text default null,
+  p_step_id uuid default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  a jsonb;
+  pos integer := 0;
+  photos integer;
+  videos integer;
+  hash bit(64);
+  taken timestamptz;
+  size bigint;
+  nearest record;
+  dup_id uuid;
+  found_flags text[] := '{}';
+  new_id uuid;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'task is already %', t.status using errcode = '22023';
+  end if;
+  if p_step_id is null then
+    if exists (select 1 from task_steps where task_id = t.id) then
+      raise exception 'this task is checked off step by step' using errcode = '22023';
+    end if;
+  else
+    if not exists (select 1 from task_steps where id = p_step_id and task_id = t.id) then
+      raise exception 'step not found' using errcode = 'P0002';
+    end if;
+    if exists (select 1 from task_proofs where step_id = p_step_id and status <> 'rejected') then
+      raise exception 'this step already has proof' using errcode = '22023';
+    end if;
+  end if;
+  if jsonb_typeof(p_attachments) is distinct from 'array' or jsonb_array_length(p_attachments) = 0 then
+    raise exception 'proof is required' using errcode = '22023';
+  end if;
+
+  select count(*) filter (where x->>'kind' = 'photo'),
+         count(*) filter (where x->>'kind' = 'video')
+    into photos, videos
+    from jsonb_array_elements(p_attachments) as e (x);
+
+  if photos + videos <> jsonb_array_length(p_attachments) then
+    raise exception 'attachments must be photos or videos' using errcode = '22023';
+  end if;
+  if photos > proof_max_photos() then
+    raise exception 'a proof can have at most % photos', proof_max_photos() using errcode = '22023';
+  end if;
+  if videos > proof_max_videos() then
+    raise exception 'a proof can have at most % video', proof_max_videos() using errcode = '22023';
+  end if;
+
+  insert into task_proofs (task_id, step_id, user_id, review_ends_at, note)
+  values (t.id, p_step_id, t.owner_id, now() + proof_review_window(), nullif(trim(p_note), ''))
+  returning id into new_id;
+
+  if p_step_id is null or task_unproven_xp(t.id) = 0 then
+    update tasks
+       set status = 'pending', completed_at = now()
+     where id = t.id;
+  end if;
+
+  for a in
+    select x from jsonb_array_elements(p_attachments) with ordinality as e (x, n) order by n
+  loop
+    if coalesce(trim(a->>'url'), '') = '' then
+      raise exception 'attachment url is required' using errcode = '22023';
+    end if;
+    hash := null;
+    taken := null;
+    size := null;
+
+    if a->>'kind' = 'video' then
+      -- trust the stored object, not the client, for the size
+      select (o.metadata->>'size')::bigint into size
+        from storage.objects o
+       where o.bucket_id = 'proof-videos'
+         and o.name = substring(a->>'url' from '/proof-videos/(.+)$')
+         and (storage.foldername(o.name))[1] = t.owner_id::text;
+
+      if size is null then
+        raise exception 'video upload not found' using errcode = 'P0002';
+      end if;
+      if size > proof_max_video_bytes() then
+        raise exception 'videos can be at most % MB', proof_max_video_bytes() / (1024 * 1024)
+          using errcode = '22023';
+      end if;
+      if coalesce((a->>'duration_ms')::integer, 0) > proof_max_video_ms() then
+        raise exception 'videos can be at most % seconds', proof_max_video_ms() / 1000
+          using errcode = '22023';
+      end if;
+    else
+      if a->>'phash' is null then
+        if not 'no_hash' = any (found_flags) then
+          found_flags := array_append(found_flags, 'no_hash');
+        end if;
+      else
+        if a->>'phash' !~ '^[0-9a-fA-F]{16}$' then
+          raise exception 'invalid image hash' using errcode = '22023';
+        end if;
+        hash := ('x' || (a->>'phash'))::bit(64);
+
+        if exists (select 1
+                     from proof_attachments pa
+                    where pa.proof_id = new_id
+                      and bit_count(pa.phash # hash) <= proof_duplicate_bits()) then
+          raise exception 'the same photo is attached more than once' using errcode = '22023';
+        end if;
+
+        select tp.id, pt.title, bit_count(pa.phash # hash) as distance
+          into nearest
+          from proof_attachments pa
+          join task_proofs tp on tp.id = pa.proof_id
+          join tasks pt on pt.id = tp.task_id
+         where tp.user_id = t.owner_id
+           and tp.id <> new_id
+           and pa.phash is not null
+         order by bit_count(pa.phash # hash)
+         limit 1;
+
+        if nearest.id is not null and nearest.distance <= proof_duplicate_bits() then
+          raise exception 'this photo was already used as proof for "%"', nearest.title
+            using errcode = '22023';
+        end if;
+        if nearest.id is not null and nearest.distance <= proof_similar_bits() and dup_id is null then
+          found_flags := array_append(found_flags, 'duplicate');
+          dup_id := nearest.id;
+        end if;
+      end if;
+
+      taken := (a->>'captured_at')::timestamptz;
+      if taken is null then
+        if not 'no_capture_time' = any (found_flags) then
+          found_flags := array_append(found_flags, 'no_capture_time');
+        end if;
+      elsif (taken < t.created_at - proof_clock_slack() or taken > now() + proof_clock_slack())
+         and not 'capture_time' = any (found_flags) then
+        found_flags := array_append(found_flags, 'capture_time');
+      end if;
+    end if;
+
+    insert into proof_attachments (proof_id, position, kind, url, thumb_url, bytes, duration_ms, phash, captured_at)
+    values (new_id, pos, a->>'kind', a->>'url', nullif(a->>'thumb_url', ''), size,
+            (a->>'duration_ms')::integer, hash, taken);
+    pos := pos + 1;
+  end loop;
+
+  update task_proofs
+     set flags = found_flags, duplicate_of = dup_id
+   where id = new_id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.apply_task_proof(uuid, uuid, jsonb, text, uuid) from anon, authenticated, public;
+grant execute on function public.apply_task_proof(uuid, uuid, jsonb, text, uuid) to service_role;
@@ -0,0 +1,52 @@
+-- 'completions' rules matched params.keywords anywhere in the title, so
+-- "Shoplift" counted towards Gym Rat ("lift") and "benchmark" too ("bench").
+-- Keywords now have to be whole words, and a rule can count a stored task
+-- category instead (params.category, see tasks.category). Gym Rat uses the
+-- scorer's "gym" category, so it counts the same tasks the scorer calls gym.
+--
+--   completions       tasks completed; params.category (optional) only counts
+--                     tasks of that category, params.keywords (optional) only
+--                     tasks whose title contains one of the words
+
+create or replace function public.achievement_progress(p_user_id uuid, p_metric text, p_params jsonb default '{}')
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  n integer;
+begin
+  case p_metric
+    when 'completions' then
+      select count(*) into n
+        from tasks t
+       where t.owner_id = p_user_id
+         and t.status = 'completed'
+         and (not (p_params ? 'category') or t.category = p_params ->> 'category')
+         and (not (p_params ? 'keywords')
+              or exists (select 1 from jsonb_array_elements_text(p_params -> 'keywords') k
+                          where t.title ~* ('\y' || regexp_replace(k, '([^[:alnum:][:space:]])', '\\\1', 'g') || '\y')));
+    when 'streak' then
+      n := streak_ending_on(p_user_id, local_today(p_user_id));
+    when 'weekly_top' then
+      select count(*) into n from weekly_champions where user_id = p_user_id;
+    when 'upvotes_received' then
+      select count(*) into n
+        from xp_reactions r
+        join xp_ledger l on l.id = r.ledger_id
+       where l.user_id = p_user_id
+         and r.value = 1;
+    else
+      raise exception 'unknown achievement metric %', p_metric using errcode = '22023';
+  end case;
+  return coalesce(n, 0);
+end;
+$$;
+
+revoke execute on function public.achievement_progress(uuid, text, jsonb) from anon, authenticated, public;
+
+update public.achievements
+   set params = '{"category": "gym"}'
+ where key = 'gym_10';
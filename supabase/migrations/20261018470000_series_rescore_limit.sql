@@ -0,0 +1,8 @@
+-- Editing a series' title or description re-scores it (update-series), which
+-- made every wording change a free re-roll of the XP all its occurrences get.
+-- A series now counts its changed scores against task_max_appeals() like a
+-- task edit does; once they are used up only edits that keep the score go
+-- through.
+
+alter table public.task_series
+  add column appeal_count integer not null default 0;
@@ -0,0 +1,28 @@
+-- A proof that squadmates reject after it was approved reverses the
+-- completion's XP (reject_proof), but the 'task completed' row still counted
+-- as a done streak day. Rejected completions no longer keep a streak alive,
+-- same as undone ones.
+
+create or replace view public.user_activity_days as
+select user_id, day, bool_or(done) as done
+from (
+  select l.user_id,
+         (l.created_at at time zone p.timezone)::date as day,
+         true as done
+    from public.xp_ledger l
+    join public.profiles p on p.id = l.user_id
+   where l.reason = 'task completed'
+     and not public.completion_undone(l.id)
+     and not public.completion_rejected(l.id)
+  union all
+  select tp.user_id,
+         (tp.submitted_at at time zone p.timezone)::date,
+         true
+    from public.task_proofs tp
+    join public.profiles p on p.id = tp.user_id
+   where tp.status = 'pending'
+  union all
+  select f.user_id, f.day, false
+    from public.streak_freeze_days f
+) d
+group by user_id, day;
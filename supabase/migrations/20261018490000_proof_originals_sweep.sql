@@ -0,0 +1,59 @@
+-- Photo originals keep their full EXIF, GPS included, and used to stay in
+-- proof-originals whenever a submission failed before submit-proof cleaned
+-- them up. The app now uploads them last and removes them itself on error, and
+-- every five minutes pg_cron calls the sweep-proof-originals edge function,
+-- which deletes (through the Storage API, so the files go too) any original
+-- older than proof_original_max_age().
+--
+-- The job reads the project URL and service role key from Vault:
+--   select vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+create extension if not exists pg_net;
+
+create policy "owners delete proof originals"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'proof-originals' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- A submission reads its originals within seconds; anything older is debris.
+create or replace function public.proof_original_max_age()
+returns interval
+language sql
+immutable
+as $$ select interval '10 minutes' $$;
+
+-- Service-only: a batch of originals for sweep-proof-originals to delete.
+create or replace function public.stale_proof_originals(p_limit integer default 500)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select o.name
+    from storage.objects o
+   where o.bucket_id = 'proof-originals'
+     and o.created_at < now() - proof_original_max_age()
+   order by o.created_at
+   limit p_limit;
+$$;
+
+revoke execute on function public.stale_proof_originals(integer) from anon, authenticated, public;
+grant execute on function public.stale_proof_originals(integer) to service_role;
+
+select cron.schedule(
+  'sweep-proof-originals',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+           || '/functions/v1/sweep-proof-originals',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,55 @@
+-- The heuristic scorer ignores the appeal text, so when the scorer chain falls
+-- through to it an appeal comes back with the same XP -- and still used up one
+-- of task_max_appeals(). A heuristic re-score that leaves the XP unchanged is
+-- still logged in task_rescores but no longer counts against the cap.
+
+create or replace function public.apply_task_rescore(
+  p_task_id   uuid,
+  p_user_id   uuid,
+  p_context   text,
+  p_xp        integer,
+  p_rationale text,
+  p_scorer    text
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  counted boolean;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be appealed' using errcode = '22023';
+  end if;
+  if t.appeal_count >= task_max_appeals() then
+    raise exception 'appeal limit reached (% per task)', task_max_appeals() using errcode = '22023';
+  end if;
+
+  counted := not (p_scorer = 'heuristic' and p_xp = t.xp_assigned);
+
+  insert into task_rescores (task_id, user_id, context, xp_before, xp_after,
+                             rationale_before, rationale_after, scorer)
+  values (t.id, p_user_id, p_context, t.xp_assigned, p_xp,
+          t.xp_rationale, p_rationale, p_scorer);
+
+  update tasks
+     set xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         appeal_count = appeal_count + counted::integer
+   where id = t.id
+  returning * into t;
+
+  return t;
+end;
+$$;
@@ -0,0 +1,27 @@
+-- check_timezone() only accepts names in pg_timezone_names, but create-task and
+-- update-series let through any zone Intl knows, so a name Postgres lacks
+-- failed the insert with a 500. is_known_timezone() is now the one list both
+-- sides check: the edge functions fall back to UTC for names it refuses.
+
+create or replace function public.is_known_timezone(p_name text)
+returns boolean
+language sql
+stable
+as $$
+  select exists (select 1 from pg_timezone_names where name = p_name);
+$$;
+
+grant execute on function public.is_known_timezone(text) to authenticated, service_role;
+
+create or replace function public.check_timezone()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not is_known_timezone(new.timezone) then
+    raise exception 'unknown timezone "%"', new.timezone using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
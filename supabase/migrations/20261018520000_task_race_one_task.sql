@@ -0,0 +1,325 @@
+-- A task_race used to let every entrant put up any one of their own open
+-- tasks, so a five-minute chore could race a marathon, and the entry could be
+-- reworded afterwards through apply_task_edit. A race is now about one task:
+--
+--   * the creator names it by picking one of their open one-off tasks; its
+--     title, description and score are copied onto the challenge
+--   * everyone who accepts gets that same task, due at the deadline, as their
+--     entry (respond_to_challenge no longer takes a task)
+--   * entry tasks can't be edited while the challenge is open
+
+alter table public.challenges
+  add column task_title       text,
+  add column task_description text,
+  add column task_xp          integer,
+  add column task_rationale   text,
+  add column task_scorer      text,
+  add column task_category    text;
+
+update public.challenges c
+   set task_title       = t.title,
+       task_description = t.description,
+       task_xp          = t.xp_assigned,
+       task_rationale   = t.xp_rationale,
+       task_scorer      = t.xp_scorer,
+       task_category    = t.category
+  from public.challenge_participants cp
+  join public.tasks t on t.id = cp.task_id
+ where c.kind = 'task_race'
+   and cp.challenge_id = c.id
+   and cp.user_id = c.creator_id;
+
+-- Is the task someone's entry in a challenge that hasn't been settled yet?
+create or replace function public.task_in_open_challenge(p_task_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+      from challenge_participants cp
+      join challenges c on c.id = cp.challenge_id
+     where cp.task_id = p_task_id
+       and c.status in ('pending', 'active')
+  );
+$$;
+
+revoke execute on function public.task_in_open_challenge(uuid) from anon, public;
+grant execute on function public.task_in_open_challenge(uuid) to authenticated;
+
+/* ---------- RPCs ---------- */
+-- As before; a task_race copies the creator's entry task onto the challenge.
+-- Series occurrences are refused: a series edit rewrites them.
+create or replace function public.create_challenge(
+  p_kind        text,
+  p_title       text,
+  p_ends_at     timestamptz,
+  p_stake       integer default 0,
+  p_opponent_id uuid default null,
+  p_squad_id    uuid default null,
+  p_task_id     uuid default null
+)
+returns public.challenges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  t tasks%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if p_kind not in ('most_xp', 'task_race') then
+    raise exception 'unknown challenge kind' using errcode = '22023';
+  end if;
+  if length(trim(coalesce(p_title, ''))) not between 1 and 80 then
+    raise exception 'title must be 1–80 characters' using errcode = '22023';
+  end if;
+  if p_ends_at is null or p_ends_at <= now() or p_ends_at > now() + challenge_max_length() then
+    raise exception 'the deadline must be in the next %', challenge_max_length() using errcode = '22023';
+  end if;
+  if coalesce(p_stake, 0) not between 0 and challenge_max_stake() then
+    raise exception 'stake must be 0–% XP', challenge_max_stake() using errcode = '22023';
+  end if;
+  if (p_opponent_id is null) = (p_squad_id is null) then
+    raise exception 'challenge either a player or a squad' using errcode = '22023';
+  end if;
+  if p_opponent_id = auth.uid() then
+    raise exception 'you can''t challenge yourself' using errcode = '22023';
+  end if;
+  if p_opponent_id is not null and not exists (select 1 from profiles where id = p_opponent_id) then
+    raise exception 'player not found' using errcode = 'P0002';
+  end if;
+  if p_squad_id is not null then
+    if not is_squad_member(p_squad_id) then
+      raise exception 'squad not found' using errcode = 'P0002';
+    end if;
+    if not exists (select 1 from squad_members where squad_id = p_squad_id and user_id <> auth.uid()) then
+      raise exception 'nobody else is in this squad yet' using errcode = '22023';
+    end if;
+  end if;
+  if p_kind = 'task_race' then
+    select * into t
+      from tasks
+     where id = p_task_id
+       and owner_id = auth.uid()
+       and status = 'open';
+    if not found then
+      raise exception 'pick one of your open tasks to race with' using errcode = '22023';
+    end if;
+    if t.series_id is not null then
+      raise exception 'pick a one-off task to race with, not a repeating one' using errcode = '22023';
+    end if;
+    if task_in_open_challenge(t.id) then
+      raise exception 'that task is already in a race' using errcode = '22023';
+    end if;
+  end if;
+
+  insert into challenges (creator_id, kind, title, squad_id, stake, ends_at,
+                          task_title, task_description, task_xp, task_rationale, task_scorer, task_category)
+  values (auth.uid(), p_kind, trim(p_title), p_squad_id, coalesce(p_stake, 0), p_ends_at,
+          t.title, t.description, t.xp_assigned, t.xp_rationale, t.xp_scorer, t.category)
+  returning * into c;
+
+  insert into challenge_participants (challenge_id, user_id, status, task_id, stake_ledger_id, responded_at)
+  values (c.id, auth.uid(), 'accepted', t.id, escrow_challenge_stake(auth.uid(), c.stake), now());
+
+  insert into challenge_participants (challenge_id, user_id)
+  select c.id, u.user_id
+    from (
+      select p_opponent_id as user_id where p_opponent_id is not null
+      union
+      select sm.user_id from squad_members sm where sm.squad_id = p_squad_id and sm.user_id <> auth.uid()
+    ) u;
+
+  return c;
+end;
+$$;
+
+-- Accept (paying the stake; a task_race hands you the race task, due at the
+-- deadline) or decline.
+drop function public.respond_to_challenge(uuid, boolean, uuid);
+
+create or replace function public.respond_to_challenge(
+  p_challenge_id uuid,
+  p_accept       boolean
+)
+returns public.challenges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  c challenges%rowtype;
+  cp challenge_participants%rowtype;
+  entry uuid;
+begin
+  select * into c from challenges where id = p_challenge_id for update;
+  select * into cp
+    from challenge_participants
+   where challenge_id = p_challenge_id
+     and user_id = auth.uid();
+  if c.id is null or cp.user_id is null then
+    raise exception 'challenge not found' using errcode = 'P0002';
+  end if;
+  if cp.status <> 'invited' then
+    raise exception 'you already answered this challenge' using errcode = '22023';
+  end if;
+  if c.status not in ('pending', 'active') or c.ends_at <= now() then
+    raise exception 'this challenge is closed' using errcode = '22023';
+  end if;
+
+  if p_accept then
+    if c.kind = 'task_race' then
+      insert into tasks (owner_id, title, description, due_at, xp_assigned, xp_rationale, xp_scorer, category)
+      values (auth.uid(), c.task_title, c.task_description, c.ends_at,
+              c.task_xp, c.task_rationale, c.task_scorer, c.task_category)
+      returning id into entry;
+    end if;
+
+    update challenge_participants
+       set status          = 'accepted',
+           task_id         = entry,
+           stake_ledger_id = escrow_challenge_stake(auth.uid(), c.stake),
+           responded_at    = now()
+     where challenge_id = c.id
+       and user_id = auth.uid();
+
+    update challenges set status = 'active' where id = c.id and status = 'pending'
+    returning * into c;
+  else
+    update challenge_participants
+       set status = 'declined', responded_at = now()
+     where challenge_id = c.id
+       and user_id = auth.uid();
+
+    -- everyone said no: the creator gets their stake back
+    if c.status = 'pending' and not exists (
+      select 1 from challenge_participants where challenge_id = c.id and status = 'invited'
+    ) then
+      perform refund_challenge_stakes(c.id);
+      update challenges set status = 'declined', resolved_at = now() where id = c.id
+      returning * into c;
+    end if;
+  end if;
+
+  select * into c from challenges where id = p_challenge_id;
+  return c;
+end;
+$$;
+
+revoke execute on function public.respond_to_challenge(uuid, boolean) from anon, public;
+grant execute on function public.respond_to_challenge(uuid, boolean) to authenticated;
+
+/* ---------- edits ---------- */
+-- As before; a race entry keeps its wording until the challenge is settled.
+create or replace function public.apply_task_edit(
+  p_task_id     uuid,
+  p_user_id     uuid,
+  p_title       text,
+  p_description text,
+  p_xp          integer,
+  p_rationale   text,
+  p_scorer      text,
+  p_category    text default null
+)
+returns public.tasks
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t tasks%rowtype;
+  updated tasks%rowtype;
+begin
+  select * into t
+    from tasks
+   where id = p_task_id
+     for update;
+
+  if not found or t.owner_id is distinct from p_user_id then
+    raise exception 'task not found' using errcode = 'P0002';
+  end if;
+  if t.status <> 'open' then
+    raise exception 'only open tasks can be edited' using errcode = '22023';
+  end if;
+  if task_in_open_challenge(t.id) then
+    raise exception 'this task is a challenge entry and can''t be edited until the challenge ends'
+      using errcode = '22023';
+  end if;
+  if coalesce(trim(p_title), '') = '' then
+    raise exception 'title is required' using errcode = '22023';
+  end if;
+  if p_xp is distinct from t.xp_assigned and t.appeal_count >= task_max_appeals() then
+    raise exception 'appeal limit reached (% per task), so this edit can''t change the XP', task_max_appeals()
+      using errcode = '22023';
+  end if;
+
+  update tasks
+     set title        = trim(p_title),
+         description  = nullif(trim(p_description), ''),
+         xp_assigned  = p_xp,
+         xp_rationale = p_rationale,
+         xp_scorer    = p_scorer,
+         category     = p_category,
+         appeal_count = appeal_count + (p_xp is distinct from t.xp_assigned)::integer
+   where id = t.id
+  returning * into updated;
+
+  insert into task_changes (task_id, user_id, action, before, after)
+  values (t.id, p_user_id, 'edit',
+          jsonb_build_object('title', t.title, 'description', t.description, 'xp_assigned', t.xp_assigned),
+          jsonb_build_object('title', updated.title, 'description', updated.description,
+                             'xp_assigned', updated.xp_assigned));
+
+  return updated;
+end;
+$$;
+
+/* ---------- read models ---------- */
+-- As before, plus the race task so an invitee knows what they'd sign up for.
+create or replace view public.my_challenges as
+select
+  c.id,
+  c.creator_id,
+  c.kind,
+  c.title,
+  c.squad_id,
+  s.name as squad_name,
+  c.stake,
+  c.starts_at,
+  c.ends_at,
+  c.status,
+  c.resolved_at,
+  c.created_at,
+  me.status as my_status,
+  me.result as my_result,
+  coalesce(ps.participants, '[]') as participants,
+  c.task_title,
+  c.task_description
+from public.challenges c
+join public.challenge_participants me
+  on me.challenge_id = c.id and me.user_id = auth.uid()
+left join public.squads s on s.id = c.squad_id
+left join lateral (
+  select jsonb_agg(jsonb_build_object(
+           'user_id', cp.user_id,
+           'display_name', p.display_name,
+           'avatar_url', p.avatar_url,
+           'status', cp.status,
+           'result', cp.result,
+           'task_title', t.title,
+           'score', case when cp.status <> 'accepted' then null
+                         when cp.score is not null then cp.score
+                         when me.status = 'accepted' then public.challenge_score(c.id, cp.user_id)
+                    end
+         ) order by (cp.user_id = c.creator_id) desc, p.display_name) as participants
+    from public.challenge_participants cp
+    left join public.profiles p on p.id = cp.user_id
+    left join public.tasks t on t.id = cp.task_id
+   where cp.challenge_id = c.id
+) ps on true;
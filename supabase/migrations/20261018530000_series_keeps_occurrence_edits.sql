@@ -0,0 +1,56 @@
+-- Editing a whole series rewrote the wording and score of every future open
+-- occurrence, including ones edited on their own through apply_task_edit, so
+-- a single-occurrence edit was silently lost on the next series edit. Like a
+-- rescheduled occurrence keeps its due date, an edited one ('edit' row in
+-- task_changes) now keeps its title, description, score and category.
+
+create or replace function public.sync_series_instances(p_series_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s task_series%rowtype;
+begin
+  select * into s from task_series where id = p_series_id;
+  if not found then
+    raise exception 'series not found' using errcode = 'P0002';
+  end if;
+
+  -- occurrences with step proof stay as they are: their score is locked
+  delete from tasks t
+   where t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and (not s.active or not series_occurs_on(s, t.occurrence_date))
+     and not exists (select 1 from task_proofs tp where tp.task_id = t.id);
+
+  update tasks t
+     set title        = case when k.edited then t.title else s.title end,
+         description  = case when k.edited then t.description else s.description end,
+         due_at       = case when k.moved then t.due_at
+                             else (t.occurrence_date + s.due_time) at time zone s.timezone
+                        end,
+         xp_assigned  = case when k.edited then t.xp_assigned else s.xp_assigned end,
+         xp_rationale = case when k.edited then t.xp_rationale else s.xp_rationale end,
+         xp_scorer    = case when k.edited then t.xp_scorer else s.xp_scorer end,
+         category     = case when k.edited then t.category else s.category end,
+         est_minutes  = s.est_minutes,
+         difficulty   = s.difficulty
+    from (
+      select x.id,
+             exists (select 1 from task_changes c where c.task_id = x.id and c.action = 'edit') as edited,
+             exists (select 1 from task_changes c where c.task_id = x.id and c.action = 'reschedule') as moved
+        from tasks x
+       where x.series_id = s.id
+    ) k
+   where k.id = t.id
+     and t.series_id = s.id
+     and t.status = 'open'
+     and t.due_at > now()
+     and not exists (select 1 from task_proofs tp where tp.task_id = t.id);
+
+  return generate_series_instances(s.id);
+end;
+$$;
@@ -0,0 +1,49 @@
+-- Post rooms were open to every signed-in player, so the discussion under a
+-- private or squads-only player's activity (and its task title in the room
+-- list) stayed readable through chat by anyone holding the ledger id. A post
+-- room now follows can_view_profile() of the post's owner, like the ledger
+-- and the feed do.
+
+create or replace function public.can_access_room(p_room_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from chat_rooms r
+      left join xp_ledger l on l.id = r.ledger_id
+     where r.id = p_room_id
+       and (r.kind = 'global'
+            or (r.kind = 'post' and can_view_profile(l.user_id))
+            or (r.kind = 'squad' and is_squad_member(r.squad_id))
+            or (r.kind = 'dm' and auth.uid() in (r.dm_user_a, r.dm_user_b)))
+  );
+$$;
+
+-- Get-or-create the discussion room under an activity post the caller may see.
+create or replace function public.open_post_room(p_ledger_id uuid)
+returns public.chat_rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r chat_rooms%rowtype;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '28000';
+  end if;
+  if not exists (select 1 from xp_ledger where id = p_ledger_id and can_view_profile(user_id)) then
+    raise exception 'post not found' using errcode = 'P0002';
+  end if;
+
+  insert into chat_rooms (kind, ledger_id)
+  values ('post', p_ledger_id)
+  on conflict (ledger_id) where kind = 'post' do nothing;
+
+  select * into r from chat_rooms where kind = 'post' and ledger_id = p_ledger_id;
+  return r;
+end;
+$$;
@@ -0,0 +1,48 @@
+-- Votes move XP, but check_xp_reaction never asked whether the voter may see
+-- the post, so a player could vote on a private or squads-only player's
+-- completion knowing only its ledger id. Casting or flipping a vote now needs
+-- can_view_profile() of the post's owner, the same check the ledger's read
+-- policy uses.
+
+create or replace function public.check_xp_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  post xp_ledger%rowtype;
+  prior integer;
+begin
+  select * into post from xp_ledger where id = new.ledger_id;
+  if not found or not can_view_profile(post.user_id) then
+    raise exception 'post not found' using errcode = 'P0002';
+  end if;
+
+  if tg_op = 'UPDATE' then
+    if new.ledger_id <> old.ledger_id or new.voter_id <> old.voter_id then
+      raise exception 'a vote can''t be moved' using errcode = '22023';
+    end if;
+    new.weight := old.weight; -- flipping a vote keeps its weight
+    return new;
+  end if;
+
+  if post.reason <> 'task completed' or completion_undone(post.id) then
+    raise exception 'only completed tasks can be voted on' using errcode = '22023';
+  end if;
+  if post.user_id = new.voter_id then
+    raise exception 'you can''t vote on your own post' using errcode = '42501';
+  end if;
+
+  select count(*) into prior
+    from xp_reactions r
+    join xp_ledger l on l.id = r.ledger_id
+   where r.voter_id = new.voter_id
+     and l.user_id = post.user_id
+     and r.ledger_id <> new.ledger_id
+     and r.created_at > now() - vote_decay_window();
+
+  new.weight := power(0.5, prior);
+  return new;
+end;
+$$;
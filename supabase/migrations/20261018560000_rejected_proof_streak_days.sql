@@ -0,0 +1,68 @@
+-- A pending proof keeps its day alive in user_activity_days, so
+-- close_streak_days walks past it without burning a freeze or recording a
+-- break. When the proof was rejected later nothing looked at that day again,
+-- and the streak carried on over a day with no accepted completion. A
+-- rejected proof now re-closes its day once the rejection commits: if the day
+-- was already closed and has nothing left in it, it burns a freeze or records
+-- the break, as close_streak_days would have.
+
+create or replace function public.reclose_streak_day(p_user_id uuid, p_day date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p profiles%rowtype;
+  len integer;
+begin
+  select * into p from profiles where id = p_user_id for update;
+  if not found or p.streak_checked_through is null or p_day > p.streak_checked_through then
+    return; -- not closed yet; close_streak_days gets to it
+  end if;
+  if exists (select 1 from user_activity_days where user_id = p_user_id and day = p_day)
+     or exists (select 1 from streak_events
+                 where user_id = p_user_id and day = p_day and kind in ('break', 'freeze_used')) then
+    return;
+  end if;
+
+  len := streak_ending_on(p_user_id, p_day - 1);
+  if len = 0 then
+    return;
+  end if;
+
+  if p.streak_freezes > 0 then
+    insert into streak_freeze_days (user_id, day) values (p_user_id, p_day);
+    update profiles set streak_freezes = streak_freezes - 1 where id = p_user_id;
+    insert into streak_events (user_id, kind, day, streak_length)
+    values (p_user_id, 'freeze_used', p_day, len);
+  else
+    insert into streak_events (user_id, kind, day, streak_length)
+    values (p_user_id, 'break', p_day, len);
+  end if;
+end;
+$$;
+
+revoke execute on function public.reclose_streak_day(uuid, date) from anon, authenticated, public;
+
+create or replace function public.reclose_rejected_proof_day()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform reclose_streak_day(
+    new.user_id,
+    (new.submitted_at at time zone (select timezone from profiles where id = new.user_id))::date);
+  return null;
+end;
+$$;
+
+-- deferred, so the day is judged after reject_proof has written everything
+create constraint trigger task_proofs_reclose_streak_day
+  after update of status on public.task_proofs
+  deferrable initially deferred
+  for each row
+  when (new.status = 'rejected' and old.status is distinct from 'rejected')
+  execute function public.reclose_rejected_proof_day();
@@ -0,0 +1,122 @@
+-- Local dev seed (runs after migrations on `supabase start` / `supabase db reset`).
+-- Three players, all with password "password123":
+--   alex@jock.local, sam@jock.local, jordan@jock.local
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+select
+  '00000000-0000-0000-0000-000000000000', u.id, 'authenticated', 'authenticated', u.email,
+  crypt('password123', gen_salt('bf')), now(),
+  '{"provider":"email","providers":["email"]}'::jsonb,
+  jsonb_build_object('display_name', u.display_name),
+  now() - interval '14 days', now(),
+  '', '', '', ''
+from (values
+  ('11111111-1111-1111-1111-111111111111'::uuid, 'alex@jock.local',   'Alex'),
+  ('22222222-2222-2222-2222-222222222222'::uuid, 'sam@jock.local',    'Sam'),
+  ('33333333-3333-3333-3333-333333333333'::uuid, 'jordan@jock.local', 'Jordan')
+) as u (id, email, display_name);
+
+insert into auth.identities (
+  provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+)
+select
+  u.id::text, u.id,
+  jsonb_build_object('sub', u.id::text, 'email', u.email, 'email_verified', true),
+  'email', now(), now(), now()
+from auth.users u
+where u.email like '%@jock.local';
+
+-- profiles are created by the on_auth_user_created trigger
+
+insert into public.tasks (id, owner_id, title, description, due_at, xp_assigned, category, status, completed_at, created_at)
+values
+  ('a0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'Gym: push day', 'Bench, OHP, dips', now() - interval '2 days', 30, 'gym', 'completed', now() - interval '2 days 1 hour', now() - interval '3 days'),
+  ('a0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111',
+   'Study 3h for stats exam', null, now() + interval '1 day', 35, 'study', 'open', null, now() - interval '1 day'),
+  ('a0000000-0000-0000-0000-000000000003', '22222222-2222-2222-2222-222222222222',
+   '5km run', 'Around the park', now() - interval '1 day', 25, 'cardio', 'completed', now() - interval '1 day 2 hours', now() - interval '2 days'),
+  ('a0000000-0000-0000-0000-000000000004', '22222222-2222-2222-2222-222222222222',
+   'Clean the flat', null, now() - interval '3 days', 10, 'chores', 'missed', null, now() - interval '4 days'),
+  ('a0000000-0000-0000-0000-000000000005', '33333333-3333-3333-3333-333333333333',
+   'Read 30 pages', null, now() + interval '2 days', 20, 'skill building', 'open', null, now());
+
+insert into public.xp_ledger (id, user_id, task_id, delta, reason, created_at)
+values
+  ('b0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', 30, 'task completed', now() - interval '2 days 1 hour'),
+  ('b0000000-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222',
+   'a0000000-0000-0000-0000-000000000003', 25, 'task completed', now() - interval '1 day 2 hours'),
+  ('b0000000-0000-0000-0000-000000000003', '22222222-2222-2222-2222-222222222222',
+   'a0000000-0000-0000-0000-000000000004', -5, 'task missed', now() - interval '3 days');
+
+update public.tasks set penalty_xp = -5 where id = 'a0000000-0000-0000-0000-000000000004';
+
+insert into public.task_steps (task_id, position, title)
+values
+  ('a0000000-0000-0000-0000-000000000002', 0, 'Lecture notes, weeks 1-4'),
+  ('a0000000-0000-0000-0000-000000000002', 1, 'Problem set 3'),
+  ('a0000000-0000-0000-0000-000000000002', 2, 'Past paper under timed conditions');
+
+insert into public.xp_reactions (ledger_id, voter_id, value)
+values
+  ('b0000000-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 1),
+  ('b0000000-0000-0000-0000-000000000001', '33333333-3333-3333-3333-333333333333', 1),
+  ('b0000000-0000-0000-0000-000000000002', '11111111-1111-1111-1111-111111111111', -1);
+
+insert into public.chat_messages (room_id, user_id, content, created_at)
+select r.id, m.user_id, m.content, m.created_at
+from public.chat_rooms r
+cross join (values
+  ('11111111-1111-1111-1111-111111111111'::uuid, 'Push day done 💪', now() - interval '2 days'),
+  ('22222222-2222-2222-2222-222222222222'::uuid, 'Nice. Run tomorrow.', now() - interval '2 days' + interval '5 minutes'),
+  ('33333333-3333-3333-3333-333333333333'::uuid, 'Who''s up for a study session?', now() - interval '1 hour')
+) as m (user_id, content, created_at)
+where r.kind = 'global';
+
+-- a recurring habit; occurrences are generated when Alex opens Tasks
+insert into public.task_series (owner_id, title, est_minutes, difficulty, xp_assigned, xp_rationale, xp_scorer,
+                                category, freq, due_time, timezone, starts_on)
+values ('11111111-1111-1111-1111-111111111111', 'Gym session', 60, 3, 34,
+        'Counts as gym; 60 min at difficulty 3.', 'heuristic', 'gym',
+        'weekdays', '18:00', 'UTC', current_date);
+
+insert into public.seasons (name, starts_at, ends_at)
+values
+  ('Summer Shred', date_trunc('month', now()) - interval '3 months', date_trunc('month', now())),
+  ('Autumn Grind', date_trunc('month', now()), date_trunc('month', now()) + interval '3 months');
+
+-- Alex and Sam share a squad; Jordan can join with code GYMBROS1
+insert into public.squads (id, name, owner_id, invite_code, created_at)
+values ('c0000000-0000-0000-0000-000000000001', 'Gym Bros',
+        '11111111-1111-1111-1111-111111111111', 'GYMBROS1', now() - interval '14 days');
+
+insert into public.squad_members (squad_id, user_id, role, joined_at)
+values
+  ('c0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'owner',  now() - interval '14 days'),
+  ('c0000000-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'member', now() - interval '14 days');
+
+-- the squad's room is created by the squads_create_room trigger
+insert into public.chat_messages (room_id, user_id, content, created_at)
+select id, '22222222-2222-2222-2222-222222222222', 'Leg day tomorrow, no excuses.', now() - interval '3 hours'
+from public.chat_rooms
+where squad_id = 'c0000000-0000-0000-0000-000000000001';
+
+-- a DM between Alex and Sam
+insert into public.chat_rooms (id, kind, dm_user_a, dm_user_b)
+values ('d0000000-0000-0000-0000-000000000001', 'dm',
+        '11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222');
+
+insert into public.chat_messages (room_id, user_id, content, created_at)
+values ('d0000000-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111',
+        'Spot me on bench later?', now() - interval '30 minutes');
+
+-- seeded completions skip the achievement triggers; award what they've earned
+insert into public.user_achievements (user_id, achievement_key, earned_at)
+values
+  ('11111111-1111-1111-1111-111111111111', 'first_completion', now() - interval '2 days 1 hour'),
+  ('22222222-2222-2222-2222-222222222222', 'first_completion', now() - interval '1 day 2 hours');